@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server"
+import { promises as fs } from "fs"
+import path from "path"
+
+// Local stand-in for attachment storage, only served outside production
+const STORAGE_ROOT = path.join(process.cwd(), ".attachments")
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".webp": "image/webp",
+  ".gif": "image/gif",
+  ".heic": "image/heic",
+  ".pdf": "application/pdf",
+}
+
+type RouteContext = { params: { path: string[] } }
+
+// Resolve the file for a request, refusing anything outside the storage folder
+const resolveFile = (segments: string[]): string | null => {
+  if (process.env.NODE_ENV === "production") return null
+
+  const filePath = path.resolve(STORAGE_ROOT, ...segments)
+  return filePath.startsWith(STORAGE_ROOT + path.sep) ? filePath : null
+}
+
+const notFound = () => NextResponse.json({ error: "Not found" }, { status: 404 })
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const filePath = resolveFile(params.path)
+  if (!filePath) return notFound()
+
+  try {
+    const data = await fs.readFile(filePath)
+    const contentType = CONTENT_TYPES[path.extname(filePath).toLowerCase()] || "application/octet-stream"
+    return new NextResponse(data, { headers: { "Content-Type": contentType } })
+  } catch {
+    return notFound()
+  }
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  const filePath = resolveFile(params.path)
+  if (!filePath) return notFound()
+
+  try {
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    await fs.writeFile(filePath, Buffer.from(await request.arrayBuffer()))
+    return NextResponse.json({ path: params.path.join("/") })
+  } catch (error: any) {
+    console.error("Error writing local attachment:", error)
+    return NextResponse.json({ error: error.message || "Could not save the file" }, { status: 500 })
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const filePath = resolveFile(params.path)
+  if (!filePath) return notFound()
+
+  try {
+    await fs.rm(filePath, { force: true })
+    return NextResponse.json({ path: params.path.join("/") })
+  } catch (error: any) {
+    console.error("Error deleting local attachment:", error)
+    return NextResponse.json({ error: error.message || "Could not delete the file" }, { status: 500 })
+  }
+}
@@ -50,7 +50,7 @@ export default function FinancialTrendsPage() {
         <p className="text-muted-foreground mt-2">Visualize your income, expenses, and savings over time</p>
       </div>
 
-      <FilterProvider>
+      <FilterProvider syncWithUrl>
         <div className="grid gap-6">
           {isLoading ? <UnifiedFilterSkeleton /> : <UnifiedFilter />}
 
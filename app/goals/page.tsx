@@ -1,23 +1,30 @@
 "use client"
 
-import { useEffect } from "react"
+import { useEffect, useState } from "react"
 import { useRouter } from "next/navigation"
 import { useAuth } from "@/contexts/auth-context"
 import { AppLayout } from "@/components/layout/app-layout"
+import { GoalManager } from "@/components/goals/goal-manager"
 
 export default function GoalsPage() {
   const { user, isLoading } = useAuth()
   const router = useRouter()
+  const [authChecked, setAuthChecked] = useState(false)
 
   useEffect(() => {
-    if (!isLoading && !user) {
-      router.push("/auth")
+    if (!isLoading) {
+      if (!user) {
+        console.log("No user found, redirecting to auth page")
+        router.push("/auth")
+      } else {
+        setAuthChecked(true)
+      }
     }
   }, [isLoading, user, router])
 
-  if (isLoading) {
+  if (isLoading || !authChecked) {
     return (
-      <div className="flex min-h-screen flex-col items-center justify-center">
+      <div className="flex min-h-screen flex-col items-center justify-center w-full">
         <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
       </div>
     )
@@ -29,11 +36,8 @@ export default function GoalsPage() {
 
   return (
     <AppLayout>
-      <div className="p-6">
-        <h1 className="text-2xl font-bold mb-6">Goal Progress</h1>
-        <div className="bg-card border rounded-lg p-8 text-center">
-          <p className="text-lg text-muted-foreground">Goal tracking feature is coming soon!</p>
-        </div>
+      <div className="p-6 w-full">
+        <GoalManager />
       </div>
     </AppLayout>
   )
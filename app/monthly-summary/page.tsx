@@ -7,14 +7,16 @@ import { AppLayout } from "@/components/layout/app-layout"
 import { MonthSelector } from "@/components/month-selector"
 import { MonthlyMetrics } from "@/components/monthly-metrics"
 import { CategoryBreakdown } from "@/components/category-breakdown"
+import { TagBreakdown } from "@/components/tag-breakdown"
 import { MonthlyComparison } from "@/components/monthly-comparison"
 import { TopTransactions } from "@/components/top-transactions"
 import { expenseService } from "@/lib/expense-service"
+import { useExpenseAggregates } from "@/hooks/use-expense-aggregates"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
 import { Button } from "@/components/ui/button"
 import { AlertCircle, RefreshCw } from "lucide-react"
 import type { Expense } from "@/types/expense"
-import { startOfMonth, isSameMonth, subMonths } from "date-fns"
+import { startOfMonth, endOfMonth, isSameMonth, subMonths } from "date-fns"
 
 export default function MonthlySummaryPage() {
   const { user, isLoading } = useAuth()
@@ -89,6 +91,17 @@ export default function MonthlySummaryPage() {
     })
   }, [expenses, selectedMonth])
 
+  // Totals come from the database rather than the loaded transactions
+  const previousMonth = subMonths(selectedMonth, 1)
+  const { aggregates } = useExpenseAggregates(
+    startOfMonth(selectedMonth).toISOString(),
+    endOfMonth(selectedMonth).toISOString(),
+  )
+  const { aggregates: previousAggregates } = useExpenseAggregates(
+    startOfMonth(previousMonth).toISOString(),
+    endOfMonth(previousMonth).toISOString(),
+  )
+
   const handleRefresh = async () => {
     setIsLoadingExpenses(true)
     setError(null)
@@ -157,18 +170,19 @@ export default function MonthlySummaryPage() {
         ) : (
           <div className="space-y-6 w-full">
             <MonthlyMetrics
-              expenses={monthlyExpenses}
+              totals={aggregates.totals}
               selectedMonth={selectedMonth}
-              previousMonthExpenses={previousMonthExpenses}
+              previousTotals={previousAggregates.totals}
             />
 
             <div className="grid grid-cols-1 md:grid-cols-4 gap-6 w-full">
-              <CategoryBreakdown expenses={monthlyExpenses} type="expense" />
+              <CategoryBreakdown categories={aggregates.byCategory} type="expense" />
               <MonthlyComparison
                 expenses={monthlyExpenses}
                 selectedMonth={selectedMonth}
                 previousMonthExpenses={previousMonthExpenses}
               />
+              <TagBreakdown expenses={monthlyExpenses} type="expense" />
             </div>
 
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6 w-full">
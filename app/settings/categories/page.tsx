@@ -17,11 +17,13 @@ import { MergeCategoriesForm } from "@/components/category/merge-categories-form
 import { useCategories } from "@/contexts/category-context"
 import { categoryService, type Category } from "@/lib/category-service"
 import { useToast } from "@/hooks/use-toast"
+import { useUndoToast } from "@/hooks/use-undo-toast"
 
 export default function CategoriesPage() {
   const router = useRouter()
   const { categories, isLoading, refreshCategories } = useCategories()
   const { toast } = useToast()
+  const showUndoToast = useUndoToast()
 
   // State for dialogs
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false)
@@ -104,10 +106,7 @@ export default function CategoriesPage() {
     setIsSubmitting(true)
     try {
       await categoryService.deleteCategory(id, replacementId)
-      toast({
-        title: "Success",
-        description: "Category deleted successfully",
-      })
+      showUndoToast("Category deleted", undefined, refreshCategories)
       setIsDeleteDialogOpen(false)
       setDeletingCategory(null)
       refreshCategories()
@@ -128,10 +127,7 @@ export default function CategoriesPage() {
     setIsSubmitting(true)
     try {
       await categoryService.mergeCategories(sourceId, targetId)
-      toast({
-        title: "Success",
-        description: "Categories merged successfully",
-      })
+      showUndoToast("Categories merged", undefined, refreshCategories)
       setIsMergeDialogOpen(false)
       setMergeSourceCategory(null)
       setIsMergeMode(false)
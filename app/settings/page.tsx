@@ -6,7 +6,7 @@ import Link from "next/link"
 import { usePathname } from "next/navigation"
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { cn } from "@/lib/utils"
-import { UserCircle, Settings, Tags, Save } from "lucide-react"
+import { UserCircle, Settings, Tags, Wand2, Save } from "lucide-react"
 
 interface SettingsLayoutProps {
   children: React.ReactNode
@@ -46,6 +46,11 @@ function SettingsTabs() {
       label: "Categories",
       icon: <Tags className="h-4 w-4 mr-2" />,
     },
+    {
+      href: "/settings/rules",
+      label: "Rules",
+      icon: <Wand2 className="h-4 w-4 mr-2" />,
+    },
     {
       href: "/settings/backup",
       label: "Backup & Sync",
@@ -55,7 +60,7 @@ function SettingsTabs() {
 
   return (
     <Tabs defaultValue={pathname} className="w-full">
-      <TabsList className="grid grid-cols-4 w-full">
+      <TabsList className="grid grid-cols-5 w-full">
         {tabs.map((tab) => (
           <TabsTrigger
             key={tab.href}
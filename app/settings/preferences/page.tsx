@@ -4,6 +4,7 @@ import { useEffect } from "react"
 import { useRouter } from "next/navigation"
 import { useAuth } from "@/contexts/auth-context"
 import { AppLayout } from "@/components/layout/app-layout"
+import { CurrencySettings } from "@/components/settings/currency-settings"
 
 export default function PreferencesPage() {
   const { user, isLoading } = useAuth()
@@ -31,9 +32,7 @@ export default function PreferencesPage() {
     <AppLayout>
       <div className="p-6">
         <h1 className="text-2xl font-bold mb-6">Preferences</h1>
-        <div className="bg-card border rounded-lg p-8 text-center">
-          <p className="text-lg text-muted-foreground">Preferences settings feature is coming soon!</p>
-        </div>
+        <CurrencySettings />
       </div>
     </AppLayout>
   )
@@ -0,0 +1,349 @@
+"use client"
+
+import { useState, useEffect, useCallback, useMemo } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { AlertCircle, ArrowDownLeft, ArrowUpRight, Edit, Landmark, Plus, RefreshCw, Trash2 } from "lucide-react"
+import { accountService, ACCOUNTS_UPDATED_EVENT } from "@/lib/account-service"
+import { expenseService, EXPENSES_UPDATED_EVENT } from "@/lib/expense-service"
+import { ACCOUNT_TYPE_LABELS, computeAccountBalances } from "@/lib/accounts"
+import { BalanceTrendChart } from "@/components/balance-trend-chart"
+import { useCurrency } from "@/hooks/use-currency"
+import { useToast } from "@/hooks/use-toast"
+import { cn } from "@/lib/utils"
+import type { Account, AccountType, CreateAccountInput } from "@/types/account"
+import type { Expense } from "@/types/expense"
+
+const emptyAccount = (): CreateAccountInput => ({
+  name: "",
+  type: "bank",
+  openingBalance: 0,
+  archived: false,
+})
+
+export function AccountManager() {
+  const [accounts, setAccounts] = useState<Account[]>([])
+  const [expenses, setExpenses] = useState<Expense[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [selectedAccountId, setSelectedAccountId] = useState<string | null>(null)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [editingAccountId, setEditingAccountId] = useState<string | null>(null)
+  const [accountForm, setAccountForm] = useState<CreateAccountInput>(emptyAccount())
+  const [openingBalance, setOpeningBalance] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+  const { formatCurrency, toBase } = useCurrency()
+  const { toast } = useToast()
+
+  const loadAccounts = useCallback(async () => {
+    try {
+      setLoadError(null)
+      const [accountData, expenseData] = await Promise.all([accountService.getAccounts(), expenseService.getExpenses()])
+      setAccounts(accountData)
+      setExpenses(expenseData)
+    } catch (error: any) {
+      console.error("Error loading accounts:", error)
+      setLoadError(error?.message || "Failed to load accounts")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadAccounts()
+
+    window.addEventListener(ACCOUNTS_UPDATED_EVENT, loadAccounts)
+    window.addEventListener(EXPENSES_UPDATED_EVENT, loadAccounts)
+    return () => {
+      window.removeEventListener(ACCOUNTS_UPDATED_EVENT, loadAccounts)
+      window.removeEventListener(EXPENSES_UPDATED_EVENT, loadAccounts)
+    }
+  }, [loadAccounts])
+
+  const balances = useMemo(() => computeAccountBalances(accounts, toBase(expenses)), [accounts, expenses, toBase])
+  const totalBalance = balances
+    .filter(({ account }) => !account.archived)
+    .reduce((total, { balance }) => total + balance, 0)
+  const selectedAccount = accounts.find((account) => account.id === selectedAccountId)
+
+  const handleOpenCreate = () => {
+    setEditingAccountId(null)
+    setAccountForm(emptyAccount())
+    setOpeningBalance("")
+    setIsDialogOpen(true)
+  }
+
+  const handleOpenEdit = (account: Account) => {
+    setEditingAccountId(account.id)
+    setAccountForm({
+      name: account.name,
+      type: account.type,
+      openingBalance: account.openingBalance,
+      color: account.color,
+      archived: account.archived,
+    })
+    setOpeningBalance(account.openingBalance.toString())
+    setIsDialogOpen(true)
+  }
+
+  const handleSave = async () => {
+    const amount = openingBalance === "" ? 0 : Number.parseFloat(openingBalance)
+
+    if (!accountForm.name.trim()) {
+      toast({ title: "Name required", description: "Give your account a name.", variant: "destructive" })
+      return
+    }
+    if (isNaN(amount)) {
+      toast({ title: "Invalid balance", description: "Opening balance must be a number.", variant: "destructive" })
+      return
+    }
+
+    const input: CreateAccountInput = { ...accountForm, name: accountForm.name.trim(), openingBalance: amount }
+
+    setIsSaving(true)
+    try {
+      if (editingAccountId) {
+        await accountService.updateAccount(editingAccountId, input)
+      } else {
+        await accountService.createAccount(input)
+      }
+      toast({ title: editingAccountId ? "Account updated" : "Account created", description: input.name })
+      setIsDialogOpen(false)
+    } catch (error: any) {
+      toast({ title: "Error", description: error?.message || "Failed to save account.", variant: "destructive" })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (account: Account) => {
+    try {
+      await accountService.deleteAccount(account.id)
+      if (selectedAccountId === account.id) setSelectedAccountId(null)
+      toast({ title: "Account deleted", description: account.name })
+    } catch (error: any) {
+      toast({ title: "Error", description: error?.message || "Failed to delete account.", variant: "destructive" })
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h2 className="text-2xl font-bold">Accounts</h2>
+          <p className="text-muted-foreground">Balances across your bank accounts, cards, cash and wallets</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={loadAccounts}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Refresh
+          </Button>
+          <Button onClick={handleOpenCreate}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Account
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {[1, 2, 3].map((i) => (
+            <Card key={i} className="animate-pulse">
+              <CardHeader className="h-32 bg-muted rounded-t-lg" />
+            </Card>
+          ))}
+        </div>
+      ) : loadError ? (
+        <Card className="p-8 text-center">
+          <div className="flex justify-center mb-4">
+            <AlertCircle className="h-12 w-12 text-destructive" />
+          </div>
+          <h3 className="text-lg font-medium mb-2">Error Loading Accounts</h3>
+          <p className="text-muted-foreground mb-4">{loadError}</p>
+          <Button onClick={loadAccounts}>Try Again</Button>
+        </Card>
+      ) : accounts.length === 0 ? (
+        <Card className="p-8 text-center">
+          <div className="flex justify-center mb-4">
+            <Landmark className="h-12 w-12 text-muted-foreground" />
+          </div>
+          <h3 className="text-lg font-medium mb-2">No accounts yet</h3>
+          <p className="text-muted-foreground mb-4">
+            Add your bank accounts, cards and wallets to see a balance for each and record transfers between them.
+          </p>
+          <Button onClick={handleOpenCreate}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Your First Account
+          </Button>
+        </Card>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            <Card
+              className={cn("cursor-pointer transition-shadow hover:shadow-md", !selectedAccountId && "ring-2 ring-primary")}
+              onClick={() => setSelectedAccountId(null)}
+            >
+              <CardHeader className="pb-2">
+                <CardDescription>All accounts</CardDescription>
+                <CardTitle className="text-2xl">{formatCurrency(totalBalance)}</CardTitle>
+              </CardHeader>
+              <CardContent className="text-sm text-muted-foreground">
+                Net worth across {balances.filter(({ account }) => !account.archived).length} active accounts
+              </CardContent>
+            </Card>
+
+            {balances.map(({ account, balance, inflow, outflow, transactionCount }) => (
+              <Card
+                key={account.id}
+                className={cn(
+                  "cursor-pointer transition-shadow hover:shadow-md",
+                  selectedAccountId === account.id && "ring-2 ring-primary",
+                  account.archived && "opacity-60",
+                )}
+                onClick={() => setSelectedAccountId(account.id)}
+              >
+                <CardHeader className="pb-2">
+                  <div className="flex justify-between items-start">
+                    <div className="space-y-1">
+                      <CardDescription>{account.name}</CardDescription>
+                      <CardTitle className={cn("text-2xl", balance < 0 && "text-red-600")}>
+                        {formatCurrency(balance)}
+                      </CardTitle>
+                    </div>
+                    <Badge variant="outline">{account.archived ? "Archived" : ACCOUNT_TYPE_LABELS[account.type]}</Badge>
+                  </div>
+                </CardHeader>
+                <CardContent className="grid grid-cols-2 gap-2 text-sm pb-2">
+                  <div className="flex items-center text-green-600">
+                    <ArrowDownLeft className="h-3.5 w-3.5 mr-1" />
+                    {formatCurrency(inflow)}
+                  </div>
+                  <div className="flex items-center justify-end text-red-600">
+                    <ArrowUpRight className="h-3.5 w-3.5 mr-1" />
+                    {formatCurrency(outflow)}
+                  </div>
+                  <div className="text-muted-foreground col-span-2">
+                    {transactionCount} transactions · opening {formatCurrency(account.openingBalance)}
+                  </div>
+                </CardContent>
+                <CardFooter className="flex justify-end gap-2 pt-2" onClick={(e) => e.stopPropagation()}>
+                  <Button variant="ghost" size="sm" onClick={() => handleOpenEdit(account)} title="Edit account">
+                    <Edit className="h-4 w-4" />
+                    <span className="sr-only">Edit</span>
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-destructive hover:text-destructive"
+                    onClick={() => handleDelete(account)}
+                    title="Delete account"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    <span className="sr-only">Delete</span>
+                  </Button>
+                </CardFooter>
+              </Card>
+            ))}
+          </div>
+
+          <BalanceTrendChart
+            expenses={expenses}
+            accounts={accounts}
+            accountId={selectedAccountId || undefined}
+            title={selectedAccount ? `${selectedAccount.name} Balance` : "Balance Trend"}
+          />
+        </>
+      )}
+
+      {/* Create / Edit Account Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[450px]">
+          <DialogHeader>
+            <DialogTitle>{editingAccountId ? "Edit Account" : "New Account"}</DialogTitle>
+            <DialogDescription>
+              The opening balance is what the account held before your first recorded transaction.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-1.5">
+              <Label htmlFor="account-name">Name</Label>
+              <Input
+                id="account-name"
+                value={accountForm.name}
+                onChange={(e) => setAccountForm({ ...accountForm, name: e.target.value })}
+                placeholder="e.g., HDFC Savings"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-1.5">
+                <Label htmlFor="account-type">Type</Label>
+                <Select
+                  value={accountForm.type}
+                  onValueChange={(value) => setAccountForm({ ...accountForm, type: value as AccountType })}
+                >
+                  <SelectTrigger id="account-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(ACCOUNT_TYPE_LABELS) as AccountType[]).map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {ACCOUNT_TYPE_LABELS[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-1.5">
+                <Label htmlFor="account-opening">Opening balance</Label>
+                <Input
+                  id="account-opening"
+                  type="number"
+                  value={openingBalance}
+                  onChange={(e) => setOpeningBalance(e.target.value)}
+                  placeholder="0"
+                />
+              </div>
+            </div>
+            {accountForm.type === "credit_card" && (
+              <p className="text-xs text-muted-foreground">Enter an outstanding card balance as a negative amount.</p>
+            )}
+            {editingAccountId && (
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label htmlFor="account-archived">Archived</Label>
+                  <p className="text-xs text-muted-foreground">Hidden from new transactions and the total balance</p>
+                </div>
+                <Switch
+                  id="account-archived"
+                  checked={accountForm.archived || false}
+                  onCheckedChange={(checked: boolean) => setAccountForm({ ...accountForm, archived: checked })}
+                />
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
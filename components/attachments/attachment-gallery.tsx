@@ -0,0 +1,150 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { FileText, Paperclip, RefreshCw, X } from "lucide-react"
+import { attachmentService } from "@/lib/attachment-service"
+import { ATTACHMENT_CONTENT_TYPES, formatFileSize, isImageAttachment } from "@/lib/attachments"
+import { useAttachments } from "@/hooks/use-attachments"
+import { useToast } from "@/hooks/use-toast"
+import type { Attachment } from "@/types/attachment"
+
+interface AttachmentGalleryProps {
+  expenseId: string
+  readOnly?: boolean
+}
+
+// Thumbnails of a transaction's receipts and documents, with upload and removal
+export function AttachmentGallery({ expenseId, readOnly = false }: AttachmentGalleryProps) {
+  const { toast } = useToast()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const { attachments, isLoading } = useAttachments(expenseId)
+  const [isUploading, setIsUploading] = useState(false)
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || [])
+    event.target.value = ""
+    if (files.length === 0) return
+
+    setIsUploading(true)
+    for (const file of files) {
+      try {
+        await attachmentService.addAttachment(expenseId, file)
+      } catch (error: any) {
+        toast({
+          title: "Attachment not added",
+          description: error?.message || `${file.name} could not be uploaded.`,
+          variant: "destructive",
+        })
+      }
+    }
+    setIsUploading(false)
+  }
+
+  const handleDelete = async (attachment: Attachment) => {
+    try {
+      await attachmentService.deleteAttachment(attachment)
+    } catch (error: any) {
+      toast({
+        title: "Attachment not removed",
+        description: error?.message || "Please try again.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      {isLoading ? (
+        <div className="h-20 rounded-md bg-muted/30 animate-pulse" />
+      ) : attachments.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No receipts or documents attached</p>
+      ) : (
+        <div className="grid grid-cols-3 gap-2">
+          {attachments.map((attachment) => (
+            <AttachmentThumbnail
+              key={attachment.id}
+              attachment={attachment}
+              onDelete={readOnly ? undefined : () => handleDelete(attachment)}
+            />
+          ))}
+        </div>
+      )}
+
+      {!readOnly && (
+        <>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isUploading}
+          >
+            {isUploading ? (
+              <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Paperclip className="mr-2 h-4 w-4" />
+            )}
+            {isUploading ? "Uploading..." : "Attach receipt"}
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept={ATTACHMENT_CONTENT_TYPES.join(",")}
+            onChange={handleFileSelect}
+            className="hidden"
+          />
+        </>
+      )}
+    </div>
+  )
+}
+
+function AttachmentThumbnail({ attachment, onDelete }: { attachment: Attachment; onDelete?: () => void }) {
+  const [url, setUrl] = useState<string | null>(null)
+
+  useEffect(() => {
+    let isMounted = true
+    attachmentService
+      .getAttachmentUrl(attachment)
+      .then((value) => isMounted && setUrl(value))
+      .catch(() => undefined)
+    return () => {
+      isMounted = false
+    }
+  }, [attachment])
+
+  return (
+    <div className="group relative rounded-md border overflow-hidden">
+      <a
+        href={url || undefined}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="block aspect-square bg-muted/40"
+        title={`${attachment.fileName} (${formatFileSize(attachment.size)})`}
+      >
+        {url && isImageAttachment(attachment.contentType) ? (
+          <img src={url} alt={attachment.fileName} className="h-full w-full object-cover" />
+        ) : (
+          <div className="flex h-full flex-col items-center justify-center gap-1 p-2 text-muted-foreground">
+            <FileText className="h-6 w-6" />
+            <span className="w-full truncate text-center text-xs">{attachment.fileName}</span>
+          </div>
+        )}
+      </a>
+      {onDelete && (
+        <button
+          type="button"
+          onClick={onDelete}
+          className="absolute right-1 top-1 rounded-full bg-background/80 p-0.5 opacity-0 transition-opacity group-hover:opacity-100 focus:opacity-100"
+          aria-label={`Remove ${attachment.fileName}`}
+        >
+          <X className="h-3 w-3" />
+        </button>
+      )}
+    </div>
+  )
+}
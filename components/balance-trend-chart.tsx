@@ -4,65 +4,31 @@ import { useMemo } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts"
 import type { Expense } from "@/types/expense"
-import { format, parseISO, startOfMonth, endOfMonth, eachMonthOfInterval, isSameMonth } from "date-fns"
+import type { Account } from "@/types/account"
+import { getBalanceHistory } from "@/lib/accounts"
+import { useCurrency } from "@/hooks/use-currency"
 import { useTheme } from "next-themes"
 
 interface BalanceTrendChartProps {
   expenses: Expense[]
   isLoading?: boolean
+  // Opening balances to start from; without them the trend starts at zero
+  accounts?: Account[]
+  // Show a single account instead of all accounts combined
+  accountId?: string
+  title?: string
 }
 
-export function BalanceTrendChart({ expenses, isLoading }: BalanceTrendChartProps) {
+export function BalanceTrendChart({ expenses, isLoading, accounts = [], accountId, title }: BalanceTrendChartProps) {
   const { theme } = useTheme()
   const isDarkTheme = theme === "dark"
+  const { formatCurrency, toBase } = useCurrency()
 
-  // Process data for the chart
-  const chartData = useMemo(() => {
-    if (!expenses.length) return []
-
-    // Find date range
-    const dates = expenses.map((expense) => new Date(expense.date))
-    const minDate = new Date(Math.min(...dates.map((date) => date.getTime())))
-    const maxDate = new Date(Math.max(...dates.map((date) => date.getTime())))
-
-    // Create array of months in the range
-    const monthsInRange = eachMonthOfInterval({
-      start: startOfMonth(minDate),
-      end: endOfMonth(maxDate),
-    })
-
-    // Aggregate data by month
-    return monthsInRange.map((month) => {
-      const monthlyExpenses = expenses.filter((expense) => isSameMonth(parseISO(expense.date), month))
-
-      const income = monthlyExpenses
-        .filter((expense) => expense.type === "income")
-        .reduce((sum, expense) => sum + expense.amount, 0)
-
-      const expenseAmount = monthlyExpenses
-        .filter((expense) => expense.type === "expense")
-        .reduce((sum, expense) => sum + expense.amount, 0)
-
-      const savings = monthlyExpenses
-        .filter((expense) => expense.type === "savings")
-        .reduce((sum, expense) => sum + expense.amount, 0)
-
-      const balance = income - expenseAmount - savings
-
-      return {
-        month: format(month, "MMM yyyy"),
-        balance,
-      }
-    })
-  }, [expenses])
-
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat("en-IN", {
-      style: "currency",
-      currency: "INR",
-      maximumFractionDigits: 0,
-    }).format(value)
-  }
+  // Running balance at the end of each month
+  const chartData = useMemo(
+    () => getBalanceHistory(toBase(expenses), accounts, accountId),
+    [expenses, accounts, accountId, toBase],
+  )
 
   // Custom tooltip component
   const CustomTooltip = ({ active, payload, label }: any) => {
@@ -90,7 +56,7 @@ export function BalanceTrendChart({ expenses, isLoading }: BalanceTrendChartProp
   return (
     <Card className="w-full">
       <CardHeader>
-        <CardTitle>Balance Trend</CardTitle>
+        <CardTitle>{title || "Balance Trend"}</CardTitle>
       </CardHeader>
       <CardContent>
         <div className="h-[300px]">
@@ -111,7 +77,7 @@ export function BalanceTrendChart({ expenses, isLoading }: BalanceTrendChartProp
                 dy={10}
               />
               <YAxis
-                tickFormatter={(value) => `₹${value / 1000}k`}
+                tickFormatter={(value) => `${value / 1000}k`}
                 tick={{ fill: isDarkTheme ? "rgba(204, 204, 204, 0.8)" : "rgba(51, 51, 51, 0.8)" }}
                 tickLine={{ stroke: isDarkTheme ? "rgba(102, 102, 102, 0.3)" : "rgba(204, 204, 204, 0.5)" }}
                 axisLine={false}
@@ -0,0 +1,269 @@
+"use client"
+
+import { useState } from "react"
+import { CalendarClock, Copy, FolderInput, NotebookPen, Repeat, Trash2, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { CategorySelector } from "@/components/category-selector"
+import { runBulkAction, type BulkAction } from "@/lib/bulk-edit"
+import { useToast } from "@/hooks/use-toast"
+import { useUndoToast } from "@/hooks/use-undo-toast"
+import type { Expense } from "@/types/expense"
+
+type EditKind = "category" | "type" | "shiftDates" | "appendNotes"
+type EditableType = "expense" | "income" | "savings"
+
+const EDIT_TITLES: Record<EditKind, string> = {
+  category: "Change category",
+  type: "Change type",
+  shiftDates: "Shift dates",
+  appendNotes: "Append to notes",
+}
+
+interface BulkActionsBarProps {
+  selected: Expense[]
+  onClear: () => void
+  // Called after an action or its undo has been saved, e.g. to reload the page
+  onComplete?: () => void
+}
+
+// Actions for the rows selected in a transaction table, each saved as one batch with one undo
+export function BulkActionsBar({ selected, onClear, onComplete }: BulkActionsBarProps) {
+  const [editKind, setEditKind] = useState<EditKind | null>(null)
+  const [deleteConfirmOpen, setDeleteConfirmOpen] = useState(false)
+  const [isBusy, setIsBusy] = useState(false)
+  const [category, setCategory] = useState("")
+  const [type, setType] = useState<EditableType>("expense")
+  const [days, setDays] = useState("1")
+  const [notes, setNotes] = useState("")
+  const { toast } = useToast()
+  const showUndoToast = useUndoToast()
+
+  // The category picker needs a type; use the one all selected rows share, if any
+  const selectedTypes = Array.from(new Set(selected.map((expense) => expense.type)))
+  const sharedType = selectedTypes.length === 1 && selectedTypes[0] !== "transfer" ? selectedTypes[0] : null
+  const transferCount = selected.filter((expense) => expense.type === "transfer").length
+
+  const openEdit = (kind: EditKind) => {
+    setCategory("")
+    setType(sharedType || "expense")
+    setDays("1")
+    setNotes("")
+    setEditKind(kind)
+  }
+
+  const run = async (action: BulkAction) => {
+    setIsBusy(true)
+    try {
+      const summary = await runBulkAction(selected, action)
+      setEditKind(null)
+      setDeleteConfirmOpen(false)
+      onClear()
+      onComplete?.()
+      if (summary) {
+        showUndoToast(summary, undefined, onComplete)
+      } else {
+        toast({ title: "No changes", description: "The selected transactions already match." })
+      }
+    } catch (error: any) {
+      console.error("Failed to run bulk action:", error)
+      toast({
+        title: "Error",
+        description: error?.message || "Failed to update transactions. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleApply = () => {
+    switch (editKind) {
+      case "category":
+        return run({ kind: "category", category })
+      case "type":
+        return run({ kind: "type", type, category })
+      case "shiftDates":
+        return run({ kind: "shiftDates", days: Number.parseInt(days) || 0 })
+      case "appendNotes":
+        return run({ kind: "appendNotes", text: notes })
+    }
+  }
+
+  const canApply =
+    (editKind === "category" && !!category) ||
+    (editKind === "type" && !!category) ||
+    (editKind === "shiftDates" && (Number.parseInt(days) || 0) !== 0) ||
+    (editKind === "appendNotes" && !!notes.trim())
+
+  if (selected.length === 0) return null
+
+  return (
+    <div className="mb-3 flex flex-wrap items-center gap-2 rounded-md border bg-muted/40 px-3 py-2">
+      <span className="text-sm font-medium">{selected.length} selected</span>
+      <Button variant="ghost" size="sm" onClick={onClear} disabled={isBusy}>
+        <X className="mr-1 h-4 w-4" />
+        Clear
+      </Button>
+
+      <div className="ml-auto flex flex-wrap items-center gap-1">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => openEdit("category")}
+          disabled={isBusy || !sharedType}
+          title={sharedType ? undefined : "Select transactions of one type to change their category"}
+        >
+          <FolderInput className="mr-1 h-4 w-4" />
+          Category
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => openEdit("type")} disabled={isBusy}>
+          <Repeat className="mr-1 h-4 w-4" />
+          Type
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => openEdit("shiftDates")} disabled={isBusy}>
+          <CalendarClock className="mr-1 h-4 w-4" />
+          Dates
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => openEdit("appendNotes")} disabled={isBusy}>
+          <NotebookPen className="mr-1 h-4 w-4" />
+          Notes
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => run({ kind: "duplicate" })} disabled={isBusy}>
+          <Copy className="mr-1 h-4 w-4" />
+          Duplicate
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="text-red-600 hover:text-red-700"
+          onClick={() => setDeleteConfirmOpen(true)}
+          disabled={isBusy}
+        >
+          <Trash2 className="mr-1 h-4 w-4" />
+          Delete
+        </Button>
+      </div>
+
+      {/* Edit Dialog */}
+      <Dialog open={!!editKind} onOpenChange={(open) => !open && setEditKind(null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>{editKind && EDIT_TITLES[editKind]}</DialogTitle>
+            <DialogDescription>
+              Applies to {selected.length} selected transaction{selected.length === 1 ? "" : "s"}.
+              {(editKind === "category" || editKind === "type") &&
+                transferCount > 0 &&
+                " Transfers are left as they are."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {editKind === "type" && (
+              <div className="space-y-2">
+                <Label htmlFor="bulk-type">Type</Label>
+                <Select
+                  value={type}
+                  onValueChange={(value) => {
+                    setType(value as EditableType)
+                    setCategory("")
+                  }}
+                >
+                  <SelectTrigger id="bulk-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="expense">Expense</SelectItem>
+                    <SelectItem value="income">Income</SelectItem>
+                    <SelectItem value="savings">Savings</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {(editKind === "category" || editKind === "type") && (
+              <div className="space-y-2">
+                <Label htmlFor="bulk-category">Category</Label>
+                <CategorySelector
+                  id="bulk-category"
+                  type={editKind === "type" ? type : sharedType || "expense"}
+                  value={category}
+                  onChange={setCategory}
+                />
+              </div>
+            )}
+
+            {editKind === "shiftDates" && (
+              <div className="space-y-2">
+                <Label htmlFor="bulk-days">Days</Label>
+                <Input id="bulk-days" type="number" value={days} onChange={(e) => setDays(e.target.value)} />
+                <p className="text-xs text-muted-foreground">Use a negative number to move dates earlier.</p>
+              </div>
+            )}
+
+            {editKind === "appendNotes" && (
+              <div className="space-y-2">
+                <Label htmlFor="bulk-notes">Text to add</Label>
+                <Input id="bulk-notes" value={notes} onChange={(e) => setNotes(e.target.value)} autoFocus />
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditKind(null)} disabled={isBusy}>
+              Cancel
+            </Button>
+            <Button onClick={handleApply} disabled={isBusy || !canApply}>
+              {isBusy ? "Saving..." : "Apply"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <AlertDialog open={deleteConfirmOpen} onOpenChange={setDeleteConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Delete {selected.length} transaction{selected.length === 1 ? "" : "s"}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              You can undo this right after. Receipts and documents attached to these transactions are removed for
+              good.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isBusy}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => run({ kind: "delete" })}
+              disabled={isBusy}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
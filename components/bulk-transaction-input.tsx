@@ -10,6 +10,12 @@ import { Textarea } from "@/components/ui/textarea"
 import { useToast } from "@/hooks/use-toast"
 import { expenseService } from "@/lib/expense-service"
 import { CategorySelector } from "@/components/category-selector"
+import { TagInput } from "@/components/tag-input"
+import { CategorySuggestions } from "@/components/category-suggestions"
+import { extractHashtags } from "@/lib/tags"
+import { applyRules } from "@/lib/rules"
+import { useRules } from "@/hooks/use-rules"
+import { useCategorySuggestions } from "@/hooks/use-category-suggestions"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Loader2, Plus, Trash2 } from "lucide-react"
 import type { Expense, ExpenseType } from "@/types/expense"
@@ -22,10 +28,14 @@ interface BulkTransactionInputProps {
 interface TransactionRow {
   id: string
   date: string
-  type: ExpenseType
+  // Transfers need accounts and are entered one at a time
+  type: Exclude<ExpenseType, "transfer">
   category: string
   amount: string
   notes: string
+  tags: string[]
+  // Rule that picked the category; cleared once the category is chosen by hand
+  ruleName?: string
 }
 
 const defaultRow = (): TransactionRow => ({
@@ -35,6 +45,17 @@ const defaultRow = (): TransactionRow => ({
   category: "",
   amount: "",
   notes: "",
+  tags: [],
+})
+
+const toExpense = (row: TransactionRow): Expense => ({
+  id: row.id,
+  date: row.date,
+  type: row.type,
+  category: row.category,
+  amount: Number.parseFloat(row.amount),
+  notes: row.notes,
+  tags: row.tags,
 })
 
 export function BulkTransactionInput({ onTransactionsAdded, onClose }: BulkTransactionInputProps) {
@@ -44,6 +65,8 @@ export function BulkTransactionInput({ onTransactionsAdded, onClose }: BulkTrans
   const [bulkText, setBulkText] = useState("")
   const [categoriesByType, setCategoriesByType] = useState<Record<string, string[]>>({})
   const { toast } = useToast()
+  const { rules } = useRules()
+  const { suggest, learn } = useCategorySuggestions()
 
   // Load categories once when component mounts
   useEffect(() => {
@@ -81,19 +104,45 @@ export function BulkTransactionInput({ onTransactionsAdded, onClose }: BulkTrans
     })
   }, [])
 
-  const updateRow = useCallback((id: string, field: keyof TransactionRow, value: string) => {
-    setRows((prev) =>
-      prev.map((row) => {
-        if (row.id === id) {
-          return { ...row, [field]: value }
-        }
-        return row
-      }),
-    )
+  // Let the rules fill in the category and tags, unless the category was chosen by hand
+  const categorize = useCallback(
+    (row: TransactionRow): TransactionRow => {
+      if (row.category && !row.ruleName) return row
+
+      const { expense, matched } = applyRules(toExpense({ ...row, category: "" }), rules)
+      return {
+        ...row,
+        type: expense.type as TransactionRow["type"],
+        category: expense.category,
+        tags: expense.tags || [],
+        ruleName: matched.find((rule) => rule.actions.category)?.name,
+      }
+    },
+    [rules],
+  )
+
+  const updateRow = useCallback(
+    (id: string, field: keyof TransactionRow, value: string) => {
+      setRows((prev) =>
+        prev.map((row) => {
+          if (row.id !== id) return row
+
+          const next = { ...row, [field]: value }
+          // Picking the type or category by hand takes over from the rules
+          if (field === "type" || field === "category") return { ...next, ruleName: undefined }
+          return categorize(next)
+        }),
+      )
+    },
+    [categorize],
+  )
+
+  const updateRowTags = useCallback((id: string, tags: string[]) => {
+    setRows((prev) => prev.map((row) => (row.id === id ? { ...row, tags } : row)))
   }, [])
 
   const handleTypeChange = useCallback(
-    (id: string, type: ExpenseType) => {
+    (id: string, type: TransactionRow["type"]) => {
       updateRow(id, "type", type)
     },
     [updateRow],
@@ -150,21 +199,15 @@ export function BulkTransactionInput({ onTransactionsAdded, onClose }: BulkTrans
 
     setIsSubmitting(true)
     try {
-      const expenses: Expense[] = []
-
-      for (const row of rows) {
-        const expense: Expense = {
-          id: row.id,
-          date: row.date,
-          type: row.type,
-          category: row.category,
-          amount: Number.parseFloat(row.amount),
-          notes: row.notes,
-        }
-
-        const addedExpense = await expenseService.addExpense(expense)
-        expenses.push(addedExpense)
-      }
+      // Saved as one batch, so undo takes back the whole entry
+      const expenses = await expenseService.addExpenses(rows.map(toExpense))
+
+      // Teach the suggestions which guesses were kept and which were corrected
+      rows.forEach((row) => {
+        if (row.ruleName) return
+        const [top] = suggest(toExpense(row), categoriesByType[row.type])
+        if (top) learn(toExpense(row), top.category, row.category)
+      })
 
       toast({
         title: "Success",
@@ -195,7 +238,7 @@ export function BulkTransactionInput({ onTransactionsAdded, onClose }: BulkTrans
         if (!line.trim()) continue
 
         // Try to parse the line
-        // Format expected: Date, Type, Category, Amount, Notes (optional)
+        // Format expected: Date, Type, Category, Amount, Notes (optional, #words become tags)
         const parts = line.split(",").map((part) => part.trim())
 
         if (parts.length < 4) {
@@ -206,7 +249,7 @@ export function BulkTransactionInput({ onTransactionsAdded, onClose }: BulkTrans
         const typeStr = parts[1].toLowerCase()
         const category = parts[2]
         const amountStr = parts[3].replace(/[^0-9.-]/g, "") // Remove currency symbols
-        const notes = parts.length > 4 ? parts.slice(4).join(", ") : ""
+        const { text: notes, tags } = extractHashtags(parts.length > 4 ? parts.slice(4).join(", ") : "")
 
         // Validate date
         let date = dateStr
@@ -221,9 +264,9 @@ export function BulkTransactionInput({ onTransactionsAdded, onClose }: BulkTrans
         }
 
         // Validate type
-        let type: ExpenseType = "expense"
+        let type: TransactionRow["type"] = "expense"
         if (typeStr === "income" || typeStr === "savings") {
-          type = typeStr as ExpenseType
+          type = typeStr
         }
 
         // Validate amount
@@ -232,14 +275,18 @@ export function BulkTransactionInput({ onTransactionsAdded, onClose }: BulkTrans
           throw new Error(`Invalid amount in line: ${line}`)
         }
 
-        newRows.push({
-          id: uuidv4(),
-          date,
-          type,
-          category,
-          amount: amount.toString(),
-          notes,
-        })
+        // An empty category is left for the rules to fill in
+        newRows.push(
+          categorize({
+            id: uuidv4(),
+            date,
+            type,
+            category,
+            amount: amount.toString(),
+            notes,
+            tags,
+          }),
+        )
       }
 
       if (newRows.length === 0) {
@@ -259,7 +306,7 @@ export function BulkTransactionInput({ onTransactionsAdded, onClose }: BulkTrans
         variant: "destructive",
       })
     }
-  }, [bulkText, toast])
+  }, [bulkText, categorize, toast])
 
   return (
     <div className="p-6 pt-0">
@@ -324,6 +371,14 @@ export function BulkTransactionInput({ onTransactionsAdded, onClose }: BulkTrans
                     value={row.category}
                     onChange={(value) => handleCategoryChange(row.id, value)}
                   />
+                  {row.ruleName && <p className="mt-1 text-xs text-muted-foreground">Rule: {row.ruleName}</p>}
+                  {!row.category && (row.notes.trim() || row.amount) && (
+                    <CategorySuggestions
+                      className="mt-1"
+                      suggestions={suggest(toExpense(row), categoriesByType[row.type])}
+                      onSelect={(value) => handleCategoryChange(row.id, value)}
+                    />
+                  )}
                 </div>
 
                 <div className="col-span-12 md:col-span-2">
@@ -359,6 +414,10 @@ export function BulkTransactionInput({ onTransactionsAdded, onClose }: BulkTrans
                     <span className="sr-only">Remove row</span>
                   </Button>
                 </div>
+
+                <div className="col-span-12">
+                  <TagInput value={row.tags} onChange={(tags) => updateRowTags(row.id, tags)} />
+                </div>
               </div>
             ))}
           </div>
@@ -388,13 +447,14 @@ export function BulkTransactionInput({ onTransactionsAdded, onClose }: BulkTrans
               value={bulkText}
               onChange={(e) => setBulkText(e.target.value)}
               placeholder="Date, Type, Category, Amount, Notes (optional)
-2023-05-01, Expense, Food, 1500, Lunch
+2023-05-01, Expense, Food, 1500, Lunch #work
 2023-05-02, Income, Salary, 50000
 ..."
               className="min-h-[200px]"
             />
             <p className="text-xs text-muted-foreground">
-              Format: Date, Type (Expense/Income/Savings), Category, Amount, Notes (optional)
+              Format: Date, Type (Expense/Income/Savings), Category, Amount, Notes (optional). Words starting with #
+              in the notes become tags. Leave the category empty to let your rules pick it.
             </p>
           </div>
 
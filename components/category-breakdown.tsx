@@ -1,19 +1,29 @@
 "use client"
 
-import { useMemo } from "react"
+import { useMemo, useState } from "react"
+import { ArrowLeft } from "lucide-react"
+import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { PieChart, Pie, Cell, ResponsiveContainer, Legend, Tooltip } from "recharts"
-import type { Expense } from "@/types/expense"
+import type { CategoryTotal } from "@/types/query"
+import { useCategories } from "@/contexts/category-context"
+import { rollupCategoryTotals } from "@/lib/category-tree"
+import { useCurrency } from "@/hooks/use-currency"
 import { useTheme } from "next-themes"
 
 interface CategoryBreakdownProps {
-  expenses: Expense[]
+  // Totals per category in the base currency, e.g. from useExpenseAggregates
+  categories: CategoryTotal[]
   type?: "expense" | "income" | "savings"
 }
 
-export function CategoryBreakdown({ expenses, type = "expense" }: CategoryBreakdownProps) {
+export function CategoryBreakdown({ categories, type = "expense" }: CategoryBreakdownProps) {
   const { theme } = useTheme()
   const isDarkTheme = theme === "dark"
+  const { formatCurrency } = useCurrency()
+  const { categories: allCategories } = useCategories()
+  // Parent category whose subcategories are shown instead of the top-level totals
+  const [drilledInto, setDrilledInto] = useState<string | null>(null)
 
   // Generate a color palette for the pie chart
   const COLORS = [
@@ -29,40 +39,33 @@ export function CategoryBreakdown({ expenses, type = "expense" }: CategoryBreakd
     "#6366f1", // indigo
   ]
 
-  const categoryData = useMemo(() => {
-    // Filter expenses by type
-    const filteredExpenses = expenses.filter((expense) => expense.type === type)
-
-    // Group by category and sum amounts
-    const categoryMap = new Map<string, number>()
+  // Subcategory totals roll up into their parents; split lines already count towards their own categories
+  const nodes = useMemo(
+    () =>
+      rollupCategoryTotals(
+        categories.filter((category) => category.type === type && category.amount > 0),
+        allCategories.filter((category) => category.type === type),
+      ),
+    [categories, allCategories, type],
+  )
 
-    filteredExpenses.forEach((expense) => {
-      const currentAmount = categoryMap.get(expense.category) || 0
-      categoryMap.set(expense.category, currentAmount + expense.amount)
-    })
+  const parentNode = drilledInto ? nodes.find((node) => node.name === drilledInto) : undefined
 
-    // Convert to array for chart
-    const result = Array.from(categoryMap.entries()).map(([name, value]) => ({
-      name,
-      value,
-    }))
+  const categoryData = useMemo(() => {
+    if (parentNode) {
+      return parentNode.children.map((child) => ({ name: child.name, value: child.amount, hasChildren: false }))
+    }
+    return nodes.map((node) => ({ name: node.name, value: node.amount, hasChildren: node.children.length > 0 }))
+  }, [nodes, parentNode])
 
-    // Sort by value descending
-    return result.sort((a, b) => b.value - a.value)
-  }, [expenses, type])
+  const drillInto = (name: string) => {
+    if (!parentNode && nodes.some((node) => node.name === name && node.children.length > 0)) setDrilledInto(name)
+  }
 
   const totalAmount = useMemo(() => {
     return categoryData.reduce((sum, item) => sum + item.value, 0)
   }, [categoryData])
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat("en-IN", {
-      style: "currency",
-      currency: "INR",
-      maximumFractionDigits: 0,
-    }).format(amount)
-  }
-
   // Custom tooltip for the pie chart
   const CustomTooltip = ({ active, payload }: any) => {
     if (active && payload && payload.length) {
@@ -74,6 +77,7 @@ export function CategoryBreakdown({ expenses, type = "expense" }: CategoryBreakd
           <p className="font-medium">{data.name}</p>
           <p className="text-sm">{formatCurrency(data.value)}</p>
           <p className="text-sm text-muted-foreground">{percentage}% of total</p>
+          {data.hasChildren && <p className="text-xs text-muted-foreground">Click to see subcategories</p>}
         </div>
       )
     }
@@ -90,7 +94,11 @@ export function CategoryBreakdown({ expenses, type = "expense" }: CategoryBreakd
         {payload.map((entry: any, index: number) => {
           const percentage = ((entry.payload.value / totalAmount) * 100).toFixed(1)
           return (
-            <li key={`item-${index}`} className="flex items-center">
+            <li
+              key={`item-${index}`}
+              className={`flex items-center ${entry.payload.hasChildren ? "cursor-pointer hover:underline" : ""}`}
+              onClick={() => drillInto(entry.value)}
+            >
               <div className="w-3 h-3 rounded-full mr-1" style={{ backgroundColor: entry.color }} />
               <span>
                 {entry.value} ({percentage}%)
@@ -106,8 +114,17 @@ export function CategoryBreakdown({ expenses, type = "expense" }: CategoryBreakd
 
   return (
     <Card className="col-span-1 md:col-span-2">
-      <CardHeader>
-        <CardTitle>{typeTitle} Breakdown by Category</CardTitle>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>
+          {typeTitle} Breakdown by Category
+          {parentNode && <span className="text-muted-foreground">: {parentNode.name}</span>}
+        </CardTitle>
+        {parentNode && (
+          <Button variant="ghost" size="sm" onClick={() => setDrilledInto(null)}>
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            All categories
+          </Button>
+        )}
       </CardHeader>
       <CardContent>
         {categoryData.length === 0 ? (
@@ -126,9 +143,14 @@ export function CategoryBreakdown({ expenses, type = "expense" }: CategoryBreakd
                   outerRadius={100}
                   fill="#8884d8"
                   dataKey="value"
+                  onClick={(entry) => drillInto(entry.name)}
                 >
                   {categoryData.map((entry, index) => (
-                    <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                    <Cell
+                      key={`cell-${index}`}
+                      fill={COLORS[index % COLORS.length]}
+                      className={entry.hasChildren ? "cursor-pointer" : undefined}
+                    />
                   ))}
                 </Pie>
                 <Tooltip content={<CustomTooltip />} />
@@ -7,6 +7,7 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 import { Check, ChevronsUpDown } from "lucide-react"
 import { cn } from "@/lib/utils"
 import { useCategories } from "@/contexts/category-context"
+import { getParentCategory } from "@/lib/category-tree"
 
 interface CategorySelectorProps {
   id?: string
@@ -89,7 +90,14 @@ export function CategorySelector({ id, type, value, onChange }: CategorySelector
                           style={{ backgroundColor: category.color || "#cbd5e1" }}
                         />
                       )}
-                      <span>{category.name}</span>
+                      <span>
+                        {category.parentId && (
+                          <span className="text-muted-foreground">
+                            {getParentCategory(category, categories)?.name} ›{" "}
+                          </span>
+                        )}
+                        {category.name}
+                      </span>
                     </div>
                   </CommandItem>
                 ))
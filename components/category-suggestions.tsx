@@ -0,0 +1,38 @@
+"use client"
+
+import { Sparkles } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+import type { CategorySuggestion } from "@/lib/category-suggestions"
+
+interface CategorySuggestionsProps {
+  suggestions: CategorySuggestion[]
+  onSelect: (category: string) => void
+  className?: string
+}
+
+// Learned category guesses with their confidence, one click to use
+export function CategorySuggestions({ suggestions, onSelect, className }: CategorySuggestionsProps) {
+  if (suggestions.length === 0) return null
+
+  return (
+    <div className={cn("flex flex-wrap items-center gap-1 text-xs text-muted-foreground", className)}>
+      <Sparkles className="h-3 w-3" />
+      <span>Suggested:</span>
+      {suggestions.map((suggestion) => (
+        <Button
+          key={suggestion.category}
+          type="button"
+          variant="outline"
+          size="sm"
+          className="h-6 px-2 text-xs"
+          onClick={() => onSelect(suggestion.category)}
+          title={`${Math.round(suggestion.confidence * 100)}% confident, based on similar transactions`}
+        >
+          {suggestion.category}
+          <span className="ml-1 text-muted-foreground">{Math.round(suggestion.confidence * 100)}%</span>
+        </Button>
+      ))}
+    </div>
+  )
+}
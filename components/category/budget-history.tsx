@@ -0,0 +1,90 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { History } from "lucide-react"
+import { categoryService, type Category } from "@/lib/category-service"
+import { formatPeriodLabel } from "@/lib/budget"
+import type { BudgetPeriodSummary } from "@/types/budget"
+import { useCurrency } from "@/hooks/use-currency"
+
+interface BudgetHistoryProps {
+  category: Category
+  periods?: number
+}
+
+export function BudgetHistory({ category, periods = 6 }: BudgetHistoryProps) {
+  const [history, setHistory] = useState<BudgetPeriodSummary[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+
+    setIsLoading(true)
+    categoryService
+      .getBudgetHistory(category.id, periods)
+      .then((data) => {
+        if (!cancelled) setHistory(data)
+      })
+      .catch((error) => console.error("Error loading budget history:", error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [category.id, category.budget, category.budgetPeriod, category.budgetRollover, periods])
+
+  const { formatCurrency } = useCurrency()
+
+  if (!category.budget) return null
+
+  return (
+    <div className="space-y-2">
+      <h3 className="font-medium flex items-center">
+        <History className="h-4 w-4 mr-2" />
+        Budget History
+      </h3>
+      {isLoading ? (
+        <div className="h-24 bg-muted rounded-md animate-pulse" />
+      ) : history.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No budget periods yet.</p>
+      ) : (
+        <div className="border rounded-md">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Period</TableHead>
+                <TableHead className="text-right">Budget</TableHead>
+                <TableHead className="text-right">Actual</TableHead>
+                <TableHead className="text-right">Remaining</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {[...history].reverse().map((period) => (
+                <TableRow key={period.start}>
+                  <TableCell className="text-sm">
+                    {formatPeriodLabel(category.budgetPeriod || "monthly", period)}
+                  </TableCell>
+                  <TableCell className="text-right text-sm">
+                    {formatCurrency(period.available)}
+                    {period.carriedOver > 0 && (
+                      <div className="text-xs text-muted-foreground">+{formatCurrency(period.carriedOver)} rolled over</div>
+                    )}
+                  </TableCell>
+                  <TableCell className={`text-right text-sm ${period.isOverBudget ? "text-red-500" : ""}`}>
+                    {formatCurrency(period.actual)}
+                  </TableCell>
+                  <TableCell className={`text-right text-sm ${period.remaining < 0 ? "text-red-500" : ""}`}>
+                    {formatCurrency(period.remaining)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -10,6 +10,8 @@ import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/comp
 import { DeleteCategoryDialog } from "./delete-category-dialog"
 import { CategoryForm } from "./category-form"
 import { CategoryLimitForm } from "./category-limit-form"
+import { categoryService } from "@/lib/category-service"
+import type { BudgetSettings } from "@/types/budget"
 import {
   EnhancedCard,
   EnhancedCardHeader,
@@ -37,22 +39,32 @@ export function CategoryCard({ category, spent = 0, onUpdate, onDelete }: Catego
     setIsEditingLimit(false)
   }
 
+  const handleUpdateLimit = async (budget: number | undefined, settings: BudgetSettings) => {
+    const updatedCategory = await categoryService.updateCategoryLimit(category.id, budget, settings)
+    onUpdate(updatedCategory)
+    setIsEditingLimit(false)
+  }
+
+  // Spending and limit for the current budget period
+  const limit = category.budgetStatus?.available ?? category.budget ?? 0
+  const periodSpent = category.budgetStatus?.actual ?? spent
+
   const handleDelete = () => {
     onDelete(category.id)
     setIsDeleting(false)
   }
 
   const getProgressColor = () => {
-    if (!category.limit) return "bg-primary"
-    const percentage = (spent / category.limit) * 100
+    if (!limit) return "bg-primary"
+    const percentage = (periodSpent / limit) * 100
     if (percentage >= 90) return "bg-red-500"
     if (percentage >= 75) return "bg-amber-500"
     return "bg-emerald-500"
   }
 
   const getSpentPercentage = () => {
-    if (!category.limit || category.limit === 0) return 0
-    const percentage = (spent / category.limit) * 100
+    if (!limit || limit === 0) return 0
+    const percentage = (periodSpent / limit) * 100
     return Math.min(percentage, 100)
   }
 
@@ -76,13 +88,13 @@ export function CategoryCard({ category, spent = 0, onUpdate, onDelete }: Catego
           <EnhancedCardTitle>Edit Spending Limit</EnhancedCardTitle>
         </EnhancedCardHeader>
         <EnhancedCardContent>
-          <CategoryLimitForm category={category} onSubmit={handleUpdate} onCancel={() => setIsEditingLimit(false)} />
+          <CategoryLimitForm category={{ ...category, spending: spent }} onSubmit={handleUpdateLimit} />
         </EnhancedCardContent>
       </EnhancedCard>
     )
   }
 
-  const isOverBudget = category.limit && spent > category.limit
+  const isOverBudget = limit > 0 && periodSpent > limit
   const spentPercentage = getSpentPercentage()
 
   return (
@@ -124,9 +136,9 @@ export function CategoryCard({ category, spent = 0, onUpdate, onDelete }: Catego
       <EnhancedCardContent>
         <div className="space-y-4">
           <div className="flex justify-between items-baseline">
-            <div className="text-2xl font-bold">${spent.toFixed(2)}</div>
-            {category.limit ? (
-              <div className="text-sm text-muted-foreground">of ${category.limit.toFixed(2)}</div>
+            <div className="text-2xl font-bold">${periodSpent.toFixed(2)}</div>
+            {limit ? (
+              <div className="text-sm text-muted-foreground">of ${limit.toFixed(2)}</div>
             ) : (
               <Button variant="outline" size="sm" onClick={() => setIsEditingLimit(true)} className="text-xs h-7">
                 Set Limit
@@ -134,7 +146,7 @@ export function CategoryCard({ category, spent = 0, onUpdate, onDelete }: Catego
             )}
           </div>
 
-          {category.limit > 0 && (
+          {limit > 0 && (
             <div className="space-y-1.5">
               <div className="flex justify-between text-xs">
                 <span>Budget Usage</span>
@@ -151,7 +163,7 @@ export function CategoryCard({ category, spent = 0, onUpdate, onDelete }: Catego
                         </div>
                       </TooltipTrigger>
                       <TooltipContent>
-                        <p>Over budget by ${(spent - category.limit).toFixed(2)}</p>
+                        <p>Over budget by ${(periodSpent - limit).toFixed(2)}</p>
                       </TooltipContent>
                     </Tooltip>
                   </TooltipProvider>
@@ -166,7 +178,7 @@ export function CategoryCard({ category, spent = 0, onUpdate, onDelete }: Catego
         <div className="text-xs text-muted-foreground">
           {category.type === "expense" ? "Expense" : "Income"} Category
         </div>
-        {category.limit > 0 && (
+        {limit > 0 && (
           <Button variant="ghost" size="sm" onClick={() => setIsEditingLimit(true)} className="h-7 text-xs">
             Edit Limit
           </Button>
@@ -15,6 +15,10 @@ import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
 import { AlertCircle, Palette } from "lucide-react"
 import type { Category } from "@/lib/category-service"
 import type { ExpenseType } from "@/types/expense"
+import type { BudgetPeriod } from "@/types/budget"
+import { BUDGET_PERIOD_LABELS } from "@/lib/budget"
+import { getParentOptions, getSubcategories } from "@/lib/category-tree"
+import { useCategories } from "@/contexts/category-context"
 
 // Predefined color palettes
 const COLOR_PALETTES = {
@@ -66,10 +70,16 @@ export function CategoryForm({ initialData, onSubmit, isSubmitting = false }: Ca
   const [name, setName] = useState(initialData?.name || "")
   const [description, setDescription] = useState(initialData?.description || "")
   const [type, setType] = useState<ExpenseType>(initialData?.type || "expense")
+  const [parentId, setParentId] = useState(initialData?.parentId || "")
   const [budget, setBudget] = useState<string>(initialData?.budget ? initialData.budget.toString() : "")
+  const [budgetPeriod, setBudgetPeriod] = useState<BudgetPeriod>(initialData?.budgetPeriod || "monthly")
   const [color, setColor] = useState(initialData?.color || "#3b82f6") // Default blue
   const [errors, setErrors] = useState<Record<string, string>>({})
   const [colorPalette, setColorPalette] = useState<"default" | "pastel" | "dark">("default")
+  const { categories } = useCategories()
+
+  const parentOptions = getParentOptions(initialData || null, type, categories)
+  const subcategoryCount = initialData ? getSubcategories(categories, initialData.id).length : 0
 
   // Reset form when initialData changes
   useEffect(() => {
@@ -77,7 +87,9 @@ export function CategoryForm({ initialData, onSubmit, isSubmitting = false }: Ca
       setName(initialData.name)
       setDescription(initialData.description || "")
       setType(initialData.type)
+      setParentId(initialData.parentId || "")
       setBudget(initialData.budget ? initialData.budget.toString() : "")
+      setBudgetPeriod(initialData.budgetPeriod || "monthly")
       setColor(initialData.color || "#3b82f6")
     }
   }, [initialData])
@@ -115,12 +127,14 @@ export function CategoryForm({ initialData, onSubmit, isSubmitting = false }: Ca
       return
     }
 
-    // Create category object
+    // Create category object; parentId is only sent when there is or was a parent
     const category = {
       name: name.trim(),
       description: description.trim(),
       type,
+      ...(parentId || initialData?.parentId ? { parentId: parentId || undefined } : {}),
       budget: budget ? Number(budget) : undefined,
+      budgetPeriod,
       color,
       isDefault: initialData?.isDefault || false,
     }
@@ -193,7 +207,10 @@ export function CategoryForm({ initialData, onSubmit, isSubmitting = false }: Ca
         <Label htmlFor="type">Category Type</Label>
         <Select
           value={type}
-          onValueChange={(value) => setType(value as ExpenseType)}
+          onValueChange={(value) => {
+            setType(value as ExpenseType)
+            setParentId("")
+          }}
           disabled={!!initialData} // Can't change type of existing category
         >
           <SelectTrigger id="type" className={errors.type ? "border-destructive" : ""}>
@@ -212,24 +229,65 @@ export function CategoryForm({ initialData, onSubmit, isSubmitting = false }: Ca
         )}
       </div>
 
+      <div className="space-y-2">
+        <Label htmlFor="parent">Parent Category (Optional)</Label>
+        <Select
+          value={parentId || "none"}
+          onValueChange={(value) => setParentId(value === "none" ? "" : value)}
+          disabled={subcategoryCount > 0}
+        >
+          <SelectTrigger id="parent">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">None (top level)</SelectItem>
+            {parentOptions.map((option) => (
+              <SelectItem key={option.id} value={option.id}>
+                {option.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          {subcategoryCount > 0
+            ? `Has ${subcategoryCount} subcategor${subcategoryCount === 1 ? "y" : "ies"}, so it stays at the top level.`
+            : "Subcategories roll up into their parent's totals and budget."}
+        </p>
+      </div>
+
       <div className="space-y-2">
         <Label htmlFor="budget">Budget (Optional)</Label>
-        <div className="relative">
-          <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">₹</span>
-          <Input
-            id="budget"
-            type="number"
-            value={budget}
-            onChange={(e) => setBudget(e.target.value)}
-            placeholder="e.g., 5000"
-            className={`pl-7 ${errors.budget ? "border-destructive" : ""}`}
-          />
+        <div className="flex gap-2">
+          <div className="relative flex-1">
+            <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">₹</span>
+            <Input
+              id="budget"
+              type="number"
+              value={budget}
+              onChange={(e) => setBudget(e.target.value)}
+              placeholder="e.g., 5000"
+              className={`pl-7 ${errors.budget ? "border-destructive" : ""}`}
+            />
+          </div>
+          <Select value={budgetPeriod} onValueChange={(value) => setBudgetPeriod(value as BudgetPeriod)}>
+            <SelectTrigger className="w-[120px]" aria-label="Budget period">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(["weekly", "monthly", "yearly"] as BudgetPeriod[]).map((value) => (
+                <SelectItem key={value} value={value}>
+                  {BUDGET_PERIOD_LABELS[value]}
+                </SelectItem>
+              ))}
+              {budgetPeriod === "custom" && <SelectItem value="custom">{BUDGET_PERIOD_LABELS.custom}</SelectItem>}
+            </SelectContent>
+          </Select>
         </div>
         {errors.budget ? (
           <p className="text-sm text-destructive">{errors.budget}</p>
         ) : (
           <p className="text-xs text-muted-foreground">
-            Set a monthly budget for this category (leave empty for no budget)
+            Spending is compared against the current period only (leave empty for no budget)
           </p>
         )}
       </div>
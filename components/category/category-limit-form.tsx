@@ -3,18 +3,25 @@
 import type React from "react"
 
 import { useState, useEffect } from "react"
+import { format } from "date-fns"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
 import { AlertCircle, DollarSign, Ban, Target } from "lucide-react"
 import { Badge } from "@/components/ui/badge"
 import { Progress } from "@/components/ui/progress"
+import { BudgetHistory } from "./budget-history"
+import { BUDGET_PERIOD_LABELS, DEFAULT_CUSTOM_PERIOD_DAYS, formatPeriodLabel } from "@/lib/budget"
 import type { Category } from "@/lib/category-service"
+import type { BudgetPeriod, BudgetSettings } from "@/types/budget"
+import { useCurrency } from "@/hooks/use-currency"
 
 interface CategoryLimitFormProps {
   category: Category & { spending: number }
-  onSubmit: (budget: number | undefined) => void
+  onSubmit: (budget: number | undefined, settings: BudgetSettings) => void
   isSubmitting?: boolean
 }
 
@@ -22,22 +29,30 @@ export function CategoryLimitForm({ category, onSubmit, isSubmitting = false }:
   const [budget, setBudget] = useState<string>(category.budget ? category.budget.toString() : "")
   const [errors, setErrors] = useState<string | null>(null)
   const [noLimit, setNoLimit] = useState<boolean>(!category.budget)
+  const [period, setPeriod] = useState<BudgetPeriod>(category.budgetPeriod || "monthly")
+  const [periodDays, setPeriodDays] = useState<string>(
+    (category.budgetPeriodDays || DEFAULT_CUSTOM_PERIOD_DAYS).toString(),
+  )
+  const [startDate, setStartDate] = useState<string>(category.budgetStartDate || "")
+  const [rollover, setRollover] = useState<boolean>(category.budgetRollover ?? false)
 
   // Reset form when category changes
   useEffect(() => {
     setBudget(category.budget ? category.budget.toString() : "")
     setNoLimit(!category.budget)
+    setPeriod(category.budgetPeriod || "monthly")
+    setPeriodDays((category.budgetPeriodDays || DEFAULT_CUSTOM_PERIOD_DAYS).toString())
+    setStartDate(category.budgetStartDate || "")
+    setRollover(category.budgetRollover ?? false)
     setErrors(null)
   }, [category])
 
-  // Format currency for display
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat("en-IN", {
-      style: "currency",
-      currency: "INR",
-      maximumFractionDigits: 0,
-    }).format(amount)
-  }
+  // Spending is compared against the current budget period only
+  const status = category.budgetStatus
+  const periodSpending = status?.actual ?? 0
+  const available = status?.available ?? category.budget ?? 0
+
+  const { formatCurrency } = useCurrency()
 
   // Get type color for badges
   const getTypeColor = (type: string) => {
@@ -55,8 +70,8 @@ export function CategoryLimitForm({ category, onSubmit, isSubmitting = false }:
 
   // Calculate progress percentage
   const calculateProgress = () => {
-    if (!category.budget || category.budget <= 0) return 0
-    const percentage = (category.spending / category.budget) * 100
+    if (!category.budget || available <= 0) return 0
+    const percentage = (periodSpending / available) * 100
     return Math.min(percentage, 100) // Cap at 100%
   }
 
@@ -70,16 +85,23 @@ export function CategoryLimitForm({ category, onSubmit, isSubmitting = false }:
 
   // Check if over budget
   const isOverBudget = () => {
-    return category.budget !== undefined && category.spending > category.budget
+    return !!status?.isOverBudget
   }
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
     setErrors(null)
 
+    const settings: BudgetSettings = {
+      period,
+      periodDays: period === "custom" ? Number(periodDays) : undefined,
+      startDate: startDate || undefined,
+      rollover,
+    }
+
     if (noLimit) {
       // Submit with undefined budget to remove limit
-      onSubmit(undefined)
+      onSubmit(undefined, settings)
       return
     }
 
@@ -106,8 +128,28 @@ export function CategoryLimitForm({ category, onSubmit, isSubmitting = false }:
       return
     }
 
+    if (period === "custom") {
+      const days = Number(periodDays)
+      if (!Number.isInteger(days) || days < 1 || days > 366) {
+        setErrors("Custom period must be between 1 and 366 days")
+        return
+      }
+      if (!startDate) {
+        setErrors("Choose the date custom periods are counted from")
+        return
+      }
+    }
+
     // Submit form
-    onSubmit(budgetValue)
+    onSubmit(budgetValue, settings)
+  }
+
+  // Custom periods are counted from the start date, so one is filled in as soon as they are chosen
+  const handlePeriodChange = (value: BudgetPeriod) => {
+    setPeriod(value)
+    if (value === "custom" && !startDate) {
+      setStartDate(format(new Date(), "yyyy-MM-dd"))
+    }
   }
 
   const toggleNoLimit = () => {
@@ -148,15 +190,27 @@ export function CategoryLimitForm({ category, onSubmit, isSubmitting = false }:
             </Badge>
           </div>
 
-          <div className="font-medium">Current Spending:</div>
+          <div className="font-medium">Spent This Period:</div>
           <div className={`font-medium ${isOverBudget() ? "text-red-500" : ""}`}>
-            {formatCurrency(category.spending)}
+            {formatCurrency(periodSpending)}
+            {status && (
+              <div className="text-xs font-normal text-muted-foreground">
+                {formatPeriodLabel(category.budgetPeriod || "monthly", status)}
+              </div>
+            )}
           </div>
 
           {category.budget && (
             <>
               <div className="font-medium">Current Budget:</div>
-              <div>{formatCurrency(category.budget)}</div>
+              <div>
+                {formatCurrency(available)}
+                {status && status.carriedOver > 0 && (
+                  <div className="text-xs text-muted-foreground">
+                    incl. {formatCurrency(status.carriedOver)} rolled over
+                  </div>
+                )}
+              </div>
 
               <div className="font-medium">Usage:</div>
               <div className="w-full col-span-1">
@@ -164,7 +218,7 @@ export function CategoryLimitForm({ category, onSubmit, isSubmitting = false }:
                 <div className="flex justify-between text-xs mt-1">
                   <span className={isOverBudget() ? "text-red-500" : ""}>{calculateProgress().toFixed(0)}%</span>
                   {isOverBudget() && (
-                    <span className="text-red-500">Over by {formatCurrency(category.spending - category.budget)}</span>
+                    <span className="text-red-500">Over by {formatCurrency(periodSpending - available)}</span>
                   )}
                 </div>
               </div>
@@ -184,7 +238,7 @@ export function CategoryLimitForm({ category, onSubmit, isSubmitting = false }:
         <div className="flex items-center justify-between">
           <Label htmlFor="budget" className="text-base flex items-center">
             <Target className="h-4 w-4 mr-2" />
-            Monthly Budget Limit
+            Budget Limit
           </Label>
           <Button type="button" variant="outline" size="sm" onClick={toggleNoLimit} className="text-xs h-7">
             {noLimit ? <DollarSign className="h-3.5 w-3.5 mr-1" /> : <Ban className="h-3.5 w-3.5 mr-1" />}
@@ -207,16 +261,78 @@ export function CategoryLimitForm({ category, onSubmit, isSubmitting = false }:
           </div>
         )}
 
-        {!noLimit && <p className="text-xs text-muted-foreground">Set a monthly spending limit for this category</p>}
+        {!noLimit && (
+          <>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="budget-period" className="text-xs">
+                  Period
+                </Label>
+                <Select value={period} onValueChange={(value) => handlePeriodChange(value as BudgetPeriod)}>
+                  <SelectTrigger id="budget-period">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(BUDGET_PERIOD_LABELS) as BudgetPeriod[]).map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {BUDGET_PERIOD_LABELS[value]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {period === "custom" && (
+                <div className="space-y-1">
+                  <Label htmlFor="budget-period-days" className="text-xs">
+                    Length (days)
+                  </Label>
+                  <Input
+                    id="budget-period-days"
+                    type="number"
+                    min={1}
+                    value={periodDays}
+                    onChange={(e) => setPeriodDays(e.target.value)}
+                  />
+                </div>
+              )}
+              <div className="space-y-1">
+                <Label htmlFor="budget-start" className="text-xs">
+                  Tracking from
+                </Label>
+                <Input
+                  id="budget-start"
+                  type="date"
+                  value={startDate}
+                  required={period === "custom"}
+                  onChange={(e) => setStartDate(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between rounded-md border p-3">
+              <div>
+                <Label htmlFor="budget-rollover">Roll over unspent budget</Label>
+                <p className="text-xs text-muted-foreground">Carry what is left at the end of a period into the next</p>
+              </div>
+              <Switch id="budget-rollover" checked={rollover} onCheckedChange={setRollover} />
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              Set a {BUDGET_PERIOD_LABELS[period].toLowerCase()} spending limit for this category
+            </p>
+          </>
+        )}
 
         {noLimit && (
           <div className="bg-muted/50 p-4 rounded-md text-center">
-            <p className="text-muted-foreground">No monthly spending limit set for this category</p>
+            <p className="text-muted-foreground">No spending limit set for this category</p>
             <p className="text-xs mt-1">You can track spending without setting a limit</p>
           </div>
         )}
       </div>
 
+      <BudgetHistory category={category} />
+
       <div className="pt-4 flex justify-end gap-2">
         <Button type="submit" className="min-w-[120px]" disabled={isSubmitting}>
           {isSubmitting ? "Saving..." : noLimit ? "Remove Limit" : "Save Limit"}
@@ -1,7 +1,7 @@
 "use client"
 
-import { useState } from "react"
-import { Edit, Trash2, ArrowUpDown, Check, Clock, Hash } from "lucide-react"
+import { useMemo, useState } from "react"
+import { Edit, Trash2, ArrowUpDown, Check, Clock, Hash, ChevronDown, ChevronRight } from "lucide-react"
 import { format } from "date-fns"
 
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
@@ -11,6 +11,8 @@ import { Checkbox } from "@/components/ui/checkbox"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
 
 import type { Category } from "@/lib/category-service"
+import { BUDGET_PERIOD_UNITS } from "@/lib/budget"
+import { useCurrency } from "@/hooks/use-currency"
 
 type CategoryTableProps = {
   categories: (Category & { spending: number })[]
@@ -37,14 +39,35 @@ export function CategoryTable({
   onSort,
 }: CategoryTableProps) {
   const [hoveredRow, setHoveredRow] = useState<string | null>(null)
+  const [expandedIds, setExpandedIds] = useState<string[]>([])
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat("en-IN", {
-      style: "currency",
-      currency: "INR",
-      maximumFractionDigits: 0,
-    }).format(amount)
-  }
+  // Subcategories are listed under their parent, when it is shown, and the parent's spending includes theirs
+  const rows = useMemo(() => {
+    const shownIds = new Set(categories.map((category) => category.id))
+    const topLevel = categories.filter((category) => !category.parentId || !shownIds.has(category.parentId))
+
+    return topLevel.flatMap((category) => {
+      const subcategories = categories.filter((candidate) => candidate.parentId === category.id)
+      const spending = subcategories.reduce((total, subcategory) => total + subcategory.spending, category.spending)
+      const parentRow = { category, depth: 0, subcategoryCount: subcategories.length, spending }
+      if (!expandedIds.includes(category.id)) return [parentRow]
+
+      return [
+        parentRow,
+        ...subcategories.map((subcategory) => ({
+          category: subcategory,
+          depth: 1,
+          subcategoryCount: 0,
+          spending: subcategory.spending,
+        })),
+      ]
+    })
+  }, [categories, expandedIds])
+
+  const toggleExpanded = (id: string) =>
+    setExpandedIds((current) => (current.includes(id) ? current.filter((item) => item !== id) : [...current, id]))
+
+  const { formatCurrency } = useCurrency()
 
   const getTypeColor = (type: string) => {
     switch (type) {
@@ -111,7 +134,7 @@ export function CategoryTable({
             </TableRow>
           </TableHeader>
           <TableBody>
-            {categories.map((category) => {
+            {rows.map(({ category, depth, subcategoryCount, spending }) => {
               const isSelected = selectedCategories.includes(category.id)
               const isActive = (category.usageCount || 0) > 0
 
@@ -131,8 +154,24 @@ export function CategoryTable({
                       />
                     </TableCell>
                   )}
-                  <TableCell>
+                  <TableCell className={depth > 0 ? "pl-10" : undefined}>
                     <div className="flex items-center gap-2">
+                      {subcategoryCount > 0 && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6 -ml-2"
+                          onClick={() => toggleExpanded(category.id)}
+                          aria-expanded={expandedIds.includes(category.id)}
+                        >
+                          {expandedIds.includes(category.id) ? (
+                            <ChevronDown className="h-4 w-4" />
+                          ) : (
+                            <ChevronRight className="h-4 w-4" />
+                          )}
+                          <span className="sr-only">Show subcategories of {category.name}</span>
+                        </Button>
+                      )}
                       {category.color && (
                         <div
                           className="w-3 h-3 rounded-full"
@@ -192,9 +231,24 @@ export function CategoryTable({
                       <span>{formatLastUsed(category.lastUsed)}</span>
                     </div>
                   </TableCell>
-                  <TableCell className="text-right">{formatCurrency(category.spending)}</TableCell>
+                  <TableCell className="text-right">
+                    {formatCurrency(spending)}
+                    {subcategoryCount > 0 && (
+                      <div className="text-xs text-muted-foreground">
+                        incl. {subcategoryCount} subcategor{subcategoryCount === 1 ? "y" : "ies"}
+                      </div>
+                    )}
+                  </TableCell>
                   <TableCell className="text-right">
                     {category.budget ? formatCurrency(category.budget) : "-"}
+                    {category.budgetStatus && (
+                      <div
+                        className={`text-xs ${category.budgetStatus.isOverBudget ? "text-red-500" : "text-muted-foreground"}`}
+                      >
+                        {formatCurrency(category.budgetStatus.actual)} spent this{" "}
+                        {BUDGET_PERIOD_UNITS[category.budgetPeriod || "monthly"]}
+                      </div>
+                    )}
                   </TableCell>
                   <TableCell className="text-right">
                     <div className="flex justify-end gap-2">
@@ -7,6 +7,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
 import { AlertCircle } from "lucide-react"
 import type { Category } from "@/lib/category-service"
+import { getAdoptiveParentId, getSubcategories } from "@/lib/category-tree"
 import { Badge } from "@/components/ui/badge"
 
 interface DeleteCategoryDialogProps {
@@ -23,6 +24,11 @@ export function DeleteCategoryDialog({ category, categories, onDelete, isDeletin
   // Filter categories to only show those of the same type as the one being deleted
   const compatibleCategories = categories.filter((cat) => cat.type === category.type && cat.id !== category.id)
 
+  // Subcategories follow the replacement, or move to the top level without one
+  const subcategories = getSubcategories(categories, category.id).filter((cat) => cat.id !== replacementCategoryId)
+  const replacement = categories.find((cat) => cat.id === replacementCategoryId)
+  const adoptiveParent = categories.find((cat) => cat.id === getAdoptiveParentId(category.id, replacement))
+
   const handleDelete = () => {
     setError(null)
 
@@ -135,11 +141,18 @@ export function DeleteCategoryDialog({ category, categories, onDelete, isDeletin
           <AlertCircle className="h-4 w-4" />
           <AlertTitle>Confirmation</AlertTitle>
           <AlertDescription>
-            Are you sure you want to delete this category? This action cannot be undone.
+            Are you sure you want to delete this category? You can undo it from recent changes.
           </AlertDescription>
         </Alert>
       )}
 
+      {subcategories.length > 0 && (
+        <p className="text-sm text-muted-foreground">
+          Its subcategories ({subcategories.map((subcategory) => subcategory.name).join(", ")}) will move{" "}
+          {adoptiveParent ? `under "${adoptiveParent.name}"` : "to the top level"}.
+        </p>
+      )}
+
       <div className="flex justify-end gap-2 pt-2">
         <Button
           variant="destructive"
@@ -9,6 +9,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
 import { AlertCircle, GitMerge, ArrowRight } from "lucide-react"
 import type { Category } from "@/lib/category-service"
+import { getAdoptiveParentId, getSubcategories } from "@/lib/category-tree"
 
 interface MergeCategoriesFormProps {
   categories: Category[]
@@ -51,6 +52,12 @@ export function MergeCategoriesForm({
   // Find target category details
   const targetCategory = targetCategoryId ? categories.find((cat) => cat.id === targetCategoryId) : null
 
+  // Subcategories of the source follow its transactions
+  const subcategories = getSubcategories(categories, sourceCategory.id).filter((cat) => cat.id !== targetCategoryId)
+  const adoptiveParent = categories.find(
+    (cat) => cat.id === getAdoptiveParentId(sourceCategory.id, targetCategory || undefined),
+  )
+
   return (
     <form onSubmit={handleSubmit} className="space-y-4">
       {error && (
@@ -140,6 +147,12 @@ export function MergeCategoriesForm({
             This action will move all transactions from "{sourceCategory.name}" to "{targetCategory?.name}" and then
             delete the "{sourceCategory.name}" category.
           </p>
+          {subcategories.length > 0 && adoptiveParent && (
+            <p className="text-xs text-muted-foreground mt-2">
+              Its subcategories ({subcategories.map((subcategory) => subcategory.name).join(", ")}) will move under
+              &quot;{adoptiveParent.name}&quot;.
+            </p>
+          )}
         </div>
       )}
 
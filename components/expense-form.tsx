@@ -2,7 +2,7 @@
 
 import type React from "react"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useMemo } from "react"
 import { CalendarIcon } from "lucide-react"
 import { format } from "date-fns"
 
@@ -14,11 +14,26 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
 import { Calendar } from "@/components/ui/calendar"
 import { expenseService } from "@/lib/expense-service"
+import { currencyService, COMMON_CURRENCIES } from "@/lib/currency-service"
 import { TemplateSelector } from "@/components/templates/template-selector"
+import { TagInput } from "@/components/tag-input"
+import { CategorySuggestions } from "@/components/category-suggestions"
+import { SplitEditor, toExpenseSplits, toSplitLines, type SplitLine } from "@/components/split-editor"
+import { getPrimarySplitCategory, isSplit, validateSplits } from "@/lib/splits"
+import { applyRules } from "@/lib/rules"
+import { useAccounts } from "@/hooks/use-accounts"
+import { useRules } from "@/hooks/use-rules"
+import { useCategorySuggestions } from "@/hooks/use-category-suggestions"
 import type { TransactionTemplate } from "@/types/template"
 
 import type { Expense, ExpenseType, ExpenseCategory } from "@/types/expense"
 
+// Category recorded on transfers, which have no user-defined category
+const TRANSFER_CATEGORY = "Transfer"
+
+// Select value for transactions not tied to an account
+const NO_ACCOUNT = "none"
+
 type ExpenseFormProps = {
   onSubmit: (expense: Expense) => void
   initialData?: Expense
@@ -32,7 +47,14 @@ export function ExpenseForm({ onSubmit, initialData, isSubmitting = false, isMod
   const [type, setType] = useState<ExpenseType>(initialData?.type || "expense")
   const [category, setCategory] = useState<string>(initialData?.category || "")
   const [amount, setAmount] = useState<string>(initialData?.amount ? initialData.amount.toString() : "")
+  const [currency, setCurrency] = useState<string>(initialData?.currency || currencyService.getBaseCurrency())
+  const [accountId, setAccountId] = useState<string>(initialData?.accountId || NO_ACCOUNT)
+  const [transferAccountId, setTransferAccountId] = useState<string>(initialData?.transferAccountId || "")
   const [notes, setNotes] = useState<string>(initialData?.notes || "")
+  const [tags, setTags] = useState<string[]>(initialData?.tags || [])
+  const [splitLines, setSplitLines] = useState<SplitLine[]>(
+    initialData && isSplit(initialData) ? toSplitLines(initialData.splits!) : [],
+  )
   const [errors, setErrors] = useState<Record<string, string>>({})
   const [localSubmitting, setLocalSubmitting] = useState(false)
   const [categories, setCategories] = useState<Record<string, string[]>>({
@@ -40,6 +62,26 @@ export function ExpenseForm({ onSubmit, initialData, isSubmitting = false, isMod
     income: [],
     savings: [],
   })
+  // Rules pick the category of new transactions until one is chosen by hand, and leave a type or tags
+  // set by hand alone
+  const [categoryChosen, setCategoryChosen] = useState(!!initialData)
+  const [typeChosen, setTypeChosen] = useState(!!initialData)
+  const [tagsChosen, setTagsChosen] = useState(!!initialData)
+  // Tags added by the rules that currently match, taken off again when they stop matching
+  const [ruleTags, setRuleTags] = useState<string[]>([])
+  const [ruleName, setRuleName] = useState<string | null>(null)
+  const { rules } = useRules()
+  const { suggest, learn } = useCategorySuggestions()
+  // Top suggestion shown before a category was picked, to learn whether it was kept or corrected
+  const [offeredCategory, setOfferedCategory] = useState<string | null>(null)
+  const { accounts } = useAccounts()
+  const isTransfer = type === "transfer"
+  const isSplitting = !isTransfer && splitLines.length > 0
+
+  // Archived accounts stay selectable on transactions that already use them
+  const accountOptions = accounts.filter(
+    (account) => !account.archived || account.id === accountId || account.id === transferAccountId,
+  )
 
   // Load categories when component mounts or type changes
   useEffect(() => {
@@ -89,6 +131,56 @@ export function ExpenseForm({ onSubmit, initialData, isSubmitting = false, isMod
     }
   }, [category, type])
 
+  // Re-run the rules as the notes, amount, account or date change
+  useEffect(() => {
+    if (categoryChosen || type === "transfer" || splitLines.length > 0) return
+
+    // With the type chosen by hand, rules for another type can only add tags
+    const applicableRules = typeChosen
+      ? rules.map((rule) =>
+          rule.actions.type && rule.actions.type !== type ? { ...rule, actions: { tags: rule.actions.tags } } : rule,
+        )
+      : rules
+    const ownTags = tagsChosen ? tags : tags.filter((tag) => !ruleTags.includes(tag))
+
+    const { expense, matched } = applyRules(
+      {
+        id: "",
+        date: date.toISOString(),
+        type,
+        category: "",
+        amount: Number.parseFloat(amount) || 0,
+        accountId: accountId !== NO_ACCOUNT ? accountId : undefined,
+        notes,
+        tags: ownTags,
+      },
+      applicableRules,
+    )
+
+    const rule = matched.find((candidate) => candidate.actions.category)
+    if (rule) setType(expense.type)
+    setCategory(expense.category)
+    setRuleName(rule?.name || null)
+    if (!tagsChosen) {
+      const nextTags = expense.tags || []
+      setRuleTags(nextTags.filter((tag) => !ownTags.includes(tag)))
+      if (nextTags.join(",") !== tags.join(",")) setTags(nextTags)
+    }
+  }, [notes, amount, accountId, date, rules, categoryChosen, typeChosen, tagsChosen, type])
+
+  // Learned guesses for a new transaction, shown until a category is picked
+  const suggestions = useMemo(() => {
+    if (initialData || isTransfer || isSplitting || category || (!notes.trim() && !amount)) return []
+    return suggest(
+      { type, notes, amount: Number.parseFloat(amount) || 0, date: date.toISOString() },
+      categories[type] || [],
+    )
+  }, [initialData, isTransfer, isSplitting, category, notes, amount, type, date, categories, suggest])
+
+  useEffect(() => {
+    if (suggestions.length > 0) setOfferedCategory(suggestions[0].category)
+  }, [suggestions])
+
   // Format currency for display
   const formatCurrency = (value: string) => {
     if (!value) return ""
@@ -111,6 +203,11 @@ export function ExpenseForm({ onSubmit, initialData, isSubmitting = false, isMod
     return ""
   }
 
+  // Common currencies plus any with a stored exchange rate
+  const currencyOptions = Array.from(
+    new Set([currencyService.getBaseCurrency(), ...COMMON_CURRENCIES, ...currencyService.getRates().map((r) => r.currency), currency]),
+  )
+
   // Get categories based on expense type
   const getCategories = () => {
     return categories[type] || []
@@ -132,7 +229,21 @@ export function ExpenseForm({ onSubmit, initialData, isSubmitting = false, isMod
       newErrors.type = "Type is required"
     }
 
-    if (!category) {
+    if (isTransfer) {
+      if (!accountId || accountId === NO_ACCOUNT) {
+        newErrors.accountId = "Choose the account the money leaves"
+      }
+      if (!transferAccountId) {
+        newErrors.transferAccountId = "Choose the account the money goes to"
+      } else if (transferAccountId === accountId) {
+        newErrors.transferAccountId = "Transfers need two different accounts"
+      }
+    } else if (isSplitting) {
+      const splitErrors = validateSplits(toExpenseSplits(splitLines), Number.parseFloat(amount) || 0)
+      if (splitErrors.length > 0) {
+        newErrors.splits = splitErrors[0]
+      }
+    } else if (!category) {
       newErrors.category = "Category is required"
     }
 
@@ -146,7 +257,7 @@ export function ExpenseForm({ onSubmit, initialData, isSubmitting = false, isMod
         newErrors.amount = "Amount must be greater than zero"
       } else if (amountValue > 10000000) {
         // 1 crore limit
-        newErrors.amount = "Amount cannot exceed ₹1,00,00,000"
+        newErrors.amount = "Amount cannot exceed 1,00,00,000"
       }
     }
 
@@ -158,27 +269,46 @@ export function ExpenseForm({ onSubmit, initialData, isSubmitting = false, isMod
       return
     }
 
-    // Create expense object
+    // Create expense object; a split transaction takes the category of its largest line
+    const splits = isSplitting ? toExpenseSplits(splitLines) : undefined
     const expense: Expense = {
       id: initialData?.id || "",
       date: date.toISOString(),
       type,
-      category: category as ExpenseCategory,
+      category: isTransfer ? TRANSFER_CATEGORY : splits ? getPrimarySplitCategory(splits) : (category as ExpenseCategory),
       amount: Number.parseFloat(amount),
+      currency,
+      accountId: accountId && accountId !== NO_ACCOUNT ? accountId : undefined,
+      transferAccountId: isTransfer ? transferAccountId : undefined,
       notes,
+      tags,
+      splits,
     }
 
     try {
       // Submit form
       onSubmit(expense)
 
+      if (!initialData && offeredCategory && !ruleName && !splits && !isTransfer) {
+        learn(expense, offeredCategory, expense.category)
+      }
+
       // Reset form if not editing and not in modal
       if (!initialData && !isModal) {
         setDate(new Date())
         setType("expense")
         setCategory("")
         setAmount("")
+        setTransferAccountId("")
         setNotes("")
+        setTags([])
+        setSplitLines([])
+        setCategoryChosen(false)
+        setTypeChosen(false)
+        setTagsChosen(false)
+        setRuleTags([])
+        setRuleName(null)
+        setOfferedCategory(null)
       }
     } catch (error) {
       console.error("Error submitting form:", error)
@@ -190,17 +320,55 @@ export function ExpenseForm({ onSubmit, initialData, isSubmitting = false, isMod
   // Handle type change
   const handleTypeChange = (value: string) => {
     setType(value as ExpenseType)
+    setTypeChosen(true)
     setCategory("")
+    setRuleName(null)
+    setOfferedCategory(null)
+    setSplitLines([])
+
+    // Transfers always start from an account
+    if (value === "transfer" && accountId === NO_ACCOUNT) setAccountId("")
+    if (value !== "transfer" && !accountId) setAccountId(NO_ACCOUNT)
   }
 
   // Handle template selection
   const handleTemplateSelect = (template: TransactionTemplate) => {
     setType(template.type)
+    setTypeChosen(true)
     setCategory(template.category)
+    setCategoryChosen(true)
+    setRuleName(null)
+    setSplitLines([])
     setAmount(template.amount.toString())
     setNotes(template.notes)
   }
 
+  const handleTagsChange = (value: string[]) => {
+    setTags(value)
+    setTagsChosen(true)
+  }
+
+  const handleCategoryChange = (value: string) => {
+    setCategory(value)
+    setCategoryChosen(true)
+    setRuleName(null)
+  }
+
+  // Start a split with the current category holding the whole amount; stopping keeps the largest line's category
+  const toggleSplit = () => {
+    if (isSplitting) {
+      const splits = toExpenseSplits(splitLines).filter((split) => split.category)
+      if (splits.length > 0) setCategory(getPrimarySplitCategory(splits))
+      setSplitLines([])
+    } else {
+      setSplitLines([
+        { category, amount, notes: "" },
+        { category: "", amount: "", notes: "" },
+      ])
+    }
+    setErrors((current) => ({ ...current, category: "", splits: "" }))
+  }
+
   // Determine if the form is in a submitting state
   const formIsSubmitting = isSubmitting || localSubmitting
 
@@ -248,36 +416,108 @@ export function ExpenseForm({ onSubmit, initialData, isSubmitting = false, isMod
               <SelectItem value="expense">Expense</SelectItem>
               <SelectItem value="income">Income</SelectItem>
               <SelectItem value="savings">Savings</SelectItem>
+              <SelectItem value="transfer">Transfer</SelectItem>
             </SelectContent>
           </Select>
           {errors.type && <p className="text-sm text-destructive mt-1">{errors.type}</p>}
         </div>
 
+        {!isTransfer && (
+          <div className="flex flex-col space-y-1.5">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="category" className="text-sm font-medium">
+                Category
+              </Label>
+              <Button type="button" variant="link" size="sm" className="h-auto p-0 text-xs" onClick={toggleSplit}>
+                {isSplitting ? "Don't split" : "Split"}
+              </Button>
+            </div>
+            {isSplitting ? (
+              <p className="flex h-10 items-center text-sm text-muted-foreground">
+                Split across {splitLines.length} lines below
+              </p>
+            ) : (
+              <Select value={category} onValueChange={handleCategoryChange}>
+                <SelectTrigger id="category" className={errors.category ? "border-destructive" : ""}>
+                  <SelectValue placeholder="Select category" />
+                </SelectTrigger>
+                <SelectContent>
+                  {getCategories().map((cat) => (
+                    <SelectItem key={cat} value={cat}>
+                      {cat}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {!isSplitting && <CategorySuggestions suggestions={suggestions} onSelect={handleCategoryChange} />}
+            {ruleName && !isSplitting && (
+              <p className="text-xs text-muted-foreground mt-1">Picked by the rule &quot;{ruleName}&quot;</p>
+            )}
+            {errors.category && <p className="text-sm text-destructive mt-1">{errors.category}</p>}
+          </div>
+        )}
+
         <div className="flex flex-col space-y-1.5">
-          <Label htmlFor="category" className="text-sm font-medium">
-            Category
+          <Label htmlFor="account" className="text-sm font-medium">
+            {isTransfer ? "From account" : "Account"}
           </Label>
-          <Select value={category} onValueChange={setCategory}>
-            <SelectTrigger id="category" className={errors.category ? "border-destructive" : ""}>
-              <SelectValue placeholder="Select category" />
+          <Select value={accountId} onValueChange={setAccountId}>
+            <SelectTrigger id="account" className={errors.accountId ? "border-destructive" : ""}>
+              <SelectValue placeholder="Select account" />
             </SelectTrigger>
             <SelectContent>
-              {getCategories().map((cat) => (
-                <SelectItem key={cat} value={cat}>
-                  {cat}
+              {!isTransfer && <SelectItem value={NO_ACCOUNT}>No account</SelectItem>}
+              {accountOptions.map((account) => (
+                <SelectItem key={account.id} value={account.id}>
+                  {account.name}
                 </SelectItem>
               ))}
             </SelectContent>
           </Select>
-          {errors.category && <p className="text-sm text-destructive mt-1">{errors.category}</p>}
+          {errors.accountId && <p className="text-sm text-destructive mt-1">{errors.accountId}</p>}
         </div>
 
+        {isTransfer && (
+          <div className="flex flex-col space-y-1.5">
+            <Label htmlFor="transfer-account" className="text-sm font-medium">
+              To account
+            </Label>
+            <Select value={transferAccountId} onValueChange={setTransferAccountId}>
+              <SelectTrigger id="transfer-account" className={errors.transferAccountId ? "border-destructive" : ""}>
+                <SelectValue placeholder="Select account" />
+              </SelectTrigger>
+              <SelectContent>
+                {accountOptions
+                  .filter((account) => account.id !== accountId)
+                  .map((account) => (
+                    <SelectItem key={account.id} value={account.id}>
+                      {account.name}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+            {errors.transferAccountId && <p className="text-sm text-destructive mt-1">{errors.transferAccountId}</p>}
+          </div>
+        )}
+
         <div className="flex flex-col space-y-1.5">
           <Label htmlFor="amount" className="text-sm font-medium">
             Amount
           </Label>
-          <div className="relative">
-            <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground">₹</span>
+          <div className="flex gap-2">
+            <Select value={currency} onValueChange={setCurrency}>
+              <SelectTrigger className="w-[90px]" aria-label="Currency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {currencyOptions.map((code) => (
+                  <SelectItem key={code} value={code}>
+                    {code}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
             <Input
               id="amount"
               type="number"
@@ -285,12 +525,26 @@ export function ExpenseForm({ onSubmit, initialData, isSubmitting = false, isMod
               placeholder="0"
               value={amount}
               onChange={(e) => setAmount(e.target.value)}
-              className={`pl-7 ${errors.amount ? "border-destructive" : ""}`}
+              className={`flex-1 ${errors.amount ? "border-destructive" : ""}`}
             />
           </div>
           {errors.amount && <p className="text-sm text-destructive mt-1">{errors.amount}</p>}
         </div>
 
+        {isSplitting && (
+          <div className="flex flex-col space-y-1.5 md:col-span-2">
+            <Label className="text-sm font-medium">Split lines</Label>
+            <SplitEditor
+              lines={splitLines}
+              onChange={setSplitLines}
+              categories={getCategories()}
+              total={Number.parseFloat(amount) || 0}
+              currency={currency}
+              error={errors.splits}
+            />
+          </div>
+        )}
+
         <div className="flex flex-col space-y-1.5 md:col-span-2">
           <Label htmlFor="notes" className="text-sm font-medium">
             Notes
@@ -303,6 +557,13 @@ export function ExpenseForm({ onSubmit, initialData, isSubmitting = false, isMod
             onChange={(e) => setNotes(e.target.value)}
           />
         </div>
+
+        <div className="flex flex-col space-y-1.5 md:col-span-2">
+          <Label htmlFor="tags" className="text-sm font-medium">
+            Tags
+          </Label>
+          <TagInput id="tags" value={tags} onChange={handleTagsChange} />
+        </div>
       </div>
 
       <div className="flex justify-end">
@@ -5,18 +5,21 @@ import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, Responsi
 // No Card components needed anymore
 import { Checkbox } from "@/components/ui/checkbox"
 import { Label } from "@/components/ui/label"
-import { format, parseISO, startOfMonth, endOfMonth, eachMonthOfInterval, isSameMonth } from "date-fns"
-import type { Expense } from "@/types/expense"
+import { format, parseISO, eachMonthOfInterval } from "date-fns"
+import type { MonthTotal } from "@/types/query"
+import { useCurrency } from "@/hooks/use-currency"
 import { useTheme } from "next-themes"
 
 interface ExpenseGraphProps {
-  expenses: Expense[]
+  // Totals per month in the base currency, oldest first, e.g. from useExpenseAggregates
+  months: MonthTotal[]
   className?: string
 }
 
-export function ExpenseGraph({ expenses, className }: ExpenseGraphProps) {
+export function ExpenseGraph({ months, className }: ExpenseGraphProps) {
   const { theme } = useTheme()
   const isDarkTheme = theme === "dark"
+  const { formatCurrency } = useCurrency()
 
   // State for selected series
   const [selectedSeries, setSelectedSeries] = useState({
@@ -36,55 +39,31 @@ export function ExpenseGraph({ expenses, className }: ExpenseGraphProps) {
 
   // Process data for the graph
   const graphData = useMemo(() => {
-    if (!expenses.length) return []
+    if (!months.length) return []
 
-    // Find date range
-    const dates = expenses.map((expense) => new Date(expense.date))
-    const minDate = new Date(Math.min(...dates.map((date) => date.getTime())))
-    const maxDate = new Date(Math.max(...dates.map((date) => date.getTime())))
+    const totalsByMonth = new Map(months.map((month) => [month.month, month.totals]))
 
-    // Create array of months in the range
+    // Months without transactions are shown as zero rather than skipped
     const monthsInRange = eachMonthOfInterval({
-      start: startOfMonth(minDate),
-      end: endOfMonth(maxDate),
+      start: parseISO(`${months[0].month}-01`),
+      end: parseISO(`${months[months.length - 1].month}-01`),
     })
 
-    // Aggregate data by month
     return monthsInRange.map((month) => {
-      const monthlyExpenses = expenses.filter((expense) => isSameMonth(parseISO(expense.date), month))
-
-      const income = monthlyExpenses
-        .filter((expense) => expense.type === "income")
-        .reduce((sum, expense) => sum + expense.amount, 0)
-
-      const expenseAmount = monthlyExpenses
-        .filter((expense) => expense.type === "expense")
-        .reduce((sum, expense) => sum + expense.amount, 0)
-
-      const savings = monthlyExpenses
-        .filter((expense) => expense.type === "savings")
-        .reduce((sum, expense) => sum + expense.amount, 0)
-
-      const balance = income - expenseAmount - savings
+      const totals = totalsByMonth.get(format(month, "yyyy-MM"))
+      const income = totals?.income || 0
+      const expenseAmount = totals?.expense || 0
+      const savings = totals?.savings || 0
 
       return {
         month: format(month, "MMM yyyy"),
         income,
         expense: expenseAmount,
         savings,
-        balance,
+        balance: income - expenseAmount - savings,
       }
     })
-  }, [expenses])
-
-  // Format currency for tooltip
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat("en-IN", {
-      style: "currency",
-      currency: "INR",
-      maximumFractionDigits: 0,
-    }).format(value)
-  }
+  }, [months])
 
   // Custom tooltip component
   const CustomTooltip = ({ active, payload, label }: any) => {
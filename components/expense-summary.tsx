@@ -7,12 +7,15 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
 import type { Expense } from "@/types/expense"
 import { HiddenValue } from "@/components/hidden-value"
+import { useCurrency } from "@/hooks/use-currency"
 
 type ExpenseSummaryProps = {
   expenses: Expense[]
 }
 
 export function ExpenseSummary({ expenses }: ExpenseSummaryProps) {
+  const { formatCurrency, toBase } = useCurrency()
+
   const summary = useMemo(() => {
     const result = {
       totalExpenses: 0,
@@ -26,7 +29,8 @@ export function ExpenseSummary({ expenses }: ExpenseSummaryProps) {
       savingsProgress: 0,
     }
 
-    expenses.forEach((expense) => {
+    // Totals are in the base currency
+    toBase(expenses).forEach((expense) => {
       switch (expense.type) {
         case "expense":
           result.totalExpenses += expense.amount
@@ -62,17 +66,7 @@ export function ExpenseSummary({ expenses }: ExpenseSummaryProps) {
     result.balance = result.totalIncome - result.totalExpenses - result.actualSavings
 
     return result
-  }, [expenses])
-
-  const formatCurrency = (amount: number) => {
-    // Ensure amount is a number
-    const value = typeof amount === "number" ? amount : 0
-    return new Intl.NumberFormat("en-IN", {
-      style: "currency",
-      currency: "INR",
-      maximumFractionDigits: 0,
-    }).format(value)
-  }
+  }, [expenses, toBase])
 
   return (
     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
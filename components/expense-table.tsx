@@ -1,10 +1,11 @@
 "use client"
 
-import { useState } from "react"
+import { useState, useMemo } from "react"
 import { format } from "date-fns"
 import { Edit, Trash2, ChevronDown, ChevronUp } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import { ExpenseForm } from "@/components/expense-form"
@@ -19,7 +20,12 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog"
 import type { Expense } from "@/types/expense"
+import { DEFAULT_CURRENCY } from "@/lib/currency-service"
 import { HiddenValue } from "@/components/hidden-value"
+import { HighlightText } from "@/components/highlight-text"
+import { BulkActionsBar } from "@/components/bulk-actions-bar"
+import { useRowSelection } from "@/hooks/use-row-selection"
+import type { SearchQuery } from "@/lib/search"
 
 interface ExpenseTableProps {
   expenses: Expense[]
@@ -31,6 +37,10 @@ interface ExpenseTableProps {
     direction: "ascending" | "descending"
   } | null
   isLoading?: boolean
+  // Active search, whose matches are highlighted
+  searchQuery?: SearchQuery
+  // Turns on row selection and bulk actions; called once a bulk action or its undo is saved
+  onBulkComplete?: () => void
 }
 
 export function ExpenseTable({
@@ -40,12 +50,20 @@ export function ExpenseTable({
   onSort,
   sortConfig,
   isLoading = false,
+  searchQuery,
+  onBulkComplete,
 }: ExpenseTableProps) {
+  const searchTerms = searchQuery?.terms || []
   const [editingExpense, setEditingExpense] = useState<Expense | null>(null)
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false)
   const [deleteConfirmOpen, setDeleteConfirmOpen] = useState(false)
   const [expenseToDelete, setExpenseToDelete] = useState<string | null>(null)
 
+  const selectable = !!onBulkComplete
+  const expenseIds = useMemo(() => expenses.map((expense) => expense.id), [expenses])
+  const selection = useRowSelection(expenseIds)
+  const selectedExpenses = expenses.filter((expense) => selection.selectedIds.has(expense.id))
+
   const handleEditClick = (expense: Expense) => {
     setEditingExpense(expense)
     setIsEditDialogOpen(true)
@@ -94,10 +112,11 @@ export function ExpenseTable({
     }
   }
 
-  const formatCurrency = (amount: number) => {
+  // Transactions are shown in the currency they were recorded in
+  const formatCurrency = (amount: number, currency = DEFAULT_CURRENCY) => {
     return new Intl.NumberFormat("en-IN", {
       style: "currency",
-      currency: "INR",
+      currency,
       maximumFractionDigits: 0,
     }).format(amount)
   }
@@ -123,10 +142,23 @@ export function ExpenseTable({
 
   return (
     <div className="w-full">
+      {selectable && (
+        <BulkActionsBar selected={selectedExpenses} onClear={selection.clear} onComplete={onBulkComplete} />
+      )}
+
       <div className="rounded-md border w-full overflow-hidden">
         <Table>
           <TableHeader>
             <TableRow>
+              {selectable && (
+                <TableHead className="w-[40px]">
+                  <Checkbox
+                    checked={selection.allSelected ? true : selection.someSelected ? "indeterminate" : false}
+                    onCheckedChange={selection.toggleAll}
+                    aria-label="Select all"
+                  />
+                </TableHead>
+              )}
               <TableHead className="w-[120px] cursor-pointer" onClick={() => handleSort("date")}>
                 <div className="flex items-center">Date {getSortIcon("date")}</div>
               </TableHead>
@@ -145,18 +177,38 @@ export function ExpenseTable({
           </TableHeader>
           <TableBody>
             {expenses.map((expense) => (
-              <TableRow key={expense.id}>
+              <TableRow key={expense.id} data-state={selection.selectedIds.has(expense.id) ? "selected" : undefined}>
+                {selectable && (
+                  <TableCell>
+                    {/* Shift-click selects the rows in between */}
+                    <Checkbox
+                      checked={selection.selectedIds.has(expense.id)}
+                      onClick={(e) => selection.toggle(expense.id, e.shiftKey)}
+                      aria-label="Select transaction"
+                    />
+                  </TableCell>
+                )}
                 <TableCell className="font-medium">{format(new Date(expense.date), "dd MMM yyyy")}</TableCell>
                 <TableCell>
                   <Badge variant={getTypeColor(expense.type)}>
                     {expense.type.charAt(0).toUpperCase() + expense.type.slice(1)}
                   </Badge>
                 </TableCell>
-                <TableCell>{expense.category}</TableCell>
+                <TableCell>
+                  <HighlightText text={expense.category} terms={searchTerms} />
+                </TableCell>
                 <TableCell className="text-right font-medium">
-                  <HiddenValue value={formatCurrency(expense.amount)} />
+                  {searchQuery?.amounts.length ? (
+                    <mark className="rounded-sm bg-yellow-200 px-0.5 text-inherit dark:bg-yellow-700/60">
+                      <HiddenValue value={formatCurrency(expense.amount, expense.currency)} />
+                    </mark>
+                  ) : (
+                    <HiddenValue value={formatCurrency(expense.amount, expense.currency)} />
+                  )}
+                </TableCell>
+                <TableCell className="max-w-[200px] truncate">
+                  <HighlightText text={expense.notes} terms={searchTerms} />
                 </TableCell>
-                <TableCell className="max-w-[200px] truncate">{expense.notes}</TableCell>
                 <TableCell className="text-right">
                   <div className="flex justify-end space-x-2">
                     <Button variant="outline" size="icon" onClick={() => handleEditClick(expense)}>
@@ -200,7 +252,7 @@ export function ExpenseTable({
           <AlertDialogHeader>
             <AlertDialogTitle>Are you sure?</AlertDialogTitle>
             <AlertDialogDescription>
-              This action cannot be undone. This will permanently delete the transaction.
+              This will delete the transaction. You can undo it from the notification or from recent changes.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -3,7 +3,7 @@
 import type React from "react"
 
 import { useState } from "react"
-import { useFilter, type TimePeriod, type AmountRange } from "@/contexts/filter-context"
+import { useFilter } from "@/contexts/filter-context"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import {
@@ -29,27 +29,26 @@ import {
   Utensils,
   Sparkles,
   Clock,
+  Bookmark,
+  BookmarkPlus,
+  Pin,
+  Settings2,
 } from "lucide-react"
 import { motion } from "framer-motion"
 import { cn } from "@/lib/utils"
-import type { ExpenseType } from "@/types/expense"
+import { describeFilters, fromSavedFilters } from "@/lib/filters"
+import { useFilterPresets } from "@/hooks/use-filter-presets"
+import { SaveFilterPresetDialog } from "@/components/save-filter-preset-dialog"
+import { ManageFilterPresetsDialog } from "@/components/manage-filter-presets-dialog"
+import type { SavedFilters } from "@/types/filter"
 
-// Define preset types
-export interface FilterPreset {
+// Built-in presets offered to everyone, next to the ones the user saved
+interface SuggestedPreset {
   id: string
   name: string
   description: string
   icon: React.ReactNode
-  filters: {
-    timePeriod?: TimePeriod
-    customDateFrom?: Date | null
-    customDateTo?: Date | null
-    type?: ExpenseType | "all"
-    category?: string | "all"
-    amountRange?: AmountRange
-    customAmountMin?: number | null
-    customAmountMax?: number | null
-  }
+  filters: SavedFilters
   badge?: {
     text: string
     variant: "default" | "secondary" | "destructive" | "outline"
@@ -63,20 +62,15 @@ interface FilterPresetsProps {
 }
 
 export function FilterPresets({ className, onPresetApplied }: FilterPresetsProps) {
-  const {
-    setTimePeriod,
-    setCustomDateRange,
-    setType,
-    setCategory,
-    setAmountRange,
-    setCustomAmountRange,
-    resetFilters,
-  } = useFilter()
+  const { filters: currentFilters, replaceFilters, activeFilterCount } = useFilter()
+  const { presets: savedPresets } = useFilterPresets()
+  const [isSaveOpen, setIsSaveOpen] = useState(false)
+  const [isManageOpen, setIsManageOpen] = useState(false)
 
   const [lastAppliedPreset, setLastAppliedPreset] = useState<string | null>(null)
 
   // Define common filter presets
-  const presets: FilterPreset[] = [
+  const presets: SuggestedPreset[] = [
     {
       id: "this-month-expenses",
       name: "This Month's Expenses",
@@ -84,7 +78,7 @@ export function FilterPresets({ className, onPresetApplied }: FilterPresetsProps
       icon: <Calendar className="h-4 w-4 text-blue-500" />,
       filters: {
         timePeriod: "thisMonth",
-        type: "expense",
+        types: ["expense"],
       },
       badge: {
         text: "Common",
@@ -99,7 +93,6 @@ export function FilterPresets({ className, onPresetApplied }: FilterPresetsProps
       icon: <Clock className="h-4 w-4 text-green-500" />,
       filters: {
         timePeriod: "last7days",
-        type: "all",
       },
       badge: {
         text: "Common",
@@ -113,8 +106,6 @@ export function FilterPresets({ className, onPresetApplied }: FilterPresetsProps
       description: "View transactions over ₹5,000",
       icon: <DollarSign className="h-4 w-4 text-amber-500" />,
       filters: {
-        timePeriod: "all",
-        type: "all",
         amountRange: "over5000",
       },
       badge: {
@@ -130,7 +121,7 @@ export function FilterPresets({ className, onPresetApplied }: FilterPresetsProps
       icon: <TrendingUp className="h-4 w-4 text-emerald-500" />,
       filters: {
         timePeriod: "thisMonth",
-        type: "income",
+        types: ["income"],
       },
       badge: {
         text: "Income",
@@ -145,7 +136,7 @@ export function FilterPresets({ className, onPresetApplied }: FilterPresetsProps
       icon: <PiggyBank className="h-4 w-4 text-purple-500" />,
       filters: {
         timePeriod: "thisMonth",
-        type: "savings",
+        types: ["savings"],
       },
       badge: {
         text: "Savings",
@@ -159,9 +150,8 @@ export function FilterPresets({ className, onPresetApplied }: FilterPresetsProps
       description: "View all grocery expenses",
       icon: <ShoppingCart className="h-4 w-4 text-orange-500" />,
       filters: {
-        timePeriod: "all",
-        type: "expense",
-        category: "Groceries",
+        types: ["expense"],
+        categories: ["Groceries"],
       },
       badge: {
         text: "Category",
@@ -175,9 +165,8 @@ export function FilterPresets({ className, onPresetApplied }: FilterPresetsProps
       description: "View all dining and restaurant expenses",
       icon: <Utensils className="h-4 w-4 text-red-500" />,
       filters: {
-        timePeriod: "all",
-        type: "expense",
-        category: "Dining",
+        types: ["expense"],
+        categories: ["Dining"],
       },
       badge: {
         text: "Category",
@@ -191,9 +180,8 @@ export function FilterPresets({ className, onPresetApplied }: FilterPresetsProps
       description: "View all coffee and cafe expenses",
       icon: <Coffee className="h-4 w-4 text-brown-500" />,
       filters: {
-        timePeriod: "all",
-        type: "expense",
-        category: "Coffee",
+        types: ["expense"],
+        categories: ["Coffee"],
       },
       badge: {
         text: "Category",
@@ -207,9 +195,8 @@ export function FilterPresets({ className, onPresetApplied }: FilterPresetsProps
       description: "View all housing and rent expenses",
       icon: <Home className="h-4 w-4 text-indigo-500" />,
       filters: {
-        timePeriod: "all",
-        type: "expense",
-        category: "Housing",
+        types: ["expense"],
+        categories: ["Housing"],
       },
       badge: {
         text: "Category",
@@ -223,9 +210,8 @@ export function FilterPresets({ className, onPresetApplied }: FilterPresetsProps
       description: "View all transportation expenses",
       icon: <Car className="h-4 w-4 text-cyan-500" />,
       filters: {
-        timePeriod: "all",
-        type: "expense",
-        category: "Transport",
+        types: ["expense"],
+        categories: ["Transport"],
       },
       badge: {
         text: "Category",
@@ -240,7 +226,7 @@ export function FilterPresets({ className, onPresetApplied }: FilterPresetsProps
       icon: <TrendingDown className="h-4 w-4 text-pink-500" />,
       filters: {
         timePeriod: "lastMonth",
-        type: "expense",
+        types: ["expense"],
       },
       badge: {
         text: "Analysis",
@@ -254,8 +240,7 @@ export function FilterPresets({ className, onPresetApplied }: FilterPresetsProps
       description: "View all small expenses under ₹500",
       icon: <Wallet className="h-4 w-4 text-gray-500" />,
       filters: {
-        timePeriod: "all",
-        type: "expense",
+        types: ["expense"],
         amountRange: "under500",
       },
       badge: {
@@ -266,50 +251,16 @@ export function FilterPresets({ className, onPresetApplied }: FilterPresetsProps
     },
   ]
 
-  // Apply a preset
-  const applyPreset = (preset: FilterPreset) => {
-    // First reset all filters
-    resetFilters()
-
-    // Then apply the preset filters
-    const { filters } = preset
-
-    // Apply time period filter
-    if (filters.timePeriod) {
-      setTimePeriod(filters.timePeriod)
-    }
-
-    // Apply custom date range if present
-    if (filters.customDateFrom !== undefined && filters.customDateTo !== undefined) {
-      setCustomDateRange(filters.customDateFrom, filters.customDateTo)
-    }
-
-    // Apply type filter
-    if (filters.type) {
-      setType(filters.type)
-    }
-
-    // Apply category filter
-    if (filters.category) {
-      setCategory(filters.category)
-    }
-
-    // Apply amount range filter
-    if (filters.amountRange) {
-      setAmountRange(filters.amountRange)
-    }
-
-    // Apply custom amount range if present
-    if (filters.customAmountMin !== undefined && filters.customAmountMax !== undefined) {
-      setCustomAmountRange(filters.customAmountMin, filters.customAmountMax)
-    }
+  // Apply a preset, replacing whatever filters were set before
+  const applyPreset = (presetId: string, filters: SavedFilters) => {
+    replaceFilters(fromSavedFilters(filters))
 
     // Update last applied preset
-    setLastAppliedPreset(preset.id)
+    setLastAppliedPreset(presetId)
 
     // Call the callback if provided
     if (onPresetApplied) {
-      onPresetApplied(preset.id)
+      onPresetApplied(presetId)
     }
   }
 
@@ -363,13 +314,63 @@ export function FilterPresets({ className, onPresetApplied }: FilterPresetsProps
           </DropdownMenuLabel>
           <DropdownMenuSeparator />
 
+          {/* Presets the user saved */}
+          {savedPresets.length > 0 && (
+            <>
+              <DropdownMenuGroup>
+                <DropdownMenuLabel className="text-xs text-muted-foreground">My Presets</DropdownMenuLabel>
+                {savedPresets.map((preset) => (
+                  <DropdownMenuItem
+                    key={preset.id}
+                    onClick={() => applyPreset(preset.id, preset.filters)}
+                    className="flex items-start py-2 cursor-pointer"
+                  >
+                    <div className="flex-shrink-0 mt-0.5">
+                      {preset.pinned ? (
+                        <Pin className="h-4 w-4 text-violet-500" />
+                      ) : (
+                        <Bookmark className="h-4 w-4 text-violet-500" />
+                      )}
+                    </div>
+                    <div className="ml-2 min-w-0">
+                      <div className="font-medium text-sm truncate">{preset.name}</div>
+                      <div className="text-xs text-muted-foreground truncate">
+                        {describeFilters(fromSavedFilters(preset.filters))}
+                      </div>
+                    </div>
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuGroup>
+              <DropdownMenuSeparator />
+            </>
+          )}
+
+          <DropdownMenuGroup>
+            <DropdownMenuItem
+              onClick={() => setIsSaveOpen(true)}
+              disabled={activeFilterCount === 0}
+              className="cursor-pointer"
+            >
+              <BookmarkPlus className="mr-2 h-4 w-4" />
+              Save current filters...
+            </DropdownMenuItem>
+            {savedPresets.length > 0 && (
+              <DropdownMenuItem onClick={() => setIsManageOpen(true)} className="cursor-pointer">
+                <Settings2 className="mr-2 h-4 w-4" />
+                Manage presets...
+              </DropdownMenuItem>
+            )}
+          </DropdownMenuGroup>
+
+          <DropdownMenuSeparator />
+
           {/* Common Presets */}
           <DropdownMenuGroup>
             <DropdownMenuLabel className="text-xs text-muted-foreground">Common</DropdownMenuLabel>
             {groupedPresets.common.map((preset) => (
               <DropdownMenuItem
                 key={preset.id}
-                onClick={() => applyPreset(preset)}
+                onClick={() => applyPreset(preset.id, preset.filters)}
                 className="flex items-start py-2 cursor-pointer"
               >
                 <div className="flex-shrink-0 mt-0.5">{preset.icon}</div>
@@ -401,7 +402,7 @@ export function FilterPresets({ className, onPresetApplied }: FilterPresetsProps
                 {groupedPresets.income.map((preset) => (
                   <DropdownMenuItem
                     key={preset.id}
-                    onClick={() => applyPreset(preset)}
+                    onClick={() => applyPreset(preset.id, preset.filters)}
                     className="flex items-start py-2 cursor-pointer"
                   >
                     <div className="flex-shrink-0 mt-0.5">{preset.icon}</div>
@@ -424,7 +425,7 @@ export function FilterPresets({ className, onPresetApplied }: FilterPresetsProps
                 {groupedPresets.savings.map((preset) => (
                   <DropdownMenuItem
                     key={preset.id}
-                    onClick={() => applyPreset(preset)}
+                    onClick={() => applyPreset(preset.id, preset.filters)}
                     className="flex items-start py-2 cursor-pointer"
                   >
                     <div className="flex-shrink-0 mt-0.5">{preset.icon}</div>
@@ -450,7 +451,7 @@ export function FilterPresets({ className, onPresetApplied }: FilterPresetsProps
                       key={preset.id}
                       variant="ghost"
                       size="sm"
-                      onClick={() => applyPreset(preset)}
+                      onClick={() => applyPreset(preset.id, preset.filters)}
                       className="justify-start h-auto py-2 px-2 text-left"
                     >
                       <div className="flex items-center gap-2">
@@ -472,7 +473,7 @@ export function FilterPresets({ className, onPresetApplied }: FilterPresetsProps
               {groupedPresets.analysis.map((preset) => (
                 <DropdownMenuItem
                   key={preset.id}
-                  onClick={() => applyPreset(preset)}
+                  onClick={() => applyPreset(preset.id, preset.filters)}
                   className="flex items-start py-2 cursor-pointer"
                 >
                   <div className="flex-shrink-0 mt-0.5">{preset.icon}</div>
@@ -486,6 +487,36 @@ export function FilterPresets({ className, onPresetApplied }: FilterPresetsProps
           )}
         </DropdownMenuContent>
       </DropdownMenu>
+
+      <SaveFilterPresetDialog open={isSaveOpen} onOpenChange={setIsSaveOpen} filters={currentFilters} />
+      <ManageFilterPresetsDialog open={isManageOpen} onOpenChange={setIsManageOpen} />
+    </div>
+  )
+}
+
+// One-click buttons for the presets the user pinned
+export function PinnedFilterPresets({ className }: { className?: string }) {
+  const { replaceFilters } = useFilter()
+  const { presets } = useFilterPresets()
+  const pinned = presets.filter((preset) => preset.pinned)
+
+  if (pinned.length === 0) return null
+
+  return (
+    <div className={cn("flex flex-wrap items-center gap-1", className)}>
+      {pinned.map((preset) => (
+        <Button
+          key={preset.id}
+          variant="ghost"
+          size="sm"
+          onClick={() => replaceFilters(fromSavedFilters(preset.filters))}
+          title={describeFilters(fromSavedFilters(preset.filters))}
+          className="h-8 gap-1 px-2 text-violet-600 hover:bg-violet-50 dark:text-violet-400 dark:hover:bg-violet-900/20"
+        >
+          <Pin className="h-3.5 w-3.5" />
+          {preset.name}
+        </Button>
+      ))}
     </div>
   )
 }
@@ -0,0 +1,393 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { format, parseISO } from "date-fns"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Progress } from "@/components/ui/progress"
+import { Badge } from "@/components/ui/badge"
+import { AlertCircle, CalendarDays, Edit, Plus, RefreshCw, Target, Trash2, TrendingUp } from "lucide-react"
+import { goalService, GOALS_UPDATED_EVENT } from "@/lib/goal-service"
+import { EXPENSES_UPDATED_EVENT } from "@/lib/expense-service"
+import { useCategories } from "@/contexts/category-context"
+import { useToast } from "@/hooks/use-toast"
+import type { CreateGoalInput, GoalProgress, GoalStatus } from "@/types/goal"
+import { useCurrency } from "@/hooks/use-currency"
+import { CURRENCY_UPDATED_EVENT } from "@/lib/currency-service"
+
+const emptyGoal = (): CreateGoalInput => ({
+  name: "",
+  targetAmount: 0,
+  targetDate: undefined,
+  categoryIds: [],
+  notes: "",
+})
+
+const STATUS_LABELS: Record<GoalStatus, string> = {
+  completed: "Completed",
+  "on-track": "On track",
+  behind: "Behind",
+  overdue: "Overdue",
+  "no-deadline": "No deadline",
+}
+
+export function GoalManager() {
+  const [goals, setGoals] = useState<GoalProgress[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [editingGoalId, setEditingGoalId] = useState<string | null>(null)
+  const [goalForm, setGoalForm] = useState<CreateGoalInput>(emptyGoal())
+  const [targetAmount, setTargetAmount] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+  const { categories } = useCategories()
+  const { toast } = useToast()
+
+  const savingsCategories = categories.filter((category) => category.type === "savings")
+
+  const loadGoals = useCallback(async () => {
+    try {
+      setLoadError(null)
+      setGoals(await goalService.getGoalsWithProgress())
+    } catch (error: any) {
+      console.error("Error loading goals:", error)
+      setLoadError(error?.message || "Failed to load goals")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadGoals()
+
+    window.addEventListener(GOALS_UPDATED_EVENT, loadGoals)
+    window.addEventListener(CURRENCY_UPDATED_EVENT, loadGoals)
+    window.addEventListener(EXPENSES_UPDATED_EVENT, loadGoals)
+    return () => {
+      window.removeEventListener(GOALS_UPDATED_EVENT, loadGoals)
+      window.removeEventListener(CURRENCY_UPDATED_EVENT, loadGoals)
+      window.removeEventListener(EXPENSES_UPDATED_EVENT, loadGoals)
+    }
+  }, [loadGoals])
+
+  const { formatCurrency } = useCurrency()
+
+  const getStatusBadgeColor = (status: GoalStatus) => {
+    switch (status) {
+      case "completed":
+      case "on-track":
+        return "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300"
+      case "behind":
+        return "bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-300"
+      case "overdue":
+        return "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300"
+      default:
+        return "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-300"
+    }
+  }
+
+  const categoryNames = (categoryIds: string[]) =>
+    categoryIds
+      .map((id) => categories.find((category) => category.id === id)?.name)
+      .filter(Boolean)
+      .join(", ")
+
+  const handleOpenCreate = () => {
+    setEditingGoalId(null)
+    setGoalForm(emptyGoal())
+    setTargetAmount("")
+    setIsDialogOpen(true)
+  }
+
+  const handleOpenEdit = ({ goal }: GoalProgress) => {
+    setEditingGoalId(goal.id)
+    setGoalForm({
+      name: goal.name,
+      targetAmount: goal.targetAmount,
+      targetDate: goal.targetDate,
+      categoryIds: goal.categoryIds,
+      color: goal.color,
+      notes: goal.notes || "",
+    })
+    setTargetAmount(goal.targetAmount.toString())
+    setIsDialogOpen(true)
+  }
+
+  const toggleCategory = (categoryId: string) => {
+    setGoalForm((prev) => ({
+      ...prev,
+      categoryIds: prev.categoryIds.includes(categoryId)
+        ? prev.categoryIds.filter((id) => id !== categoryId)
+        : [...prev.categoryIds, categoryId],
+    }))
+  }
+
+  const handleSave = async () => {
+    const amount = Number.parseFloat(targetAmount)
+
+    if (!goalForm.name.trim()) {
+      toast({ title: "Name required", description: "Give your goal a name.", variant: "destructive" })
+      return
+    }
+    if (isNaN(amount) || amount <= 0) {
+      toast({ title: "Invalid target", description: "Target amount must be greater than zero.", variant: "destructive" })
+      return
+    }
+    if (goalForm.categoryIds.length === 0) {
+      toast({
+        title: "No categories linked",
+        description: "Link at least one savings category to track progress.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    const input: CreateGoalInput = { ...goalForm, name: goalForm.name.trim(), targetAmount: amount }
+
+    setIsSaving(true)
+    try {
+      if (editingGoalId) {
+        await goalService.updateGoal(editingGoalId, input)
+      } else {
+        await goalService.createGoal(input)
+      }
+      toast({ title: editingGoalId ? "Goal updated" : "Goal created", description: input.name })
+      setIsDialogOpen(false)
+    } catch (error: any) {
+      toast({ title: "Error", description: error?.message || "Failed to save goal.", variant: "destructive" })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async ({ goal }: GoalProgress) => {
+    try {
+      await goalService.deleteGoal(goal.id)
+      toast({ title: "Goal deleted", description: "Your savings transactions were not changed." })
+    } catch (error: any) {
+      toast({ title: "Error", description: error?.message || "Failed to delete goal.", variant: "destructive" })
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h2 className="text-2xl font-bold">Goal Progress</h2>
+          <p className="text-muted-foreground">Track savings goals against your savings transactions</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={loadGoals}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Refresh
+          </Button>
+          <Button onClick={handleOpenCreate}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Goal
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {[1, 2, 3].map((i) => (
+            <Card key={i} className="animate-pulse">
+              <CardHeader className="h-32 bg-muted rounded-t-lg" />
+            </Card>
+          ))}
+        </div>
+      ) : loadError ? (
+        <Card className="p-8 text-center">
+          <div className="flex justify-center mb-4">
+            <AlertCircle className="h-12 w-12 text-destructive" />
+          </div>
+          <h3 className="text-lg font-medium mb-2">Error Loading Goals</h3>
+          <p className="text-muted-foreground mb-4">{loadError}</p>
+          <Button onClick={loadGoals}>Try Again</Button>
+        </Card>
+      ) : goals.length === 0 ? (
+        <Card className="p-8 text-center">
+          <div className="flex justify-center mb-4">
+            <Target className="h-12 w-12 text-muted-foreground" />
+          </div>
+          <h3 className="text-lg font-medium mb-2">No goals yet</h3>
+          <p className="text-muted-foreground mb-4">
+            Set a target and link savings categories like Emergency Fund to see your progress.
+          </p>
+          <Button onClick={handleOpenCreate}>
+            <Plus className="mr-2 h-4 w-4" />
+            Create Your First Goal
+          </Button>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {goals.map((progress) => (
+            <Card key={progress.goal.id} className="overflow-hidden">
+              <CardHeader className="pb-2">
+                <div className="flex justify-between items-start">
+                  <div className="space-y-1">
+                    <CardTitle>{progress.goal.name}</CardTitle>
+                    <CardDescription>{categoryNames(progress.goal.categoryIds) || "No linked categories"}</CardDescription>
+                  </div>
+                  <Badge className={getStatusBadgeColor(progress.status)}>{STATUS_LABELS[progress.status]}</Badge>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-3 pb-2">
+                <div className="flex justify-between items-baseline">
+                  <span className="text-2xl font-bold">{formatCurrency(progress.saved)}</span>
+                  <span className="text-sm text-muted-foreground">of {formatCurrency(progress.goal.targetAmount)}</span>
+                </div>
+                <Progress value={progress.percent} className="h-2" />
+                <div className="grid grid-cols-2 gap-2 text-sm">
+                  <div className="text-muted-foreground">Remaining</div>
+                  <div className="text-right">{formatCurrency(progress.remaining)}</div>
+
+                  <div className="text-muted-foreground flex items-center">
+                    <TrendingUp className="h-3.5 w-3.5 mr-1" />
+                    Pace
+                  </div>
+                  <div className="text-right">{formatCurrency(progress.monthlyPace)}/mo</div>
+
+                  {progress.goal.targetDate && (
+                    <>
+                      <div className="text-muted-foreground flex items-center">
+                        <CalendarDays className="h-3.5 w-3.5 mr-1" />
+                        Target date
+                      </div>
+                      <div className="text-right">{format(parseISO(progress.goal.targetDate), "MMM d, yyyy")}</div>
+                    </>
+                  )}
+
+                  {progress.requiredMonthly !== undefined && (
+                    <>
+                      <div className="text-muted-foreground">Needed</div>
+                      <div className={`text-right ${progress.status === "on-track" ? "" : "text-amber-600"}`}>
+                        {formatCurrency(progress.requiredMonthly)}/mo
+                      </div>
+                    </>
+                  )}
+
+                  {progress.status !== "completed" && (
+                    <>
+                      <div className="text-muted-foreground">Projected</div>
+                      <div className="text-right">
+                        {progress.projectedDate
+                          ? format(new Date(progress.projectedDate), "MMM yyyy")
+                          : "No recent contributions"}
+                      </div>
+                    </>
+                  )}
+                </div>
+              </CardContent>
+              <CardFooter className="flex justify-end gap-2 pt-2">
+                <Button variant="ghost" size="sm" onClick={() => handleOpenEdit(progress)} title="Edit goal">
+                  <Edit className="h-4 w-4" />
+                  <span className="sr-only">Edit</span>
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-destructive hover:text-destructive"
+                  onClick={() => handleDelete(progress)}
+                  title="Delete goal"
+                >
+                  <Trash2 className="h-4 w-4" />
+                  <span className="sr-only">Delete</span>
+                </Button>
+              </CardFooter>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {/* Create / Edit Goal Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>{editingGoalId ? "Edit Goal" : "New Goal"}</DialogTitle>
+            <DialogDescription>Savings transactions in the linked categories count towards the goal.</DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-1.5">
+              <Label htmlFor="goal-name">Name</Label>
+              <Input
+                id="goal-name"
+                value={goalForm.name}
+                onChange={(e) => setGoalForm({ ...goalForm, name: e.target.value })}
+                placeholder="e.g., Emergency fund"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-1.5">
+                <Label htmlFor="goal-amount">Target amount</Label>
+                <Input
+                  id="goal-amount"
+                  type="number"
+                  value={targetAmount}
+                  onChange={(e) => setTargetAmount(e.target.value)}
+                  placeholder="e.g., 300000"
+                />
+              </div>
+              <div className="grid gap-1.5">
+                <Label htmlFor="goal-date">Target date</Label>
+                <Input
+                  id="goal-date"
+                  type="date"
+                  value={goalForm.targetDate || ""}
+                  onChange={(e) => setGoalForm({ ...goalForm, targetDate: e.target.value || undefined })}
+                />
+              </div>
+            </div>
+            <div className="grid gap-1.5">
+              <Label>Linked savings categories</Label>
+              {savingsCategories.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Add a savings category first.</p>
+              ) : (
+                <div className="grid grid-cols-2 gap-2 rounded-md border p-3">
+                  {savingsCategories.map((category) => (
+                    <label key={category.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                      <Checkbox
+                        checked={goalForm.categoryIds.includes(category.id)}
+                        onCheckedChange={() => toggleCategory(category.id)}
+                      />
+                      {category.name}
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+            <div className="grid gap-1.5">
+              <Label htmlFor="goal-notes">Notes</Label>
+              <Textarea
+                id="goal-notes"
+                value={goalForm.notes || ""}
+                onChange={(e) => setGoalForm({ ...goalForm, notes: e.target.value })}
+                rows={2}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -25,6 +25,10 @@ import {
   Settings,
   Bell,
   ChevronDown,
+  CloudOff,
+  RefreshCw,
+  Repeat,
+  Landmark,
 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -32,7 +36,12 @@ import { cn } from "@/lib/utils"
 import { ThemeToggle } from "@/components/theme-toggle"
 import { useAuth } from "@/contexts/auth-context"
 import { TransactionModal } from "@/components/transaction-modal"
+import { HistoryPanel } from "@/components/history-panel"
+import { QuickAddBar } from "@/components/quick-add-bar"
 import { useVisibility } from "@/contexts/visibility-context"
+import { usePendingChanges } from "@/hooks/use-pending-changes"
+import { recurringService } from "@/lib/recurring-service"
+import { EXPENSES_UPDATED_EVENT } from "@/lib/expense-service"
 import type { Expense } from "@/types/expense"
 import {
   DropdownMenu,
@@ -54,6 +63,7 @@ export function Header() {
   const [isSearchOpen, setIsSearchOpen] = useState(false)
   const { user, signOut } = useAuth()
   const { isVisible, toggleVisibility } = useVisibility()
+  const { pendingCount, isOnline, isReplaying, replay } = usePendingChanges()
 
   // Handle scroll effect for header
   useEffect(() => {
@@ -65,6 +75,20 @@ export function Header() {
     return () => window.removeEventListener("scroll", handleScroll)
   }, [])
 
+  // Post any recurring transactions that fell due since the last visit
+  useEffect(() => {
+    if (!user) return
+
+    recurringService
+      .materializeDueOccurrences()
+      .then((created) => {
+        if (created > 0) {
+          window.dispatchEvent(new CustomEvent(EXPENSES_UPDATED_EVENT))
+        }
+      })
+      .catch((error) => console.error("Error posting recurring transactions:", error))
+  }, [user])
+
   // Check if a link is active
   const isActive = useCallback(
     (path: string) => {
@@ -80,6 +104,8 @@ export function Header() {
   const navItems = [
     { href: "/", icon: <Home className="h-4 w-4" />, label: "Dashboard" },
     { href: "/templates", icon: <FileIcon className="h-4 w-4" />, label: "Templates" },
+    { href: "/recurring", icon: <Repeat className="h-4 w-4" />, label: "Recurring" },
+    { href: "/accounts", icon: <Landmark className="h-4 w-4" />, label: "Accounts" },
     { href: "/monthly-summary", icon: <BarChart3 className="h-4 w-4" />, label: "Summary" },
     { href: "/financial-trends", icon: <FileText className="h-4 w-4" />, label: "Trends" },
     { href: "/goals", icon: <Target className="h-4 w-4" />, label: "Goals" },
@@ -170,6 +196,31 @@ export function Header() {
                 <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
               </form>
 
+              {/* Quick Add */}
+              {user && <QuickAddBar className="mr-2 w-[200px] lg:w-[260px]" />}
+
+              {/* Pending Changes Badge */}
+              {user && (pendingCount > 0 || !isOnline) && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-9 gap-1.5"
+                  onClick={replay}
+                  disabled={!isOnline || isReplaying}
+                  title={isOnline ? "Send pending changes now" : "Offline - changes will be sent when you reconnect"}
+                >
+                  {isOnline ? (
+                    <RefreshCw className={cn("h-4 w-4", isReplaying && "animate-spin")} />
+                  ) : (
+                    <CloudOff className="h-4 w-4" />
+                  )}
+                  <Badge variant={isOnline ? "secondary" : "outline"} className="px-1.5 py-0 h-5">
+                    {pendingCount}
+                  </Badge>
+                  <span className="sr-only">pending changes</span>
+                </Button>
+              )}
+
               {/* Add Transaction Button */}
               {user && (
                 <Button
@@ -193,6 +244,9 @@ export function Header() {
                 {isVisible ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
               </Button>
 
+              {/* Recent Changes */}
+              {user && <HistoryPanel />}
+
               {/* Theme Toggle */}
               <ThemeToggle />
 
@@ -306,6 +360,22 @@ export function Header() {
                 <Search className="h-5 w-5" />
               </Button>
 
+              {/* Pending Changes Badge (Mobile) */}
+              {user && pendingCount > 0 && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-9 w-9 relative"
+                  onClick={replay}
+                  disabled={!isOnline || isReplaying}
+                >
+                  {isOnline ? <RefreshCw className="h-5 w-5" /> : <CloudOff className="h-5 w-5" />}
+                  <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-amber-500 text-[10px] leading-4 text-white">
+                    {pendingCount}
+                  </span>
+                </Button>
+              )}
+
               {/* Add Transaction Button (Mobile) */}
               {user && (
                 <Button variant="ghost" size="icon" className="h-9 w-9" onClick={() => setIsTransactionModalOpen(true)}>
@@ -428,6 +498,9 @@ export function Header() {
             </div>
           )}
 
+          {/* Quick Add (Mobile) */}
+          {user && <QuickAddBar className="mb-6" />}
+
           {/* Mobile Navigation */}
           <nav className="flex flex-col space-y-1">
             {navItems.map((item) => (
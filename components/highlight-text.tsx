@@ -0,0 +1,27 @@
+"use client"
+
+import { splitHighlights } from "@/lib/search"
+
+interface HighlightTextProps {
+  text: string
+  terms?: string[]
+}
+
+// Text with search term matches marked
+export function HighlightText({ text, terms = [] }: HighlightTextProps) {
+  if (terms.length === 0) return <>{text}</>
+
+  return (
+    <>
+      {splitHighlights(text, terms).map((part, index) =>
+        part.match ? (
+          <mark key={index} className="rounded-sm bg-yellow-200 px-0.5 text-inherit dark:bg-yellow-700/60">
+            {part.text}
+          </mark>
+        ) : (
+          <span key={index}>{part.text}</span>
+        ),
+      )}
+    </>
+  )
+}
@@ -0,0 +1,91 @@
+"use client"
+
+import { useState } from "react"
+import { formatDistanceToNow } from "date-fns"
+import { History, Redo2, Undo2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet"
+import { useHistory } from "@/hooks/use-history"
+import { useToast } from "@/hooks/use-toast"
+import { cn } from "@/lib/utils"
+
+// Recent transaction and category changes, each of which can be undone and redone
+export function HistoryPanel() {
+  const { entries, undo, redo } = useHistory()
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  const run = async (id: string, action: (id: string) => Promise<void>, failure: string) => {
+    setBusyId(id)
+    try {
+      await action(id)
+    } catch (error: any) {
+      toast({
+        title: failure,
+        description: error?.message || "Something went wrong.",
+        variant: "destructive",
+      })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="icon" className="h-9 w-9" title="Recent changes">
+          <History className="h-4 w-4" />
+          <span className="sr-only">Recent changes</span>
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-md overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Recent changes</SheetTitle>
+          <SheetDescription>Undo a change to put things back as they were, or redo it again.</SheetDescription>
+        </SheetHeader>
+
+        {entries.length === 0 ? (
+          <p className="mt-8 text-center text-sm text-muted-foreground">Changes you make will show up here.</p>
+        ) : (
+          <ul className="mt-6 space-y-2">
+            {entries.map((entry) => (
+              <li
+                key={entry.id}
+                className={cn("flex items-center gap-3 rounded-md border px-3 py-2", entry.undone && "opacity-60")}
+              >
+                <div className="min-w-0 flex-1">
+                  <p className={cn("truncate text-sm font-medium", entry.undone && "line-through")}>{entry.label}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatDistanceToNow(new Date(entry.createdAt), { addSuffix: true })}
+                    {entry.undone && " · undone"}
+                  </p>
+                </div>
+                {entry.undone ? (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={!!busyId}
+                    onClick={() => run(entry.id, redo, "Could not redo")}
+                  >
+                    <Redo2 className="mr-1 h-4 w-4" />
+                    Redo
+                  </Button>
+                ) : (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={!!busyId}
+                    onClick={() => run(entry.id, undo, "Could not undo")}
+                  >
+                    <Undo2 className="mr-1 h-4 w-4" />
+                    Undo
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </SheetContent>
+    </Sheet>
+  )
+}
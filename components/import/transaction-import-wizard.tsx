@@ -0,0 +1,761 @@
+"use client"
+
+import type React from "react"
+
+import { useState, useRef, useMemo } from "react"
+import { format } from "date-fns"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Badge } from "@/components/ui/badge"
+import { Progress } from "@/components/ui/progress"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { AlertCircle, CheckCircle, FileSpreadsheet, Upload } from "lucide-react"
+import {
+  CSV_DELIMITERS,
+  DATE_FORMATS,
+  TEXT_ENCODINGS,
+  decodeText,
+  detectDelimiter,
+  guessDateFormat,
+  parseCsv,
+  type CsvDelimiter,
+  type TextEncoding,
+} from "@/lib/csv"
+import { OFX_DATE_FORMAT, detectStatementFormat, parseOfx, parseQif } from "@/lib/statement-parsers"
+import {
+  IMPORT_FIELD_LABELS,
+  buildImportRows,
+  buildStatementRows,
+  describeExpense,
+  guessColumnMapping,
+  validateMapping,
+} from "@/lib/transaction-import"
+import { importService } from "@/lib/import-service"
+import { currencyService, COMMON_CURRENCIES } from "@/lib/currency-service"
+import { useAccounts } from "@/hooks/use-accounts"
+import { useRules } from "@/hooks/use-rules"
+import { useCategorySuggestions } from "@/hooks/use-category-suggestions"
+import { CategorySuggestions } from "@/components/category-suggestions"
+import { useToast } from "@/hooks/use-toast"
+import { cn } from "@/lib/utils"
+import type { Expense } from "@/types/expense"
+import type {
+  ColumnMapping,
+  CsvImportOptions,
+  ImportField,
+  ImportResult,
+  ImportRow,
+  StatementFormat,
+} from "@/types/import"
+
+type WizardStep = "upload" | "map" | "preview" | "importing" | "done"
+
+// Select value for unmapped fields and transactions without an account
+const NONE = "none"
+
+// Rows shown in the mapping step to help pick columns
+const SAMPLE_ROWS = 3
+
+const defaultOptions = (): CsvImportOptions => ({
+  hasHeader: true,
+  dateFormat: DATE_FORMATS[0],
+  decimalSeparator: ".",
+  negativeAmountsAre: "expense",
+  defaultCategory: { expense: "Other", income: "Other", savings: "Other" },
+  currency: currencyService.getBaseCurrency(),
+})
+
+const STATEMENT_LABELS: Record<StatementFormat, string> = {
+  ofx: "OFX/QFX statement",
+  qif: "QIF file",
+}
+
+interface TransactionImportWizardProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  existingExpenses: Expense[]
+  onImportComplete?: (result: ImportResult) => void
+}
+
+export function TransactionImportWizard({
+  open,
+  onOpenChange,
+  existingExpenses,
+  onImportComplete,
+}: TransactionImportWizardProps) {
+  const { toast } = useToast()
+  const { accounts } = useAccounts()
+  const { rules } = useRules()
+  const { suggest, learn } = useCategorySuggestions()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const [step, setStep] = useState<WizardStep>("upload")
+  const [fileName, setFileName] = useState("")
+  const [fileBuffer, setFileBuffer] = useState<ArrayBuffer | null>(null)
+  const [encoding, setEncoding] = useState<TextEncoding>("auto")
+  const [delimiter, setDelimiter] = useState<CsvDelimiter | "auto">("auto")
+  const [mapping, setMapping] = useState<ColumnMapping>({})
+  const [options, setOptions] = useState<CsvImportOptions>(defaultOptions())
+  const [importRows, setImportRows] = useState<ImportRow[]>([])
+  const [progress, setProgress] = useState(0)
+  const [result, setResult] = useState<ImportResult | null>(null)
+
+  // Decoded and split file contents, re-parsed whenever encoding or delimiter change.
+  // OFX/QFX and QIF statements are read directly and skip the column mapping.
+  const parsed = useMemo(() => {
+    if (!fileBuffer) {
+      return { rows: [] as string[][], delimiter: "," as CsvDelimiter, statement: null, transactions: [] }
+    }
+    const text = decodeText(fileBuffer, encoding)
+    const statement = detectStatementFormat(fileName, text)
+    if (statement) {
+      return {
+        rows: [] as string[][],
+        delimiter: "," as CsvDelimiter,
+        statement,
+        transactions: statement === "ofx" ? parseOfx(text) : parseQif(text),
+      }
+    }
+
+    const resolved = delimiter === "auto" ? detectDelimiter(text) : delimiter
+    return { rows: parseCsv(text, resolved), delimiter: resolved, statement: null, transactions: [] }
+  }, [fileBuffer, fileName, encoding, delimiter])
+  const isStatement = parsed.statement !== null
+
+  const columnCount = parsed.rows.reduce((max, row) => Math.max(max, row.length), 0)
+  const headers = Array.from({ length: columnCount }, (_, i) =>
+    options.hasHeader && parsed.rows[0]?.[i]?.trim() ? parsed.rows[0][i].trim() : `Column ${i + 1}`,
+  )
+  const dataRows = options.hasHeader ? parsed.rows.slice(1) : parsed.rows
+  const mappingProblems = isStatement ? [] : validateMapping(mapping)
+
+  const currencyOptions = Array.from(
+    new Set([
+      currencyService.getBaseCurrency(),
+      ...COMMON_CURRENCIES,
+      ...currencyService.getRates().map((r) => r.currency),
+    ]),
+  )
+
+  const reset = () => {
+    setStep("upload")
+    setFileName("")
+    setFileBuffer(null)
+    setEncoding("auto")
+    setDelimiter("auto")
+    setMapping({})
+    setOptions(defaultOptions())
+    setImportRows([])
+    setProgress(0)
+    setResult(null)
+  }
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    // Keep the dialog open while transactions are being saved
+    if (step === "importing") return
+    if (!nextOpen) reset()
+    onOpenChange(nextOpen)
+  }
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+
+    try {
+      setFileBuffer(await file.arrayBuffer())
+      setFileName(file.name)
+    } catch (error: any) {
+      toast({ title: "Could not read file", description: error?.message || file.name, variant: "destructive" })
+    }
+  }
+
+  // Guess the mapping and date format from the parsed file
+  const handleContinueToMapping = () => {
+    if (isStatement) {
+      if (parsed.transactions.length === 0) {
+        toast({
+          title: "No transactions found",
+          description: "The statement has no transactions to import.",
+          variant: "destructive",
+        })
+        return
+      }
+
+      setOptions((prev) => ({
+        ...prev,
+        dateFormat:
+          parsed.statement === "ofx" ? OFX_DATE_FORMAT : guessDateFormat(parsed.transactions.map((t) => t.date)),
+      }))
+      setStep("map")
+      return
+    }
+
+    if (dataRows.length === 0) {
+      toast({ title: "No rows found", description: "The file has no transactions to import.", variant: "destructive" })
+      return
+    }
+
+    const guessed = options.hasHeader ? guessColumnMapping(parsed.rows[0]) : {}
+    setMapping(guessed)
+    if (guessed.date !== undefined) {
+      setOptions((prev) => ({
+        ...prev,
+        dateFormat: guessDateFormat(dataRows.map((row) => row[guessed.date!] || "")),
+      }))
+    }
+    setStep("map")
+  }
+
+  const handleMappingChange = (field: ImportField, value: string) => {
+    setMapping((prev) => {
+      const next = { ...prev }
+      if (value === NONE) delete next[field]
+      else next[field] = Number(value)
+      return next
+    })
+
+    if (field === "date" && value !== NONE) {
+      setOptions((prev) => ({ ...prev, dateFormat: guessDateFormat(dataRows.map((row) => row[Number(value)] || "")) }))
+    }
+  }
+
+  const handleContinueToPreview = () => {
+    setImportRows(
+      isStatement
+        ? buildStatementRows(parsed.transactions, options, existingExpenses, rules)
+        : buildImportRows(parsed.rows, mapping, options, existingExpenses, rules),
+    )
+    setStep("preview")
+  }
+
+  const toggleRow = (rowNumber: number) => {
+    setImportRows((rows) =>
+      rows.map((row) => (row.rowNumber === rowNumber ? { ...row, selected: !row.selected } : row)),
+    )
+  }
+
+  // Rows left on the default category get learned guesses instead
+  const getRowSuggestions = (row: ImportRow) => {
+    const expense = row.expense
+    if (!expense || expense.type === "transfer" || row.matchedRules?.length) return []
+    if (expense.category !== options.defaultCategory[expense.type]) return []
+    return suggest(expense).filter((suggestion) => suggestion.category !== expense.category)
+  }
+
+  const acceptSuggestion = (row: ImportRow, category: string) => {
+    if (!row.expense) return
+    learn(row.expense, category, category)
+    setImportRows((rows) =>
+      rows.map((current) =>
+        current.rowNumber === row.rowNumber && current.expense
+          ? { ...current, expense: { ...current.expense, category } }
+          : current,
+      ),
+    )
+  }
+
+  const setDuplicatesSelected = (selected: boolean) => {
+    setImportRows((rows) => rows.map((row) => (row.expense && row.duplicateOf ? { ...row, selected } : row)))
+  }
+
+  const selectedRows = importRows.filter((row) => row.selected && row.expense)
+  const invalidCount = importRows.filter((row) => !row.expense).length
+  const duplicateCount = importRows.filter((row) => row.duplicateOf).length
+
+  const handleImport = async () => {
+    setStep("importing")
+    setProgress(0)
+
+    try {
+      const outcome = await importService.importTransactions(
+        selectedRows.map((row) => row.expense!),
+        (value, partial) => {
+          setProgress(value)
+          setResult(partial)
+        },
+      )
+      const finalResult = { ...outcome, total: importRows.length, skipped: importRows.length - selectedRows.length }
+      setResult(finalResult)
+      setStep("done")
+      onImportComplete?.(finalResult)
+    } catch (error: any) {
+      console.error("Import error:", error)
+      toast({
+        title: "Import failed",
+        description: error?.message || "An error occurred while importing data.",
+        variant: "destructive",
+      })
+      setStep("preview")
+    }
+  }
+
+  const formatAmount = (expense: Expense) =>
+    currencyService.formatCurrency(expense.amount, expense.currency || options.currency)
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Transactions</DialogTitle>
+          <DialogDescription>
+            {step === "upload" && "Choose a CSV, OFX/QFX or QIF file exported from your bank or another app."}
+            {step === "map" &&
+              (isStatement
+                ? "Choose how the statement's transactions are recorded."
+                : "Tell us which columns hold each part of a transaction.")}
+            {step === "preview" && "Review the parsed transactions before importing."}
+            {step === "importing" && "Saving your transactions..."}
+            {step === "done" && "Import finished."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <div className="space-y-4 py-2">
+            <div
+              className="border-2 border-dashed rounded-lg p-8 text-center cursor-pointer hover:bg-muted/50 transition-colors"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              <FileSpreadsheet className="h-10 w-10 mx-auto mb-3 text-muted-foreground" />
+              {fileName ? (
+                <>
+                  <p className="font-medium">{fileName}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {parsed.statement
+                      ? `${STATEMENT_LABELS[parsed.statement]} · ${parsed.transactions.length} transactions.`
+                      : `${dataRows.length} rows · ${columnCount} columns.`}{" "}
+                    Click to choose another file.
+                  </p>
+                </>
+              ) : (
+                <p className="text-sm text-muted-foreground">Click to choose a .csv, .ofx, .qfx or .qif file</p>
+              )}
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.txt,.tsv,.ofx,.qfx,.qif"
+                onChange={handleFileSelect}
+                className="hidden"
+              />
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="space-y-1.5">
+                <Label htmlFor="import-encoding">Encoding</Label>
+                <Select value={encoding} onValueChange={(value) => setEncoding(value as TextEncoding)}>
+                  <SelectTrigger id="import-encoding">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TEXT_ENCODINGS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {!isStatement && (
+                <>
+                  <div className="space-y-1.5">
+                    <Label htmlFor="import-delimiter">Delimiter</Label>
+                    <Select value={delimiter} onValueChange={(value) => setDelimiter(value as CsvDelimiter | "auto")}>
+                      <SelectTrigger id="import-delimiter">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="auto">
+                          Detect automatically
+                          {fileBuffer && delimiter === "auto"
+                            ? ` (${CSV_DELIMITERS.find((d) => d.value === parsed.delimiter)?.label})`
+                            : ""}
+                        </SelectItem>
+                        {CSV_DELIMITERS.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex items-center justify-between md:pt-6">
+                    <Label htmlFor="import-header">First row is a header</Label>
+                    <Switch
+                      id="import-header"
+                      checked={options.hasHeader}
+                      onCheckedChange={(checked: boolean) => setOptions({ ...options, hasHeader: checked })}
+                    />
+                  </div>
+                </>
+              )}
+            </div>
+
+            {fileBuffer && parsed.rows.length > 0 && (
+              <div className="border rounded-md overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      {headers.map((header, i) => (
+                        <TableHead key={i} className="whitespace-nowrap">
+                          {header}
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {dataRows.slice(0, SAMPLE_ROWS).map((row, rowIndex) => (
+                      <TableRow key={rowIndex}>
+                        {headers.map((_, i) => (
+                          <TableCell key={i} className="whitespace-nowrap text-xs">
+                            {row[i]}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        )}
+
+        {step === "map" && (
+          <div className="space-y-6 py-2">
+            {!isStatement && (
+              <div className="grid gap-4 md:grid-cols-2">
+                {(Object.keys(IMPORT_FIELD_LABELS) as ImportField[]).map((field) => (
+                  <div key={field} className="space-y-1.5">
+                    <Label htmlFor={`map-${field}`}>{IMPORT_FIELD_LABELS[field]}</Label>
+                    <Select
+                      value={mapping[field] !== undefined ? String(mapping[field]) : NONE}
+                      onValueChange={(value) => handleMappingChange(field, value)}
+                    >
+                      <SelectTrigger id={`map-${field}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NONE}>Not in file</SelectItem>
+                        {headers.map((header, i) => (
+                          <SelectItem key={i} value={String(i)}>
+                            {header}
+                            {dataRows[0]?.[i] ? ` — e.g. ${dataRows[0][i].slice(0, 24)}` : ""}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {parsed.statement !== "ofx" && (
+              <div className="grid gap-4 md:grid-cols-3">
+                <div className="space-y-1.5">
+                  <Label htmlFor="map-date-format">Date format</Label>
+                  <Select
+                    value={options.dateFormat}
+                    onValueChange={(value) => setOptions({ ...options, dateFormat: value })}
+                  >
+                    <SelectTrigger id="map-date-format">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DATE_FORMATS.map((dateFormat) => (
+                        <SelectItem key={dateFormat} value={dateFormat}>
+                          {dateFormat} ({format(new Date(2024, 0, 31), dateFormat)})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {!isStatement && (
+                  <>
+                    <div className="space-y-1.5">
+                      <Label htmlFor="map-decimal">Decimal separator</Label>
+                      <Select
+                        value={options.decimalSeparator}
+                        onValueChange={(value) => setOptions({ ...options, decimalSeparator: value as "." | "," })}
+                      >
+                        <SelectTrigger id="map-decimal">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value=".">Point (1,234.56)</SelectItem>
+                          <SelectItem value=",">Comma (1.234,56)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1.5">
+                      <Label htmlFor="map-sign">Negative amounts are</Label>
+                      <Select
+                        value={options.negativeAmountsAre}
+                        onValueChange={(value) =>
+                          setOptions({ ...options, negativeAmountsAre: value as CsvImportOptions["negativeAmountsAre"] })
+                        }
+                        disabled={mapping.amount === undefined}
+                      >
+                        <SelectTrigger id="map-sign">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="expense">Expenses (bank statements)</SelectItem>
+                          <SelectItem value="income">Income (credit card statements)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
+
+            <div className="grid gap-4 md:grid-cols-3">
+              {(["expense", "income", "savings"] as const).map((type) => (
+                <div key={type} className="space-y-1.5">
+                  <Label htmlFor={`default-category-${type}`} className="capitalize">
+                    Default {type} category
+                  </Label>
+                  <Input
+                    id={`default-category-${type}`}
+                    value={options.defaultCategory[type]}
+                    onChange={(e) =>
+                      setOptions({ ...options, defaultCategory: { ...options.defaultCategory, [type]: e.target.value } })
+                    }
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-1.5">
+                <Label htmlFor="map-account">Account</Label>
+                <Select
+                  value={options.accountId || NONE}
+                  onValueChange={(value) => setOptions({ ...options, accountId: value === NONE ? undefined : value })}
+                >
+                  <SelectTrigger id="map-account">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>No account</SelectItem>
+                    {accounts
+                      .filter((account) => !account.archived)
+                      .map((account) => (
+                        <SelectItem key={account.id} value={account.id}>
+                          {account.name}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="map-currency">Currency when not in file</Label>
+                <Select value={options.currency} onValueChange={(value) => setOptions({ ...options, currency: value })}>
+                  <SelectTrigger id="map-currency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {currencyOptions.map((code) => (
+                      <SelectItem key={code} value={code}>
+                        {code}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {mappingProblems.length > 0 && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertTitle>Mapping incomplete</AlertTitle>
+                <AlertDescription>{mappingProblems.join(". ")}</AlertDescription>
+              </Alert>
+            )}
+          </div>
+        )}
+
+        {step === "preview" && (
+          <div className="space-y-4 py-2">
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant="secondary">{importRows.length} rows</Badge>
+              <Badge className="bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300">
+                {selectedRows.length} selected
+              </Badge>
+              {invalidCount > 0 && <Badge variant="destructive">{invalidCount} with errors</Badge>}
+              {duplicateCount > 0 && (
+                <Badge className="bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-300">
+                  {duplicateCount} possible duplicates
+                </Badge>
+              )}
+              {duplicateCount > 0 && (
+                <div className="flex gap-2 ml-auto">
+                  <Button variant="outline" size="sm" onClick={() => setDuplicatesSelected(true)}>
+                    Include duplicates
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => setDuplicatesSelected(false)}>
+                    Skip duplicates
+                  </Button>
+                </div>
+              )}
+            </div>
+
+            <div className="border rounded-md max-h-[50vh] overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[40px]" />
+                    <TableHead className="w-[50px]">Row</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Category</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead>Notes / issues</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {importRows.map((row) => (
+                    <TableRow
+                      key={row.rowNumber}
+                      className={cn(
+                        !row.expense && "bg-red-50 dark:bg-red-900/10",
+                        row.duplicateOf && "bg-amber-50 dark:bg-amber-900/10",
+                      )}
+                    >
+                      <TableCell>
+                        <Checkbox
+                          checked={row.selected}
+                          disabled={!row.expense}
+                          onCheckedChange={() => toggleRow(row.rowNumber)}
+                        />
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">{row.rowNumber}</TableCell>
+                      {row.expense ? (
+                        <>
+                          <TableCell className="whitespace-nowrap">
+                            {format(new Date(row.expense.date), "dd MMM yyyy")}
+                          </TableCell>
+                          <TableCell className="capitalize">{row.expense.type}</TableCell>
+                          <TableCell>
+                            {row.expense.category}
+                            {row.matchedRules && row.matchedRules.length > 0 && (
+                              <div className="text-xs text-muted-foreground">
+                                Rule: {row.matchedRules.join(", ")}
+                              </div>
+                            )}
+                            <CategorySuggestions
+                              className="mt-1"
+                              suggestions={getRowSuggestions(row)}
+                              onSelect={(category) => acceptSuggestion(row, category)}
+                            />
+                          </TableCell>
+                          <TableCell className="text-right whitespace-nowrap">{formatAmount(row.expense)}</TableCell>
+                          <TableCell className="max-w-[260px]">
+                            <div className="truncate">{row.expense.notes}</div>
+                            {row.duplicateOf && (
+                              <div className="text-xs text-amber-700 dark:text-amber-400">
+                                Possible duplicate of {describeExpense(row.duplicateOf)}
+                              </div>
+                            )}
+                          </TableCell>
+                        </>
+                      ) : (
+                        <TableCell colSpan={5} className="text-sm text-destructive">
+                          {row.errors.join("; ")}
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        {(step === "importing" || step === "done") && (
+          <div className="space-y-4 py-2">
+            <Progress value={step === "done" ? 100 : progress} className="w-full" />
+            {result && (
+              <div className="grid gap-2 md:grid-cols-4">
+                <div className="bg-muted rounded-md p-3">
+                  <div className="text-sm font-medium">Imported</div>
+                  <div className="text-2xl font-bold text-green-600">{result.imported}</div>
+                </div>
+                <div className="bg-muted rounded-md p-3">
+                  <div className="text-sm font-medium">Skipped</div>
+                  <div className="text-2xl font-bold text-amber-600">{result.skipped}</div>
+                </div>
+                <div className="bg-muted rounded-md p-3">
+                  <div className="text-sm font-medium">Failed</div>
+                  <div className="text-2xl font-bold text-red-600">{result.failed}</div>
+                </div>
+                <div className="bg-muted rounded-md p-3">
+                  <div className="text-sm font-medium">New Categories</div>
+                  <div className="text-2xl font-bold text-blue-600">{result.newCategories.length}</div>
+                </div>
+              </div>
+            )}
+            {step === "done" && (
+              <Alert variant="default" className="bg-green-50 text-green-800 dark:bg-green-900 dark:text-green-50">
+                <CheckCircle className="h-4 w-4" />
+                <AlertTitle>Import complete</AlertTitle>
+                <AlertDescription>
+                  {result?.newCategories.length
+                    ? `New categories added: ${result.newCategories.join(", ")}`
+                    : "Your transactions are now in your history."}
+                </AlertDescription>
+              </Alert>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          {step === "upload" && (
+            <>
+              <Button variant="outline" onClick={() => handleOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleContinueToMapping} disabled={!fileBuffer}>
+                <Upload className="mr-2 h-4 w-4" />
+                Continue
+              </Button>
+            </>
+          )}
+          {step === "map" && (
+            <>
+              <Button variant="outline" onClick={() => setStep("upload")}>
+                Back
+              </Button>
+              <Button onClick={handleContinueToPreview} disabled={mappingProblems.length > 0}>
+                Preview
+              </Button>
+            </>
+          )}
+          {step === "preview" && (
+            <>
+              <Button variant="outline" onClick={() => setStep("map")}>
+                Back
+              </Button>
+              <Button onClick={handleImport} disabled={selectedRows.length === 0}>
+                Import {selectedRows.length} transactions
+              </Button>
+            </>
+          )}
+          {step === "done" && <Button onClick={() => handleOpenChange(false)}>Close</Button>}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,141 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { ArrowDown, ArrowUp, Pin, PinOff, Trash2 } from "lucide-react"
+import { filterPresetService } from "@/lib/filter-preset-service"
+import { describeFilters, fromSavedFilters } from "@/lib/filters"
+import { useFilterPresets } from "@/hooks/use-filter-presets"
+import { useAccounts } from "@/hooks/use-accounts"
+import { useToast } from "@/hooks/use-toast"
+import { cn } from "@/lib/utils"
+import type { FilterPreset } from "@/types/filter"
+
+interface ManageFilterPresetsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+// Rename, reorder, pin and delete saved presets
+export function ManageFilterPresetsDialog({ open, onOpenChange }: ManageFilterPresetsDialogProps) {
+  const { presets } = useFilterPresets()
+  const [names, setNames] = useState<Record<string, string>>({})
+  const [isBusy, setIsBusy] = useState(false)
+  const { toast } = useToast()
+  const { accounts } = useAccounts()
+  const accountName = (id: string) => accounts.find((account) => account.id === id)?.name || "Unknown account"
+
+  useEffect(() => {
+    setNames(Object.fromEntries(presets.map((preset) => [preset.id, preset.name])))
+  }, [presets])
+
+  // Run a change, reporting failures instead of throwing
+  const run = async (action: () => Promise<unknown>) => {
+    setIsBusy(true)
+    try {
+      await action()
+    } catch (error: any) {
+      toast({
+        title: "Could not update presets",
+        description: error?.message || "Something went wrong.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleRename = (preset: FilterPreset) => {
+    const name = (names[preset.id] || "").trim()
+    if (!name) {
+      setNames((prev) => ({ ...prev, [preset.id]: preset.name }))
+      return
+    }
+    if (name !== preset.name) {
+      run(() => filterPresetService.updatePreset(preset.id, { name }))
+    }
+  }
+
+  const handleMove = (index: number, offset: number) => {
+    const ids = presets.map((preset) => preset.id)
+    const target = index + offset
+    if (target < 0 || target >= ids.length) return
+    ;[ids[index], ids[target]] = [ids[target], ids[index]]
+    run(() => filterPresetService.reorderPresets(ids))
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Manage Filter Presets</DialogTitle>
+          <DialogDescription>Pinned presets appear as buttons in the filter bar, in this order.</DialogDescription>
+        </DialogHeader>
+
+        {presets.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">You haven&apos;t saved any presets yet.</p>
+        ) : (
+          <ul className="space-y-2 max-h-[400px] overflow-y-auto py-2">
+            {presets.map((preset, index) => (
+              <li key={preset.id} className="flex items-center gap-2 rounded-md border p-2">
+                <div className="flex-1 min-w-0 space-y-1">
+                  <Input
+                    value={names[preset.id] ?? preset.name}
+                    onChange={(e) => setNames((prev) => ({ ...prev, [preset.id]: e.target.value }))}
+                    onBlur={() => handleRename(preset)}
+                    onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+                    className="h-8"
+                    aria-label={`Name of ${preset.name}`}
+                  />
+                  <p className="text-xs text-muted-foreground truncate">
+                    {describeFilters(fromSavedFilters(preset.filters), accountName)}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  disabled={isBusy}
+                  onClick={() => run(() => filterPresetService.updatePreset(preset.id, { pinned: !preset.pinned }))}
+                  className={cn(preset.pinned && "text-violet-600 dark:text-violet-400")}
+                  aria-label={preset.pinned ? `Unpin ${preset.name}` : `Pin ${preset.name}`}
+                >
+                  {preset.pinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  disabled={isBusy || index === 0}
+                  onClick={() => handleMove(index, -1)}
+                  aria-label={`Move ${preset.name} up`}
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  disabled={isBusy || index === presets.length - 1}
+                  onClick={() => handleMove(index, 1)}
+                  aria-label={`Move ${preset.name} down`}
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  disabled={isBusy}
+                  onClick={() => run(() => filterPresetService.deletePreset(preset.id))}
+                  className="text-destructive hover:text-destructive"
+                  aria-label={`Delete ${preset.name}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
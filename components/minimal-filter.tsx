@@ -5,6 +5,7 @@ import { Filter, Calendar, ArrowDownUp, X, Search, PiggyBank, Sparkles } from "l
 import { Button } from "@/components/ui/button"
 import {
   DropdownMenu,
+  DropdownMenuCheckboxItem,
   DropdownMenuContent,
   DropdownMenuGroup,
   DropdownMenuItem,
@@ -20,12 +21,14 @@ import {
 } from "@/components/ui/dropdown-menu"
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
 import { Calendar as CalendarComponent } from "@/components/ui/calendar"
-import { format, subDays, startOfDay, endOfDay, isWithinInterval } from "date-fns"
+import { format } from "date-fns"
 import { Badge } from "@/components/ui/badge"
 import { Input } from "@/components/ui/input"
 import { cn } from "@/lib/utils"
+import { DEFAULT_FILTERS, countActiveFilters, describeSelection, filterExpenses } from "@/lib/filters"
 import { motion, AnimatePresence } from "framer-motion"
 import type { Expense, ExpenseType } from "@/types/expense"
+import type { FilterMode, FilterState, MatchMode, TimePeriod } from "@/types/filter"
 import { FilterPresets } from "@/components/filter-presets"
 
 interface MinimalFilterProps {
@@ -34,150 +37,51 @@ interface MinimalFilterProps {
   className?: string
 }
 
-export function MinimalFilter({ onFilterChange, expenses, className }: MinimalFilterProps) {
-  const [activeFilters, setActiveFilters] = useState<{
-    type: ExpenseType | "all"
-    dateRange: "all" | "today" | "week" | "month" | "custom"
-    customDateFrom: Date | undefined
-    customDateTo: Date | undefined
-    searchTerm: string
-  }>({
-    type: "all",
-    dateRange: "all",
-    customDateFrom: undefined,
-    customDateTo: undefined,
-    searchTerm: "",
-  })
+const TRANSACTION_TYPES: ExpenseType[] = ["expense", "income", "savings", "transfer"]
 
-  const [activeFilterCount, setActiveFilterCount] = useState(0)
+export function MinimalFilter({ onFilterChange, expenses, className }: MinimalFilterProps) {
+  const [activeFilters, setActiveFilters] = useState<FilterState>(DEFAULT_FILTERS)
   const [lastAppliedPreset, setLastAppliedPreset] = useState<string | null>(null)
 
-  // Apply filters to expenses
-  const applyFilters = (filters = activeFilters) => {
-    let filtered = [...expenses]
-    let filterCount = 0
-
-    // Filter by search term
-    if (filters.searchTerm) {
-      const searchLower = filters.searchTerm.toLowerCase()
-      filtered = filtered.filter(
-        (expense) =>
-          expense.description.toLowerCase().includes(searchLower) ||
-          expense.category.toLowerCase().includes(searchLower) ||
-          expense.amount.toString().includes(searchLower),
-      )
-      filterCount++
-    }
-
-    // Filter by type
-    if (filters.type !== "all") {
-      filtered = filtered.filter((expense) => expense.type === filters.type)
-      filterCount++
-    }
-
-    // Filter by date range
-    if (filters.dateRange !== "all") {
-      const today = new Date()
-      let fromDate: Date
-      let toDate: Date = endOfDay(today)
-
-      switch (filters.dateRange) {
-        case "today":
-          fromDate = startOfDay(today)
-          break
-        case "week":
-          fromDate = startOfDay(subDays(today, 7))
-          break
-        case "month":
-          fromDate = startOfDay(subDays(today, 30))
-          break
-        case "custom":
-          if (filters.customDateFrom && filters.customDateTo) {
-            fromDate = startOfDay(filters.customDateFrom)
-            toDate = endOfDay(filters.customDateTo)
-            filterCount++
-          } else {
-            // If custom dates are not set, don't filter by date
-            fromDate = new Date(0) // Beginning of time
-          }
-          break
-        default:
-          fromDate = new Date(0) // Beginning of time
-      }
-
-      if (filters.dateRange !== "custom" && filters.dateRange !== "all") {
-        filterCount++
-      }
-
-      filtered = filtered.filter((expense) => {
-        const expenseDate = new Date(expense.date)
-        return isWithinInterval(expenseDate, { start: fromDate, end: toDate })
-      })
-    }
-
-    setActiveFilterCount(filterCount)
-    onFilterChange(filtered)
-  }
-
-  // Handle filter changes
-  const handleFilterChange = (type: "type" | "dateRange", value: string) => {
-    const newFilters = { ...activeFilters }
-
-    if (type === "type") {
-      newFilters.type = value as ExpenseType | "all"
-    } else if (type === "dateRange") {
-      newFilters.dateRange = value as "all" | "today" | "week" | "month" | "custom"
-
-      // Reset custom dates if not using custom range
-      if (value !== "custom") {
-        newFilters.customDateFrom = undefined
-        newFilters.customDateTo = undefined
-      }
-    }
+  const activeFilterCount = countActiveFilters(activeFilters)
 
+  // Store the new filters and hand the matching expenses to the parent
+  const updateFilters = (changes: Partial<FilterState>) => {
+    const newFilters = { ...activeFilters, ...changes }
     setActiveFilters(newFilters)
-    applyFilters(newFilters)
+    onFilterChange(filterExpenses(expenses, newFilters))
     setLastAppliedPreset(null)
   }
 
+  // Handle date range changes
+  const handleDateRangeChange = (value: string) => {
+    // Reset custom dates if not using custom range
+    updateFilters({
+      timePeriod: value as TimePeriod,
+      ...(value !== "custom" ? { customDateFrom: null, customDateTo: null } : {}),
+    })
+  }
+
   // Handle custom date changes
   const handleCustomDateChange = (type: "from" | "to", date: Date | undefined) => {
-    const newFilters = { ...activeFilters }
-
-    if (type === "from") {
-      newFilters.customDateFrom = date
-    } else {
-      newFilters.customDateTo = date
-    }
-
-    setActiveFilters(newFilters)
+    updateFilters(type === "from" ? { customDateFrom: date || null } : { customDateTo: date || null })
+  }
 
-    // Only apply if both dates are set
-    if (newFilters.customDateFrom && newFilters.customDateTo) {
-      applyFilters(newFilters)
-    }
-    setLastAppliedPreset(null)
+  const toggleType = (type: ExpenseType) => {
+    const types = activeFilters.types.includes(type)
+      ? activeFilters.types.filter((t) => t !== type)
+      : [...activeFilters.types, type]
+    updateFilters({ types })
   }
 
   // Handle search term changes
   const handleSearchChange = (value: string) => {
-    const newFilters = { ...activeFilters, searchTerm: value }
-    setActiveFilters(newFilters)
-    applyFilters(newFilters)
-    setLastAppliedPreset(null)
+    updateFilters({ search: value })
   }
 
   // Reset all filters
   const resetFilters = () => {
-    const defaultFilters = {
-      type: "all" as const,
-      dateRange: "all" as const,
-      customDateFrom: undefined,
-      customDateTo: undefined,
-      searchTerm: "",
-    }
-    setActiveFilters(defaultFilters)
-    setActiveFilterCount(0)
+    setActiveFilters(DEFAULT_FILTERS)
     onFilterChange(expenses)
     setLastAppliedPreset(null)
   }
@@ -199,7 +103,7 @@ export function MinimalFilter({ onFilterChange, expenses, className }: MinimalFi
   const getActiveFilterBadges = () => {
     const badges = []
 
-    if (activeFilters.type !== "all") {
+    if (activeFilters.types.length > 0) {
       badges.push(
         <motion.div
           key="type"
@@ -213,22 +117,27 @@ export function MinimalFilter({ onFilterChange, expenses, className }: MinimalFi
             className="mr-1 bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800"
           >
             <PiggyBank className="mr-1 h-3 w-3 text-green-500" />
-            {activeFilters.type.charAt(0).toUpperCase() + activeFilters.type.slice(1)}
+            {describeSelection(
+              activeFilters.types.map((type) => type.charAt(0).toUpperCase() + type.slice(1)),
+              activeFilters.typeMode,
+              "All Types",
+              "types",
+            )}
           </Badge>
         </motion.div>,
       )
     }
 
-    if (activeFilters.dateRange !== "all") {
+    if (activeFilters.timePeriod !== "all") {
       let label = ""
-      switch (activeFilters.dateRange) {
+      switch (activeFilters.timePeriod) {
         case "today":
           label = "Today"
           break
-        case "week":
+        case "last7days":
           label = "Last 7 days"
           break
-        case "month":
+        case "last30days":
           label = "Last 30 days"
           break
         case "custom":
@@ -296,10 +205,10 @@ export function MinimalFilter({ onFilterChange, expenses, className }: MinimalFi
             type="text"
             placeholder="Search transactions..."
             className="pl-10 h-9 bg-white dark:bg-gray-950 transition-all duration-200 focus-visible:ring-2 focus-visible:ring-offset-0"
-            value={activeFilters.searchTerm}
+            value={activeFilters.search}
             onChange={(e) => handleSearchChange(e.target.value)}
           />
-          {activeFilters.searchTerm && (
+          {activeFilters.search && (
             <button
               className="absolute inset-y-0 right-0 flex items-center pr-3 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
               onClick={() => handleSearchChange("")}
@@ -348,14 +257,28 @@ export function MinimalFilter({ onFilterChange, expenses, className }: MinimalFi
                 <DropdownMenuPortal>
                   <DropdownMenuSubContent className="animate-in fade-in-80 data-[side=bottom]:slide-in-from-top-2 data-[side=left]:slide-in-from-right-2 data-[side=right]:slide-in-from-left-2 data-[side=top]:slide-in-from-bottom-2">
                     <DropdownMenuRadioGroup
-                      value={activeFilters.type}
-                      onValueChange={(value) => handleFilterChange("type", value)}
+                      value={activeFilters.typeMode}
+                      onValueChange={(value) => updateFilters({ typeMode: value as FilterMode })}
                     >
-                      <DropdownMenuRadioItem value="all">All Types</DropdownMenuRadioItem>
-                      <DropdownMenuRadioItem value="expense">Expense</DropdownMenuRadioItem>
-                      <DropdownMenuRadioItem value="income">Income</DropdownMenuRadioItem>
-                      <DropdownMenuRadioItem value="savings">Savings</DropdownMenuRadioItem>
+                      <DropdownMenuRadioItem value="include" onSelect={(e) => e.preventDefault()}>
+                        Only selected
+                      </DropdownMenuRadioItem>
+                      <DropdownMenuRadioItem value="exclude" onSelect={(e) => e.preventDefault()}>
+                        All except selected
+                      </DropdownMenuRadioItem>
                     </DropdownMenuRadioGroup>
+                    <DropdownMenuSeparator />
+                    {TRANSACTION_TYPES.map((type) => (
+                      <DropdownMenuCheckboxItem
+                        key={type}
+                        checked={activeFilters.types.includes(type)}
+                        onCheckedChange={() => toggleType(type)}
+                        onSelect={(e) => e.preventDefault()}
+                        className="capitalize"
+                      >
+                        {type}
+                      </DropdownMenuCheckboxItem>
+                    ))}
                   </DropdownMenuSubContent>
                 </DropdownMenuPortal>
               </DropdownMenuSub>
@@ -368,17 +291,17 @@ export function MinimalFilter({ onFilterChange, expenses, className }: MinimalFi
                 <DropdownMenuPortal>
                   <DropdownMenuSubContent className="animate-in fade-in-80 data-[side=bottom]:slide-in-from-top-2 data-[side=left]:slide-in-from-right-2 data-[side=right]:slide-in-from-left-2 data-[side=top]:slide-in-from-bottom-2">
                     <DropdownMenuRadioGroup
-                      value={activeFilters.dateRange}
-                      onValueChange={(value) => handleFilterChange("dateRange", value)}
+                      value={activeFilters.timePeriod}
+                      onValueChange={handleDateRangeChange}
                     >
                       <DropdownMenuRadioItem value="all">All Time</DropdownMenuRadioItem>
                       <DropdownMenuRadioItem value="today">Today</DropdownMenuRadioItem>
-                      <DropdownMenuRadioItem value="week">Last 7 Days</DropdownMenuRadioItem>
-                      <DropdownMenuRadioItem value="month">Last 30 Days</DropdownMenuRadioItem>
+                      <DropdownMenuRadioItem value="last7days">Last 7 Days</DropdownMenuRadioItem>
+                      <DropdownMenuRadioItem value="last30days">Last 30 Days</DropdownMenuRadioItem>
                       <DropdownMenuRadioItem value="custom">Custom Range</DropdownMenuRadioItem>
                     </DropdownMenuRadioGroup>
 
-                    {activeFilters.dateRange === "custom" && (
+                    {activeFilters.timePeriod === "custom" && (
                       <>
                         <DropdownMenuSeparator />
                         <div className="px-2 py-1.5">
@@ -393,7 +316,7 @@ export function MinimalFilter({ onFilterChange, expenses, className }: MinimalFi
                               <PopoverContent className="w-auto p-0" align="start">
                                 <CalendarComponent
                                   mode="single"
-                                  selected={activeFilters.customDateFrom}
+                                  selected={activeFilters.customDateFrom || undefined}
                                   onSelect={(date) => handleCustomDateChange("from", date)}
                                   initialFocus
                                 />
@@ -411,7 +334,7 @@ export function MinimalFilter({ onFilterChange, expenses, className }: MinimalFi
                               <PopoverContent className="w-auto p-0" align="start">
                                 <CalendarComponent
                                   mode="single"
-                                  selected={activeFilters.customDateTo}
+                                  selected={activeFilters.customDateTo || undefined}
                                   onSelect={(date) => handleCustomDateChange("to", date)}
                                   initialFocus
                                 />
@@ -424,6 +347,24 @@ export function MinimalFilter({ onFilterChange, expenses, className }: MinimalFi
                   </DropdownMenuSubContent>
                 </DropdownMenuPortal>
               </DropdownMenuSub>
+
+              <DropdownMenuSub>
+                <DropdownMenuSubTrigger>
+                  <Filter className="mr-2 h-4 w-4" />
+                  <span>Match</span>
+                </DropdownMenuSubTrigger>
+                <DropdownMenuPortal>
+                  <DropdownMenuSubContent>
+                    <DropdownMenuRadioGroup
+                      value={activeFilters.matchMode}
+                      onValueChange={(value) => updateFilters({ matchMode: value as MatchMode })}
+                    >
+                      <DropdownMenuRadioItem value="all">All filters</DropdownMenuRadioItem>
+                      <DropdownMenuRadioItem value="any">Any filter</DropdownMenuRadioItem>
+                    </DropdownMenuRadioGroup>
+                  </DropdownMenuSubContent>
+                </DropdownMenuPortal>
+              </DropdownMenuSub>
             </DropdownMenuGroup>
 
             <DropdownMenuSeparator />
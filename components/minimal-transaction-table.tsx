@@ -4,9 +4,10 @@ import type React from "react"
 
 import { useState, useMemo } from "react"
 import { format } from "date-fns"
-import { Edit, Trash2, ChevronRight, ChevronLeft, ArrowUp, ArrowDown, ArrowUpDown } from "lucide-react"
+import { Edit, Trash2, ChevronRight, ChevronLeft, ArrowUp, ArrowDown, ArrowUpDown, Split, Paperclip } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import { ExpenseForm } from "@/components/expense-form"
@@ -23,10 +24,19 @@ import {
 import { HiddenValue } from "@/components/hidden-value"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import type { Expense } from "@/types/expense"
+import { DEFAULT_CURRENCY } from "@/lib/currency-service"
+import { useAccounts } from "@/hooks/use-accounts"
+import { isSplit } from "@/lib/splits"
+import { AttachmentGallery } from "@/components/attachments/attachment-gallery"
+import { HighlightText } from "@/components/highlight-text"
+import { BulkActionsBar } from "@/components/bulk-actions-bar"
+import { useRowSelection } from "@/hooks/use-row-selection"
+import type { SearchQuery } from "@/lib/search"
+import type { ExpenseSortColumn, SortDirection } from "@/types/query"
 
 // Define sort types
-type SortColumn = "date" | "type" | "category" | "notes" | "amount"
-type SortDirection = "asc" | "desc"
+export type SortColumn = ExpenseSortColumn
+export type { SortDirection }
 
 interface MinimalTransactionTableProps {
   expenses: Expense[]
@@ -43,6 +53,14 @@ interface MinimalTransactionTableProps {
   itemsPerPage?: number
   onItemsPerPageChange?: (itemsPerPage: number) => void
   showPagination?: boolean
+  // Active search, whose matches are highlighted
+  searchQuery?: SearchQuery
+  // Controlled sorting, e.g. to keep it in the URL. The rows are then expected in that order already,
+  // as they come sorted from the database; the table sorts on its own when omitted
+  sort?: { column: SortColumn; direction: SortDirection }
+  onSortChange?: (column: SortColumn, direction: SortDirection) => void
+  // Turns on row selection and bulk actions; called once a bulk action or its undo is saved
+  onBulkComplete?: () => void
 }
 
 export function MinimalTransactionTable({
@@ -60,15 +78,25 @@ export function MinimalTransactionTable({
   itemsPerPage = 10,
   onItemsPerPageChange,
   showPagination = false,
+  searchQuery,
+  sort,
+  onSortChange,
+  onBulkComplete,
 }: MinimalTransactionTableProps) {
   const [editingExpense, setEditingExpense] = useState<Expense | null>(null)
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false)
   const [deleteConfirmOpen, setDeleteConfirmOpen] = useState(false)
   const [expenseToDelete, setExpenseToDelete] = useState<string | null>(null)
+  const [detailsExpense, setDetailsExpense] = useState<Expense | null>(null)
 
   // Sorting state
-  const [sortColumn, setSortColumn] = useState<SortColumn>("date")
-  const [sortDirection, setSortDirection] = useState<SortDirection>("desc")
+  const [localSortColumn, setLocalSortColumn] = useState<SortColumn>("date")
+  const [localSortDirection, setLocalSortDirection] = useState<SortDirection>("desc")
+  const sortColumn = sort?.column ?? localSortColumn
+  const sortDirection = sort?.direction ?? localSortDirection
+  const { accounts } = useAccounts()
+
+  const accountName = (id?: string) => accounts.find((account) => account.id === id)?.name || "Unknown account"
 
   const handleEditClick = (expense: Expense) => {
     setEditingExpense(expense)
@@ -90,13 +118,13 @@ export function MinimalTransactionTable({
 
   // Handle column header click for sorting
   const handleSortClick = (column: SortColumn) => {
-    if (sortColumn === column) {
-      // Toggle direction if same column
-      setSortDirection(sortDirection === "asc" ? "desc" : "asc")
-    } else {
-      // Set new column and default direction
-      setSortColumn(column)
-      setSortDirection("asc")
+    // Toggle direction if same column, otherwise set new column and default direction
+    const direction: SortDirection = sortColumn === column && sortDirection === "asc" ? "desc" : "asc"
+
+    setLocalSortColumn(column)
+    setLocalSortDirection(direction)
+    if (onSortChange) {
+      onSortChange(column, direction)
     }
   }
 
@@ -111,6 +139,8 @@ export function MinimalTransactionTable({
 
   // Sort the expenses
   const sortedExpenses = useMemo(() => {
+    if (sort) return expenses
+
     const sorted = [...expenses]
 
     sorted.sort((a, b) => {
@@ -138,7 +168,7 @@ export function MinimalTransactionTable({
     })
 
     return sorted
-  }, [expenses, sortColumn, sortDirection])
+  }, [expenses, sort, sortColumn, sortDirection])
 
   const getTypeColor = (type: string) => {
     switch (type) {
@@ -153,17 +183,27 @@ export function MinimalTransactionTable({
     }
   }
 
-  const formatCurrency = (amount: number) => {
+  // Transactions are shown in the currency they were recorded in
+  const formatCurrency = (amount: number, currency = DEFAULT_CURRENCY) => {
     return new Intl.NumberFormat("en-IN", {
       style: "currency",
-      currency: "INR",
+      currency,
       maximumFractionDigits: 0,
     }).format(amount)
   }
 
+  const searchTerms = searchQuery?.terms || []
+  // Amount expressions in the search matched every row shown, so the amount column is marked
+  const amountSearched = !!searchQuery?.amounts.length
+
   // Only limit if the limit prop is provided and pagination is not enabled
   const displayedExpenses = limit && !showPagination ? sortedExpenses.slice(0, limit) : sortedExpenses
 
+  const selectable = !!onBulkComplete
+  const displayedIds = useMemo(() => displayedExpenses.map((expense) => expense.id), [displayedExpenses])
+  const selection = useRowSelection(displayedIds)
+  const selectedExpenses = displayedExpenses.filter((expense) => selection.selectedIds.has(expense.id))
+
   if (isLoading) {
     return (
       <div className={`w-full space-y-3 ${className}`}>
@@ -247,36 +287,99 @@ export function MinimalTransactionTable({
 
   return (
     <div className={className}>
+      {selectable && (
+        <BulkActionsBar selected={selectedExpenses} onClear={selection.clear} onComplete={onBulkComplete} />
+      )}
+
       <div className="w-full overflow-auto">
         <Table>
           <TableHeader>
             <TableRow>
+              {selectable && (
+                <TableHead className="w-[40px]">
+                  <Checkbox
+                    checked={selection.allSelected ? true : selection.someSelected ? "indeterminate" : false}
+                    onCheckedChange={selection.toggleAll}
+                    aria-label="Select all"
+                  />
+                </TableHead>
+              )}
               <SortableHeader column="date">Date</SortableHeader>
               <SortableHeader column="type">Type</SortableHeader>
               <SortableHeader column="category">Category</SortableHeader>
               <SortableHeader column="notes">Notes</SortableHeader>
               <SortableHeader column="amount">Amount</SortableHeader>
-              <TableHead className="w-[100px] text-right">Actions</TableHead>
+              <TableHead className="w-[140px] text-right">Actions</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
             {displayedExpenses.map((expense) => (
-              <TableRow key={expense.id}>
+              <TableRow key={expense.id} data-state={selection.selectedIds.has(expense.id) ? "selected" : undefined}>
+                {selectable && (
+                  <TableCell>
+                    {/* Shift-click selects the rows in between */}
+                    <Checkbox
+                      checked={selection.selectedIds.has(expense.id)}
+                      onClick={(e) => selection.toggle(expense.id, e.shiftKey)}
+                      aria-label="Select transaction"
+                    />
+                  </TableCell>
+                )}
                 <TableCell className="font-medium">{format(new Date(expense.date), "dd MMM")}</TableCell>
                 <TableCell>
                   <Badge variant={getTypeColor(expense.type)} className="capitalize">
                     {expense.type}
                   </Badge>
                 </TableCell>
-                <TableCell>{expense.category}</TableCell>
-                <TableCell className="max-w-[200px] truncate">
-                  {expense.notes || <span className="text-muted-foreground text-xs italic">No notes</span>}
+                <TableCell>
+                  {expense.type === "transfer" ? (
+                    `${accountName(expense.accountId)} → ${accountName(expense.transferAccountId)}`
+                  ) : isSplit(expense) ? (
+                    <div title={expense.splits!.map((split) => `${split.category}: ${split.amount}`).join("\n")}>
+                      <span className="flex items-center gap-1">
+                        <Split className="h-3 w-3 text-muted-foreground" />
+                        Split ({expense.splits!.length})
+                      </span>
+                      <span className="block truncate text-xs text-muted-foreground max-w-[160px]">
+                        <HighlightText
+                          text={expense.splits!.map((split) => split.category).join(", ")}
+                          terms={searchTerms}
+                        />
+                      </span>
+                    </div>
+                  ) : (
+                    <HighlightText text={expense.category} terms={searchTerms} />
+                  )}
+                </TableCell>
+                <TableCell className="max-w-[200px]">
+                  <div className="truncate">
+                    {expense.notes ? (
+                      <HighlightText text={expense.notes} terms={searchTerms} />
+                    ) : (
+                      <span className="text-muted-foreground text-xs italic">No notes</span>
+                    )}
+                  </div>
+                  {expense.tags && expense.tags.length > 0 && (
+                    <div className="truncate text-xs text-pink-600 dark:text-pink-400">
+                      <HighlightText text={expense.tags.map((tag) => `#${tag}`).join(" ")} terms={searchTerms} />
+                    </div>
+                  )}
                 </TableCell>
                 <TableCell className="text-right font-medium">
-                  <HiddenValue value={formatCurrency(expense.amount)} />
+                  {amountSearched ? (
+                    <mark className="rounded-sm bg-yellow-200 px-0.5 text-inherit dark:bg-yellow-700/60">
+                      <HiddenValue value={formatCurrency(expense.amount, expense.currency)} />
+                    </mark>
+                  ) : (
+                    <HiddenValue value={formatCurrency(expense.amount, expense.currency)} />
+                  )}
                 </TableCell>
                 <TableCell className="text-right">
                   <div className="flex justify-end space-x-1">
+                    <Button variant="ghost" size="icon" onClick={() => setDetailsExpense(expense)}>
+                      <Paperclip className="h-4 w-4" />
+                      <span className="sr-only">Details and attachments</span>
+                    </Button>
                     <Button variant="ghost" size="icon" onClick={() => handleEditClick(expense)}>
                       <Edit className="h-4 w-4" />
                       <span className="sr-only">Edit</span>
@@ -323,13 +426,56 @@ export function MinimalTransactionTable({
         </DialogContent>
       </Dialog>
 
+      {/* Details Dialog */}
+      <Dialog open={!!detailsExpense} onOpenChange={(open) => !open && setDetailsExpense(null)}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>Transaction Details</DialogTitle>
+          </DialogHeader>
+          {detailsExpense && (
+            <div className="space-y-4">
+              <dl className="grid grid-cols-[100px_1fr] gap-x-4 gap-y-2 text-sm">
+                <dt className="text-muted-foreground">Date</dt>
+                <dd>{format(new Date(detailsExpense.date), "dd MMM yyyy")}</dd>
+                <dt className="text-muted-foreground">Amount</dt>
+                <dd className="font-medium">
+                  <HiddenValue value={formatCurrency(detailsExpense.amount, detailsExpense.currency)} />
+                </dd>
+                <dt className="text-muted-foreground">Category</dt>
+                <dd>
+                  {detailsExpense.type === "transfer"
+                    ? `${accountName(detailsExpense.accountId)} → ${accountName(detailsExpense.transferAccountId)}`
+                    : isSplit(detailsExpense)
+                      ? detailsExpense
+                          .splits!.map(
+                            (split) => `${split.category} ${formatCurrency(split.amount, detailsExpense.currency)}`,
+                          )
+                          .join(", ")
+                      : detailsExpense.category}
+                </dd>
+                {detailsExpense.notes && (
+                  <>
+                    <dt className="text-muted-foreground">Notes</dt>
+                    <dd className="whitespace-pre-wrap">{detailsExpense.notes}</dd>
+                  </>
+                )}
+              </dl>
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Receipts &amp; documents</h4>
+                <AttachmentGallery expenseId={detailsExpense.id} />
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={deleteConfirmOpen} onOpenChange={setDeleteConfirmOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>Are you sure?</AlertDialogTitle>
             <AlertDialogDescription>
-              This action cannot be undone. This will permanently delete the transaction.
+              This will delete the transaction. You can undo it from the notification or from recent changes.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
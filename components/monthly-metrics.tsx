@@ -4,29 +4,31 @@ import { useMemo } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { ArrowDownIcon, ArrowUpIcon, TrendingUp, TrendingDown, Minus } from "lucide-react"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
-import type { Expense } from "@/types/expense"
+import type { ExpenseType } from "@/types/expense"
+import { useCurrency } from "@/hooks/use-currency"
 import { format, subMonths } from "date-fns"
 
 interface MonthlyMetricsProps {
-  expenses: Expense[]
+  // Totals per type in the base currency, e.g. from useExpenseAggregates
+  totals: Record<ExpenseType, number>
   selectedMonth: Date
-  previousMonthExpenses: Expense[]
+  previousTotals: Record<ExpenseType, number>
 }
 
-export function MonthlyMetrics({ expenses, selectedMonth, previousMonthExpenses }: MonthlyMetricsProps) {
+export function MonthlyMetrics({ totals, selectedMonth, previousTotals }: MonthlyMetricsProps) {
+  const { formatCurrency } = useCurrency()
+
   const metrics = useMemo(() => {
     // Current month metrics
-    const income = expenses.filter((e) => e.type === "income").reduce((sum, e) => sum + e.amount, 0)
-    const expenseTotal = expenses.filter((e) => e.type === "expense").reduce((sum, e) => sum + e.amount, 0)
-    const savings = expenses.filter((e) => e.type === "savings").reduce((sum, e) => sum + e.amount, 0)
+    const income = totals.income
+    const expenseTotal = totals.expense
+    const savings = totals.savings
     const netProfit = income - expenseTotal - savings
 
     // Previous month metrics
-    const prevIncome = previousMonthExpenses.filter((e) => e.type === "income").reduce((sum, e) => sum + e.amount, 0)
-    const prevExpenseTotal = previousMonthExpenses
-      .filter((e) => e.type === "expense")
-      .reduce((sum, e) => sum + e.amount, 0)
-    const prevSavings = previousMonthExpenses.filter((e) => e.type === "savings").reduce((sum, e) => sum + e.amount, 0)
+    const prevIncome = previousTotals.income
+    const prevExpenseTotal = previousTotals.expense
+    const prevSavings = previousTotals.savings
     const prevNetProfit = prevIncome - prevExpenseTotal - prevSavings
 
     // Calculate percentage changes
@@ -45,15 +47,7 @@ export function MonthlyMetrics({ expenses, selectedMonth, previousMonthExpenses
       savingsChange,
       netProfitChange,
     }
-  }, [expenses, previousMonthExpenses])
-
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat("en-IN", {
-      style: "currency",
-      currency: "INR",
-      maximumFractionDigits: 0,
-    }).format(amount)
-  }
+  }, [totals, previousTotals])
 
   const renderChangeIndicator = (change: number, positiveIsGood = true) => {
     if (Math.abs(change) < 0.1) {
@@ -80,13 +74,9 @@ export function MonthlyMetrics({ expenses, selectedMonth, previousMonthExpenses
 
   const previousMonthName = format(subMonths(selectedMonth, 1), "MMMM")
 
-  // Calculate total income, expenses, and savings
-  const totalIncome = expenses.filter((e) => e.type === "income").reduce((sum, e) => sum + e.amount, 0)
-  const totalExpenses = expenses.filter((e) => e.type === "expense").reduce((sum, e) => sum + e.amount, 0)
-  const totalSavings = expenses.filter((e) => e.type === "savings").reduce((sum, e) => sum + e.amount, 0)
-
-  // Calculate net profit
-  const netProfit = totalIncome - totalExpenses - totalSavings
+  // Calculate total income and net profit
+  const totalIncome = totals.income
+  const netProfit = totalIncome - totals.expense - totals.savings
 
   return (
     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
@@ -3,7 +3,7 @@
 import { useState, useEffect, useCallback } from "react"
 import { ExpenseSummary } from "@/components/expense-summary"
 import OverviewSummary from "@/components/overview-summary"
-import { expenseService } from "@/lib/expense-service"
+import { expenseService, EXPENSES_UPDATED_EVENT } from "@/lib/expense-service"
 import { useToast } from "@/hooks/use-toast"
 import type { Expense } from "@/types/expense"
 
@@ -59,6 +59,12 @@ export function OverviewStats() {
     }
   }, [toast])
 
+  // Pick up changes from background refreshes and replayed offline changes
+  useEffect(() => {
+    window.addEventListener(EXPENSES_UPDATED_EVENT, loadExpenses)
+    return () => window.removeEventListener(EXPENSES_UPDATED_EVENT, loadExpenses)
+  }, [loadExpenses])
+
   const handleExpensesUpdated = useCallback((updatedExpenses: Expense[]) => {
     setExpenses(updatedExpenses)
   }, [])
@@ -1,86 +1,80 @@
 "use client"
 
-import { CardDescription } from "@/components/ui/card"
-
-import { useMemo } from "react"
-
 import { useState, useEffect, useCallback } from "react"
-import { CardHeader, CardTitle } from "@/components/ui/card"
 import { MinimalTransactionTable } from "@/components/minimal-transaction-table"
 import { TransactionModal } from "@/components/transaction-modal"
 import { expenseService } from "@/lib/expense-service"
 import { useToast } from "@/hooks/use-toast"
+import { useUndoToast } from "@/hooks/use-undo-toast"
 import { UnifiedFilter } from "@/components/unified-filter"
 import { FilterProvider, useFilter } from "@/contexts/filter-context"
+import { useExpensePage } from "@/hooks/use-expense-page"
+import { useQueryParams } from "@/hooks/use-query-params"
 import type { Expense } from "@/types/expense"
+import type { ExpenseSort, ExpenseSortColumn, SortDirection } from "@/types/query"
 
 interface OverviewSummaryProps {
   onExpensesUpdated?: (expenses: Expense[]) => void
   onAddTransaction?: (callback: (expense: Expense) => void) => void
 }
 
+const SORT_COLUMNS: ExpenseSortColumn[] = ["date", "type", "category", "notes", "amount"]
+
+const VIEW_DEFAULTS = { page: "1", perPage: "50", sort: "date", dir: "desc" }
+
 function TransactionContent({ onExpensesUpdated }: { onExpensesUpdated?: (expenses: Expense[]) => void }) {
-  const [expenses, setExpenses] = useState<Expense[]>([])
-  const [isLoading, setIsLoading] = useState(true)
   const [isModalOpen, setIsModalOpen] = useState(false)
-  const [currentPage, setCurrentPage] = useState(1)
-  const [itemsPerPage, setItemsPerPage] = useState(500) // Default to 500
   const { toast } = useToast()
-  const { applyFilters } = useFilter()
-
-  // Load expenses only once when the component mounts
+  const showUndoToast = useUndoToast()
+  const { filters, searchQuery } = useFilter()
+
+  // Page and sort live in the URL next to the filters, so a shared link opens the same view
+  // (new filters send the list back to the first page through the filter URL sync)
+  const [view, setView] = useQueryParams(VIEW_DEFAULTS)
+  const currentPage = Math.max(1, Number.parseInt(view.page) || 1)
+  const itemsPerPage = Math.max(1, Number.parseInt(view.perPage) || 50)
+  const sort: ExpenseSort = {
+    column: SORT_COLUMNS.includes(view.sort as ExpenseSortColumn) ? (view.sort as ExpenseSortColumn) : "date",
+    direction: view.dir === "asc" ? "asc" : "desc",
+  }
+
+  // Only the visible page is loaded; filtering and sorting happen in the database
+  const {
+    items: pageExpenses,
+    totalPages,
+    isLoading,
+    error,
+    refresh,
+  } = useExpensePage({ filters, sort, page: currentPage, pageSize: itemsPerPage })
+
+  // Rows deleted elsewhere can leave the page past the end; go to the last page that has rows
   useEffect(() => {
-    let isMounted = true
+    if (!isLoading && currentPage > totalPages) setView({ page: totalPages.toString() }, { replace: true })
+  }, [isLoading, currentPage, totalPages, setView])
 
-    const fetchExpenses = async () => {
-      try {
-        const data = await expenseService.getExpenses()
-        if (isMounted) {
-          setExpenses(data)
-          if (onExpensesUpdated) {
-            onExpensesUpdated(data)
-          }
-          setIsLoading(false)
-        }
-      } catch (error) {
-        console.error("Failed to load expenses:", error)
-        if (isMounted) {
-          toast({
-            title: "Error",
-            description: "Failed to load transactions. Please try again.",
-            variant: "destructive",
-          })
-          setIsLoading(false)
-        }
-      }
+  useEffect(() => {
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to load transactions. Please try again.",
+        variant: "destructive",
+      })
     }
+  }, [error, toast])
 
-    fetchExpenses()
-
-    return () => {
-      isMounted = false
+  // Reload the page and let the parent know after every change
+  const handleChanged = useCallback(async () => {
+    refresh()
+    if (onExpensesUpdated) {
+      onExpensesUpdated(await expenseService.getExpenses())
     }
-  }, [onExpensesUpdated, toast])
-
-  // Use useCallback for these handlers to prevent them from being recreated on every render
-  const handleTransactionAdded = useCallback(
-    (expense: Expense) => {
-      setExpenses((prev) => [expense, ...prev])
-      if (onExpensesUpdated) {
-        onExpensesUpdated((prev) => [expense, ...prev])
-      }
-    },
-    [onExpensesUpdated],
-  )
+  }, [refresh, onExpensesUpdated])
 
   const handleTransactionUpdated = useCallback(
     async (updatedExpense: Expense) => {
       try {
-        const expense = await expenseService.updateExpense(updatedExpense)
-        setExpenses((prev) => prev.map((e) => (e.id === expense.id ? expense : e)))
-        if (onExpensesUpdated) {
-          onExpensesUpdated((prev) => prev.map((e) => (e.id === expense.id ? expense : e)))
-        }
+        await expenseService.updateExpense(updatedExpense)
+        await handleChanged()
         toast({
           title: "Success",
           description: "Transaction updated successfully",
@@ -94,21 +88,15 @@ function TransactionContent({ onExpensesUpdated }: { onExpensesUpdated?: (expens
         })
       }
     },
-    [onExpensesUpdated, toast],
+    [handleChanged, toast],
   )
 
   const handleTransactionDeleted = useCallback(
     async (id: string) => {
       try {
         await expenseService.deleteExpense(id)
-        setExpenses((prev) => prev.filter((expense) => expense.id !== id))
-        if (onExpensesUpdated) {
-          onExpensesUpdated((prev) => prev.filter((expense) => expense.id !== id))
-        }
-        toast({
-          title: "Success",
-          description: "Transaction deleted successfully",
-        })
+        await handleChanged()
+        showUndoToast("Transaction deleted", undefined, handleChanged)
       } catch (error: any) {
         console.error("Failed to delete transaction:", error)
         toast({
@@ -118,20 +106,13 @@ function TransactionContent({ onExpensesUpdated }: { onExpensesUpdated?: (expens
         })
       }
     },
-    [onExpensesUpdated, toast],
+    [handleChanged, showUndoToast, toast],
   )
 
-  // Apply filters to expenses
-  const filteredExpenses = useMemo(() => {
-    return applyFilters(expenses)
-  }, [expenses, applyFilters])
-
-  // Calculate pagination
-  const totalPages = Math.ceil(filteredExpenses.length / itemsPerPage)
-  const paginatedExpenses = useMemo(() => {
-    const startIndex = (currentPage - 1) * itemsPerPage
-    return filteredExpenses.slice(startIndex, startIndex + itemsPerPage)
-  }, [filteredExpenses, currentPage, itemsPerPage])
+  // A new sort or page size starts again from the first page
+  const handleSortChange = (column: ExpenseSortColumn, direction: SortDirection) => {
+    setView({ sort: column, dir: direction, page: "1" })
+  }
 
   return (
     <>
@@ -140,22 +121,28 @@ function TransactionContent({ onExpensesUpdated }: { onExpensesUpdated?: (expens
       </div>
 
       <MinimalTransactionTable
-        expenses={paginatedExpenses}
+        expenses={pageExpenses}
         isLoading={isLoading}
         onUpdate={handleTransactionUpdated}
         onDelete={handleTransactionDeleted}
         currentPage={currentPage}
         totalPages={totalPages}
-        onPageChange={setCurrentPage}
+        onPageChange={(page) => setView({ page: page.toString() })}
         itemsPerPage={itemsPerPage}
-        onItemsPerPageChange={setItemsPerPage}
+        onItemsPerPageChange={(perPage) => {
+          setView({ perPage: perPage.toString(), page: "1" })
+        }}
         showPagination={true}
+        searchQuery={searchQuery}
+        sort={sort}
+        onSortChange={handleSortChange}
+        onBulkComplete={() => handleChanged()}
       />
 
       <TransactionModal
         isOpen={isModalOpen}
         onClose={() => setIsModalOpen(false)}
-        onTransactionAdded={handleTransactionAdded}
+        onTransactionAdded={() => handleChanged()}
       />
     </>
   )
@@ -163,8 +150,7 @@ function TransactionContent({ onExpensesUpdated }: { onExpensesUpdated?: (expens
 
 export default function OverviewSummary({ onExpensesUpdated, onAddTransaction }: OverviewSummaryProps) {
   return (
-    <FilterProvider>
-      
+    <FilterProvider syncWithUrl>
       <TransactionContent onExpensesUpdated={onExpensesUpdated} />
     </FilterProvider>
   )
@@ -0,0 +1,230 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { format, parseISO } from "date-fns"
+import { Zap } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { CategorySelector } from "@/components/category-selector"
+import { TagInput } from "@/components/tag-input"
+import { useCategories } from "@/contexts/category-context"
+import { expenseService, EXPENSES_UPDATED_EVENT } from "@/lib/expense-service"
+import { currencyService } from "@/lib/currency-service"
+import { parseQuickAdd } from "@/lib/quick-add"
+import { applyRules } from "@/lib/rules"
+import { cn } from "@/lib/utils"
+import { useCategorySuggestions } from "@/hooks/use-category-suggestions"
+import { useCurrency } from "@/hooks/use-currency"
+import { useRules } from "@/hooks/use-rules"
+import { useToast } from "@/hooks/use-toast"
+import { useUndoToast } from "@/hooks/use-undo-toast"
+import type { Expense } from "@/types/expense"
+
+type DraftType = Exclude<Expense["type"], "transfer">
+
+interface QuickAddBarProps {
+  className?: string
+}
+
+// One line of free text, e.g. "450 lunch with team yesterday", turned into a transaction to confirm
+export function QuickAddBar({ className }: QuickAddBarProps) {
+  const [text, setText] = useState("")
+  const [draft, setDraft] = useState<Expense | null>(null)
+  // Where the category came from, shown under it
+  const [categorySource, setCategorySource] = useState<string | null>(null)
+  const [suggestedCategory, setSuggestedCategory] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const { categories } = useCategories()
+  const { rules } = useRules()
+  const { suggest, learn } = useCategorySuggestions()
+  const { formatCurrency } = useCurrency()
+  const { toast } = useToast()
+  const showUndoToast = useUndoToast()
+
+  const categoryNames = (type: string) =>
+    categories.filter((category) => category.type === type).map((category) => category.name)
+
+  // Categories named in the text win; otherwise the rules, then the learned suggestions, get a say
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!text.trim()) return
+
+    const parsed = parseQuickAdd(text, categories)
+    if (!parsed) {
+      toast({
+        title: "No amount found",
+        description: 'Include the amount, e.g. "450 lunch yesterday" or "salary 85k on 1st".',
+        variant: "destructive",
+      })
+      return
+    }
+
+    let expense: Expense = { ...parsed.expense, currency: currencyService.getBaseCurrency() }
+    let source: string | null = parsed.categoryMatched ? "Named in the text" : null
+    let suggested: string | null = null
+
+    if (!parsed.categoryMatched) {
+      const outcome = applyRules(expense, rules)
+      const rule = outcome.matched.find((candidate) => candidate.actions.category)
+      expense = outcome.expense
+
+      if (rule) {
+        source = `Picked by the rule "${rule.name}"`
+      } else {
+        const [top] = suggest(expense, categoryNames(expense.type))
+        if (top) {
+          expense = { ...expense, category: top.category }
+          suggested = top.category
+          source = `Suggested, ${Math.round(top.confidence * 100)}% confident`
+        }
+      }
+    }
+
+    setDraft(expense)
+    setCategorySource(source)
+    setSuggestedCategory(suggested)
+  }
+
+  const update = (updates: Partial<Expense>) => setDraft((current) => (current ? { ...current, ...updates } : current))
+
+  const handleTypeChange = (type: DraftType) => {
+    update({ type, category: "" })
+    setCategorySource(null)
+  }
+
+  const handleCategoryChange = (category: string) => {
+    update({ category })
+    setCategorySource(null)
+  }
+
+  const handleSave = async () => {
+    if (!draft) return
+    if (!draft.category) {
+      toast({ title: "Choose a category", description: "The text didn't name one.", variant: "destructive" })
+      return
+    }
+    if (!(draft.amount > 0)) {
+      toast({ title: "Check the amount", description: "Amount must be greater than zero.", variant: "destructive" })
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const saved = await expenseService.addExpense(draft)
+      if (suggestedCategory) learn(saved, suggestedCategory, saved.category)
+
+      window.dispatchEvent(new CustomEvent(EXPENSES_UPDATED_EVENT))
+      showUndoToast("Transaction added", `${saved.category} · ${formatCurrency(saved.amount, saved.currency)}`)
+      setDraft(null)
+      setText("")
+    } catch (error: any) {
+      console.error("Failed to add transaction:", error)
+      toast({
+        title: "Error",
+        description: error?.message || "Failed to add transaction. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <>
+      <form onSubmit={handleSubmit} className={cn("relative", className)}>
+        <Input
+          placeholder="Quick add: 450 lunch yesterday"
+          className="h-9 pl-8"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          aria-label="Quick add a transaction"
+        />
+        <Zap className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+      </form>
+
+      <Dialog open={!!draft} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>Confirm Transaction</DialogTitle>
+            <DialogDescription className="truncate">&quot;{text.trim()}&quot;</DialogDescription>
+          </DialogHeader>
+
+          {draft && (
+            <div className="grid grid-cols-2 gap-4 py-2">
+              <div className="grid gap-1.5">
+                <Label htmlFor="quick-add-amount">Amount</Label>
+                <Input
+                  id="quick-add-amount"
+                  type="number"
+                  value={draft.amount || ""}
+                  onChange={(e) => update({ amount: Number.parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+              <div className="grid gap-1.5">
+                <Label htmlFor="quick-add-date">Date</Label>
+                <Input
+                  id="quick-add-date"
+                  type="date"
+                  value={format(parseISO(draft.date), "yyyy-MM-dd")}
+                  onChange={(e) => e.target.value && update({ date: parseISO(e.target.value).toISOString() })}
+                />
+              </div>
+              <div className="grid gap-1.5">
+                <Label htmlFor="quick-add-type">Type</Label>
+                <Select value={draft.type} onValueChange={(value) => handleTypeChange(value as DraftType)}>
+                  <SelectTrigger id="quick-add-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="expense">Expense</SelectItem>
+                    <SelectItem value="income">Income</SelectItem>
+                    <SelectItem value="savings">Savings</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-1.5">
+                <Label htmlFor="quick-add-category">Category</Label>
+                <CategorySelector
+                  id="quick-add-category"
+                  type={draft.type as DraftType}
+                  value={draft.category}
+                  onChange={handleCategoryChange}
+                />
+                {categorySource && <p className="text-xs text-muted-foreground">{categorySource}</p>}
+              </div>
+              <div className="col-span-2 grid gap-1.5">
+                <Label htmlFor="quick-add-notes">Notes</Label>
+                <Input id="quick-add-notes" value={draft.notes} onChange={(e) => update({ notes: e.target.value })} />
+              </div>
+              <div className="col-span-2 grid gap-1.5">
+                <Label htmlFor="quick-add-tags">Tags</Label>
+                <TagInput id="quick-add-tags" value={draft.tags || []} onChange={(tags) => update({ tags })} />
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? "Saving..." : "Add Transaction"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,638 @@
+"use client"
+
+import { useState, useEffect, useCallback, useMemo } from "react"
+import { addDays, format, parseISO } from "date-fns"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+import { Badge } from "@/components/ui/badge"
+import { AlertCircle, CalendarClock, Edit, Plus, RefreshCw, Repeat, SkipForward, Trash2, Undo2 } from "lucide-react"
+import { recurringService, RECURRING_UPDATED_EVENT } from "@/lib/recurring-service"
+import { templateService } from "@/lib/template-service"
+import { expenseService, EXPENSES_UPDATED_EVENT } from "@/lib/expense-service"
+import { describeRule, WEEKDAY_NAMES } from "@/lib/recurrence"
+import { useToast } from "@/hooks/use-toast"
+import type { CreateRecurringRuleInput, NthWeekday, RecurringOccurrence, RecurringRule } from "@/types/recurring"
+import type { TransactionTemplate } from "@/types/template"
+
+// How far ahead upcoming occurrences are listed
+const UPCOMING_DAYS = 60
+
+const emptyRule = (): CreateRecurringRuleInput => ({
+  templateId: "",
+  frequency: "monthly",
+  interval: 1,
+  startDate: format(new Date(), "yyyy-MM-dd"),
+  isActive: true,
+})
+
+export function RecurringManager() {
+  const [rules, setRules] = useState<RecurringRule[]>([])
+  const [templates, setTemplates] = useState<TransactionTemplate[]>([])
+  const [occurrences, setOccurrences] = useState<RecurringOccurrence[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [isRuleDialogOpen, setIsRuleDialogOpen] = useState(false)
+  const [editingRuleId, setEditingRuleId] = useState<string | null>(null)
+  const [ruleForm, setRuleForm] = useState<CreateRecurringRuleInput>(emptyRule())
+  const [endMode, setEndMode] = useState<"never" | "date" | "count">("never")
+  const [editingOccurrence, setEditingOccurrence] = useState<RecurringOccurrence | null>(null)
+  const [occurrenceForm, setOccurrenceForm] = useState({ date: "", amount: "", notes: "" })
+  const [isSaving, setIsSaving] = useState(false)
+  const { toast } = useToast()
+
+  const loadData = useCallback(async () => {
+    try {
+      setLoadError(null)
+      const from = addDays(new Date(), -30)
+      const to = addDays(new Date(), UPCOMING_DAYS)
+      const [rulesData, templatesData, occurrencesData] = await Promise.all([
+        recurringService.getRules(),
+        templateService.getTemplates(),
+        recurringService.getOccurrences(from, to),
+      ])
+      setRules(rulesData)
+      setTemplates(templatesData)
+      setOccurrences(occurrencesData)
+    } catch (error: any) {
+      console.error("Error loading recurring rules:", error)
+      setLoadError(error?.message || "Failed to load recurring transactions")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadData()
+
+    window.addEventListener(RECURRING_UPDATED_EVENT, loadData)
+    return () => window.removeEventListener(RECURRING_UPDATED_EVENT, loadData)
+  }, [loadData])
+
+  const templateName = useCallback(
+    (templateId: string) => templates.find((t) => t.id === templateId)?.name || "Unknown template",
+    [templates],
+  )
+
+  const nextOccurrence = useMemo(() => {
+    const next: Record<string, string> = {}
+    occurrences.forEach((occurrence) => {
+      if (occurrence.status === "upcoming" && !next[occurrence.rule.id]) {
+        next[occurrence.rule.id] = occurrence.scheduledDate
+      }
+    })
+    return next
+  }, [occurrences])
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat("en-IN", {
+      style: "currency",
+      currency: "INR",
+      maximumFractionDigits: 0,
+    }).format(amount)
+  }
+
+  // Refresh dependent views after occurrences were posted or changed
+  const notifyExpensesChanged = () => {
+    expenseService.clearCache()
+    window.dispatchEvent(new CustomEvent(EXPENSES_UPDATED_EVENT))
+  }
+
+  const handleOpenCreate = () => {
+    setEditingRuleId(null)
+    setRuleForm({ ...emptyRule(), templateId: templates[0]?.id || "" })
+    setEndMode("never")
+    setIsRuleDialogOpen(true)
+  }
+
+  const handleOpenEdit = (rule: RecurringRule) => {
+    setEditingRuleId(rule.id)
+    setRuleForm({
+      templateId: rule.templateId,
+      frequency: rule.frequency,
+      interval: rule.interval,
+      startDate: rule.startDate,
+      nthWeekday: rule.nthWeekday,
+      endDate: rule.endDate,
+      count: rule.count,
+      isActive: rule.isActive,
+    })
+    setEndMode(rule.count ? "count" : rule.endDate ? "date" : "never")
+    setIsRuleDialogOpen(true)
+  }
+
+  const handleSaveRule = async () => {
+    if (!ruleForm.templateId) {
+      toast({ title: "Template required", description: "Pick the template to repeat.", variant: "destructive" })
+      return
+    }
+
+    const input: CreateRecurringRuleInput = {
+      ...ruleForm,
+      interval: Math.max(1, Number(ruleForm.interval) || 1),
+      nthWeekday: ruleForm.frequency === "monthly" ? ruleForm.nthWeekday : undefined,
+      endDate: endMode === "date" ? ruleForm.endDate : undefined,
+      count: endMode === "count" ? Math.max(1, Number(ruleForm.count) || 1) : undefined,
+    }
+
+    setIsSaving(true)
+    try {
+      if (editingRuleId) {
+        await recurringService.updateRule(editingRuleId, input)
+      } else {
+        await recurringService.createRule(input)
+      }
+
+      const created = await recurringService.materializeDueOccurrences()
+      if (created > 0) notifyExpensesChanged()
+
+      toast({
+        title: editingRuleId ? "Recurring rule updated" : "Recurring rule created",
+        description: created > 0 ? `${created} due transaction${created === 1 ? "" : "s"} posted.` : undefined,
+      })
+      setIsRuleDialogOpen(false)
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error?.message || "Failed to save recurring rule.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDeleteRule = async (rule: RecurringRule) => {
+    try {
+      await recurringService.deleteRule(rule.id)
+      toast({ title: "Recurring rule deleted", description: "Already posted transactions were kept." })
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error?.message || "Failed to delete recurring rule.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleToggleActive = async (rule: RecurringRule) => {
+    try {
+      await recurringService.updateRule(rule.id, { isActive: !rule.isActive })
+    } catch (error: any) {
+      toast({ title: "Error", description: error?.message || "Failed to update rule.", variant: "destructive" })
+    }
+  }
+
+  const handleSkip = async (occurrence: RecurringOccurrence) => {
+    try {
+      await recurringService.skipOccurrence(occurrence)
+      if (occurrence.status === "posted") notifyExpensesChanged()
+      toast({ title: "Occurrence skipped", description: format(parseISO(occurrence.scheduledDate), "MMM d, yyyy") })
+    } catch (error: any) {
+      toast({ title: "Error", description: error?.message || "Failed to skip occurrence.", variant: "destructive" })
+    }
+  }
+
+  const handleRestore = async (occurrence: RecurringOccurrence) => {
+    try {
+      await recurringService.restoreOccurrence(occurrence)
+      notifyExpensesChanged()
+    } catch (error: any) {
+      toast({ title: "Error", description: error?.message || "Failed to restore occurrence.", variant: "destructive" })
+    }
+  }
+
+  const handleOpenOccurrence = (occurrence: RecurringOccurrence) => {
+    setEditingOccurrence(occurrence)
+    setOccurrenceForm({
+      date: format(new Date(occurrence.expense.date), "yyyy-MM-dd"),
+      amount: occurrence.expense.amount.toString(),
+      notes: occurrence.expense.notes,
+    })
+  }
+
+  const handleSaveOccurrence = async () => {
+    if (!editingOccurrence) return
+
+    const amount = Number.parseFloat(occurrenceForm.amount)
+    if (isNaN(amount) || amount <= 0) {
+      toast({ title: "Invalid amount", description: "Amount must be greater than zero.", variant: "destructive" })
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      await recurringService.editOccurrence(editingOccurrence, {
+        date: parseISO(occurrenceForm.date).toISOString(),
+        amount,
+        notes: occurrenceForm.notes,
+      })
+      if (editingOccurrence.status === "posted") notifyExpensesChanged()
+      toast({ title: "Occurrence updated", description: "Only this instance was changed." })
+      setEditingOccurrence(null)
+    } catch (error: any) {
+      toast({ title: "Error", description: error?.message || "Failed to update occurrence.", variant: "destructive" })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const upcoming = occurrences.filter((occurrence) => occurrence.scheduledDate >= format(new Date(), "yyyy-MM-dd"))
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h2 className="text-2xl font-bold">Recurring Transactions</h2>
+          <p className="text-muted-foreground">Post rent, salary and subscriptions automatically from your templates</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={loadData}>
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Refresh
+          </Button>
+          <Button onClick={handleOpenCreate} disabled={templates.length === 0}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Rule
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {[1, 2].map((i) => (
+            <Card key={i} className="animate-pulse">
+              <CardHeader className="h-24 bg-muted rounded-t-lg" />
+            </Card>
+          ))}
+        </div>
+      ) : loadError ? (
+        <Card className="p-8 text-center">
+          <div className="flex justify-center mb-4">
+            <AlertCircle className="h-12 w-12 text-destructive" />
+          </div>
+          <h3 className="text-lg font-medium mb-2">Error Loading Recurring Transactions</h3>
+          <p className="text-muted-foreground mb-4">{loadError}</p>
+          <Button onClick={loadData}>Try Again</Button>
+        </Card>
+      ) : (
+        <>
+          {rules.length === 0 ? (
+            <Card className="p-8 text-center">
+              <div className="flex justify-center mb-4">
+                <Repeat className="h-12 w-12 text-muted-foreground" />
+              </div>
+              <h3 className="text-lg font-medium mb-2">No recurring rules yet</h3>
+              <p className="text-muted-foreground mb-4">
+                {templates.length === 0
+                  ? "Create a template first, then make it repeat."
+                  : "Pick a template and how often it should be posted."}
+              </p>
+            </Card>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {rules.map((rule) => (
+                <Card key={rule.id} className={rule.isActive ? "" : "opacity-60"}>
+                  <CardHeader className="pb-2">
+                    <div className="flex justify-between items-start">
+                      <div className="space-y-1">
+                        <CardTitle className="flex items-center gap-2">
+                          <Repeat className="h-4 w-4 text-muted-foreground" />
+                          {templateName(rule.templateId)}
+                        </CardTitle>
+                        <CardDescription>{describeRule(rule)}</CardDescription>
+                      </div>
+                      <Switch checked={rule.isActive} onCheckedChange={() => handleToggleActive(rule)} />
+                    </div>
+                  </CardHeader>
+                  <CardContent className="pb-2 text-sm text-muted-foreground">
+                    {nextOccurrence[rule.id]
+                      ? `Next on ${format(parseISO(nextOccurrence[rule.id]), "EEE, MMM d, yyyy")}`
+                      : "No upcoming occurrences"}
+                  </CardContent>
+                  <CardFooter className="flex justify-end gap-2 pt-2">
+                    <Button variant="ghost" size="sm" onClick={() => handleOpenEdit(rule)} title="Edit rule">
+                      <Edit className="h-4 w-4" />
+                      <span className="sr-only">Edit</span>
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-destructive hover:text-destructive"
+                      onClick={() => handleDeleteRule(rule)}
+                      title="Delete rule"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                      <span className="sr-only">Delete</span>
+                    </Button>
+                  </CardFooter>
+                </Card>
+              ))}
+            </div>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <CalendarClock className="h-5 w-5" />
+                Upcoming
+              </CardTitle>
+              <CardDescription>Occurrences in the next {UPCOMING_DAYS} days</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {upcoming.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nothing scheduled.</p>
+              ) : (
+                <div className="divide-y">
+                  {upcoming.map((occurrence) => (
+                    <div
+                      key={`${occurrence.rule.id}:${occurrence.scheduledDate}`}
+                      className="flex items-center justify-between py-3"
+                    >
+                      <div>
+                        <div className="flex items-center gap-2">
+                          <span className={occurrence.status === "skipped" ? "line-through text-muted-foreground" : ""}>
+                            {occurrence.template.name}
+                          </span>
+                          {occurrence.status !== "upcoming" && (
+                            <Badge variant="outline" className="text-xs">
+                              {occurrence.status === "posted" ? "Posted" : "Skipped"}
+                            </Badge>
+                          )}
+                          {occurrence.isEdited && (
+                            <Badge variant="secondary" className="text-xs">
+                              Edited
+                            </Badge>
+                          )}
+                        </div>
+                        <div className="text-sm text-muted-foreground">
+                          {format(new Date(occurrence.expense.date), "EEE, MMM d")} · {occurrence.expense.category}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{formatCurrency(occurrence.expense.amount)}</span>
+                        {occurrence.status === "skipped" ? (
+                          <Button variant="ghost" size="sm" onClick={() => handleRestore(occurrence)} title="Restore">
+                            <Undo2 className="h-4 w-4" />
+                            <span className="sr-only">Restore</span>
+                          </Button>
+                        ) : (
+                          <>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleOpenOccurrence(occurrence)}
+                              title="Edit this occurrence"
+                            >
+                              <Edit className="h-4 w-4" />
+                              <span className="sr-only">Edit</span>
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleSkip(occurrence)}
+                              title="Skip this occurrence"
+                            >
+                              <SkipForward className="h-4 w-4" />
+                              <span className="sr-only">Skip</span>
+                            </Button>
+                          </>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      {/* Create / Edit Rule Dialog */}
+      <Dialog open={isRuleDialogOpen} onOpenChange={setIsRuleDialogOpen}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>{editingRuleId ? "Edit Recurring Rule" : "New Recurring Rule"}</DialogTitle>
+            <DialogDescription>Choose a template and how often it should be posted.</DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-1.5">
+              <Label htmlFor="rule-template">Template</Label>
+              <Select value={ruleForm.templateId} onValueChange={(value) => setRuleForm({ ...ruleForm, templateId: value })}>
+                <SelectTrigger id="rule-template">
+                  <SelectValue placeholder="Select template" />
+                </SelectTrigger>
+                <SelectContent>
+                  {templates.map((template) => (
+                    <SelectItem key={template.id} value={template.id}>
+                      {template.name} · {formatCurrency(template.amount)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-1.5">
+                <Label htmlFor="rule-frequency">Repeats</Label>
+                <Select
+                  value={ruleForm.frequency}
+                  onValueChange={(value) =>
+                    setRuleForm({ ...ruleForm, frequency: value as CreateRecurringRuleInput["frequency"] })
+                  }
+                >
+                  <SelectTrigger id="rule-frequency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="daily">Daily</SelectItem>
+                    <SelectItem value="weekly">Weekly</SelectItem>
+                    <SelectItem value="monthly">Monthly</SelectItem>
+                    <SelectItem value="yearly">Yearly</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-1.5">
+                <Label htmlFor="rule-interval">Every</Label>
+                <Input
+                  id="rule-interval"
+                  type="number"
+                  min={1}
+                  value={ruleForm.interval}
+                  onChange={(e) => setRuleForm({ ...ruleForm, interval: Number(e.target.value) })}
+                />
+              </div>
+            </div>
+
+            <div className="grid gap-1.5">
+              <Label htmlFor="rule-start">Starts on</Label>
+              <Input
+                id="rule-start"
+                type="date"
+                value={ruleForm.startDate}
+                onChange={(e) => setRuleForm({ ...ruleForm, startDate: e.target.value })}
+              />
+            </div>
+
+            {ruleForm.frequency === "monthly" && (
+              <div className="grid gap-1.5">
+                <Label>Day of month</Label>
+                <div className="grid grid-cols-2 gap-2">
+                  <Select
+                    value={ruleForm.nthWeekday ? String(ruleForm.nthWeekday.n) : "date"}
+                    onValueChange={(value) =>
+                      setRuleForm({
+                        ...ruleForm,
+                        nthWeekday:
+                          value === "date"
+                            ? undefined
+                            : {
+                                n: Number(value) as NthWeekday["n"],
+                                weekday: ruleForm.nthWeekday?.weekday ?? parseISO(ruleForm.startDate).getDay(),
+                              },
+                      })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="date">Same date as start</SelectItem>
+                      <SelectItem value="1">First</SelectItem>
+                      <SelectItem value="2">Second</SelectItem>
+                      <SelectItem value="3">Third</SelectItem>
+                      <SelectItem value="4">Fourth</SelectItem>
+                      <SelectItem value="-1">Last</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {ruleForm.nthWeekday && (
+                    <Select
+                      value={String(ruleForm.nthWeekday.weekday)}
+                      onValueChange={(value) =>
+                        setRuleForm({ ...ruleForm, nthWeekday: { ...ruleForm.nthWeekday!, weekday: Number(value) } })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {WEEKDAY_NAMES.map((name, index) => (
+                          <SelectItem key={name} value={String(index)}>
+                            {name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+              </div>
+            )}
+
+            <div className="grid gap-1.5">
+              <Label>Ends</Label>
+              <div className="grid grid-cols-2 gap-2">
+                <Select value={endMode} onValueChange={(value) => setEndMode(value as typeof endMode)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="never">Never</SelectItem>
+                    <SelectItem value="date">On date</SelectItem>
+                    <SelectItem value="count">After</SelectItem>
+                  </SelectContent>
+                </Select>
+                {endMode === "date" && (
+                  <Input
+                    type="date"
+                    value={ruleForm.endDate || ""}
+                    onChange={(e) => setRuleForm({ ...ruleForm, endDate: e.target.value })}
+                  />
+                )}
+                {endMode === "count" && (
+                  <Input
+                    type="number"
+                    min={1}
+                    placeholder="Occurrences"
+                    value={ruleForm.count || ""}
+                    onChange={(e) => setRuleForm({ ...ruleForm, count: Number(e.target.value) })}
+                  />
+                )}
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsRuleDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveRule} disabled={isSaving}>
+              {isSaving ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Edit Single Occurrence Dialog */}
+      <Dialog open={!!editingOccurrence} onOpenChange={(open) => !open && setEditingOccurrence(null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Edit Occurrence</DialogTitle>
+            <DialogDescription>
+              {editingOccurrence &&
+                `Changes apply only to ${editingOccurrence.template.name} on ${format(
+                  parseISO(editingOccurrence.scheduledDate),
+                  "MMM d, yyyy",
+                )}.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-1.5">
+              <Label htmlFor="occurrence-date">Date</Label>
+              <Input
+                id="occurrence-date"
+                type="date"
+                value={occurrenceForm.date}
+                onChange={(e) => setOccurrenceForm({ ...occurrenceForm, date: e.target.value })}
+              />
+            </div>
+            <div className="grid gap-1.5">
+              <Label htmlFor="occurrence-amount">Amount</Label>
+              <Input
+                id="occurrence-amount"
+                type="number"
+                value={occurrenceForm.amount}
+                onChange={(e) => setOccurrenceForm({ ...occurrenceForm, amount: e.target.value })}
+              />
+            </div>
+            <div className="grid gap-1.5">
+              <Label htmlFor="occurrence-notes">Notes</Label>
+              <Input
+                id="occurrence-notes"
+                value={occurrenceForm.notes}
+                onChange={(e) => setOccurrenceForm({ ...occurrenceForm, notes: e.target.value })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditingOccurrence(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveOccurrence} disabled={isSaving}>
+              {isSaving ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,65 @@
+"use client"
+
+import { format, parseISO } from "date-fns"
+import { ArrowRight } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { useCurrency } from "@/hooks/use-currency"
+import type { RuleChange } from "@/lib/rules"
+
+// Long previews are cut short; the count still covers every change
+const MAX_SHOWN = 50
+
+interface RuleChangesListProps {
+  changes: RuleChange[]
+  emptyMessage: string
+}
+
+// Existing transactions a rule would change, with the category and tags before and after
+export function RuleChangesList({ changes, emptyMessage }: RuleChangesListProps) {
+  const { formatCurrency } = useCurrency()
+
+  if (changes.length === 0) {
+    return <p className="py-4 text-center text-sm text-muted-foreground">{emptyMessage}</p>
+  }
+
+  return (
+    <div className="space-y-1">
+      <ul className="max-h-[260px] divide-y overflow-y-auto rounded-md border">
+        {changes.slice(0, MAX_SHOWN).map(({ before, expense }) => {
+          const addedTags = (expense.tags || []).filter((tag) => !(before.tags || []).includes(tag))
+          const recategorized = before.category !== expense.category || before.type !== expense.type
+
+          return (
+            <li key={before.id} className="px-3 py-2 text-sm">
+              <div className="flex items-center justify-between gap-2">
+                <span className="truncate">{before.notes || "No notes"}</span>
+                <span className="whitespace-nowrap font-medium">{formatCurrency(before.amount, before.currency)}</span>
+              </div>
+              <div className="mt-0.5 flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+                <span>{format(parseISO(before.date), "dd MMM yyyy")}</span>
+                {recategorized && (
+                  <>
+                    <span>· {before.category}</span>
+                    <ArrowRight className="h-3 w-3" />
+                    <span className="text-foreground">
+                      {expense.category}
+                      {before.type !== expense.type && ` (${expense.type})`}
+                    </span>
+                  </>
+                )}
+                {addedTags.map((tag) => (
+                  <Badge key={tag} variant="secondary" className="px-1.5 py-0 text-[10px] font-normal">
+                    +#{tag}
+                  </Badge>
+                ))}
+              </div>
+            </li>
+          )
+        })}
+      </ul>
+      {changes.length > MAX_SHOWN && (
+        <p className="text-xs text-muted-foreground">…and {changes.length - MAX_SHOWN} more</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,327 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { CategorySelector } from "@/components/category-selector"
+import { TagInput } from "@/components/tag-input"
+import { RuleChangesList } from "@/components/rules/rule-changes-list"
+import { ruleService } from "@/lib/rule-service"
+import { WEEKDAY_NAMES } from "@/lib/recurrence"
+import { hasConditions, previewRule, validateRule } from "@/lib/rules"
+import { useAccounts } from "@/hooks/use-accounts"
+import { useToast } from "@/hooks/use-toast"
+import { useUndoToast } from "@/hooks/use-undo-toast"
+import type { Expense } from "@/types/expense"
+import type { CategorizationRule, CreateRuleInput, RuleActions } from "@/types/rule"
+
+// Select value for "any account" and "don't change the category"
+const ANY = "any"
+
+interface RuleForm {
+  name: string
+  notesContains: string
+  notesPattern: string
+  minAmount: string
+  maxAmount: string
+  accountId: string
+  weekdays: number[]
+  type: NonNullable<RuleActions["type"]> | typeof ANY
+  category: string
+  tags: string[]
+}
+
+const toForm = (rule: CategorizationRule | null): RuleForm => ({
+  name: rule?.name || "",
+  notesContains: rule?.conditions.notesContains || "",
+  notesPattern: rule?.conditions.notesPattern || "",
+  minAmount: rule?.conditions.minAmount?.toString() || "",
+  maxAmount: rule?.conditions.maxAmount?.toString() || "",
+  accountId: rule?.conditions.accountId || ANY,
+  weekdays: rule?.conditions.weekdays || [],
+  type: rule?.actions.type || ANY,
+  category: rule?.actions.category || "",
+  tags: rule?.actions.tags || [],
+})
+
+const parseAmount = (value: string): number | undefined => {
+  const amount = Number.parseFloat(value)
+  return value.trim() && !isNaN(amount) ? amount : undefined
+}
+
+// Empty fields are left out so they don't count as conditions
+const toInput = (form: RuleForm): CreateRuleInput => ({
+  name: form.name.trim(),
+  conditions: {
+    notesContains: form.notesContains.trim() || undefined,
+    notesPattern: form.notesPattern.trim() || undefined,
+    minAmount: parseAmount(form.minAmount),
+    maxAmount: parseAmount(form.maxAmount),
+    accountId: form.accountId !== ANY ? form.accountId : undefined,
+    weekdays: form.weekdays.length > 0 ? form.weekdays : undefined,
+  },
+  actions: {
+    type: form.type !== ANY && form.category ? form.type : undefined,
+    category: form.type !== ANY ? form.category || undefined : undefined,
+    tags: form.tags.length > 0 ? form.tags : undefined,
+  },
+})
+
+interface RuleEditorDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // The rule being edited, or null for a new one
+  rule: CategorizationRule | null
+  // Existing transactions the tester checks the rule against
+  expenses: Expense[]
+}
+
+// Create or edit a rule, previewing the existing transactions it would change as it is typed
+export function RuleEditorDialog({ open, onOpenChange, rule, expenses }: RuleEditorDialogProps) {
+  const [form, setForm] = useState<RuleForm>(toForm(rule))
+  const [isSaving, setIsSaving] = useState(false)
+  const { accounts } = useAccounts()
+  const { toast } = useToast()
+  const showUndoToast = useUndoToast()
+
+  useEffect(() => {
+    if (open) setForm(toForm(rule))
+  }, [open, rule])
+
+  const input = useMemo(() => toInput(form), [form])
+  const errors = validateRule(input)
+  const changes = useMemo(
+    () => (hasConditions(input.conditions) ? previewRule(expenses, input) : []),
+    [expenses, input],
+  )
+
+  const update = (updates: Partial<RuleForm>) => setForm((current) => ({ ...current, ...updates }))
+
+  const toggleWeekday = (day: number) =>
+    update({
+      weekdays: form.weekdays.includes(day) ? form.weekdays.filter((d) => d !== day) : [...form.weekdays, day],
+    })
+
+  const handleSave = async (applyToExisting: boolean) => {
+    if (errors.length > 0) {
+      toast({ title: "Check the rule", description: errors[0], variant: "destructive" })
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      if (rule) {
+        await ruleService.updateRule(rule.id, input)
+      } else {
+        await ruleService.createRule(input)
+      }
+
+      if (applyToExisting && changes.length > 0) {
+        const count = await ruleService.applyChanges(changes)
+        showUndoToast("Rule saved", `Updated ${count} existing transaction${count === 1 ? "" : "s"}.`)
+      } else {
+        toast({ title: "Rule saved", description: `"${input.name}" applies to new transactions from now on.` })
+      }
+      onOpenChange(false)
+    } catch (error: any) {
+      toast({
+        title: "Could not save the rule",
+        description: error?.message || "Something went wrong.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{rule ? "Edit Rule" : "New Rule"}</DialogTitle>
+          <DialogDescription>
+            Transactions that meet every condition get the category and tags below.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="grid gap-1.5">
+            <Label htmlFor="rule-name">Name</Label>
+            <Input
+              id="rule-name"
+              value={form.name}
+              onChange={(e) => update({ name: e.target.value })}
+              placeholder="e.g. Food delivery"
+            />
+          </div>
+
+          <div className="space-y-3 rounded-md border p-3">
+            <p className="text-sm font-medium">When</p>
+            <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+              <div className="grid gap-1.5">
+                <Label htmlFor="rule-contains">Notes contain</Label>
+                <Input
+                  id="rule-contains"
+                  value={form.notesContains}
+                  onChange={(e) => update({ notesContains: e.target.value })}
+                  placeholder="swiggy"
+                />
+              </div>
+              <div className="grid gap-1.5">
+                <Label htmlFor="rule-pattern">Notes match (regex)</Label>
+                <Input
+                  id="rule-pattern"
+                  value={form.notesPattern}
+                  onChange={(e) => update({ notesPattern: e.target.value })}
+                  placeholder="^(uber|ola)\b"
+                  className="font-mono"
+                />
+              </div>
+              <div className="grid gap-1.5">
+                <Label htmlFor="rule-min">Amount from</Label>
+                <Input
+                  id="rule-min"
+                  type="number"
+                  value={form.minAmount}
+                  onChange={(e) => update({ minAmount: e.target.value })}
+                  placeholder="Any"
+                />
+              </div>
+              <div className="grid gap-1.5">
+                <Label htmlFor="rule-max">Amount up to</Label>
+                <Input
+                  id="rule-max"
+                  type="number"
+                  value={form.maxAmount}
+                  onChange={(e) => update({ maxAmount: e.target.value })}
+                  placeholder="Any"
+                />
+              </div>
+              <div className="grid gap-1.5 sm:col-span-2">
+                <Label htmlFor="rule-account">Account</Label>
+                <Select value={form.accountId} onValueChange={(value) => update({ accountId: value })}>
+                  <SelectTrigger id="rule-account">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any account</SelectItem>
+                    {accounts
+                      .filter((account) => !account.archived || account.id === form.accountId)
+                      .map((account) => (
+                        <SelectItem key={account.id} value={account.id}>
+                          {account.name}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid gap-1.5">
+              <Label>On</Label>
+              <div className="flex flex-wrap gap-1">
+                {WEEKDAY_NAMES.map((name, day) => (
+                  <Button
+                    key={name}
+                    type="button"
+                    size="sm"
+                    variant={form.weekdays.includes(day) ? "default" : "outline"}
+                    className="h-8 px-2.5"
+                    onClick={() => toggleWeekday(day)}
+                    aria-pressed={form.weekdays.includes(day)}
+                  >
+                    {name.slice(0, 3)}
+                  </Button>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">Leave every day off to match any day.</p>
+            </div>
+          </div>
+
+          <div className="space-y-3 rounded-md border p-3">
+            <p className="text-sm font-medium">Then</p>
+            <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+              <div className="grid gap-1.5">
+                <Label htmlFor="rule-type">Set type</Label>
+                <Select
+                  value={form.type}
+                  onValueChange={(value) => update({ type: value as RuleForm["type"], category: "" })}
+                >
+                  <SelectTrigger id="rule-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Don&apos;t change</SelectItem>
+                    <SelectItem value="expense">Expense</SelectItem>
+                    <SelectItem value="income">Income</SelectItem>
+                    <SelectItem value="savings">Savings</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {form.type !== ANY && (
+                <div className="grid gap-1.5">
+                  <Label htmlFor="rule-category">Category</Label>
+                  <CategorySelector
+                    id="rule-category"
+                    type={form.type}
+                    value={form.category}
+                    onChange={(category) => update({ category })}
+                  />
+                </div>
+              )}
+            </div>
+            <div className="grid gap-1.5">
+              <Label htmlFor="rule-tags">Add tags</Label>
+              <TagInput id="rule-tags" value={form.tags} onChange={(tags) => update({ tags })} />
+            </div>
+          </div>
+
+          <div className="grid gap-1.5">
+            <p className="text-sm font-medium">
+              Test against existing transactions
+              {hasConditions(input.conditions) && (
+                <span className="font-normal text-muted-foreground">
+                  {" "}
+                  · {changes.length} would change
+                </span>
+              )}
+            </p>
+            <RuleChangesList
+              changes={changes}
+              emptyMessage={
+                hasConditions(input.conditions)
+                  ? "No existing transaction would change."
+                  : "Add a condition to see which transactions match."
+              }
+            />
+          </div>
+
+          {errors.length > 0 && form.name && <p className="text-sm text-destructive">{errors[0]}</p>}
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          {changes.length > 0 && (
+            <Button variant="secondary" onClick={() => handleSave(true)} disabled={isSaving}>
+              Save and update {changes.length}
+            </Button>
+          )}
+          <Button onClick={() => handleSave(false)} disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
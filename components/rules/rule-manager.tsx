@@ -0,0 +1,234 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Switch } from "@/components/ui/switch"
+import { ArrowDown, ArrowUp, Edit, Plus, RefreshCw, Trash2, Wand2 } from "lucide-react"
+import { RuleChangesList } from "@/components/rules/rule-changes-list"
+import { RuleEditorDialog } from "@/components/rules/rule-editor-dialog"
+import { expenseService, EXPENSES_UPDATED_EVENT } from "@/lib/expense-service"
+import { ruleService } from "@/lib/rule-service"
+import { describeActions, describeConditions, findRuleChanges } from "@/lib/rules"
+import { useAccounts } from "@/hooks/use-accounts"
+import { useRules } from "@/hooks/use-rules"
+import { useToast } from "@/hooks/use-toast"
+import { useUndoToast } from "@/hooks/use-undo-toast"
+import { cn } from "@/lib/utils"
+import type { Expense } from "@/types/expense"
+import type { CategorizationRule } from "@/types/rule"
+
+// List, order and edit categorisation rules, and re-run them over existing transactions
+export function RuleManager() {
+  const { rules, isLoading } = useRules()
+  const [expenses, setExpenses] = useState<Expense[]>([])
+  const [editingRule, setEditingRule] = useState<CategorizationRule | null>(null)
+  const [isEditorOpen, setIsEditorOpen] = useState(false)
+  const [isRerunOpen, setIsRerunOpen] = useState(false)
+  const [isBusy, setIsBusy] = useState(false)
+  const { accounts } = useAccounts()
+  const { toast } = useToast()
+  const showUndoToast = useUndoToast()
+  const accountName = (id: string) => accounts.find((account) => account.id === id)?.name || "Unknown account"
+
+  // The tester and re-run work on every transaction, kept current as they change
+  useEffect(() => {
+    let isMounted = true
+
+    const loadExpenses = async () => {
+      try {
+        const data = await expenseService.getExpenses()
+        if (isMounted) setExpenses(data)
+      } catch (error) {
+        console.error("Error loading transactions for rules:", error)
+      }
+    }
+
+    loadExpenses()
+
+    window.addEventListener(EXPENSES_UPDATED_EVENT, loadExpenses)
+    return () => {
+      isMounted = false
+      window.removeEventListener(EXPENSES_UPDATED_EVENT, loadExpenses)
+    }
+  }, [])
+
+  const rerunChanges = useMemo(() => findRuleChanges(expenses, rules), [expenses, rules])
+
+  // Run a change, reporting failures instead of throwing
+  const run = async (action: () => Promise<unknown>, failure = "Could not update rules") => {
+    setIsBusy(true)
+    try {
+      await action()
+    } catch (error: any) {
+      toast({
+        title: failure,
+        description: error?.message || "Something went wrong.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const openEditor = (rule: CategorizationRule | null) => {
+    setEditingRule(rule)
+    setIsEditorOpen(true)
+  }
+
+  const handleMove = (index: number, offset: number) => {
+    const ids = rules.map((rule) => rule.id)
+    const target = index + offset
+    if (target < 0 || target >= ids.length) return
+    ;[ids[index], ids[target]] = [ids[target], ids[index]]
+    run(() => ruleService.reorderRules(ids))
+  }
+
+  const handleRerun = () =>
+    run(async () => {
+      const count = await ruleService.applyChanges(rerunChanges)
+      setIsRerunOpen(false)
+      showUndoToast("Rules applied", `Updated ${count} transaction${count === 1 ? "" : "s"}.`)
+    }, "Could not apply rules")
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Categorisation Rules</CardTitle>
+            <CardDescription>
+              Rules fill in the category and tags of new transactions as you type them, import a statement or paste
+              them in bulk. They run top to bottom: the first matching rule with a category picks it, and every
+              matching rule adds its tags.
+            </CardDescription>
+          </div>
+          <Button onClick={() => openEditor(null)} className="shrink-0">
+            <Plus className="mr-2 h-4 w-4" />
+            New Rule
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">Loading rules...</p>
+          ) : rules.length === 0 ? (
+            <div className="flex flex-col items-center gap-2 py-8 text-center text-sm text-muted-foreground">
+              <Wand2 className="h-8 w-8" />
+              <p>No rules yet. Add one, e.g. notes containing &quot;swiggy&quot; go to Food.</p>
+            </div>
+          ) : (
+            <ul className="space-y-2">
+              {rules.map((rule, index) => (
+                <li
+                  key={rule.id}
+                  className={cn("flex items-center gap-2 rounded-md border p-3", !rule.isActive && "opacity-60")}
+                >
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate font-medium">{rule.name}</p>
+                    <p className="truncate text-xs text-muted-foreground">
+                      When {describeConditions(rule.conditions, accountName)}
+                    </p>
+                    <p className="truncate text-xs text-muted-foreground">Then {describeActions(rule.actions)}</p>
+                  </div>
+                  <Switch
+                    checked={rule.isActive}
+                    disabled={isBusy}
+                    onCheckedChange={() => run(() => ruleService.updateRule(rule.id, { isActive: !rule.isActive }))}
+                    aria-label={rule.isActive ? `Pause ${rule.name}` : `Resume ${rule.name}`}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={isBusy || index === 0}
+                    onClick={() => handleMove(index, -1)}
+                    aria-label={`Move ${rule.name} up`}
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={isBusy || index === rules.length - 1}
+                    onClick={() => handleMove(index, 1)}
+                    aria-label={`Move ${rule.name} down`}
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={isBusy}
+                    onClick={() => openEditor(rule)}
+                    aria-label={`Edit ${rule.name}`}
+                  >
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={isBusy}
+                    onClick={() => run(() => ruleService.deleteRule(rule.id))}
+                    className="text-destructive hover:text-destructive"
+                    aria-label={`Delete ${rule.name}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Re-run Rules</CardTitle>
+          <CardDescription>
+            Apply your active rules to transactions you already have, for example after adding a new rule. Split
+            transactions keep their categories. You can undo this from Recent changes.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button
+            variant="outline"
+            disabled={isBusy || rerunChanges.length === 0}
+            onClick={() => setIsRerunOpen(true)}
+          >
+            <RefreshCw className="mr-2 h-4 w-4" />
+            {rerunChanges.length === 0
+              ? "Everything already follows your rules"
+              : `Review ${rerunChanges.length} change${rerunChanges.length === 1 ? "" : "s"}`}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <RuleEditorDialog open={isEditorOpen} onOpenChange={setIsEditorOpen} rule={editingRule} expenses={expenses} />
+
+      <Dialog open={isRerunOpen} onOpenChange={setIsRerunOpen}>
+        <DialogContent className="sm:max-w-[560px]">
+          <DialogHeader>
+            <DialogTitle>Re-run Rules</DialogTitle>
+            <DialogDescription>These transactions will be updated to follow your active rules.</DialogDescription>
+          </DialogHeader>
+          <RuleChangesList changes={rerunChanges} emptyMessage="Every transaction already follows your rules." />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsRerunOpen(false)} disabled={isBusy}>
+              Cancel
+            </Button>
+            <Button onClick={handleRerun} disabled={isBusy || rerunChanges.length === 0}>
+              {isBusy ? "Updating..." : `Update ${rerunChanges.length}`}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
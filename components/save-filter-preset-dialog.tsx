@@ -0,0 +1,123 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { filterPresetService } from "@/lib/filter-preset-service"
+import { describeFilters, toSavedFilters } from "@/lib/filters"
+import { useFilterPresets } from "@/hooks/use-filter-presets"
+import { useAccounts } from "@/hooks/use-accounts"
+import { useToast } from "@/hooks/use-toast"
+import type { FilterState } from "@/types/filter"
+
+interface SaveFilterPresetDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  filters: FilterState
+}
+
+// Save the given filters under a name; reusing an existing name updates that preset
+export function SaveFilterPresetDialog({ open, onOpenChange, filters }: SaveFilterPresetDialogProps) {
+  const [name, setName] = useState("")
+  const [pinned, setPinned] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const { presets } = useFilterPresets()
+  const { toast } = useToast()
+  const { accounts } = useAccounts()
+  const accountName = (id: string) => accounts.find((account) => account.id === id)?.name || "Unknown account"
+
+  const summary = describeFilters(filters, accountName)
+
+  useEffect(() => {
+    if (open) {
+      setName("")
+      setPinned(false)
+    }
+  }, [open])
+
+  const existing = presets.find((preset) => preset.name.toLowerCase() === name.trim().toLowerCase())
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast({ title: "Name required", description: "Give your preset a name.", variant: "destructive" })
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      // Saving over an existing preset never unpins it
+      const input = { name: name.trim(), filters: toSavedFilters(filters), pinned: pinned || !!existing?.pinned }
+      if (existing) {
+        await filterPresetService.updatePreset(existing.id, input)
+      } else {
+        await filterPresetService.createPreset(input)
+      }
+      toast({ title: "Preset saved", description: `"${input.name}" is now in your presets.` })
+      onOpenChange(false)
+    } catch (error: any) {
+      toast({
+        title: "Could not save preset",
+        description: error?.message || "Something went wrong.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle>Save Filter Preset</DialogTitle>
+          <DialogDescription>{summary}</DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-4">
+          <div className="grid gap-1.5">
+            <Label htmlFor="preset-name">Name</Label>
+            <Input
+              id="preset-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleSave()}
+              placeholder="e.g., Eating out this month"
+              autoFocus
+            />
+            {existing && <p className="text-xs text-amber-600">This replaces the filters of your existing preset.</p>}
+          </div>
+          {filters.timePeriod === "custom" && (
+            <p className="text-xs text-muted-foreground">
+              Custom dates stay fixed. Pick a period like &quot;Last 30 Days&quot; to have the preset move with the
+              calendar.
+            </p>
+          )}
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="preset-pinned">Pin to filter bar</Label>
+              <p className="text-xs text-muted-foreground">Show it as a one-click button next to the filters</p>
+            </div>
+            <Switch id="preset-pinned" checked={pinned} onCheckedChange={(checked: boolean) => setPinned(checked)} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? "Saving..." : existing ? "Update Preset" : "Save Preset"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,8 +1,6 @@
 "use client"
 
-import type React from "react"
-
-import { useState, useRef, useEffect } from "react"
+import { useState, useEffect } from "react"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Progress } from "@/components/ui/progress"
@@ -10,10 +8,16 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
 import { Badge } from "@/components/ui/badge"
 import { Separator } from "@/components/ui/separator"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { useToast } from "@/hooks/use-toast"
 import { csvUtils } from "@/components/csv-import-export"
-import { syncService, type SyncStatus } from "@/lib/sync-service"
+import { TransactionImportWizard } from "@/components/import/transaction-import-wizard"
+import { RestoreBackupDialog } from "@/components/settings/restore-backup-dialog"
+import { backupService } from "@/lib/backup-service"
+import { syncService, type SyncOptions, type SyncStatus } from "@/lib/sync-service"
 import type { Expense } from "@/types/expense"
+import type { ImportResult } from "@/types/import"
 import {
   Download,
   Upload,
@@ -23,6 +27,8 @@ import {
   RefreshCw,
   Clock,
   Info,
+  DatabaseBackup,
+  History,
 } from "lucide-react"
 import { format, formatDistanceToNow } from "date-fns"
 
@@ -34,18 +40,14 @@ interface BackupSyncPanelProps {
 
 export function BackupSyncPanel({ expenses, isLoading, onRefresh }: BackupSyncPanelProps) {
   const { toast } = useToast()
-  const fileInputRef = useRef<HTMLInputElement>(null)
   const [activeTab, setActiveTab] = useState("backup")
 
-  // CSV import state
-  const [isImporting, setIsImporting] = useState(false)
-  const [importProgress, setImportProgress] = useState(0)
-  const [importStats, setImportStats] = useState<{
-    total: number
-    imported: number
-    skipped: number
-    newCategories: string[]
-  } | null>(null)
+  // CSV import wizard
+  const [isImportOpen, setIsImportOpen] = useState(false)
+
+  // JSON backup state
+  const [isBackingUp, setIsBackingUp] = useState(false)
+  const [isRestoreOpen, setIsRestoreOpen] = useState(false)
 
   // CSV export state
   const [isExporting, setIsExporting] = useState(false)
@@ -53,6 +55,8 @@ export function BackupSyncPanel({ expenses, isLoading, onRefresh }: BackupSyncPa
   // Sync state
   const [syncStatus, setSyncStatus] = useState<SyncStatus>(syncService.getStatus())
   const [isSyncing, setIsSyncing] = useState(false)
+  const [syncDirection, setSyncDirection] = useState<SyncOptions["direction"]>("both")
+  const [conflictResolution, setConflictResolution] = useState<SyncOptions["conflictResolution"]>("newest")
 
   // Update sync status periodically during sync
   useEffect(() => {
@@ -108,59 +112,41 @@ export function BackupSyncPanel({ expenses, isLoading, onRefresh }: BackupSyncPa
     }
   }
 
-  // Handle CSV import button click
-  const handleImportClick = () => {
-    fileInputRef.current?.click()
-  }
-
-  // Handle file selection for import
-  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0]
-    if (!file) return
-
-    setIsImporting(true)
-    setImportProgress(0)
-    setImportStats({
-      total: 0,
-      imported: 0,
-      skipped: 0,
-      newCategories: [],
-    })
+  // Handle full JSON backup download
+  const handleBackup = async () => {
+    setIsBackingUp(true)
 
     try {
-      // Create a custom progress handler
-      const handleProgress = (progress: number, stats: any) => {
-        setImportProgress(progress)
-        setImportStats(stats)
-      }
-
-      // Process the CSV import
-      await csvUtils.processCSVImport(file, expenses, async () => {
-        await onRefresh()
+      const backup = await backupService.downloadBackup()
+      const recordCount = Object.values(backup.tables).reduce((sum, rows) => sum + (rows?.length || 0), 0)
 
-        toast({
-          title: "Import completed",
-          description: "Your transactions have been imported successfully.",
-        })
+      toast({
+        title: "Backup downloaded",
+        description: `${recordCount} records saved to a JSON backup.`,
       })
-
-      // Reset file input
-      if (event.target) {
-        event.target.value = ""
-      }
     } catch (error: any) {
-      console.error("Import error:", error)
+      console.error("Backup error:", error)
 
       toast({
-        title: "Import failed",
-        description: error?.message || "An error occurred while importing data.",
+        title: "Backup failed",
+        description: error?.message || "An error occurred while creating the backup.",
         variant: "destructive",
       })
     } finally {
-      setIsImporting(false)
+      setIsBackingUp(false)
     }
   }
 
+  // Refresh the list once the wizard has saved transactions
+  const handleImportComplete = async (result: ImportResult) => {
+    await onRefresh()
+
+    toast({
+      title: "Import completed",
+      description: `${result.imported} transactions imported${result.failed ? `, ${result.failed} failed` : ""}.`,
+    })
+  }
+
   // Handle database sync
   const handleSync = async () => {
     if (isSyncing) return
@@ -169,16 +155,22 @@ export function BackupSyncPanel({ expenses, isLoading, onRefresh }: BackupSyncPa
 
     try {
       // Start the sync process
-      const result = await syncService.synchronizeData()
+      const result = await syncService.synchronizeData({
+        direction: syncDirection,
+        conflictResolution,
+      })
 
       // Update the sync status
       setSyncStatus(result)
 
       // Show toast based on result
       if (result.status === "success") {
+        const details = result.details
         toast({
           title: "Sync completed",
-          description: `Successfully synchronized your data.`,
+          description: details
+            ? `${details.added} added, ${details.updated} updated, ${details.deleted} deleted.`
+            : `Successfully synchronized your data.`,
         })
 
         // Refresh expenses to show any changes
@@ -219,6 +211,40 @@ export function BackupSyncPanel({ expenses, isLoading, onRefresh }: BackupSyncPa
       </TabsList>
 
       <TabsContent value="backup" className="mt-4 space-y-4">
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle>Full Backup</CardTitle>
+              <DatabaseBackup className="h-5 w-5 text-muted-foreground" />
+            </div>
+            <CardDescription>
+              Everything in one JSON file: transactions with their attachments, categories with their budgets, colors
+              and icons, templates, accounts, recurring rules, goals, filter presets and currency settings
+            </CardDescription>
+          </CardHeader>
+
+          <CardContent className="grid gap-4 md:grid-cols-2">
+            <Button onClick={handleBackup} disabled={isBackingUp || isLoading} className="w-full">
+              {isBackingUp ? (
+                <>
+                  <span className="mr-2">Creating backup...</span>
+                  <RefreshCw className="h-4 w-4 animate-spin" />
+                </>
+              ) : (
+                <>
+                  <Download className="mr-2 h-4 w-4" />
+                  Download Backup
+                </>
+              )}
+            </Button>
+
+            <Button variant="outline" onClick={() => setIsRestoreOpen(true)} disabled={isLoading} className="w-full">
+              <History className="mr-2 h-4 w-4" />
+              Restore from Backup
+            </Button>
+          </CardContent>
+        </Card>
+
         <Card>
           <CardHeader>
             <CardTitle>CSV Export & Import</CardTitle>
@@ -270,70 +296,22 @@ export function BackupSyncPanel({ expenses, isLoading, onRefresh }: BackupSyncPa
                     <CardTitle className="text-lg">Import Data</CardTitle>
                     <Upload className="h-5 w-5 text-muted-foreground" />
                   </div>
-                  <CardDescription>Restore your transactions from a CSV file</CardDescription>
+                  <CardDescription>Bring in transactions from CSV, OFX/QFX or QIF files</CardDescription>
                 </CardHeader>
 
                 <CardContent>
                   <p className="text-sm text-muted-foreground mb-4">
-                    Import transactions from a CSV file. The file should have headers for Date, Type, Category, Amount,
-                    and optionally Notes.
+                    Import a bank statement or spreadsheet export. You can map CSV columns, check the parsed rows and
+                    skip duplicates before anything is saved. Statement lines already imported are recognised.
                   </p>
 
-                  <Button onClick={handleImportClick} disabled={isImporting || isLoading} className="w-full">
-                    {isImporting ? (
-                      <>
-                        <span className="mr-2">Importing...</span>
-                        <RefreshCw className="h-4 w-4 animate-spin" />
-                      </>
-                    ) : (
-                      <>
-                        <Upload className="mr-2 h-4 w-4" />
-                        Import from CSV
-                      </>
-                    )}
+                  <Button onClick={() => setIsImportOpen(true)} disabled={isLoading} className="w-full">
+                    <Upload className="mr-2 h-4 w-4" />
+                    Import Transactions
                   </Button>
-
-                  <input ref={fileInputRef} type="file" accept=".csv" onChange={handleFileSelect} className="hidden" />
                 </CardContent>
               </Card>
             </div>
-
-            {/* Import Progress */}
-            {isImporting && (
-              <Card>
-                <CardHeader className="pb-2">
-                  <CardTitle className="text-lg">Import Progress</CardTitle>
-                </CardHeader>
-
-                <CardContent className="space-y-4">
-                  <Progress value={importProgress} className="w-full" />
-
-                  {importStats && (
-                    <div className="grid gap-2 md:grid-cols-4">
-                      <div className="bg-muted rounded-md p-3">
-                        <div className="text-sm font-medium">Total</div>
-                        <div className="text-2xl font-bold">{importStats.total}</div>
-                      </div>
-
-                      <div className="bg-muted rounded-md p-3">
-                        <div className="text-sm font-medium">Imported</div>
-                        <div className="text-2xl font-bold text-green-600">{importStats.imported}</div>
-                      </div>
-
-                      <div className="bg-muted rounded-md p-3">
-                        <div className="text-sm font-medium">Skipped</div>
-                        <div className="text-2xl font-bold text-amber-600">{importStats.skipped}</div>
-                      </div>
-
-                      <div className="bg-muted rounded-md p-3">
-                        <div className="text-sm font-medium">New Categories</div>
-                        <div className="text-2xl font-bold text-blue-600">{importStats.newCategories.length}</div>
-                      </div>
-                    </div>
-                  )}
-                </CardContent>
-              </Card>
-            )}
           </CardContent>
 
           <CardFooter className="flex justify-between border-t pt-4">
@@ -405,6 +383,45 @@ export function BackupSyncPanel({ expenses, isLoading, onRefresh }: BackupSyncPa
               </AlertDescription>
             </Alert>
 
+            {/* Sync Options */}
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-1.5">
+                <Label htmlFor="sync-direction">Direction</Label>
+                <Select
+                  value={syncDirection}
+                  onValueChange={(value) => setSyncDirection(value as SyncOptions["direction"])}
+                  disabled={isSyncing}
+                >
+                  <SelectTrigger id="sync-direction">
+                    <SelectValue placeholder="Select direction" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="both">Two-way</SelectItem>
+                    <SelectItem value="push">Push local changes only</SelectItem>
+                    <SelectItem value="pull">Pull remote changes only</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-1.5">
+                <Label htmlFor="sync-conflicts">When both sides changed</Label>
+                <Select
+                  value={conflictResolution}
+                  onValueChange={(value) => setConflictResolution(value as SyncOptions["conflictResolution"])}
+                  disabled={isSyncing}
+                >
+                  <SelectTrigger id="sync-conflicts">
+                    <SelectValue placeholder="Select conflict resolution" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="newest">Keep the newest change</SelectItem>
+                    <SelectItem value="local">Keep the local version</SelectItem>
+                    <SelectItem value="remote">Keep the remote version</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
             {/* Sync Progress */}
             {(isSyncing || syncStatus.status === "syncing") && (
               <div className="space-y-2">
@@ -418,7 +435,7 @@ export function BackupSyncPanel({ expenses, isLoading, onRefresh }: BackupSyncPa
             )}
 
             {/* Sync Results */}
-            {syncStatus.status === "success" && syncStatus.details && (
+            {syncStatus.status !== "syncing" && syncStatus.details && (
               <div className="space-y-2">
                 <h3 className="text-sm font-medium">Last Sync Results</h3>
                 <div className="grid gap-2 md:grid-cols-5">
@@ -505,6 +522,15 @@ export function BackupSyncPanel({ expenses, isLoading, onRefresh }: BackupSyncPa
           </CardFooter>
         </Card>
       </TabsContent>
+
+      <TransactionImportWizard
+        open={isImportOpen}
+        onOpenChange={setIsImportOpen}
+        existingExpenses={expenses}
+        onImportComplete={handleImportComplete}
+      />
+
+      <RestoreBackupDialog open={isRestoreOpen} onOpenChange={setIsRestoreOpen} onRestoreComplete={onRefresh} />
     </Tabs>
   )
 }
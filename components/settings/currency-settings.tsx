@@ -0,0 +1,210 @@
+"use client"
+
+import type React from "react"
+
+import { useState, useRef } from "react"
+import { format } from "date-fns"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Coins, Plus, Trash2, Upload } from "lucide-react"
+import { currencyService, COMMON_CURRENCIES } from "@/lib/currency-service"
+import { useCurrency } from "@/hooks/use-currency"
+import { useToast } from "@/hooks/use-toast"
+
+export function CurrencySettings() {
+  const { baseCurrency, settings } = useCurrency()
+  const { toast } = useToast()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [newCurrency, setNewCurrency] = useState("")
+  const [newRate, setNewRate] = useState("")
+  const [editedRates, setEditedRates] = useState<Record<string, string>>({})
+
+  const rates = Object.values(settings.rates).sort((a, b) => a.currency.localeCompare(b.currency))
+  const baseOptions = Array.from(new Set([baseCurrency, ...COMMON_CURRENCIES, ...rates.map((r) => r.currency)]))
+
+  const runAction = (action: () => void, successMessage?: string) => {
+    try {
+      action()
+      if (successMessage) toast({ title: "Success", description: successMessage })
+    } catch (error: any) {
+      toast({ title: "Error", description: error?.message || "Something went wrong", variant: "destructive" })
+    }
+  }
+
+  const handleBaseChange = (code: string) => {
+    runAction(() => currencyService.setBaseCurrency(code), `Totals are now shown in ${code}`)
+  }
+
+  const handleAddRate = () => {
+    runAction(() => {
+      currencyService.setRate(newCurrency, Number.parseFloat(newRate))
+      setNewCurrency("")
+      setNewRate("")
+    }, `Exchange rate for ${newCurrency.toUpperCase()} saved`)
+  }
+
+  const handleSaveRate = (currency: string) => {
+    const value = editedRates[currency]
+    if (value === undefined) return
+
+    runAction(() => {
+      currencyService.setRate(currency, Number.parseFloat(value))
+      setEditedRates(({ [currency]: _, ...rest }) => rest)
+    })
+  }
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+
+    try {
+      const text = await file.text()
+      const imported = currencyService.importRates(text, file.name)
+      toast({ title: "Rates imported", description: `${imported} exchange rates updated from ${file.name}` })
+    } catch (error: any) {
+      toast({
+        title: "Import failed",
+        description: error?.message || "Could not read the exchange rate file",
+        variant: "destructive",
+      })
+    } finally {
+      event.target.value = ""
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Coins className="h-5 w-5" />
+          Currencies
+        </CardTitle>
+        <CardDescription>
+          Summaries are converted to your base currency using the exchange rates below. Rates are stored on this device.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-1.5 max-w-xs">
+          <Label htmlFor="base-currency">Base currency</Label>
+          <Select value={baseCurrency} onValueChange={handleBaseChange}>
+            <SelectTrigger id="base-currency">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {baseOptions.map((code) => (
+                <SelectItem key={code} value={code}>
+                  {code}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">Switching re-expresses every rate in the new base currency.</p>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h3 className="font-medium">Exchange rates</h3>
+            <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="mr-2 h-4 w-4" />
+              Import
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.json,.txt"
+              onChange={handleFileSelect}
+              className="hidden"
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Import a CSV with <code>currency,rate</code> rows (value of one unit in {baseCurrency}) or a JSON file such
+            as <code>{'{"base": "USD", "rates": {...}}'}</code>.
+          </p>
+
+          <div className="border rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Currency</TableHead>
+                  <TableHead>1 unit in {baseCurrency}</TableHead>
+                  <TableHead>Updated</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rates.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center text-muted-foreground">
+                      No exchange rates yet
+                    </TableCell>
+                  </TableRow>
+                )}
+                {rates.map((rate) => (
+                  <TableRow key={rate.currency}>
+                    <TableCell className="font-medium">{rate.currency}</TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        step="any"
+                        className="h-8 w-32"
+                        value={editedRates[rate.currency] ?? rate.rate.toString()}
+                        onChange={(e) => setEditedRates({ ...editedRates, [rate.currency]: e.target.value })}
+                        onBlur={() => handleSaveRate(rate.currency)}
+                        onKeyDown={(e) => e.key === "Enter" && handleSaveRate(rate.currency)}
+                      />
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {format(new Date(rate.updatedAt), "MMM d, yyyy")}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => runAction(() => currencyService.removeRate(rate.currency))}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                        <span className="sr-only">Remove</span>
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                <TableRow>
+                  <TableCell>
+                    <Input
+                      placeholder="USD"
+                      maxLength={3}
+                      className="h-8 w-20 uppercase"
+                      value={newCurrency}
+                      onChange={(e) => setNewCurrency(e.target.value)}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      step="any"
+                      placeholder="0.00"
+                      className="h-8 w-32"
+                      value={newRate}
+                      onChange={(e) => setNewRate(e.target.value)}
+                    />
+                  </TableCell>
+                  <TableCell />
+                  <TableCell className="text-right">
+                    <Button size="sm" onClick={handleAddRate} disabled={!newCurrency || !newRate}>
+                      <Plus className="mr-1 h-4 w-4" />
+                      Add
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,325 @@
+"use client"
+
+import type React from "react"
+
+import { useState, useRef } from "react"
+import { format } from "date-fns"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Progress } from "@/components/ui/progress"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { AlertCircle, AlertTriangle, CheckCircle, FileJson, RefreshCw } from "lucide-react"
+import { parseBackup } from "@/lib/backup"
+import { backupService } from "@/lib/backup-service"
+import { useToast } from "@/hooks/use-toast"
+import type { BackupFile, RestoreMode, RestorePlan } from "@/types/backup"
+
+type RestoreStep = "select" | "preview" | "restoring" | "done"
+
+interface RestoreBackupDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onRestoreComplete?: () => void
+}
+
+export function RestoreBackupDialog({ open, onOpenChange, onRestoreComplete }: RestoreBackupDialogProps) {
+  const { toast } = useToast()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const [step, setStep] = useState<RestoreStep>("select")
+  const [fileName, setFileName] = useState("")
+  const [backup, setBackup] = useState<BackupFile | null>(null)
+  const [backupVersion, setBackupVersion] = useState(0)
+  const [mode, setMode] = useState<RestoreMode>("merge")
+  const [plan, setPlan] = useState<RestorePlan | null>(null)
+  const [isPlanning, setIsPlanning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [progress, setProgress] = useState(0)
+  const [progressMessage, setProgressMessage] = useState("")
+
+  const reset = () => {
+    setStep("select")
+    setFileName("")
+    setBackup(null)
+    setBackupVersion(0)
+    setMode("merge")
+    setPlan(null)
+    setError(null)
+    setProgress(0)
+    setProgressMessage("")
+  }
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    // Keep the dialog open while data is being written
+    if (step === "restoring") return
+    if (!nextOpen) reset()
+    onOpenChange(nextOpen)
+  }
+
+  // Run the dry run for the chosen backup and mode
+  const loadPlan = async (file: BackupFile, restoreMode: RestoreMode, version: number) => {
+    setIsPlanning(true)
+    setError(null)
+
+    try {
+      setPlan(await backupService.previewRestore(file, restoreMode, version))
+      setStep("preview")
+    } catch (planError: any) {
+      setError(planError?.message || "Could not compare the backup with your data.")
+    } finally {
+      setIsPlanning(false)
+    }
+  }
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+
+    setFileName(file.name)
+    setPlan(null)
+
+    try {
+      const parsed = parseBackup(await file.text())
+      setBackup(parsed.backup)
+      setBackupVersion(parsed.originalVersion)
+      await loadPlan(parsed.backup, mode, parsed.originalVersion)
+    } catch (parseError: any) {
+      setBackup(null)
+      setError(parseError?.message || "The file could not be read.")
+    }
+  }
+
+  const handleModeChange = (value: string) => {
+    const restoreMode = value as RestoreMode
+    setMode(restoreMode)
+    if (backup) loadPlan(backup, restoreMode, backupVersion)
+  }
+
+  const handleRestore = async () => {
+    if (!backup) return
+
+    setStep("restoring")
+    setProgress(0)
+
+    try {
+      const result = await backupService.restoreBackup(
+        backup,
+        mode,
+        (value, message) => {
+          setProgress(value)
+          setProgressMessage(message)
+        },
+        backupVersion,
+      )
+      setPlan(result)
+      setStep("done")
+      onRestoreComplete?.()
+    } catch (restoreError: any) {
+      console.error("Restore error:", restoreError)
+      toast({
+        title: "Restore failed",
+        description: restoreError?.message || "An error occurred while restoring the backup.",
+        variant: "destructive",
+      })
+      setStep("preview")
+    }
+  }
+
+  const totals = plan?.tables.reduce(
+    (sum, table) => ({
+      create: sum.create + table.create,
+      update: sum.update + table.update,
+      remove: sum.remove + table.remove,
+    }),
+    { create: 0, update: 0, remove: 0 },
+  )
+  const hasChanges = !!totals && (totals.create > 0 || totals.update > 0 || totals.remove > 0 || !!plan?.restoresSettings)
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Restore from Backup</DialogTitle>
+          <DialogDescription>
+            {step === "done"
+              ? "Your data has been restored."
+              : "Nothing is changed until you review the summary and confirm."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {(step === "select" || step === "preview") && (
+          <div className="space-y-4 py-2">
+            <div
+              className="border-2 border-dashed rounded-lg p-6 text-center cursor-pointer hover:bg-muted/50 transition-colors"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              <FileJson className="h-8 w-8 mx-auto mb-2 text-muted-foreground" />
+              <p className="text-sm font-medium">{fileName || "Choose a .json backup file"}</p>
+              {plan && (
+                <p className="text-xs text-muted-foreground">
+                  {plan.backupCreatedAt
+                    ? `Created ${format(new Date(plan.backupCreatedAt), "MMM d, yyyy h:mm a")} · `
+                    : ""}
+                  format version {plan.backupVersion}
+                </p>
+              )}
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".json,application/json"
+                onChange={handleFileSelect}
+                className="hidden"
+              />
+            </div>
+
+            <RadioGroup value={mode} onValueChange={handleModeChange} className="grid gap-3 md:grid-cols-2">
+              <Label
+                htmlFor="restore-merge"
+                className="flex items-start gap-3 rounded-md border p-3 cursor-pointer font-normal"
+              >
+                <RadioGroupItem value="merge" id="restore-merge" className="mt-0.5" />
+                <span>
+                  <span className="block font-medium">Merge</span>
+                  <span className="text-sm text-muted-foreground">
+                    Add what is missing and update records the backup has a newer copy of. Nothing is deleted.
+                  </span>
+                </span>
+              </Label>
+              <Label
+                htmlFor="restore-replace"
+                className="flex items-start gap-3 rounded-md border p-3 cursor-pointer font-normal"
+              >
+                <RadioGroupItem value="replace" id="restore-replace" className="mt-0.5" />
+                <span>
+                  <span className="block font-medium">Replace</span>
+                  <span className="text-sm text-muted-foreground">
+                    Make your data match the backup exactly, deleting anything it doesn't contain.
+                  </span>
+                </span>
+              </Label>
+            </RadioGroup>
+
+            {error && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertTitle>Cannot restore this file</AlertTitle>
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            {isPlanning && (
+              <div className="flex items-center justify-center py-6 text-sm text-muted-foreground">
+                <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+                Comparing backup with your data...
+              </div>
+            )}
+
+            {plan && !isPlanning && <RestoreSummaryTable plan={plan} />}
+
+            {plan && !isPlanning && mode === "replace" && totals && totals.remove > 0 && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>{totals.remove} records will be deleted</AlertTitle>
+                <AlertDescription>Download a backup of your current data first if you may need it.</AlertDescription>
+              </Alert>
+            )}
+          </div>
+        )}
+
+        {step === "restoring" && (
+          <div className="space-y-3 py-4">
+            <Progress value={progress} className="w-full" />
+            <p className="text-sm text-muted-foreground">{progressMessage}</p>
+          </div>
+        )}
+
+        {step === "done" && plan && (
+          <div className="space-y-4 py-2">
+            <Alert variant="default" className="bg-green-50 text-green-800 dark:bg-green-900 dark:text-green-50">
+              <CheckCircle className="h-4 w-4" />
+              <AlertTitle>Restore complete</AlertTitle>
+              <AlertDescription>
+                {totals?.create || 0} added, {totals?.update || 0} updated, {totals?.remove || 0} removed.
+              </AlertDescription>
+            </Alert>
+            <RestoreSummaryTable plan={plan} />
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          {step === "done" ? (
+            <Button onClick={() => handleOpenChange(false)}>Close</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={step === "restoring"}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handleRestore}
+                disabled={step !== "preview" || isPlanning || !hasChanges}
+                variant={mode === "replace" ? "destructive" : "default"}
+              >
+                {step === "restoring" ? "Restoring..." : mode === "replace" ? "Replace my data" : "Merge backup"}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+function RestoreSummaryTable({ plan }: { plan: RestorePlan }) {
+  return (
+    <div className="border rounded-md">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Data</TableHead>
+            <TableHead className="text-right">In backup</TableHead>
+            <TableHead className="text-right">New</TableHead>
+            <TableHead className="text-right">Updated</TableHead>
+            <TableHead className="text-right">Unchanged</TableHead>
+            {plan.mode === "replace" && <TableHead className="text-right">Removed</TableHead>}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {plan.tables.map((table) => (
+            <TableRow key={table.table}>
+              <TableCell>
+                {table.label}
+                {table.unavailable && (
+                  <span className="block text-xs text-muted-foreground">Not set up in this database; skipped</span>
+                )}
+              </TableCell>
+              <TableCell className="text-right">{table.inBackup}</TableCell>
+              <TableCell className="text-right text-green-600">{table.create}</TableCell>
+              <TableCell className="text-right text-blue-600">{table.update}</TableCell>
+              <TableCell className="text-right text-muted-foreground">{table.unchanged}</TableCell>
+              {plan.mode === "replace" && <TableCell className="text-right text-red-600">{table.remove}</TableCell>}
+            </TableRow>
+          ))}
+          {plan.restoresSettings && (
+            <TableRow>
+              <TableCell>Currency settings</TableCell>
+              <TableCell colSpan={plan.mode === "replace" ? 5 : 4} className="text-right text-muted-foreground">
+                Base currency and exchange rates are replaced
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
@@ -0,0 +1,121 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Plus, Trash2 } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { currencyService } from "@/lib/currency-service"
+import type { ExpenseSplit } from "@/types/expense"
+
+// Form state of one line; the amount stays a string while it is being typed
+export interface SplitLine {
+  category: string
+  amount: string
+  notes: string
+}
+
+export const toSplitLines = (splits: ExpenseSplit[]): SplitLine[] =>
+  splits.map((split) => ({ category: split.category, amount: split.amount.toString(), notes: split.notes || "" }))
+
+export const toExpenseSplits = (lines: SplitLine[]): ExpenseSplit[] =>
+  lines.map((line) => ({
+    category: line.category,
+    amount: Number.parseFloat(line.amount) || 0,
+    ...(line.notes.trim() ? { notes: line.notes.trim() } : {}),
+  }))
+
+interface SplitEditorProps {
+  lines: SplitLine[]
+  onChange: (lines: SplitLine[]) => void
+  categories: string[]
+  total: number
+  currency?: string
+  error?: string
+}
+
+// Lines of a split transaction, each with its own category and amount, and what is left to assign
+export function SplitEditor({ lines, onChange, categories, total, currency, error }: SplitEditorProps) {
+  const allocated = lines.reduce((sum, line) => sum + (Number.parseFloat(line.amount) || 0), 0)
+  const remaining = Math.round((total - allocated) * 100) / 100
+
+  const updateLine = (index: number, changes: Partial<SplitLine>) => {
+    onChange(lines.map((line, i) => (i === index ? { ...line, ...changes } : line)))
+  }
+
+  // New lines start with whatever is still unassigned
+  const addLine = () => {
+    onChange([...lines, { category: "", amount: remaining > 0 ? remaining.toString() : "", notes: "" }])
+  }
+
+  const removeLine = (index: number) => {
+    onChange(lines.filter((_, i) => i !== index))
+  }
+
+  return (
+    <div className="space-y-2">
+      {lines.map((line, index) => (
+        <div key={index} className="grid grid-cols-[1fr_110px_auto] md:grid-cols-[1fr_120px_1fr_auto] gap-2">
+          <Select value={line.category} onValueChange={(value) => updateLine(index, { category: value })}>
+            <SelectTrigger aria-label={`Category of line ${index + 1}`}>
+              <SelectValue placeholder="Category" />
+            </SelectTrigger>
+            <SelectContent>
+              {categories.map((cat) => (
+                <SelectItem key={cat} value={cat}>
+                  {cat}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            step="0.01"
+            placeholder="0"
+            value={line.amount}
+            onChange={(e) => updateLine(index, { amount: e.target.value })}
+            aria-label={`Amount of line ${index + 1}`}
+          />
+          <Input
+            placeholder="Note (optional)"
+            value={line.notes}
+            onChange={(e) => updateLine(index, { notes: e.target.value })}
+            className="hidden md:block"
+            aria-label={`Note of line ${index + 1}`}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => removeLine(index)}
+            disabled={lines.length <= 2}
+            aria-label={`Remove line ${index + 1}`}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between">
+        <Button type="button" variant="outline" size="sm" onClick={addLine}>
+          <Plus className="mr-1 h-4 w-4" />
+          Add line
+        </Button>
+        <span
+          className={cn(
+            "text-sm",
+            remaining === 0 ? "text-muted-foreground" : remaining > 0 ? "text-amber-600" : "text-destructive",
+          )}
+        >
+          {remaining === 0
+            ? "Fully assigned"
+            : remaining > 0
+              ? `${currencyService.formatCurrency(remaining, currency)} left to assign`
+              : `${currencyService.formatCurrency(Math.abs(remaining), currency)} over the total`}
+        </span>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,68 @@
+"use client"
+
+import { useMemo } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Tag } from "lucide-react"
+import type { Expense } from "@/types/expense"
+import { getTagBreakdown } from "@/lib/tags"
+import { useCurrency } from "@/hooks/use-currency"
+
+interface TagBreakdownProps {
+  expenses: Expense[]
+  type?: "expense" | "income" | "savings"
+  limit?: number
+}
+
+export function TagBreakdown({ expenses, type = "expense", limit = 8 }: TagBreakdownProps) {
+  const { formatCurrency, toBase } = useCurrency()
+
+  const tagData = useMemo(() => getTagBreakdown(toBase(expenses), type).slice(0, limit), [expenses, type, limit, toBase])
+
+  // Share of the type's total; a transaction with several tags counts towards each
+  const typeTotal = useMemo(
+    () => toBase(expenses.filter((expense) => expense.type === type)).reduce((sum, expense) => sum + expense.amount, 0),
+    [expenses, type, toBase],
+  )
+
+  const largest = tagData[0]?.amount || 0
+
+  return (
+    <Card className="col-span-1 md:col-span-2">
+      <CardHeader>
+        <CardTitle>{type.charAt(0).toUpperCase() + type.slice(1)} by Tag</CardTitle>
+        <CardDescription>Transactions with several tags count towards each of them</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {tagData.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-[200px] text-muted-foreground">
+            <Tag className="h-8 w-8 mb-2 opacity-50" />
+            No tagged {type} this month
+          </div>
+        ) : (
+          <ul className="space-y-3">
+            {tagData.map((item) => (
+              <li key={item.tag} className="space-y-1">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium">#{item.tag}</span>
+                  <span>
+                    {formatCurrency(item.amount)}
+                    <span className="ml-2 text-xs text-muted-foreground">
+                      {item.count} txn{item.count === 1 ? "" : "s"}
+                      {typeTotal > 0 && ` · ${((item.amount / typeTotal) * 100).toFixed(1)}%`}
+                    </span>
+                  </span>
+                </div>
+                <div className="h-2 rounded-full bg-muted overflow-hidden">
+                  <div
+                    className="h-full rounded-full bg-pink-500"
+                    style={{ width: `${largest > 0 ? (item.amount / largest) * 100 : 0}%` }}
+                  />
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,101 @@
+"use client"
+
+import { useState, useMemo } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Plus, Tag, X } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { normalizeTag } from "@/lib/tags"
+import { useTags } from "@/hooks/use-tags"
+
+interface TagInputProps {
+  id?: string
+  value: string[]
+  onChange: (tags: string[]) => void
+  className?: string
+}
+
+// Chips for the selected tags plus a searchable list of existing ones; typing a new name creates it
+export function TagInput({ id, value, onChange, className }: TagInputProps) {
+  const [open, setOpen] = useState(false)
+  const [search, setSearch] = useState("")
+  const { tags, isLoading } = useTags()
+
+  const newTag = normalizeTag(search)
+
+  const suggestions = useMemo(
+    () => tags.filter(({ tag }) => !value.includes(tag) && (!newTag || tag.includes(newTag))),
+    [tags, value, newTag],
+  )
+
+  const addTag = (tag: string) => {
+    const normalized = normalizeTag(tag)
+    if (normalized && !value.includes(normalized)) {
+      onChange([...value, normalized])
+    }
+    setSearch("")
+  }
+
+  const removeTag = (tag: string) => {
+    onChange(value.filter((t) => t !== tag))
+  }
+
+  const canCreate = !!newTag && !value.includes(newTag) && !tags.some(({ tag }) => tag === newTag)
+
+  return (
+    <div className={cn("flex flex-wrap items-center gap-1.5", className)}>
+      {value.map((tag) => (
+        <Badge key={tag} variant="secondary" className="gap-1 pr-1">
+          #{tag}
+          <button
+            type="button"
+            onClick={() => removeTag(tag)}
+            className="rounded-full hover:bg-muted-foreground/20 p-0.5"
+            aria-label={`Remove tag ${tag}`}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </Badge>
+      ))}
+
+      <Popover
+        open={open}
+        onOpenChange={(nextOpen) => {
+          setOpen(nextOpen)
+          if (!nextOpen) setSearch("")
+        }}
+      >
+        <PopoverTrigger asChild>
+          <Button type="button" variant="outline" size="sm" className="h-7 px-2 text-xs" id={id}>
+            {value.length === 0 ? <Tag className="mr-1 h-3 w-3" /> : <Plus className="mr-1 h-3 w-3" />}
+            {value.length === 0 ? "Add tags" : "Add"}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-[220px] p-0" align="start">
+          <Command shouldFilter={false}>
+            <CommandInput placeholder="Search or create tag..." value={search} onValueChange={setSearch} />
+            <CommandList>
+              <CommandEmpty>{isLoading ? "Loading tags..." : "Type to create a tag."}</CommandEmpty>
+              <CommandGroup>
+                {canCreate && (
+                  <CommandItem value={`create:${newTag}`} onSelect={() => addTag(newTag)}>
+                    <Plus className="mr-2 h-4 w-4" />
+                    Create &quot;#{newTag}&quot;
+                  </CommandItem>
+                )}
+                {suggestions.map(({ tag, count }) => (
+                  <CommandItem key={tag} value={tag} onSelect={() => addTag(tag)}>
+                    <span className="flex-1">#{tag}</span>
+                    <span className="text-xs text-muted-foreground">{count}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+    </div>
+  )
+}
@@ -1,16 +1,17 @@
 "use client"
 
 import { useState, useEffect } from "react"
-import { useFilter, type TimePeriod, type AmountRange } from "@/contexts/filter-context"
+import { useFilter, type TimePeriod, type AmountRange, type FilterMode, type MatchMode } from "@/contexts/filter-context"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
-import { CalendarIcon, X, CalendarDays, PiggyBank, CircleDollarSign, ArrowDownUp } from "lucide-react"
+import { CalendarIcon, X, CalendarDays, PiggyBank, CircleDollarSign, ArrowDownUp, Wallet, Tag, Search, BookmarkPlus } from "lucide-react"
 import {
   DropdownMenu,
   DropdownMenuTrigger,
   DropdownMenuContent,
   DropdownMenuRadioGroup,
   DropdownMenuRadioItem,
+  DropdownMenuCheckboxItem,
   DropdownMenuSeparator,
   DropdownMenuLabel,
 } from "@/components/ui/dropdown-menu"
@@ -22,8 +23,14 @@ import { format } from "date-fns"
 import { cn } from "@/lib/utils"
 import type { ExpenseType } from "@/types/expense"
 import { expenseService } from "@/lib/expense-service"
+import { AMOUNT_RANGE_LABELS, TIME_PERIOD_LABELS, describeSelection } from "@/lib/filters"
 import { motion, AnimatePresence } from "framer-motion"
-import { FilterPresets } from "@/components/filter-presets"
+import { FilterPresets, PinnedFilterPresets } from "@/components/filter-presets"
+import { SaveFilterPresetDialog } from "@/components/save-filter-preset-dialog"
+import { useAccounts } from "@/hooks/use-accounts"
+import { useTags } from "@/hooks/use-tags"
+
+const TRANSACTION_TYPES: ExpenseType[] = ["expense", "income", "savings", "transfer"]
 
 interface UnifiedFilterProps {
   className?: string
@@ -33,10 +40,18 @@ interface UnifiedFilterProps {
 export function UnifiedFilter({ className, compact = false }: UnifiedFilterProps) {
   const {
     filters,
+    setSearch,
     setTimePeriod,
     setCustomDateRange,
-    setType,
-    setCategory,
+    toggleType,
+    setTypes,
+    setTypeMode,
+    toggleCategory,
+    setCategories,
+    setCategoryMode,
+    setMatchMode,
+    setAccount,
+    setTags,
     setAmountRange,
     setCustomAmountRange,
     resetFilters,
@@ -49,6 +64,16 @@ export function UnifiedFilter({ className, compact = false }: UnifiedFilterProps
     savings: [],
   })
 
+  const [isSavePresetOpen, setIsSavePresetOpen] = useState(false)
+
+  const { accounts } = useAccounts()
+  const accountName = (id: string) => accounts.find((account) => account.id === id)?.name || "Unknown account"
+
+  const { tags } = useTags()
+  const toggleTag = (tag: string) => {
+    setTags(filters.tags.includes(tag) ? filters.tags.filter((t) => t !== tag) : [...filters.tags, tag])
+  }
+
   // Fetch available categories
   useEffect(() => {
     const loadCategories = async () => {
@@ -88,33 +113,20 @@ export function UnifiedFilter({ className, compact = false }: UnifiedFilterProps
     }
   }
 
-  // Mapping for time period display names
-  const timePeriodLabels: Record<TimePeriod, string> = {
-    all: "All Time",
-    today: "Today",
-    yesterday: "Yesterday",
-    last7days: "Last 7 Days",
-    thisWeek: "This Week",
-    lastWeek: "Last Week",
-    thisMonth: "This Month",
-    lastMonth: "Last Month",
-    thisYear: "This Year",
-    custom: "Custom Range",
-  }
-
-  // Mapping for amount range display names
-  const amountRangeLabels: Record<AmountRange, string> = {
-    all: "Any Amount",
-    under500: "Under ₹500",
-    "500to1000": "₹500 - ₹1,000",
-    "1000to5000": "₹1,000 - ₹5,000",
-    over5000: "Over ₹5,000",
-    custom: "Custom Range",
-  }
+  const typeLabel = describeSelection(
+    filters.types.map((type) => type.charAt(0).toUpperCase() + type.slice(1)),
+    filters.typeMode,
+    "All Types",
+    "types",
+  )
+  const categoryLabel = describeSelection(filters.categories, filters.categoryMode, "All Categories", "categories")
 
   // Check if filter is in base state
   const isDefaultFilter = activeFilterCount === 0
 
+  // All/any only changes the result once two filters besides the search are set
+  const showMatchMode = activeFilterCount - (filters.search.trim() ? 1 : 0) > 1
+
   // Render active filter pills for the compact view
   const renderActiveFilters = () => {
     if (isDefaultFilter) return null
@@ -122,7 +134,7 @@ export function UnifiedFilter({ className, compact = false }: UnifiedFilterProps
     const activeFilters = []
 
     if (filters.timePeriod !== "all") {
-      let label = timePeriodLabels[filters.timePeriod]
+      let label = TIME_PERIOD_LABELS[filters.timePeriod]
       if (filters.timePeriod === "custom" && filters.customDateFrom && filters.customDateTo) {
         label = `${format(filters.customDateFrom, "MMM d")} - ${format(filters.customDateTo, "MMM d")}`
       }
@@ -145,7 +157,7 @@ export function UnifiedFilter({ className, compact = false }: UnifiedFilterProps
       )
     }
 
-    if (filters.type !== "all") {
+    if (filters.types.length > 0) {
       activeFilters.push(
         <motion.div
           key="type"
@@ -159,13 +171,13 @@ export function UnifiedFilter({ className, compact = false }: UnifiedFilterProps
             className="mr-1 mb-1 bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800"
           >
             <PiggyBank className="mr-1 h-3 w-3 text-green-500" />
-            {filters.type.charAt(0).toUpperCase() + filters.type.slice(1)}
+            {typeLabel}
           </Badge>
         </motion.div>,
       )
     }
 
-    if (filters.category !== "all") {
+    if (filters.categories.length > 0) {
       activeFilters.push(
         <motion.div
           key="category"
@@ -179,14 +191,54 @@ export function UnifiedFilter({ className, compact = false }: UnifiedFilterProps
             className="mr-1 mb-1 bg-purple-50 dark:bg-purple-900/20 border-purple-200 dark:border-purple-800"
           >
             <ArrowDownUp className="mr-1 h-3 w-3 text-purple-500" />
-            {filters.category}
+            {categoryLabel}
+          </Badge>
+        </motion.div>,
+      )
+    }
+
+    if (filters.account !== "all") {
+      activeFilters.push(
+        <motion.div
+          key="account"
+          initial={{ opacity: 0, scale: 0.8 }}
+          animate={{ opacity: 1, scale: 1 }}
+          exit={{ opacity: 0, scale: 0.8 }}
+          transition={{ duration: 0.2, delay: 0.1 }}
+        >
+          <Badge
+            variant="outline"
+            className="mr-1 mb-1 bg-cyan-50 dark:bg-cyan-900/20 border-cyan-200 dark:border-cyan-800"
+          >
+            <Wallet className="mr-1 h-3 w-3 text-cyan-500" />
+            {accountName(filters.account)}
+          </Badge>
+        </motion.div>,
+      )
+    }
+
+    if (filters.tags.length > 0) {
+      activeFilters.push(
+        <motion.div
+          key="tags"
+          initial={{ opacity: 0, scale: 0.8 }}
+          animate={{ opacity: 1, scale: 1 }}
+          exit={{ opacity: 0, scale: 0.8 }}
+          transition={{ duration: 0.2, delay: 0.1 }}
+        >
+          <Badge
+            variant="outline"
+            className="mr-1 mb-1 bg-pink-50 dark:bg-pink-900/20 border-pink-200 dark:border-pink-800"
+          >
+            <Tag className="mr-1 h-3 w-3 text-pink-500" />
+            {filters.tags.map((tag) => `#${tag}`).join(", ")}
           </Badge>
         </motion.div>,
       )
     }
 
     if (filters.amountRange !== "all") {
-      let label = amountRangeLabels[filters.amountRange]
+      let label = AMOUNT_RANGE_LABELS[filters.amountRange]
       if (filters.amountRange === "custom" && (filters.customAmountMin !== null || filters.customAmountMax !== null)) {
         const min = filters.customAmountMin !== null ? formatAmount(filters.customAmountMin) : "Any"
         const max = filters.customAmountMax !== null ? formatAmount(filters.customAmountMax) : "Any"
@@ -253,6 +305,20 @@ export function UnifiedFilter({ className, compact = false }: UnifiedFilterProps
       >
         {/* Filter Presets */}
         <FilterPresets />
+        <PinnedFilterPresets />
+
+        {/* Search */}
+        <div className="relative flex-1 min-w-[180px] max-w-xs">
+          <Search className="absolute left-2.5 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            type="search"
+            value={filters.search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search notes, categories, >500..."
+            aria-label="Search transactions"
+            className={cn("pl-8", compact ? "h-9" : "h-10")}
+          />
+        </div>
 
         {/* Time Period Filter */}
         <DropdownMenu>
@@ -267,7 +333,7 @@ export function UnifiedFilter({ className, compact = false }: UnifiedFilterProps
               )}
             >
               <CalendarDays className={cn("h-4 w-4", compact && "h-3.5 w-3.5")} />
-              <span>{compact ? "" : timePeriodLabels[filters.timePeriod]}</span>
+              <span>{compact ? "" : TIME_PERIOD_LABELS[filters.timePeriod]}</span>
               {compact && filters.timePeriod !== "all" && (
                 <Badge
                   variant="secondary"
@@ -289,6 +355,7 @@ export function UnifiedFilter({ className, compact = false }: UnifiedFilterProps
               <DropdownMenuRadioItem value="today">Today</DropdownMenuRadioItem>
               <DropdownMenuRadioItem value="yesterday">Yesterday</DropdownMenuRadioItem>
               <DropdownMenuRadioItem value="last7days">Last 7 Days</DropdownMenuRadioItem>
+              <DropdownMenuRadioItem value="last30days">Last 30 Days</DropdownMenuRadioItem>
               <DropdownMenuRadioItem value="thisWeek">This Week</DropdownMenuRadioItem>
               <DropdownMenuRadioItem value="lastWeek">Last Week</DropdownMenuRadioItem>
               <DropdownMenuRadioItem value="thisMonth">This Month</DropdownMenuRadioItem>
@@ -353,41 +420,57 @@ export function UnifiedFilter({ className, compact = false }: UnifiedFilterProps
               variant="outline"
               size={compact ? "sm" : "default"}
               className={cn(
-                filters.type !== "all" &&
+                filters.types.length > 0 &&
                   "border-green-400 bg-green-50 text-green-600 dark:bg-green-900/20 dark:text-green-400 dark:border-green-800",
                 "gap-1 transition-all duration-200 hover:shadow-md",
               )}
             >
               <PiggyBank className={cn("h-4 w-4", compact && "h-3.5 w-3.5")} />
-              <span>
-                {compact
-                  ? ""
-                  : filters.type === "all"
-                    ? "All Types"
-                    : filters.type.charAt(0).toUpperCase() + filters.type.slice(1)}
-              </span>
-              {compact && filters.type !== "all" && (
+              <span>{compact ? "" : typeLabel}</span>
+              {compact && filters.types.length > 0 && (
                 <Badge
                   variant="secondary"
                   className="h-5 ml-1 px-1.5 text-xs bg-green-100 text-green-600 dark:bg-green-900 dark:text-green-300"
                 >
-                  •
+                  {filters.typeMode === "exclude" ? "−" : ""}
+                  {filters.types.length}
                 </Badge>
               )}
             </Button>
           </DropdownMenuTrigger>
           <DropdownMenuContent className="animate-in fade-in-80 data-[side=bottom]:slide-in-from-top-2 data-[side=left]:slide-in-from-right-2 data-[side=right]:slide-in-from-left-2 data-[side=top]:slide-in-from-bottom-2">
             <DropdownMenuLabel>Transaction Type</DropdownMenuLabel>
-            <DropdownMenuSeparator />
             <DropdownMenuRadioGroup
-              value={filters.type}
-              onValueChange={(value) => setType(value as ExpenseType | "all")}
+              value={filters.typeMode}
+              onValueChange={(value) => setTypeMode(value as FilterMode)}
             >
-              <DropdownMenuRadioItem value="all">All Types</DropdownMenuRadioItem>
-              <DropdownMenuRadioItem value="expense">Expense</DropdownMenuRadioItem>
-              <DropdownMenuRadioItem value="income">Income</DropdownMenuRadioItem>
-              <DropdownMenuRadioItem value="savings">Savings</DropdownMenuRadioItem>
+              <DropdownMenuRadioItem value="include" onSelect={(e) => e.preventDefault()}>
+                Only selected
+              </DropdownMenuRadioItem>
+              <DropdownMenuRadioItem value="exclude" onSelect={(e) => e.preventDefault()}>
+                All except selected
+              </DropdownMenuRadioItem>
             </DropdownMenuRadioGroup>
+            <DropdownMenuSeparator />
+            {TRANSACTION_TYPES.map((type) => (
+              <DropdownMenuCheckboxItem
+                key={type}
+                checked={filters.types.includes(type)}
+                onCheckedChange={() => toggleType(type)}
+                onSelect={(e) => e.preventDefault()}
+                className="capitalize"
+              >
+                {type}
+              </DropdownMenuCheckboxItem>
+            ))}
+            {filters.types.length > 0 && (
+              <>
+                <DropdownMenuSeparator />
+                <Button variant="ghost" size="sm" className="w-full" onClick={() => setTypes([])}>
+                  Clear types
+                </Button>
+              </>
+            )}
           </DropdownMenuContent>
         </DropdownMenu>
 
@@ -398,38 +481,159 @@ export function UnifiedFilter({ className, compact = false }: UnifiedFilterProps
               variant="outline"
               size={compact ? "sm" : "default"}
               className={cn(
-                filters.category !== "all" &&
+                filters.categories.length > 0 &&
                   "border-purple-400 bg-purple-50 text-purple-600 dark:bg-purple-900/20 dark:text-purple-400 dark:border-purple-800",
                 "gap-1 transition-all duration-200 hover:shadow-md",
               )}
             >
               <ArrowDownUp className={cn("h-4 w-4", compact && "h-3.5 w-3.5")} />
-              <span>{compact ? "" : filters.category === "all" ? "All Categories" : filters.category}</span>
-              {compact && filters.category !== "all" && (
+              <span>{compact ? "" : categoryLabel}</span>
+              {compact && filters.categories.length > 0 && (
                 <Badge
                   variant="secondary"
                   className="h-5 ml-1 px-1.5 text-xs bg-purple-100 text-purple-600 dark:bg-purple-900 dark:text-purple-300"
                 >
-                  •
+                  {filters.categoryMode === "exclude" ? "−" : ""}
+                  {filters.categories.length}
                 </Badge>
               )}
             </Button>
           </DropdownMenuTrigger>
           <DropdownMenuContent className="max-h-[300px] overflow-y-auto animate-in fade-in-80 data-[side=bottom]:slide-in-from-top-2 data-[side=left]:slide-in-from-right-2 data-[side=right]:slide-in-from-left-2 data-[side=top]:slide-in-from-bottom-2">
             <DropdownMenuLabel>Category</DropdownMenuLabel>
-            <DropdownMenuSeparator />
-            <DropdownMenuRadioGroup value={filters.category} onValueChange={(value) => setCategory(value)}>
-              <DropdownMenuRadioItem value="all">All Categories</DropdownMenuRadioItem>
-              <DropdownMenuSeparator />
-              {allCategories.map((category) => (
-                <DropdownMenuRadioItem key={category} value={category}>
-                  {category}
-                </DropdownMenuRadioItem>
-              ))}
+            <DropdownMenuRadioGroup
+              value={filters.categoryMode}
+              onValueChange={(value) => setCategoryMode(value as FilterMode)}
+            >
+              <DropdownMenuRadioItem value="include" onSelect={(e) => e.preventDefault()}>
+                Only selected
+              </DropdownMenuRadioItem>
+              <DropdownMenuRadioItem value="exclude" onSelect={(e) => e.preventDefault()}>
+                All except selected
+              </DropdownMenuRadioItem>
             </DropdownMenuRadioGroup>
+            <DropdownMenuSeparator />
+            {allCategories.map((category) => (
+              <DropdownMenuCheckboxItem
+                key={category}
+                checked={filters.categories.includes(category)}
+                onCheckedChange={() => toggleCategory(category)}
+                onSelect={(e) => e.preventDefault()}
+              >
+                {category}
+              </DropdownMenuCheckboxItem>
+            ))}
+            {filters.categories.length > 0 && (
+              <>
+                <DropdownMenuSeparator />
+                <Button variant="ghost" size="sm" className="w-full" onClick={() => setCategories([])}>
+                  Clear categories
+                </Button>
+              </>
+            )}
           </DropdownMenuContent>
         </DropdownMenu>
 
+        {/* Account Filter */}
+        {accounts.length > 0 && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="outline"
+                size={compact ? "sm" : "default"}
+                className={cn(
+                  filters.account !== "all" &&
+                    "border-cyan-400 bg-cyan-50 text-cyan-600 dark:bg-cyan-900/20 dark:text-cyan-400 dark:border-cyan-800",
+                  "gap-1 transition-all duration-200 hover:shadow-md",
+                )}
+              >
+                <Wallet className={cn("h-4 w-4", compact && "h-3.5 w-3.5")} />
+                <span>{compact ? "" : filters.account === "all" ? "All Accounts" : accountName(filters.account)}</span>
+                {compact && filters.account !== "all" && (
+                  <Badge
+                    variant="secondary"
+                    className="h-5 ml-1 px-1.5 text-xs bg-cyan-100 text-cyan-600 dark:bg-cyan-900 dark:text-cyan-300"
+                  >
+                    •
+                  </Badge>
+                )}
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent className="max-h-[300px] overflow-y-auto animate-in fade-in-80 data-[side=bottom]:slide-in-from-top-2 data-[side=left]:slide-in-from-right-2 data-[side=right]:slide-in-from-left-2 data-[side=top]:slide-in-from-bottom-2">
+              <DropdownMenuLabel>Account</DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              <DropdownMenuRadioGroup value={filters.account} onValueChange={(value) => setAccount(value)}>
+                <DropdownMenuRadioItem value="all">All Accounts</DropdownMenuRadioItem>
+                <DropdownMenuSeparator />
+                {accounts.map((account) => (
+                  <DropdownMenuRadioItem key={account.id} value={account.id}>
+                    {account.name}
+                  </DropdownMenuRadioItem>
+                ))}
+              </DropdownMenuRadioGroup>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+
+        {/* Tag Filter */}
+        {tags.length > 0 && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="outline"
+                size={compact ? "sm" : "default"}
+                className={cn(
+                  filters.tags.length > 0 &&
+                    "border-pink-400 bg-pink-50 text-pink-600 dark:bg-pink-900/20 dark:text-pink-400 dark:border-pink-800",
+                  "gap-1 transition-all duration-200 hover:shadow-md",
+                )}
+              >
+                <Tag className={cn("h-4 w-4", compact && "h-3.5 w-3.5")} />
+                <span>
+                  {compact
+                    ? ""
+                    : filters.tags.length === 0
+                      ? "All Tags"
+                      : filters.tags.length === 1
+                        ? `#${filters.tags[0]}`
+                        : `${filters.tags.length} tags`}
+                </span>
+                {compact && filters.tags.length > 0 && (
+                  <Badge
+                    variant="secondary"
+                    className="h-5 ml-1 px-1.5 text-xs bg-pink-100 text-pink-600 dark:bg-pink-900 dark:text-pink-300"
+                  >
+                    {filters.tags.length}
+                  </Badge>
+                )}
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent className="max-h-[300px] overflow-y-auto animate-in fade-in-80 data-[side=bottom]:slide-in-from-top-2 data-[side=left]:slide-in-from-right-2 data-[side=right]:slide-in-from-left-2 data-[side=top]:slide-in-from-bottom-2">
+              <DropdownMenuLabel>Tags (any of)</DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              {tags.map(({ tag, count }) => (
+                <DropdownMenuCheckboxItem
+                  key={tag}
+                  checked={filters.tags.includes(tag)}
+                  onCheckedChange={() => toggleTag(tag)}
+                  onSelect={(e) => e.preventDefault()}
+                >
+                  <span className="flex-1">#{tag}</span>
+                  <span className="ml-3 text-xs text-muted-foreground">{count}</span>
+                </DropdownMenuCheckboxItem>
+              ))}
+              {filters.tags.length > 0 && (
+                <>
+                  <DropdownMenuSeparator />
+                  <Button variant="ghost" size="sm" className="w-full" onClick={() => setTags([])}>
+                    Clear tags
+                  </Button>
+                </>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+
         {/* Amount Range Filter */}
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
@@ -443,7 +647,7 @@ export function UnifiedFilter({ className, compact = false }: UnifiedFilterProps
               )}
             >
               <CircleDollarSign className={cn("h-4 w-4", compact && "h-3.5 w-3.5")} />
-              <span>{compact ? "" : amountRangeLabels[filters.amountRange]}</span>
+              <span>{compact ? "" : AMOUNT_RANGE_LABELS[filters.amountRange]}</span>
               {compact && filters.amountRange !== "all" && (
                 <Badge
                   variant="secondary"
@@ -517,6 +721,44 @@ export function UnifiedFilter({ className, compact = false }: UnifiedFilterProps
           </DropdownMenuContent>
         </DropdownMenu>
 
+        {/* Match Mode - whether a transaction has to meet every filter or just one of them */}
+        {showMatchMode && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="outline"
+                size={compact ? "sm" : "default"}
+                className="gap-1 transition-all duration-200 hover:shadow-md"
+              >
+                <span>{filters.matchMode === "all" ? "Match all" : "Match any"}</span>
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent>
+              <DropdownMenuLabel>Show transactions matching</DropdownMenuLabel>
+              <DropdownMenuRadioGroup
+                value={filters.matchMode}
+                onValueChange={(value) => setMatchMode(value as MatchMode)}
+              >
+                <DropdownMenuRadioItem value="all">All filters</DropdownMenuRadioItem>
+                <DropdownMenuRadioItem value="any">Any filter</DropdownMenuRadioItem>
+              </DropdownMenuRadioGroup>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+
+        {/* Save current filters as a preset */}
+        {!isDefaultFilter && (
+          <Button
+            variant="ghost"
+            size={compact ? "sm" : "default"}
+            onClick={() => setIsSavePresetOpen(true)}
+            className="gap-1 transition-all duration-200 hover:bg-violet-50 hover:text-violet-600 dark:hover:bg-violet-900/20"
+          >
+            <BookmarkPlus className={cn("h-4 w-4", compact && "h-3.5 w-3.5")} />
+            <span>{compact ? "" : "Save"}</span>
+          </Button>
+        )}
+
         {/* Reset Filters Button - only shown when not compact or when there are no active filters */}
         {(!compact || !isDefaultFilter) && (
           <Button
@@ -550,6 +792,8 @@ export function UnifiedFilter({ className, compact = false }: UnifiedFilterProps
 
       {/* Active Filter Pills (for compact view) */}
       <AnimatePresence>{compact && renderActiveFilters()}</AnimatePresence>
+
+      <SaveFilterPresetDialog open={isSavePresetOpen} onOpenChange={setIsSavePresetOpen} filters={filters} />
     </div>
   )
 }
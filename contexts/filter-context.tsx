@@ -1,94 +1,70 @@
 "use client"
 
-import { createContext, useContext, useState, useCallback, useMemo, type ReactNode } from "react"
-import type { Expense, ExpenseType } from "@/types/expense"
-import {
-  startOfDay,
-  endOfDay,
-  subDays,
-  startOfWeek,
-  endOfWeek,
-  subWeeks,
-  startOfMonth,
-  endOfMonth,
-  subMonths,
-  startOfYear,
-  isWithinInterval,
-} from "date-fns"
-
-// Define time period filter options
-export type TimePeriod =
-  | "all"
-  | "today"
-  | "yesterday"
-  | "last7days"
-  | "thisWeek"
-  | "lastWeek"
-  | "thisMonth"
-  | "lastMonth"
-  | "thisYear"
-  | "custom"
-
-// Define amount range filter options
-export type AmountRange = "all" | "under500" | "500to1000" | "1000to5000" | "over5000" | "custom"
-
-// Filter state interface
-export interface FilterState {
-  timePeriod: TimePeriod
-  customDateFrom: Date | null
-  customDateTo: Date | null
-  type: ExpenseType | "all"
-  category: string | "all"
-  amountRange: AmountRange
-  customAmountMin: number | null
-  customAmountMax: number | null
-}
+import { createContext, useContext, useState, useCallback, useEffect, useMemo, type ReactNode } from "react"
+import type { Category, Expense, ExpenseType } from "@/types/expense"
+import type { AmountRange, FilterMode, FilterState, MatchMode, TimePeriod } from "@/types/filter"
+import { DEFAULT_FILTERS, countActiveFilters, filterExpenses } from "@/lib/filters"
+import { getCategoryIdsByName } from "@/lib/category-refs"
+import { CATEGORY_UPDATED_EVENT } from "@/lib/category-service"
+import { parseSearchQuery, type SearchQuery } from "@/lib/search"
+import { useFilterUrlSync } from "@/hooks/use-filter-url-sync"
+
+export type { AmountRange, FilterMode, FilterState, MatchMode, TimePeriod } from "@/types/filter"
 
 // Filter context interface
 interface FilterContextType {
   filters: FilterState
+  // The search text parsed into terms and amount conditions
+  searchQuery: SearchQuery
+  setSearch: (search: string) => void
   setTimePeriod: (period: TimePeriod) => void
   setCustomDateRange: (from: Date | null, to: Date | null) => void
-  setType: (type: ExpenseType | "all") => void
-  setCategory: (category: string | "all") => void
+  setTypes: (types: ExpenseType[]) => void
+  toggleType: (type: ExpenseType) => void
+  setTypeMode: (mode: FilterMode) => void
+  setCategories: (categories: string[]) => void
+  toggleCategory: (category: string) => void
+  setCategoryMode: (mode: FilterMode) => void
+  setAccount: (accountId: string | "all") => void
+  setTags: (tags: string[]) => void
   setAmountRange: (range: AmountRange) => void
   setCustomAmountRange: (min: number | null, max: number | null) => void
+  setMatchMode: (mode: MatchMode) => void
   resetFilters: () => void
+  // Swap in a whole filter state at once, e.g. from a preset
+  replaceFilters: (filters: FilterState) => void
   applyFilters: (expenses: Expense[]) => Expense[]
   activeFilterCount: number
 }
 
-// Default filter state
-const defaultFilters: FilterState = {
-  timePeriod: "all",
-  customDateFrom: null,
-  customDateTo: null,
-  type: "all",
-  category: "all",
-  amountRange: "all",
-  customAmountMin: null,
-  customAmountMax: null,
-}
+// Add the value when missing, remove it when present
+const toggleValue = <T,>(values: T[], value: T): T[] =>
+  values.includes(value) ? values.filter((v) => v !== value) : [...values, value]
 
 // Create the context
 const FilterContext = createContext<FilterContextType | undefined>(undefined)
 
+interface FilterProviderProps {
+  children: ReactNode
+  // Mirror the filters in the query string; only one provider on a page should do this
+  syncWithUrl?: boolean
+}
+
 // Provider component
-export function FilterProvider({ children }: { children: ReactNode }) {
+export function FilterProvider({ children, syncWithUrl = false }: FilterProviderProps) {
   // Initialize state with default filters
-  const [filters, setFilters] = useState<FilterState>(defaultFilters)
+  const [filters, setFilters] = useState<FilterState>(DEFAULT_FILTERS)
 
   // Calculate the number of active filters
-  const activeFilterCount = useMemo(() => {
-    let count = 0
-    if (filters.timePeriod !== "all") count++
-    if (filters.type !== "all") count++
-    if (filters.category !== "all") count++
-    if (filters.amountRange !== "all") count++
-    return count
-  }, [filters])
+  const activeFilterCount = useMemo(() => countActiveFilters(filters), [filters])
+
+  const searchQuery = useMemo(() => parseSearchQuery(filters.search), [filters.search])
 
   // Filter setters
+  const setSearch = useCallback((search: string) => {
+    setFilters((prev) => ({ ...prev, search }))
+  }, [])
+
   const setTimePeriod = useCallback((period: TimePeriod) => {
     setFilters((prev) => ({
       ...prev,
@@ -108,12 +84,36 @@ export function FilterProvider({ children }: { children: ReactNode }) {
     }))
   }, [])
 
-  const setType = useCallback((type: ExpenseType | "all") => {
-    setFilters((prev) => ({ ...prev, type }))
+  const setTypes = useCallback((types: ExpenseType[]) => {
+    setFilters((prev) => ({ ...prev, types }))
+  }, [])
+
+  const toggleType = useCallback((type: ExpenseType) => {
+    setFilters((prev) => ({ ...prev, types: toggleValue(prev.types, type) }))
+  }, [])
+
+  const setTypeMode = useCallback((typeMode: FilterMode) => {
+    setFilters((prev) => ({ ...prev, typeMode }))
+  }, [])
+
+  const setCategories = useCallback((categories: string[]) => {
+    setFilters((prev) => ({ ...prev, categories }))
+  }, [])
+
+  const toggleCategory = useCallback((category: string) => {
+    setFilters((prev) => ({ ...prev, categories: toggleValue(prev.categories, category) }))
   }, [])
 
-  const setCategory = useCallback((category: string | "all") => {
-    setFilters((prev) => ({ ...prev, category }))
+  const setCategoryMode = useCallback((categoryMode: FilterMode) => {
+    setFilters((prev) => ({ ...prev, categoryMode }))
+  }, [])
+
+  const setAccount = useCallback((account: string | "all") => {
+    setFilters((prev) => ({ ...prev, account }))
+  }, [])
+
+  const setTags = useCallback((tags: string[]) => {
+    setFilters((prev) => ({ ...prev, tags }))
   }, [])
 
   const setAmountRange = useCallback((range: AmountRange) => {
@@ -135,148 +135,88 @@ export function FilterProvider({ children }: { children: ReactNode }) {
     }))
   }, [])
 
+  const setMatchMode = useCallback((matchMode: MatchMode) => {
+    setFilters((prev) => ({ ...prev, matchMode }))
+  }, [])
+
   const resetFilters = useCallback(() => {
-    setFilters(defaultFilters)
+    setFilters(DEFAULT_FILTERS)
+  }, [])
+
+  const replaceFilters = useCallback((next: FilterState) => {
+    setFilters(next)
+  }, [])
+
+  useFilterUrlSync(syncWithUrl, filters, replaceFilters)
+
+  // Categories are selected by name, so a renamed or merged category takes its new name along.
+  // The old name stays selected while a category of another type still has it.
+  useEffect(() => {
+    const handleCategoryUpdate = (event: Event) => {
+      const { category, oldName } = (event as CustomEvent<{ category: Category; oldName?: string }>).detail
+      if (!oldName || !category.name) return
+
+      setFilters((prev) => {
+        if (!prev.categories.includes(oldName)) return prev
+        const stillUsed = getCategoryIdsByName([oldName]).length > 0
+        const kept = stillUsed ? prev.categories : prev.categories.filter((name) => name !== oldName)
+        return { ...prev, categories: Array.from(new Set([...kept, category.name])) }
+      })
+    }
+
+    window.addEventListener(CATEGORY_UPDATED_EVENT, handleCategoryUpdate)
+    return () => window.removeEventListener(CATEGORY_UPDATED_EVENT, handleCategoryUpdate)
   }, [])
 
   // Main filter function to apply all filters to an expense array
   const applyFilters = useCallback(
-    (expenses: Expense[]): Expense[] => {
-      if (!expenses) return []
-
-      return expenses.filter((expense) => {
-        // Date/time period filter
-        const expenseDate = new Date(expense.date)
-        let passesTimeFilter = true
-
-        if (filters.timePeriod !== "all") {
-          const today = new Date()
-          let fromDate: Date
-          let toDate: Date = endOfDay(today)
-
-          switch (filters.timePeriod) {
-            case "today":
-              fromDate = startOfDay(today)
-              passesTimeFilter = isWithinInterval(expenseDate, { start: fromDate, end: toDate })
-              break
-
-            case "yesterday":
-              const yesterday = subDays(today, 1)
-              fromDate = startOfDay(yesterday)
-              toDate = endOfDay(yesterday)
-              passesTimeFilter = isWithinInterval(expenseDate, { start: fromDate, end: toDate })
-              break
-
-            case "last7days":
-              fromDate = startOfDay(subDays(today, 6))
-              passesTimeFilter = isWithinInterval(expenseDate, { start: fromDate, end: toDate })
-              break
-
-            case "thisWeek":
-              fromDate = startOfWeek(today, { weekStartsOn: 1 }) // Week starts on Monday
-              toDate = endOfWeek(today, { weekStartsOn: 1 })
-              passesTimeFilter = isWithinInterval(expenseDate, { start: fromDate, end: toDate })
-              break
-
-            case "lastWeek":
-              const lastWeek = subWeeks(today, 1)
-              fromDate = startOfWeek(lastWeek, { weekStartsOn: 1 })
-              toDate = endOfWeek(lastWeek, { weekStartsOn: 1 })
-              passesTimeFilter = isWithinInterval(expenseDate, { start: fromDate, end: toDate })
-              break
-
-            case "thisMonth":
-              fromDate = startOfMonth(today)
-              toDate = endOfMonth(today)
-              passesTimeFilter = isWithinInterval(expenseDate, { start: fromDate, end: toDate })
-              break
-
-            case "lastMonth":
-              const lastMonth = subMonths(today, 1)
-              fromDate = startOfMonth(lastMonth)
-              toDate = endOfMonth(lastMonth)
-              passesTimeFilter = isWithinInterval(expenseDate, { start: fromDate, end: toDate })
-              break
-
-            case "thisYear":
-              fromDate = startOfYear(today)
-              passesTimeFilter = isWithinInterval(expenseDate, { start: fromDate, end: toDate })
-              break
-
-            case "custom":
-              if (filters.customDateFrom && filters.customDateTo) {
-                fromDate = startOfDay(filters.customDateFrom)
-                toDate = endOfDay(filters.customDateTo)
-                passesTimeFilter = isWithinInterval(expenseDate, { start: fromDate, end: toDate })
-              }
-              break
-          }
-        }
-
-        // Type filter
-        const passesTypeFilter = filters.type === "all" || expense.type === filters.type
-
-        // Category filter
-        const passesCategoryFilter = filters.category === "all" || expense.category === filters.category
-
-        // Amount range filter
-        let passesAmountFilter = true
-
-        if (filters.amountRange !== "all") {
-          switch (filters.amountRange) {
-            case "under500":
-              passesAmountFilter = expense.amount < 500
-              break
-
-            case "500to1000":
-              passesAmountFilter = expense.amount >= 500 && expense.amount <= 1000
-              break
-
-            case "1000to5000":
-              passesAmountFilter = expense.amount > 1000 && expense.amount <= 5000
-              break
-
-            case "over5000":
-              passesAmountFilter = expense.amount > 5000
-              break
-
-            case "custom":
-              const min = filters.customAmountMin ?? Number.MIN_SAFE_INTEGER
-              const max = filters.customAmountMax ?? Number.MAX_SAFE_INTEGER
-              passesAmountFilter = expense.amount >= min && expense.amount <= max
-              break
-          }
-        }
-
-        return passesTimeFilter && passesTypeFilter && passesCategoryFilter && passesAmountFilter
-      })
-    },
-    [filters],
+    (expenses: Expense[]): Expense[] => filterExpenses(expenses, filters, searchQuery),
+    [filters, searchQuery],
   )
 
   // Create memoized context value to prevent unnecessary renders
   const contextValue = useMemo(
     () => ({
       filters,
+      searchQuery,
+      setSearch,
       setTimePeriod,
       setCustomDateRange,
-      setType,
-      setCategory,
+      setTypes,
+      toggleType,
+      setTypeMode,
+      setCategories,
+      toggleCategory,
+      setCategoryMode,
+      setAccount,
+      setTags,
       setAmountRange,
       setCustomAmountRange,
+      setMatchMode,
       resetFilters,
+      replaceFilters,
       applyFilters,
       activeFilterCount,
     }),
     [
       filters,
+      searchQuery,
+      setSearch,
       setTimePeriod,
       setCustomDateRange,
-      setType,
-      setCategory,
+      setTypes,
+      toggleType,
+      setTypeMode,
+      setCategories,
+      toggleCategory,
+      setCategoryMode,
+      setAccount,
+      setTags,
       setAmountRange,
       setCustomAmountRange,
+      setMatchMode,
       resetFilters,
+      replaceFilters,
       applyFilters,
       activeFilterCount,
     ],
@@ -0,0 +1,36 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { accountService, ACCOUNTS_UPDATED_EVENT } from "@/lib/account-service"
+import type { Account } from "@/types/account"
+
+// Accounts list, refreshed whenever an account is created, edited or removed
+export function useAccounts() {
+  const [accounts, setAccounts] = useState<Account[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    let isMounted = true
+
+    const loadAccounts = async () => {
+      try {
+        const data = await accountService.getAccounts()
+        if (isMounted) setAccounts(data)
+      } catch (error) {
+        console.error("Error loading accounts:", error)
+      } finally {
+        if (isMounted) setIsLoading(false)
+      }
+    }
+
+    loadAccounts()
+
+    window.addEventListener(ACCOUNTS_UPDATED_EVENT, loadAccounts)
+    return () => {
+      isMounted = false
+      window.removeEventListener(ACCOUNTS_UPDATED_EVENT, loadAccounts)
+    }
+  }, [])
+
+  return { accounts, isLoading }
+}
@@ -0,0 +1,43 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { attachmentService, ATTACHMENTS_UPDATED_EVENT } from "@/lib/attachment-service"
+import type { Attachment } from "@/types/attachment"
+
+// Attachments of one transaction, refreshed whenever one is added or removed
+export function useAttachments(expenseId?: string) {
+  const [attachments, setAttachments] = useState<Attachment[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    if (!expenseId) {
+      setAttachments([])
+      setIsLoading(false)
+      return
+    }
+
+    let isMounted = true
+
+    const loadAttachments = async () => {
+      try {
+        const data = await attachmentService.getAttachments(expenseId)
+        if (isMounted) setAttachments(data)
+      } catch (error) {
+        console.error("Error loading attachments:", error)
+      } finally {
+        if (isMounted) setIsLoading(false)
+      }
+    }
+
+    setIsLoading(true)
+    loadAttachments()
+
+    window.addEventListener(ATTACHMENTS_UPDATED_EVENT, loadAttachments)
+    return () => {
+      isMounted = false
+      window.removeEventListener(ATTACHMENTS_UPDATED_EVENT, loadAttachments)
+    }
+  }, [expenseId])
+
+  return { attachments, isLoading }
+}
@@ -0,0 +1,50 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { suggestionService } from "@/lib/suggestion-service"
+import { EXPENSES_UPDATED_EVENT } from "@/lib/expense-service"
+import { SUGGESTION_FEEDBACK_EVENT, recordSuggestionFeedback } from "@/lib/suggestion-feedback"
+import { suggestCategories, type CategorySuggestion, type SuggestionModel } from "@/lib/category-suggestions"
+import type { Expense } from "@/types/expense"
+
+// Category suggestions learned from past transactions, retrained as transactions and feedback come in
+export function useCategorySuggestions() {
+  const [model, setModel] = useState<SuggestionModel | null>(null)
+
+  useEffect(() => {
+    let isMounted = true
+
+    const loadModel = async () => {
+      try {
+        const data = await suggestionService.getModel()
+        if (isMounted) setModel(data)
+      } catch (error) {
+        console.error("Error loading category suggestions:", error)
+      }
+    }
+
+    const retrain = () => {
+      suggestionService.clearCache()
+      loadModel()
+    }
+
+    loadModel()
+
+    window.addEventListener(EXPENSES_UPDATED_EVENT, retrain)
+    window.addEventListener(SUGGESTION_FEEDBACK_EVENT, retrain)
+    return () => {
+      isMounted = false
+      window.removeEventListener(EXPENSES_UPDATED_EVENT, retrain)
+      window.removeEventListener(SUGGESTION_FEEDBACK_EVENT, retrain)
+    }
+  }, [])
+
+  // Best guesses for a transaction being entered, limited to the categories that still exist
+  const suggest = useCallback(
+    (expense: Pick<Expense, "type" | "notes" | "amount" | "date">, allowed?: string[]): CategorySuggestion[] =>
+      model ? suggestCategories(model, expense, { allowed }) : [],
+    [model],
+  )
+
+  return { suggest, learn: recordSuggestionFeedback }
+}
@@ -0,0 +1,33 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { currencyService, CURRENCY_UPDATED_EVENT } from "@/lib/currency-service"
+import type { CurrencyCode, CurrencySettings } from "@/types/currency"
+import type { Expense } from "@/types/expense"
+
+// Base currency and exchange rates, kept in sync with changes made elsewhere in the app
+export function useCurrency() {
+  const [settings, setSettings] = useState<CurrencySettings>(() => currencyService.getSettings())
+
+  useEffect(() => {
+    const handleChange = () => setSettings(currencyService.getSettings())
+
+    // Settings are read from localStorage, which is unavailable during server rendering
+    handleChange()
+
+    window.addEventListener(CURRENCY_UPDATED_EVENT, handleChange)
+    return () => window.removeEventListener(CURRENCY_UPDATED_EVENT, handleChange)
+  }, [])
+
+  const formatCurrency = useCallback(
+    (amount: number, currency?: CurrencyCode) => currencyService.formatCurrency(amount, currency || settings.baseCurrency),
+    [settings.baseCurrency],
+  )
+
+  const toBase = useCallback(
+    <T extends Expense>(expenses: T[]) => currencyService.convertExpensesToBase(expenses, settings),
+    [settings],
+  )
+
+  return { baseCurrency: settings.baseCurrency, settings, formatCurrency, toBase }
+}
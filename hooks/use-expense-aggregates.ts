@@ -0,0 +1,47 @@
+"use client"
+
+import { useState, useEffect, useMemo } from "react"
+import { expenseService, EXPENSES_UPDATED_EVENT } from "@/lib/expense-service"
+import { currencyService } from "@/lib/currency-service"
+import { summarizeAggregates } from "@/lib/expense-query"
+import { useCurrency } from "@/hooks/use-currency"
+import type { AggregateRow } from "@/types/query"
+
+// Totals per type, category and month between two ISO timestamps, in the base currency,
+// refreshed whenever transactions change
+export function useExpenseAggregates(from?: string, to?: string) {
+  const [rows, setRows] = useState<AggregateRow[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const { settings } = useCurrency()
+
+  useEffect(() => {
+    let isMounted = true
+
+    const loadAggregates = async () => {
+      try {
+        const data = await expenseService.getAggregates({ from, to })
+        if (isMounted) setRows(data)
+      } catch (error) {
+        console.error("Error loading totals:", error)
+      } finally {
+        if (isMounted) setIsLoading(false)
+      }
+    }
+
+    loadAggregates()
+
+    window.addEventListener(EXPENSES_UPDATED_EVENT, loadAggregates)
+    return () => {
+      isMounted = false
+      window.removeEventListener(EXPENSES_UPDATED_EVENT, loadAggregates)
+    }
+  }, [from, to])
+
+  const aggregates = useMemo(
+    () =>
+      summarizeAggregates(rows, (amount, currency) => currencyService.toBaseAmount({ amount, currency }, settings)),
+    [rows, settings],
+  )
+
+  return { aggregates, isLoading }
+}
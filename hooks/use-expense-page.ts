@@ -0,0 +1,94 @@
+"use client"
+
+import { useState, useEffect, useRef, useCallback } from "react"
+import { expenseService, EXPENSES_UPDATED_EVENT } from "@/lib/expense-service"
+import type { Expense } from "@/types/expense"
+import type { FilterState } from "@/types/filter"
+import type { ExpenseSort } from "@/types/query"
+
+// Wait for typing in the search box to pause before querying
+const PAGE_DEBOUNCE_MS = 300
+
+interface UseExpensePageOptions {
+  filters: FilterState
+  sort: ExpenseSort
+  // 1-based
+  page: number
+  pageSize: number
+}
+
+// One page of filtered, sorted transactions loaded from the database. Cursors of pages already
+// seen are kept so stepping through pages stays cheap; other pages are reached by offset.
+export function useExpensePage({ filters, sort, page, pageSize }: UseExpensePageOptions) {
+  const [items, setItems] = useState<Expense[]>([])
+  const [total, setTotal] = useState(0)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [refreshCount, setRefreshCount] = useState(0)
+
+  // Cursor that starts each page, for the current filters and sort
+  const cursors = useRef(new Map<number, string>())
+  // Read through refs so a new object with the same contents doesn't refetch; queryKey tracks changes
+  const filtersRef = useRef(filters)
+  filtersRef.current = filters
+  const sortRef = useRef(sort)
+  sortRef.current = sort
+
+  const queryKey = JSON.stringify({ filters, sort, pageSize })
+  const lastQueryKey = useRef(queryKey)
+
+  useEffect(() => {
+    if (lastQueryKey.current !== queryKey) {
+      cursors.current.clear()
+      lastQueryKey.current = queryKey
+    }
+
+    let isMounted = true
+
+    const loadPage = async () => {
+      setIsLoading(true)
+      try {
+        const cursor = cursors.current.get(page)
+        const result = await expenseService.getExpensePage({
+          filters: filtersRef.current,
+          sort: sortRef.current,
+          limit: pageSize,
+          ...(cursor ? { cursor } : { offset: (page - 1) * pageSize }),
+        })
+        if (!isMounted) return
+
+        if (result.nextCursor) cursors.current.set(page + 1, result.nextCursor)
+        setItems(result.items)
+        setTotal(result.total)
+        setError(null)
+      } catch (error: any) {
+        console.error("Error loading transactions page:", error)
+        if (isMounted) setError(error?.message || "Failed to load transactions")
+      } finally {
+        if (isMounted) setIsLoading(false)
+      }
+    }
+
+    const timeout = setTimeout(loadPage, PAGE_DEBOUNCE_MS)
+
+    // Edits can move rows between pages, so the cursors are rebuilt from the first page on
+    const handleUpdate = () => {
+      cursors.current.clear()
+      loadPage()
+    }
+
+    window.addEventListener(EXPENSES_UPDATED_EVENT, handleUpdate)
+    return () => {
+      isMounted = false
+      clearTimeout(timeout)
+      window.removeEventListener(EXPENSES_UPDATED_EVENT, handleUpdate)
+    }
+  }, [queryKey, page, pageSize, refreshCount])
+
+  const refresh = useCallback(() => {
+    cursors.current.clear()
+    setRefreshCount((count) => count + 1)
+  }, [])
+
+  return { items, total, totalPages: Math.max(1, Math.ceil(total / pageSize)), isLoading, error, refresh }
+}
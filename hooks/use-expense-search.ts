@@ -0,0 +1,50 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { expenseService, EXPENSES_UPDATED_EVENT } from "@/lib/expense-service"
+import { isEmptySearch, type SearchQuery } from "@/lib/search"
+import type { Expense } from "@/types/expense"
+
+// Wait for typing to pause before querying the database
+const SEARCH_DEBOUNCE_MS = 300
+
+// Database matches for a search, refreshed whenever transactions change
+export function useExpenseSearch(query: SearchQuery) {
+  const [results, setResults] = useState<Expense[]>([])
+  const [isSearching, setIsSearching] = useState(false)
+  const queryKey = JSON.stringify(query)
+
+  useEffect(() => {
+    const currentQuery: SearchQuery = JSON.parse(queryKey)
+    if (isEmptySearch(currentQuery)) {
+      setResults([])
+      setIsSearching(false)
+      return
+    }
+
+    let isMounted = true
+
+    const runSearch = async () => {
+      setIsSearching(true)
+      try {
+        const data = await expenseService.searchExpenses(currentQuery)
+        if (isMounted) setResults(data)
+      } catch (error) {
+        console.error("Error searching transactions:", error)
+      } finally {
+        if (isMounted) setIsSearching(false)
+      }
+    }
+
+    const timeout = setTimeout(runSearch, SEARCH_DEBOUNCE_MS)
+
+    window.addEventListener(EXPENSES_UPDATED_EVENT, runSearch)
+    return () => {
+      isMounted = false
+      clearTimeout(timeout)
+      window.removeEventListener(EXPENSES_UPDATED_EVENT, runSearch)
+    }
+  }, [queryKey])
+
+  return { results, isSearching }
+}
@@ -0,0 +1,36 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { filterPresetService, FILTER_PRESETS_UPDATED_EVENT } from "@/lib/filter-preset-service"
+import type { FilterPreset } from "@/types/filter"
+
+// The user's saved filter presets in display order, refreshed whenever one is saved, edited or removed
+export function useFilterPresets() {
+  const [presets, setPresets] = useState<FilterPreset[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    let isMounted = true
+
+    const loadPresets = async () => {
+      try {
+        const data = await filterPresetService.getPresets()
+        if (isMounted) setPresets(data)
+      } catch (error) {
+        console.error("Error loading filter presets:", error)
+      } finally {
+        if (isMounted) setIsLoading(false)
+      }
+    }
+
+    loadPresets()
+
+    window.addEventListener(FILTER_PRESETS_UPDATED_EVENT, loadPresets)
+    return () => {
+      isMounted = false
+      window.removeEventListener(FILTER_PRESETS_UPDATED_EVENT, loadPresets)
+    }
+  }, [])
+
+  return { presets, isLoading }
+}
@@ -0,0 +1,57 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { readFilterParams, writeFilterParams } from "@/lib/filter-params"
+import { QUERY_PARAMS_CHANGED_EVENT } from "@/hooks/use-query-params"
+import type { FilterState } from "@/types/filter"
+
+// Keep filters and the query string in step: restore them from the URL on load and on
+// back/forward, and record each change as a history entry so it can be bookmarked or shared
+export function useFilterUrlSync(
+  enabled: boolean,
+  filters: FilterState,
+  replaceFilters: (filters: FilterState) => void,
+) {
+  const [isRestored, setIsRestored] = useState(false)
+
+  useEffect(() => {
+    if (!enabled) return
+
+    const restoreFromUrl = () => replaceFilters(readFilterParams(new URLSearchParams(window.location.search)))
+
+    restoreFromUrl()
+    setIsRestored(true)
+
+    window.addEventListener("popstate", restoreFromUrl)
+    return () => window.removeEventListener("popstate", restoreFromUrl)
+  }, [enabled, replaceFilters])
+
+  useEffect(() => {
+    // Wait until the URL has been read, or the defaults would overwrite it
+    if (!enabled || !isRestored) return
+
+    const url = new URL(window.location.href)
+    const next = writeFilterParams(filters, url.searchParams)
+    if (next.toString() === url.searchParams.toString()) return
+
+    // New filters start the list again from its first page, in the same history entry
+    next.delete("page")
+
+    // Typing in the search box replaces the entry instead of adding one per keystroke
+    const withoutSearch = (params: URLSearchParams) => {
+      const copy = new URLSearchParams(params)
+      copy.delete("q")
+      copy.delete("page")
+      return copy.toString()
+    }
+    const onlySearchChanged = withoutSearch(next) === withoutSearch(url.searchParams)
+
+    url.search = next.toString()
+    if (onlySearchChanged) {
+      window.history.replaceState(window.history.state, "", url.toString())
+    } else {
+      window.history.pushState(window.history.state, "", url.toString())
+    }
+    window.dispatchEvent(new CustomEvent(QUERY_PARAMS_CHANGED_EVENT))
+  }, [enabled, isRestored, filters])
+}
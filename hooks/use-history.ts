@@ -0,0 +1,29 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { historyService } from "@/lib/history-service"
+import { HISTORY_UPDATED_EVENT } from "@/lib/history"
+import type { HistoryEntry } from "@/types/history"
+
+// Recent changes that can be undone or redone, kept in step with other tabs
+export function useHistory() {
+  const [entries, setEntries] = useState<HistoryEntry[]>([])
+
+  useEffect(() => {
+    const loadEntries = () => setEntries(historyService.getEntries())
+
+    loadEntries()
+
+    window.addEventListener(HISTORY_UPDATED_EVENT, loadEntries)
+    window.addEventListener("storage", loadEntries)
+    return () => {
+      window.removeEventListener(HISTORY_UPDATED_EVENT, loadEntries)
+      window.removeEventListener("storage", loadEntries)
+    }
+  }, [])
+
+  const undo = useCallback((id: string) => historyService.undo(id), [])
+  const redo = useCallback((id: string) => historyService.redo(id), [])
+
+  return { entries, undo, redo }
+}
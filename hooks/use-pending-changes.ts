@@ -0,0 +1,59 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { expenseService, EXPENSES_UPDATED_EVENT } from "@/lib/expense-service"
+import { MUTATION_QUEUE_EVENT } from "@/lib/local-store"
+
+// Track queued offline changes and replay them when connectivity returns
+export function usePendingChanges() {
+  const [pendingCount, setPendingCount] = useState(0)
+  const [isOnline, setIsOnline] = useState(true)
+  const [isReplaying, setIsReplaying] = useState(false)
+
+  const replay = useCallback(async () => {
+    setIsReplaying(true)
+    try {
+      const result = await expenseService.replayPendingMutations()
+      if (result.replayed > 0 || result.failed > 0) {
+        window.dispatchEvent(new CustomEvent(EXPENSES_UPDATED_EVENT))
+      }
+      setPendingCount(result.remaining)
+    } catch (error) {
+      console.error("Error replaying pending changes:", error)
+    } finally {
+      setIsReplaying(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    setIsOnline(navigator.onLine)
+    expenseService.getPendingMutationCount().then(setPendingCount)
+
+    const handleQueueChange = (event: Event) => {
+      const count = (event as CustomEvent<{ count: number }>).detail?.count
+      if (typeof count === "number") setPendingCount(count)
+    }
+
+    const handleOnline = () => {
+      setIsOnline(true)
+      replay()
+    }
+
+    const handleOffline = () => setIsOnline(false)
+
+    window.addEventListener(MUTATION_QUEUE_EVENT, handleQueueChange)
+    window.addEventListener("online", handleOnline)
+    window.addEventListener("offline", handleOffline)
+
+    // Flush anything left over from a previous session
+    if (navigator.onLine) replay()
+
+    return () => {
+      window.removeEventListener(MUTATION_QUEUE_EVENT, handleQueueChange)
+      window.removeEventListener("online", handleOnline)
+      window.removeEventListener("offline", handleOffline)
+    }
+  }, [replay])
+
+  return { pendingCount, isOnline, isReplaying, replay }
+}
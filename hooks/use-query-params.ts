@@ -0,0 +1,62 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+
+// Fired after the query string was changed in place rather than by back/forward, e.g. when new
+// filters send the list back to its first page
+export const QUERY_PARAMS_CHANGED_EVENT = "query-params-changed"
+
+// Values that belong together in the query string, as state. A change writes all of them in one
+// history entry, so back/forward never stops halfway through it; back/forward restore the values,
+// and defaults are kept out of the URL. Pass the defaults as a constant.
+export function useQueryParams<K extends string>(
+  defaults: Record<K, string>,
+): [Record<K, string>, (changes: Partial<Record<K, string>>, options?: { replace?: boolean }) => void] {
+  const [values, setValues] = useState(defaults)
+
+  useEffect(() => {
+    const readFromUrl = () => {
+      const params = new URLSearchParams(window.location.search)
+      const keys = Object.keys(defaults) as K[]
+      setValues(
+        Object.fromEntries(keys.map((key) => [key, params.get(key) || defaults[key]])) as Record<K, string>,
+      )
+    }
+
+    readFromUrl()
+
+    window.addEventListener("popstate", readFromUrl)
+    window.addEventListener(QUERY_PARAMS_CHANGED_EVENT, readFromUrl)
+    return () => {
+      window.removeEventListener("popstate", readFromUrl)
+      window.removeEventListener(QUERY_PARAMS_CHANGED_EVENT, readFromUrl)
+    }
+  }, [defaults])
+
+  const updateValues = useCallback(
+    (changes: Partial<Record<K, string>>, options: { replace?: boolean } = {}) => {
+      setValues((prev) => ({ ...prev, ...changes }))
+
+      const url = new URL(window.location.href)
+      const before = url.searchParams.toString()
+      ;(Object.keys(changes) as K[]).forEach((key) => {
+        const value = changes[key]
+        if (value === undefined || value === defaults[key]) {
+          url.searchParams.delete(key)
+        } else {
+          url.searchParams.set(key, value)
+        }
+      })
+      if (url.searchParams.toString() === before) return
+
+      if (options.replace) {
+        window.history.replaceState(window.history.state, "", url.toString())
+      } else {
+        window.history.pushState(window.history.state, "", url.toString())
+      }
+    },
+    [defaults],
+  )
+
+  return [values, updateValues]
+}
@@ -0,0 +1,55 @@
+"use client"
+
+import { useState, useEffect, useRef, useCallback } from "react"
+
+// Row selection for a table. Shift-clicking selects or clears every row between the
+// last clicked row and this one, the way file managers do.
+export function useRowSelection(ids: string[]) {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const anchorId = useRef<string | null>(null)
+
+  // Rows that leave the table (another page, a new filter, a delete) stop being selected
+  const idsKey = ids.join(",")
+  useEffect(() => {
+    const visible = new Set(idsKey ? idsKey.split(",") : [])
+    setSelectedIds((prev) => {
+      const next = new Set(Array.from(prev).filter((id) => visible.has(id)))
+      return next.size === prev.size ? prev : next
+    })
+  }, [idsKey])
+
+  const toggle = useCallback(
+    (id: string, extendRange = false) => {
+      setSelectedIds((prev) => {
+        const next = new Set(prev)
+        const select = !prev.has(id)
+        const from = anchorId.current ? ids.indexOf(anchorId.current) : -1
+        const to = ids.indexOf(id)
+
+        const range =
+          extendRange && from !== -1 && to !== -1
+            ? ids.slice(Math.min(from, to), Math.max(from, to) + 1)
+            : [id]
+        range.forEach((rowId) => (select ? next.add(rowId) : next.delete(rowId)))
+
+        return next
+      })
+      anchorId.current = id
+    },
+    [ids],
+  )
+
+  const toggleAll = useCallback(() => {
+    setSelectedIds((prev) => (ids.length > 0 && ids.every((id) => prev.has(id)) ? new Set() : new Set(ids)))
+  }, [ids])
+
+  const clear = useCallback(() => {
+    setSelectedIds(new Set())
+    anchorId.current = null
+  }, [])
+
+  const allSelected = ids.length > 0 && ids.every((id) => selectedIds.has(id))
+  const someSelected = !allSelected && ids.some((id) => selectedIds.has(id))
+
+  return { selectedIds, toggle, toggleAll, clear, allSelected, someSelected }
+}
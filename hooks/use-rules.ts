@@ -0,0 +1,36 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { ruleService, RULES_UPDATED_EVENT } from "@/lib/rule-service"
+import type { CategorizationRule } from "@/types/rule"
+
+// The user's categorisation rules in the order they run, refreshed whenever one changes
+export function useRules() {
+  const [rules, setRules] = useState<CategorizationRule[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    let isMounted = true
+
+    const loadRules = async () => {
+      try {
+        const data = await ruleService.getRules()
+        if (isMounted) setRules(data)
+      } catch (error) {
+        console.error("Error loading rules:", error)
+      } finally {
+        if (isMounted) setIsLoading(false)
+      }
+    }
+
+    loadRules()
+
+    window.addEventListener(RULES_UPDATED_EVENT, loadRules)
+    return () => {
+      isMounted = false
+      window.removeEventListener(RULES_UPDATED_EVENT, loadRules)
+    }
+  }, [])
+
+  return { rules, isLoading }
+}
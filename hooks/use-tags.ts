@@ -0,0 +1,36 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { expenseService, EXPENSES_UPDATED_EVENT } from "@/lib/expense-service"
+import { getTagUsage, type TagUsage } from "@/lib/tags"
+
+// Tags used on any transaction, most used first, refreshed whenever transactions change
+export function useTags() {
+  const [tags, setTags] = useState<TagUsage[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    let isMounted = true
+
+    const loadTags = async () => {
+      try {
+        const expenses = await expenseService.getExpenses()
+        if (isMounted) setTags(getTagUsage(expenses))
+      } catch (error) {
+        console.error("Error loading tags:", error)
+      } finally {
+        if (isMounted) setIsLoading(false)
+      }
+    }
+
+    loadTags()
+
+    window.addEventListener(EXPENSES_UPDATED_EVENT, loadTags)
+    return () => {
+      isMounted = false
+      window.removeEventListener(EXPENSES_UPDATED_EVENT, loadTags)
+    }
+  }, [])
+
+  return { tags, isLoading }
+}
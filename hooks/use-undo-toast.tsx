@@ -0,0 +1,42 @@
+"use client"
+
+import { useCallback } from "react"
+import { ToastAction } from "@/components/ui/toast"
+import { historyService } from "@/lib/history-service"
+import { useToast } from "@/hooks/use-toast"
+
+// Toast shown right after a destructive change, offering to undo the change just recorded
+export function useUndoToast() {
+  const { toast } = useToast()
+
+  return useCallback(
+    (title: string, description?: string, onUndone?: () => void) => {
+      const entry = historyService.getLatestEntry()
+
+      toast({
+        title,
+        description,
+        action: entry ? (
+          <ToastAction
+            altText="Undo"
+            onClick={async () => {
+              try {
+                await historyService.undo(entry.id)
+                onUndone?.()
+              } catch (error: any) {
+                toast({
+                  title: "Could not undo",
+                  description: error?.message || "Something went wrong.",
+                  variant: "destructive",
+                })
+              }
+            }}
+          >
+            Undo
+          </ToastAction>
+        ) : undefined,
+      })
+    },
+    [toast],
+  )
+}
@@ -0,0 +1,177 @@
+import { getSupabaseBrowserClient } from "@/lib/supabase"
+import { expenseService } from "@/lib/expense-service"
+import { currencyService } from "@/lib/currency-service"
+import { computeAccountBalances, touchesAccount } from "@/lib/accounts"
+import type { Account, AccountBalance, CreateAccountInput, UpdateAccountInput } from "@/types/account"
+
+// Event fired when accounts change
+export const ACCOUNTS_UPDATED_EVENT = "accounts-updated"
+
+// Cache for accounts
+let accountsCache: Account[] | null = null
+let lastFetchTime = 0
+const CACHE_TTL = 60000 // 1 minute
+
+const dispatchAccountsUpdate = () => {
+  if (typeof window !== "undefined") {
+    window.dispatchEvent(new CustomEvent(ACCOUNTS_UPDATED_EVENT))
+  }
+}
+
+// Convert database account to app account
+const mapDbAccountToAccount = (row: any): Account => ({
+  id: row.id,
+  name: row.name,
+  type: row.type,
+  openingBalance: Number(row.opening_balance) || 0,
+  color: row.color || undefined,
+  archived: row.archived || false,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+})
+
+// Convert app account fields to database columns
+const mapAccountToDbAccount = (account: UpdateAccountInput) => {
+  const dbAccount: any = {}
+  if ("name" in account) dbAccount.name = account.name
+  if ("type" in account) dbAccount.type = account.type
+  if ("openingBalance" in account) dbAccount.opening_balance = account.openingBalance || 0
+  if ("color" in account) dbAccount.color = account.color || null
+  if ("archived" in account) dbAccount.archived = account.archived || false
+  return dbAccount
+}
+
+export const accountService = {
+  async getAccounts(): Promise<Account[]> {
+    try {
+      const now = Date.now()
+      if (accountsCache && now - lastFetchTime < CACHE_TTL) {
+        return accountsCache
+      }
+
+      const supabase = getSupabaseBrowserClient()
+
+      const isAuthenticated = await expenseService.verifyAuthentication()
+      if (!isAuthenticated) {
+        throw new Error("User not authenticated")
+      }
+
+      const { data, error } = await supabase.from("accounts").select("*").order("created_at", { ascending: true })
+
+      if (error) {
+        // Table not created yet - treat as no accounts
+        if (error.code === "42P01") {
+          console.warn("accounts table does not exist yet")
+          return []
+        }
+        throw error
+      }
+
+      accountsCache = (data || []).map(mapDbAccountToAccount)
+      lastFetchTime = now
+      return accountsCache
+    } catch (error) {
+      console.error("Error in getAccounts:", error)
+      throw error
+    }
+  },
+
+  // Drop the cached accounts so the next read goes to the database
+  clearCache(): void {
+    accountsCache = null
+    lastFetchTime = 0
+  },
+
+  async createAccount(input: CreateAccountInput): Promise<Account> {
+    try {
+      const supabase = getSupabaseBrowserClient()
+
+      const {
+        data: { session },
+      } = await supabase.auth.getSession()
+      if (!session) {
+        throw new Error("User not authenticated")
+      }
+
+      const { data, error } = await supabase
+        .from("accounts")
+        .insert({ ...mapAccountToDbAccount(input), user_id: session.user.id })
+        .select()
+        .single()
+
+      if (error) {
+        console.error("Error creating account:", error)
+        throw error
+      }
+
+      accountsCache = null
+      dispatchAccountsUpdate()
+      return mapDbAccountToAccount(data)
+    } catch (error) {
+      console.error("Error in createAccount:", error)
+      throw error
+    }
+  },
+
+  async updateAccount(id: string, updates: UpdateAccountInput): Promise<Account> {
+    try {
+      const supabase = getSupabaseBrowserClient()
+
+      const { data, error } = await supabase
+        .from("accounts")
+        .update({ ...mapAccountToDbAccount(updates), updated_at: new Date().toISOString() })
+        .eq("id", id)
+        .select()
+        .single()
+
+      if (error) {
+        console.error("Error updating account:", error)
+        throw error
+      }
+
+      accountsCache = null
+      dispatchAccountsUpdate()
+      return mapDbAccountToAccount(data)
+    } catch (error) {
+      console.error("Error in updateAccount:", error)
+      throw error
+    }
+  },
+
+  // Accounts with transactions can only be archived, so their history stays intact
+  async deleteAccount(id: string): Promise<void> {
+    try {
+      const expenses = await expenseService.getExpenses()
+      const linked = expenses.filter((expense) => touchesAccount(expense, id)).length
+      if (linked > 0) {
+        throw new Error(`This account has ${linked} transactions. Archive it instead of deleting it.`)
+      }
+
+      const supabase = getSupabaseBrowserClient()
+
+      const { error } = await supabase.from("accounts").delete().eq("id", id)
+
+      if (error) {
+        console.error("Error deleting account:", error)
+        throw error
+      }
+
+      accountsCache = null
+      dispatchAccountsUpdate()
+    } catch (error) {
+      console.error("Error in deleteAccount:", error)
+      throw error
+    }
+  },
+
+  // Current balance of every account, in the base currency
+  async getAccountBalances(): Promise<AccountBalance[]> {
+    try {
+      const [accounts, expenses] = await Promise.all([this.getAccounts(), expenseService.getExpenses()])
+      return computeAccountBalances(accounts, currencyService.convertExpensesToBase(expenses))
+    } catch (error) {
+      console.error("Error in getAccountBalances:", error)
+      throw error
+    }
+  },
+}
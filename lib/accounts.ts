@@ -0,0 +1,74 @@
+import { eachMonthOfInterval, endOfMonth, format, isAfter, parseISO, startOfMonth } from "date-fns"
+import type { Account, AccountBalance, AccountType, BalancePoint } from "@/types/account"
+import type { Expense } from "@/types/expense"
+
+export const ACCOUNT_TYPE_LABELS: Record<AccountType, string> = {
+  bank: "Bank account",
+  cash: "Cash",
+  credit_card: "Credit card",
+  wallet: "Wallet",
+}
+
+// Whether a transaction moves money in or out of the account
+export const touchesAccount = (expense: Expense, accountId: string) =>
+  expense.accountId === accountId || (expense.type === "transfer" && expense.transferAccountId === accountId)
+
+// Effect of a transaction on one account's balance, or on the combined balance of
+// all accounts when no account is given. Transfers cancel out in the combined view.
+export const getBalanceChange = (expense: Expense, accountId?: string): number => {
+  if (expense.type === "transfer") {
+    if (!accountId) return 0
+    let change = 0
+    if (expense.accountId === accountId) change -= expense.amount
+    if (expense.transferAccountId === accountId) change += expense.amount
+    return change
+  }
+
+  if (accountId && expense.accountId !== accountId) return 0
+  return expense.type === "income" ? expense.amount : -expense.amount
+}
+
+// Current balance of each account from its opening balance and transactions
+export const computeAccountBalances = (accounts: Account[], expenses: Expense[]): AccountBalance[] =>
+  accounts.map((account) => {
+    let inflow = 0
+    let outflow = 0
+    let transactionCount = 0
+
+    expenses.forEach((expense) => {
+      if (!touchesAccount(expense, account.id)) return
+      const change = getBalanceChange(expense, account.id)
+      if (change > 0) inflow += change
+      else outflow -= change
+      transactionCount++
+    })
+
+    return { account, balance: account.openingBalance + inflow - outflow, inflow, outflow, transactionCount }
+  })
+
+// Running balance at the end of each month, for one account or all accounts combined
+export const getBalanceHistory = (expenses: Expense[], accounts: Account[], accountId?: string): BalancePoint[] => {
+  const relevant = accountId ? expenses.filter((e) => touchesAccount(e, accountId)) : expenses
+  if (relevant.length === 0) return []
+
+  const openingBalance = accounts
+    .filter((account) => !accountId || account.id === accountId)
+    .reduce((total, account) => total + account.openingBalance, 0)
+
+  const sorted = [...relevant].sort((a, b) => a.date.localeCompare(b.date))
+  const months = eachMonthOfInterval({
+    start: startOfMonth(parseISO(sorted[0].date)),
+    end: endOfMonth(parseISO(sorted[sorted.length - 1].date)),
+  })
+
+  let balance = openingBalance
+  let index = 0
+  return months.map((month) => {
+    const monthEnd = endOfMonth(month)
+    while (index < sorted.length && !isAfter(parseISO(sorted[index].date), monthEnd)) {
+      balance += getBalanceChange(sorted[index], accountId)
+      index++
+    }
+    return { month: format(month, "MMM yyyy"), balance }
+  })
+}
@@ -0,0 +1,216 @@
+import { v4 as uuidv4 } from "uuid"
+import { getSupabaseBrowserClient } from "@/lib/supabase"
+import { getAttachmentStorage } from "@/lib/attachment-storage"
+import { buildStoragePath, validateAttachmentFile } from "@/lib/attachments"
+import type { Attachment } from "@/types/attachment"
+
+// Event fired when attachments are added or removed
+export const ATTACHMENTS_UPDATED_EVENT = "attachments-updated"
+
+const dispatchAttachmentsUpdate = (expenseId: string) => {
+  if (typeof window !== "undefined") {
+    window.dispatchEvent(new CustomEvent(ATTACHMENTS_UPDATED_EVENT, { detail: { expenseId } }))
+  }
+}
+
+// Convert database attachment to app attachment
+const mapDbAttachmentToAttachment = (row: any): Attachment => ({
+  id: row.id,
+  expenseId: row.expense_id,
+  fileName: row.file_name,
+  contentType: row.content_type,
+  size: Number(row.size) || 0,
+  storagePath: row.storage_path,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+})
+
+export const attachmentService = {
+  async getAttachments(expenseId: string): Promise<Attachment[]> {
+    try {
+      const supabase = getSupabaseBrowserClient()
+
+      const { data, error } = await supabase
+        .from("attachments")
+        .select("*")
+        .eq("expense_id", expenseId)
+        .order("created_at", { ascending: true })
+
+      if (error) {
+        // Table not created yet - treat as no attachments
+        if (error.code === "42P01") {
+          console.warn("attachments table does not exist yet")
+          return []
+        }
+        throw error
+      }
+
+      return (data || []).map(mapDbAttachmentToAttachment)
+    } catch (error) {
+      console.error("Error in getAttachments:", error)
+      throw error
+    }
+  },
+
+  // Store the file first, then record it; a failed insert removes the stored file again
+  async addAttachment(expenseId: string, file: File): Promise<Attachment> {
+    try {
+      const validationError = validateAttachmentFile(file)
+      if (validationError) {
+        throw new Error(validationError)
+      }
+
+      const supabase = getSupabaseBrowserClient()
+
+      const {
+        data: { session },
+      } = await supabase.auth.getSession()
+      if (!session) {
+        throw new Error("User not authenticated")
+      }
+
+      const storage = getAttachmentStorage()
+      const id = uuidv4()
+      const storagePath = buildStoragePath(session.user.id, expenseId, id, file.name)
+      await storage.upload(storagePath, file)
+
+      const { data, error } = await supabase
+        .from("attachments")
+        .insert({
+          id,
+          user_id: session.user.id,
+          expense_id: expenseId,
+          file_name: file.name,
+          content_type: file.type,
+          size: file.size,
+          storage_path: storagePath,
+        })
+        .select()
+        .single()
+
+      if (error) {
+        console.error("Error creating attachment:", error)
+        await storage.remove([storagePath]).catch(() => undefined)
+        throw error
+      }
+
+      dispatchAttachmentsUpdate(expenseId)
+      return mapDbAttachmentToAttachment(data)
+    } catch (error) {
+      console.error("Error in addAttachment:", error)
+      throw error
+    }
+  },
+
+  async deleteAttachment(attachment: Attachment): Promise<void> {
+    try {
+      const supabase = getSupabaseBrowserClient()
+
+      const { error } = await supabase.from("attachments").delete().eq("id", attachment.id)
+
+      if (error) {
+        console.error("Error deleting attachment:", error)
+        throw error
+      }
+
+      await getAttachmentStorage().remove([attachment.storagePath])
+      dispatchAttachmentsUpdate(attachment.expenseId)
+    } catch (error) {
+      console.error("Error in deleteAttachment:", error)
+      throw error
+    }
+  },
+
+  // Attachments of transactions about to be deleted. Their rows go with the transactions through the
+  // foreign key while the files stay in storage, so undoing the delete can put the rows back.
+  async getExpenseAttachments(expenseIds: string[]): Promise<Attachment[]> {
+    try {
+      if (expenseIds.length === 0) return []
+
+      const supabase = getSupabaseBrowserClient()
+      const { data, error } = await supabase.from("attachments").select("*").in("expense_id", expenseIds)
+
+      if (error) {
+        if (error.code === "42P01") return []
+        throw error
+      }
+
+      return (data || []).map(mapDbAttachmentToAttachment)
+    } catch (error) {
+      console.error("Error in getExpenseAttachments:", error)
+      throw error
+    }
+  },
+
+  // Put back the rows of attachments whose transactions were restored; the files never left storage
+  async restoreAttachments(attachments: Attachment[]): Promise<void> {
+    try {
+      if (attachments.length === 0) return
+
+      const supabase = getSupabaseBrowserClient()
+
+      const {
+        data: { session },
+      } = await supabase.auth.getSession()
+      if (!session) {
+        throw new Error("User not authenticated")
+      }
+
+      const { error } = await supabase.from("attachments").upsert(
+        attachments.map((attachment) => ({
+          id: attachment.id,
+          user_id: session.user.id,
+          expense_id: attachment.expenseId,
+          file_name: attachment.fileName,
+          content_type: attachment.contentType,
+          size: attachment.size,
+          storage_path: attachment.storagePath,
+          created_at: attachment.createdAt,
+        })),
+        { onConflict: "id" },
+      )
+
+      if (error) {
+        console.error("Error restoring attachments:", error)
+        throw error
+      }
+
+      new Set(attachments.map((attachment) => attachment.expenseId)).forEach(dispatchAttachmentsUpdate)
+    } catch (error) {
+      console.error("Error in restoreAttachments:", error)
+      throw error
+    }
+  },
+
+  // Remove the stored files of attachments whose rows are gone for good, e.g. once deleting their
+  // transactions can no longer be undone. Files of attachments that still exist are kept.
+  async removeOrphanedFiles(attachments: Attachment[]): Promise<void> {
+    try {
+      if (attachments.length === 0) return
+
+      const supabase = getSupabaseBrowserClient()
+      const ids = attachments.map((attachment) => attachment.id)
+      const { data, error } = await supabase.from("attachments").select("id").in("id", ids)
+
+      if (error) throw error
+
+      const remaining = new Set((data || []).map((row) => row.id))
+      const orphaned = attachments.filter((attachment) => !remaining.has(attachment.id))
+      if (orphaned.length > 0) {
+        await getAttachmentStorage().remove(orphaned.map((attachment) => attachment.storagePath))
+      }
+    } catch (error) {
+      console.error("Error in removeOrphanedFiles:", error)
+      throw error
+    }
+  },
+
+  async getAttachmentUrl(attachment: Attachment): Promise<string> {
+    try {
+      return await getAttachmentStorage().getUrl(attachment.storagePath)
+    } catch (error) {
+      console.error("Error in getAttachmentUrl:", error)
+      throw error
+    }
+  },
+}
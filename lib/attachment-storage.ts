@@ -0,0 +1,102 @@
+import { getSupabaseBrowserClient } from "@/lib/supabase"
+
+// Supabase storage bucket holding attachment files
+export const ATTACHMENTS_BUCKET = "attachments"
+
+// Route serving the development stand-in; see app/api/dev-attachments
+const DEV_ATTACHMENTS_ROUTE = "/api/dev-attachments"
+
+// How long a signed link to a file stays valid, in seconds
+const SIGNED_URL_TTL = 60 * 60
+
+// Minimal contract for where attachment files live. Supabase storage is used in
+// production; a local filesystem stand-in lets the feature work without a bucket.
+export interface AttachmentStorage {
+  name: string
+  upload(path: string, file: Blob): Promise<void>
+  download(path: string): Promise<Blob>
+  // A URL the browser can load the file from directly
+  getUrl(path: string): Promise<string>
+  remove(paths: string[]): Promise<void>
+}
+
+// Files in a Supabase storage bucket, served through short-lived signed URLs
+export const createSupabaseAttachmentStorage = (bucket = ATTACHMENTS_BUCKET): AttachmentStorage => ({
+  name: "supabase",
+
+  async upload(path, file) {
+    const supabase = getSupabaseBrowserClient()
+    const { error } = await supabase.storage.from(bucket).upload(path, file, { contentType: file.type, upsert: true })
+    if (error) throw error
+  },
+
+  async download(path) {
+    const supabase = getSupabaseBrowserClient()
+    const { data, error } = await supabase.storage.from(bucket).download(path)
+    if (error) throw error
+    return data
+  },
+
+  async getUrl(path) {
+    const supabase = getSupabaseBrowserClient()
+    const { data, error } = await supabase.storage.from(bucket).createSignedUrl(path, SIGNED_URL_TTL)
+    if (error) throw error
+    return data.signedUrl
+  },
+
+  async remove(paths) {
+    if (paths.length === 0) return
+    const supabase = getSupabaseBrowserClient()
+    const { error } = await supabase.storage.from(bucket).remove(paths)
+    if (error) throw error
+  },
+})
+
+// Development stand-in that keeps files on the local disk through the dev-only API route
+export const createLocalAttachmentStorage = (baseUrl = DEV_ATTACHMENTS_ROUTE): AttachmentStorage => {
+  const fileUrl = (path: string) => `${baseUrl}/${path.split("/").map(encodeURIComponent).join("/")}`
+
+  const request = async (path: string, init?: RequestInit) => {
+    const response = await fetch(fileUrl(path), init)
+    if (!response.ok) {
+      throw new Error(`Local attachment storage returned ${response.status} for ${path}`)
+    }
+    return response
+  }
+
+  return {
+    name: "local",
+
+    async upload(path, file) {
+      await request(path, { method: "PUT", body: file, headers: { "Content-Type": file.type } })
+    },
+
+    async download(path) {
+      const response = await request(path)
+      return response.blob()
+    },
+
+    async getUrl(path) {
+      return fileUrl(path)
+    },
+
+    async remove(paths) {
+      for (const path of paths) {
+        await request(path, { method: "DELETE" })
+      }
+    },
+  }
+}
+
+let storage: AttachmentStorage | null = null
+
+// NEXT_PUBLIC_ATTACHMENT_STORAGE=local switches to the filesystem stand-in
+export const getAttachmentStorage = (): AttachmentStorage => {
+  if (!storage) {
+    storage =
+      process.env.NEXT_PUBLIC_ATTACHMENT_STORAGE === "local"
+        ? createLocalAttachmentStorage()
+        : createSupabaseAttachmentStorage()
+  }
+  return storage
+}
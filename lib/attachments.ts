@@ -0,0 +1,47 @@
+// Files that can be attached to a transaction
+export const ATTACHMENT_CONTENT_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif", "image/heic", "application/pdf"]
+
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024 // 10 MB
+
+export const isImageAttachment = (contentType: string) => contentType.startsWith("image/")
+
+// Returns why a file can't be attached, or null when it can
+export const validateAttachmentFile = (file: Pick<File, "name" | "type" | "size">): string | null => {
+  if (!ATTACHMENT_CONTENT_TYPES.includes(file.type)) {
+    return `${file.name} is not an image or PDF`
+  }
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    return `${file.name} is larger than ${formatFileSize(MAX_ATTACHMENT_SIZE)}`
+  }
+  return null
+}
+
+// Files are grouped per user and transaction; the id prefix keeps same-named uploads apart
+export const buildStoragePath = (userId: string, expenseId: string, attachmentId: string, fileName: string) =>
+  `${userId}/${expenseId}/${attachmentId}-${fileName.replace(/[^\w.-]+/g, "_")}`
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+// Backups carry attachment files as base64 text
+export const blobToBase64 = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer())
+  let binary = ""
+  // Convert in chunks so large files don't overflow the argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+export const base64ToBlob = (data: string, contentType: string): Blob => {
+  const binary = atob(data)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return new Blob([bytes], { type: contentType })
+}
@@ -0,0 +1,300 @@
+import { getSupabaseBrowserClient } from "@/lib/supabase"
+import { expenseService, EXPENSES_UPDATED_EVENT } from "@/lib/expense-service"
+import { categoryService, dispatchCategorySync } from "@/lib/category-service"
+import { templateService } from "@/lib/template-service"
+import { recurringService, RECURRING_UPDATED_EVENT } from "@/lib/recurring-service"
+import { goalService, GOALS_UPDATED_EVENT } from "@/lib/goal-service"
+import { accountService, ACCOUNTS_UPDATED_EVENT } from "@/lib/account-service"
+import { filterPresetService, FILTER_PRESETS_UPDATED_EVENT } from "@/lib/filter-preset-service"
+import { ruleService, RULES_UPDATED_EVENT } from "@/lib/rule-service"
+import { currencyService } from "@/lib/currency-service"
+import { getAttachmentStorage } from "@/lib/attachment-storage"
+import { base64ToBlob, blobToBase64 } from "@/lib/attachments"
+import {
+  BACKUP_FORMAT,
+  BACKUP_TABLES,
+  BACKUP_VERSION,
+  getRemappedIds,
+  planTableRestore,
+  remapCategoryIds,
+} from "@/lib/backup"
+import type { BackupAttachmentFile, BackupFile, BackupRow, BackupTable, RestoreMode, RestorePlan } from "@/types/backup"
+
+// Rows written or deleted per request
+const BATCH_SIZE = 500
+
+const getUserId = async (): Promise<string> => {
+  const supabase = getSupabaseBrowserClient()
+  const {
+    data: { session },
+  } = await supabase.auth.getSession()
+  if (!session) {
+    throw new Error("User not authenticated")
+  }
+  return session.user.id
+}
+
+// All of the user's rows in a table without the user_id column, or null when the table doesn't exist
+const fetchTableRows = async (table: BackupTable): Promise<BackupRow[] | null> => {
+  const supabase = getSupabaseBrowserClient()
+  const { data, error } = await supabase.from(table).select("*")
+
+  if (error) {
+    if (error.code === "42P01") {
+      console.warn(`${table} table does not exist yet`)
+      return null
+    }
+    throw error
+  }
+
+  return (data || []).map(({ user_id, ...row }: any) => row as BackupRow)
+}
+
+const batches = <T>(items: T[]): T[][] => {
+  const result: T[][] = []
+  for (let i = 0; i < items.length; i += BATCH_SIZE) {
+    result.push(items.slice(i, i + BATCH_SIZE))
+  }
+  return result
+}
+
+// Contents of every attachment file; files missing from storage are left out
+const collectAttachmentFiles = async (rows: BackupRow[]): Promise<BackupAttachmentFile[]> => {
+  const storage = getAttachmentStorage()
+  const files: BackupAttachmentFile[] = []
+
+  for (const row of rows) {
+    const path = String(row.storage_path)
+    try {
+      const blob = await storage.download(path)
+      files.push({ path, contentType: String(row.content_type || blob.type), data: await blobToBase64(blob) })
+    } catch (error) {
+      console.warn(`Attachment file ${path} could not be read and is not in the backup:`, error)
+    }
+  }
+
+  return files
+}
+
+// Files live under the owner's folder, so restoring into another account moves them to the current one
+const toUserStoragePath = (path: string, userId: string) => `${userId}/${path.split("/").slice(1).join("/")}`
+
+// Write the files of restored attachment rows, returning the rows pointed at their new location
+const restoreAttachmentFiles = async (rows: BackupRow[], files: BackupAttachmentFile[], userId: string) => {
+  const storage = getAttachmentStorage()
+  const filesByPath = new Map(files.map((file) => [file.path, file]))
+
+  const restored: BackupRow[] = []
+  for (const row of rows) {
+    const file = filesByPath.get(String(row.storage_path))
+    const storagePath = toUserStoragePath(String(row.storage_path), userId)
+    if (file) {
+      await storage.upload(storagePath, base64ToBlob(file.data, file.contentType))
+    }
+    restored.push({ ...row, storage_path: storagePath })
+  }
+  return restored
+}
+
+// Compare the backup with the current data, table by table
+const planRestore = async (backup: BackupFile, mode: RestoreMode) => {
+  const plans = []
+  // Categories restored onto existing ones keep the existing ids, and rows referring to them follow
+  let categoryIds = new Map<string, string>()
+  for (const definition of BACKUP_TABLES) {
+    const backupRows = backup.tables[definition.table] || []
+    const existingRows = await fetchTableRows(definition.table)
+
+    if (existingRows === null) {
+      const { summary } = planTableRestore(definition, [], [], mode)
+      plans.push({ summary: { ...summary, inBackup: backupRows.length, unavailable: true }, upserts: [], deletes: [] })
+      continue
+    }
+
+    if (definition.table === "categories") {
+      categoryIds = getRemappedIds(definition, backupRows, existingRows)
+    }
+
+    plans.push(planTableRestore(definition, remapCategoryIds(definition, backupRows, categoryIds), existingRows, mode))
+  }
+  return plans
+}
+
+const toRestorePlan = (
+  backup: BackupFile,
+  mode: RestoreMode,
+  plans: Awaited<ReturnType<typeof planRestore>>,
+  backupVersion: number,
+): RestorePlan => ({
+  mode,
+  backupCreatedAt: backup.createdAt,
+  backupVersion,
+  tables: plans.map((plan) => plan.summary),
+  restoresSettings: !!backup.settings.currency,
+})
+
+// Make every service reload what a restore may have changed
+const refreshAfterRestore = async () => {
+  categoryService.clearCache()
+  templateService.clearCache()
+  recurringService.clearCache()
+  goalService.clearCache()
+  accountService.clearCache()
+  filterPresetService.clearCache()
+  ruleService.clearCache()
+  await expenseService.refreshFromRemote()
+
+  if (typeof window !== "undefined") {
+    window.dispatchEvent(new CustomEvent(EXPENSES_UPDATED_EVENT))
+    window.dispatchEvent(new CustomEvent(RECURRING_UPDATED_EVENT))
+    window.dispatchEvent(new CustomEvent(GOALS_UPDATED_EVENT))
+    window.dispatchEvent(new CustomEvent(ACCOUNTS_UPDATED_EVENT))
+    window.dispatchEvent(new CustomEvent(FILTER_PRESETS_UPDATED_EVENT))
+    window.dispatchEvent(new CustomEvent(RULES_UPDATED_EVENT))
+  }
+  dispatchCategorySync()
+}
+
+export const backupService = {
+  // Snapshot every table and local preference into the current backup format
+  async createBackup(): Promise<BackupFile> {
+    try {
+      const isAuthenticated = await expenseService.verifyAuthentication()
+      if (!isAuthenticated) {
+        throw new Error("Authentication failed. Please sign in again.")
+      }
+
+      // Offline changes belong in the backup too
+      await expenseService.replayPendingMutations()
+
+      const tables: BackupFile["tables"] = {}
+      for (const { table } of BACKUP_TABLES) {
+        const rows = await fetchTableRows(table)
+        if (rows) tables[table] = rows
+      }
+
+      return {
+        format: BACKUP_FORMAT,
+        version: BACKUP_VERSION,
+        createdAt: new Date().toISOString(),
+        tables,
+        files: await collectAttachmentFiles(tables.attachments || []),
+        settings: { currency: currencyService.getSettings() },
+      }
+    } catch (error) {
+      console.error("Error in createBackup:", error)
+      throw error
+    }
+  },
+
+  async downloadBackup(): Promise<BackupFile> {
+    try {
+      const backup = await this.createBackup()
+
+      const blob = new Blob([JSON.stringify(backup, null, 2)], { type: "application/json;charset=utf-8;" })
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement("a")
+      link.setAttribute("href", url)
+      link.setAttribute("download", `fnzo-backup-${backup.createdAt.split("T")[0]}.json`)
+      link.style.visibility = "hidden"
+      document.body.appendChild(link)
+      link.click()
+      document.body.removeChild(link)
+      URL.revokeObjectURL(url)
+
+      return backup
+    } catch (error) {
+      console.error("Error in downloadBackup:", error)
+      throw error
+    }
+  },
+
+  // Dry run: report what restoring the backup would change without writing anything
+  async previewRestore(backup: BackupFile, mode: RestoreMode, backupVersion = backup.version): Promise<RestorePlan> {
+    try {
+      const isAuthenticated = await expenseService.verifyAuthentication()
+      if (!isAuthenticated) {
+        throw new Error("Authentication failed. Please sign in again.")
+      }
+
+      return toRestorePlan(backup, mode, await planRestore(backup, mode), backupVersion)
+    } catch (error) {
+      console.error("Error in previewRestore:", error)
+      throw error
+    }
+  },
+
+  async restoreBackup(
+    backup: BackupFile,
+    mode: RestoreMode,
+    onProgress?: (progress: number, message: string) => void,
+    backupVersion = backup.version,
+  ): Promise<RestorePlan> {
+    try {
+      const isAuthenticated = await expenseService.verifyAuthentication()
+      if (!isAuthenticated) {
+        throw new Error("Authentication failed. Please sign in again.")
+      }
+
+      const supabase = getSupabaseBrowserClient()
+      const userId = await getUserId()
+
+      // Queued offline changes go out first so the plan sees them
+      onProgress?.(5, "Sending pending changes...")
+      await expenseService.replayPendingMutations()
+
+      onProgress?.(10, "Comparing backup with your data...")
+      const plans = await planRestore(backup, mode)
+
+      // Remove rows in reverse order so nothing still points at a deleted row
+      for (const plan of [...plans].reverse()) {
+        if (plan.deletes.length === 0) continue
+        onProgress?.(30, `Removing ${plan.summary.label.toLowerCase()}...`)
+        for (const ids of batches(plan.deletes)) {
+          // Look up the files of removed attachments before their rows are gone
+          const { data: removedFiles } =
+            plan.summary.table === "attachments"
+              ? await supabase.from("attachments").select("storage_path").in("id", ids)
+              : { data: null }
+
+          const { error } = await supabase.from(plan.summary.table).delete().in("id", ids)
+          if (error) throw error
+
+          if (removedFiles?.length) {
+            await getAttachmentStorage().remove(removedFiles.map((row: any) => row.storage_path))
+          }
+        }
+      }
+
+      for (let i = 0; i < plans.length; i++) {
+        const plan = plans[i]
+        onProgress?.(40 + Math.round((i / plans.length) * 50), `Restoring ${plan.summary.label.toLowerCase()}...`)
+
+        const upserts =
+          plan.summary.table === "attachments"
+            ? await restoreAttachmentFiles(plan.upserts, backup.files, userId)
+            : plan.upserts
+
+        for (const rows of batches(upserts)) {
+          const { error } = await supabase
+            .from(plan.summary.table)
+            .upsert(rows.map((row) => ({ ...row, user_id: userId })), { onConflict: "id" })
+          if (error) throw error
+        }
+      }
+
+      if (backup.settings.currency) {
+        currencyService.replaceSettings(backup.settings.currency)
+      }
+
+      onProgress?.(95, "Reloading your data...")
+      await refreshAfterRestore()
+      onProgress?.(100, "Restore complete")
+
+      return toRestorePlan(backup, mode, plans, backupVersion)
+    } catch (error) {
+      console.error("Error in restoreBackup:", error)
+      throw error
+    }
+  },
+}
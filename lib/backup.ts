@@ -0,0 +1,282 @@
+import type { BackupFile, BackupRow, BackupTable, RestoreMode, RestoreTableSummary } from "@/types/backup"
+
+export const BACKUP_FORMAT = "fnzo-backup"
+
+// Bump when the backup layout changes and add a migration from the previous version
+export const BACKUP_VERSION = 3
+
+type RemapId = (id: unknown) => unknown
+
+interface BackupTableDefinition {
+  table: BackupTable
+  label: string
+  // Identifies the same record when ids differ, for tables with a uniqueness rule
+  naturalKey?: (row: BackupRow) => string
+  // Points the row's category references at the ids the categories are restored under
+  remapCategoryIds?: (row: BackupRow, remap: RemapId) => BackupRow
+}
+
+const remapSplitCategories = (splits: unknown, remap: RemapId) =>
+  Array.isArray(splits) ? splits.map((split) => ({ ...split, categoryId: remap(split.categoryId) })) : splits
+
+// For JSON columns that keep category ids under a key, e.g. a rule's actions
+const remapJsonField = (value: unknown, key: string, remap: RemapId) =>
+  value && typeof value === "object" && key in value
+    ? { ...value, [key]: remap((value as Record<string, unknown>)[key]) }
+    : value
+
+const remapEach =
+  (remap: RemapId): RemapId =>
+  (ids) =>
+    Array.isArray(ids) ? ids.map(remap) : ids
+
+// Every table a backup covers, in restore order; deletes run in reverse
+export const BACKUP_TABLES: BackupTableDefinition[] = [
+  { table: "accounts", label: "Accounts" },
+  {
+    table: "categories",
+    label: "Categories",
+    naturalKey: (row) => `${row.type}:${String(row.name).toLowerCase()}`,
+    remapCategoryIds: (row, remap) => ({
+      ...row,
+      parent_id: remap(row.parent_id),
+      merged_into: remap(row.merged_into),
+    }),
+  },
+  {
+    table: "transaction_templates",
+    label: "Templates",
+    remapCategoryIds: (row, remap) => ({ ...row, category_id: remap(row.category_id) }),
+  },
+  {
+    table: "expenses",
+    label: "Transactions",
+    remapCategoryIds: (row, remap) => ({
+      ...row,
+      category_id: remap(row.category_id),
+      splits: remapSplitCategories(row.splits, remap),
+    }),
+  },
+  { table: "attachments", label: "Attachments" },
+  {
+    table: "recurring_rules",
+    label: "Recurring rules",
+    remapCategoryIds: (row, remap) => ({
+      ...row,
+      exceptions: Array.isArray(row.exceptions)
+        ? row.exceptions.map((exception) => ({
+            ...exception,
+            overrides: remapJsonField(exception.overrides, "categoryId", remap),
+          }))
+        : row.exceptions,
+    }),
+  },
+  {
+    table: "goals",
+    label: "Savings goals",
+    remapCategoryIds: (row, remap) => ({
+      ...row,
+      category_ids: remapEach(remap)(row.category_ids),
+    }),
+  },
+  {
+    table: "filter_presets",
+    label: "Filter presets",
+    remapCategoryIds: (row, remap) => ({
+      ...row,
+      filters: remapJsonField(row.filters, "categoryIds", remapEach(remap)),
+    }),
+  },
+  {
+    table: "categorization_rules",
+    label: "Categorisation rules",
+    remapCategoryIds: (row, remap) => ({ ...row, actions: remapJsonField(row.actions, "categoryId", remap) }),
+  },
+]
+
+type BackupMigration = (backup: BackupFile) => BackupFile
+
+const categoryKey = (type: unknown, name: unknown) => `${type}:${name}`
+
+// Point transactions and their split lines at the backup's categories by id, going by the names they
+// were saved with
+const addCategoryIds = (backup: BackupFile): BackupFile => {
+  const ids = new Map((backup.tables.categories || []).map((row) => [categoryKey(row.type, row.name), row.id]))
+  const expenses = (backup.tables.expenses || []).map((row) => ({
+    ...row,
+    category_id: row.category_id ?? ids.get(categoryKey(row.type, row.category)) ?? null,
+    splits: Array.isArray(row.splits)
+      ? row.splits.map((split) => ({
+          ...split,
+          categoryId: split.categoryId ?? ids.get(categoryKey(row.type, split.category)),
+        }))
+      : row.splits,
+  }))
+  return { ...backup, tables: { ...backup.tables, expenses } }
+}
+
+// Upgrades a backup from the version it is keyed by to the next one
+const BACKUP_MIGRATIONS: Record<number, BackupMigration> = {
+  // Version 2 added attachment files
+  1: (backup) => ({ ...backup, files: backup.files || [] }),
+  // Version 3 references categories by id
+  2: addCategoryIds,
+}
+
+// Bring an older backup up to the current layout, one version at a time
+export const migrateBackup = (backup: BackupFile): BackupFile => {
+  let migrated = backup
+  while (migrated.version < BACKUP_VERSION) {
+    const migration = BACKUP_MIGRATIONS[migrated.version]
+    if (!migration) {
+      throw new Error(`Backups from version ${migrated.version} can no longer be restored`)
+    }
+    migrated = { ...migration(migrated), version: migrated.version + 1 }
+  }
+  return migrated
+}
+
+// Parse and validate a backup file, returning it in the current layout along with
+// the version it was written with
+export const parseBackup = (text: string): { backup: BackupFile; originalVersion: number } => {
+  let data: any
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error("The file is not valid JSON")
+  }
+
+  if (!data || data.format !== BACKUP_FORMAT) {
+    throw new Error("The file is not a fnzo backup")
+  }
+  if (!Number.isInteger(data.version) || data.version < 1) {
+    throw new Error("The backup has no valid version number")
+  }
+  if (data.version > BACKUP_VERSION) {
+    throw new Error("The backup was made by a newer version of the app. Update the app and try again.")
+  }
+
+  const tables = data.tables && typeof data.tables === "object" ? data.tables : {}
+  Object.entries(tables).forEach(([table, rows]) => {
+    if (!Array.isArray(rows) || rows.some((row) => !row || typeof row !== "object" || typeof row.id !== "string")) {
+      throw new Error(`The backup's ${table} section is damaged`)
+    }
+  })
+
+  const files = Array.isArray(data.files) ? data.files : []
+  if (files.some((file: any) => !file || typeof file.path !== "string" || typeof file.data !== "string")) {
+    throw new Error("The backup's attachment files are damaged")
+  }
+
+  const backup: BackupFile = {
+    format: BACKUP_FORMAT,
+    version: data.version,
+    createdAt: typeof data.createdAt === "string" ? data.createdAt : "",
+    tables,
+    files,
+    settings: data.settings && typeof data.settings === "object" ? data.settings : {},
+  }
+
+  return { backup: migrateBackup(backup), originalVersion: data.version }
+}
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null)
+
+// Whether the existing row already holds every value of the backup row
+const rowsEqual = (existing: BackupRow, incoming: BackupRow) =>
+  Object.keys(incoming).every((column) => sameValue(existing[column], incoming[column]))
+
+// Whether the backup row was changed after the existing one; rows without
+// timestamps are never considered newer
+const isNewer = (incoming: BackupRow, existing: BackupRow) => {
+  if (typeof incoming.updated_at !== "string" || typeof existing.updated_at !== "string") return false
+  return new Date(incoming.updated_at).getTime() > new Date(existing.updated_at).getTime()
+}
+
+// Work out which rows of one table a restore writes and deletes.
+// merge adds missing rows and updates rows the backup has a newer copy of;
+// replace writes every differing row and deletes rows the backup doesn't have.
+export const planTableRestore = (
+  definition: BackupTableDefinition,
+  backupRows: BackupRow[],
+  existingRows: BackupRow[],
+  mode: RestoreMode,
+): { summary: RestoreTableSummary; upserts: BackupRow[]; deletes: string[] } => {
+  const existingById = new Map(existingRows.map((row) => [row.id, row]))
+  const existingByKey = definition.naturalKey
+    ? new Map(existingRows.map((row) => [definition.naturalKey!(row), row]))
+    : null
+
+  const summary: RestoreTableSummary = {
+    table: definition.table,
+    label: definition.label,
+    inBackup: backupRows.length,
+    create: 0,
+    update: 0,
+    unchanged: 0,
+    remove: 0,
+  }
+  const upserts: BackupRow[] = []
+  const matchedIds = new Set<string>()
+
+  backupRows.forEach((row) => {
+    let existing = existingById.get(row.id)
+    let incoming = row
+
+    // Same record under another id, e.g. a default category created on both sides
+    if (!existing && existingByKey) {
+      existing = existingByKey.get(definition.naturalKey!(row))
+      if (existing) incoming = { ...row, id: existing.id }
+    }
+
+    if (!existing) {
+      summary.create++
+      upserts.push(incoming)
+      return
+    }
+
+    matchedIds.add(existing.id)
+    if (rowsEqual(existing, incoming) || (mode === "merge" && !isNewer(incoming, existing))) {
+      summary.unchanged++
+      return
+    }
+
+    summary.update++
+    upserts.push(incoming)
+  })
+
+  const deletes = mode === "replace" ? existingRows.filter((row) => !matchedIds.has(row.id)).map((row) => row.id) : []
+  summary.remove = deletes.length
+
+  return { summary, upserts, deletes }
+}
+
+// Backup ids of rows a restore writes onto an existing row with another id, mapped to that id
+export const getRemappedIds = (
+  definition: BackupTableDefinition,
+  backupRows: BackupRow[],
+  existingRows: BackupRow[],
+): Map<string, string> => {
+  const remapped = new Map<string, string>()
+  if (!definition.naturalKey) return remapped
+
+  const existingIds = new Set(existingRows.map((row) => row.id))
+  const existingByKey = new Map(existingRows.map((row) => [definition.naturalKey!(row), row]))
+  backupRows.forEach((row) => {
+    if (existingIds.has(row.id)) return
+    const existing = existingByKey.get(definition.naturalKey!(row))
+    if (existing) remapped.set(row.id, existing.id)
+  })
+  return remapped
+}
+
+// The table's rows with their category references following categories restored under another id
+export const remapCategoryIds = (
+  definition: BackupTableDefinition,
+  rows: BackupRow[],
+  remappedIds: Map<string, string>,
+): BackupRow[] => {
+  if (remappedIds.size === 0 || !definition.remapCategoryIds) return rows
+  const remap: RemapId = (id) => (typeof id === "string" && remappedIds.get(id)) || id
+  return rows.map((row) => definition.remapCategoryIds!(row, remap))
+}
@@ -0,0 +1,158 @@
+import {
+  addDays,
+  differenceInCalendarDays,
+  endOfDay,
+  endOfMonth,
+  endOfWeek,
+  endOfYear,
+  format,
+  isAfter,
+  isBefore,
+  parseISO,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+  startOfYear,
+} from "date-fns"
+import type { Category, Expense } from "@/types/expense"
+import type { BudgetPeriod, BudgetPeriodSummary, BudgetSettings } from "@/types/budget"
+import { getCategoryIdAmount, usesCategoryId } from "@/lib/splits"
+
+export const DEFAULT_CUSTOM_PERIOD_DAYS = 30
+
+// Upper bound on periods walked when rolling budgets forward
+const MAX_ROLLOVER_PERIODS = 120
+
+export const BUDGET_PERIOD_LABELS: Record<BudgetPeriod, string> = {
+  weekly: "Weekly",
+  monthly: "Monthly",
+  yearly: "Yearly",
+  custom: "Custom",
+}
+
+export const BUDGET_PERIOD_UNITS: Record<BudgetPeriod, string> = {
+  weekly: "week",
+  monthly: "month",
+  yearly: "year",
+  custom: "period",
+}
+
+interface PeriodWindow {
+  start: Date
+  end: Date
+}
+
+type BudgetCategory = Pick<
+  Category,
+  "id" | "name" | "type" | "budget" | "budgetPeriod" | "budgetPeriodDays" | "budgetStartDate" | "budgetRollover"
+>
+
+// Budget settings of a category, defaulting to a monthly budget without rollover
+export const getBudgetSettings = (category: BudgetCategory): BudgetSettings => ({
+  period: category.budgetPeriod || "monthly",
+  periodDays: category.budgetPeriodDays,
+  startDate: category.budgetStartDate,
+  rollover: category.budgetRollover ?? false,
+})
+
+// The budget period containing `date`
+export const getPeriodWindow = (settings: BudgetSettings, date: Date): PeriodWindow => {
+  switch (settings.period) {
+    case "weekly":
+      return { start: startOfWeek(date, { weekStartsOn: 1 }), end: endOfWeek(date, { weekStartsOn: 1 }) }
+    case "yearly":
+      return { start: startOfYear(date), end: endOfYear(date) }
+    case "custom": {
+      const days = Math.max(settings.periodDays || DEFAULT_CUSTOM_PERIOD_DAYS, 1)
+      const anchor = startOfDay(settings.startDate ? parseISO(settings.startDate) : new Date())
+      const index = Math.floor(differenceInCalendarDays(date, anchor) / days)
+      const start = addDays(anchor, index * days)
+      return { start, end: endOfDay(addDays(start, days - 1)) }
+    }
+    default:
+      return { start: startOfMonth(date), end: endOfMonth(date) }
+  }
+}
+
+// Human readable label for a period, e.g. "Mar 2025" or "Mar 3 - Mar 9, 2025"
+export const formatPeriodLabel = (period: BudgetPeriod, summary: Pick<BudgetPeriodSummary, "start" | "end">) => {
+  const start = parseISO(summary.start)
+  const end = parseISO(summary.end)
+
+  if (period === "monthly") return format(start, "MMM yyyy")
+  if (period === "yearly") return format(start, "yyyy")
+  return `${format(start, "MMM d")} - ${format(end, "MMM d, yyyy")}`
+}
+
+// Budget vs. actual for each period up to and including the one containing `now`,
+// oldest first. With rollover enabled, unspent budget is carried forward from the
+// period containing the budget start date. `categoryIds` are the categories whose
+// spending counts, e.g. a parent and its subcategories. Amounts are expected in the base currency.
+export const getBudgetHistory = (
+  category: BudgetCategory,
+  expenses: Expense[],
+  periods = 6,
+  now = new Date(),
+  categoryIds: string[] = [category.id],
+): BudgetPeriodSummary[] => {
+  if (!category.budget || category.budget <= 0) return []
+
+  const settings = getBudgetSettings(category)
+  const trackedFrom = settings.startDate ? startOfDay(parseISO(settings.startDate)) : null
+
+  // Walk back to the first period we need to compute
+  const windows: PeriodWindow[] = [getPeriodWindow(settings, now)]
+  const limit = settings.rollover && trackedFrom ? MAX_ROLLOVER_PERIODS : periods
+  while (windows.length < limit) {
+    const previous = getPeriodWindow(settings, addDays(windows[0].start, -1))
+    if (trackedFrom && isBefore(previous.end, trackedFrom)) break
+    windows.unshift(previous)
+  }
+
+  // Split transactions only count the lines in these categories
+  const categoryExpenses = expenses.filter(
+    (e) => e.type === category.type && categoryIds.some((id) => usesCategoryId(e, id)),
+  )
+  const getAmount = (expense: Expense) =>
+    categoryIds.reduce((total, id) => total + getCategoryIdAmount(expense, id), 0)
+
+  const history: BudgetPeriodSummary[] = []
+  let carry = 0
+  windows.forEach((window) => {
+    const actual = categoryExpenses.reduce((total, expense) => {
+      const date = new Date(expense.date)
+      return isBefore(date, window.start) || isAfter(date, window.end) ? total : total + getAmount(expense)
+    }, 0)
+
+    const carriedOver = settings.rollover ? carry : 0
+    const available = category.budget! + carriedOver
+    const remaining = available - actual
+
+    history.push({
+      start: format(window.start, "yyyy-MM-dd"),
+      end: format(window.end, "yyyy-MM-dd"),
+      budget: category.budget!,
+      carriedOver,
+      available,
+      actual,
+      remaining,
+      isOverBudget: actual > available,
+    })
+
+    // Only unspent budget rolls over; overspending does not reduce the next period
+    carry = Math.max(remaining, 0)
+  })
+
+  return history.slice(-periods)
+}
+
+// Budget status for the period containing `now`
+export const getCurrentBudgetStatus = (
+  category: BudgetCategory,
+  expenses: Expense[],
+  now = new Date(),
+  categoryIds: string[] = [category.id],
+): BudgetPeriodSummary | undefined => {
+  const history = getBudgetHistory(category, expenses, 1, now, categoryIds)
+  return history[history.length - 1]
+}
@@ -0,0 +1,99 @@
+import { addDays, parseISO } from "date-fns"
+import { expenseService } from "@/lib/expense-service"
+import { getAttachmentsForUndo, recordHistory } from "@/lib/history"
+import type { Expense, ExpenseType } from "@/types/expense"
+import type { HistoryOperation } from "@/types/history"
+
+// A change made to every selected transaction at once
+export type BulkAction =
+  | { kind: "category"; category: string }
+  // Categories belong to a type, so changing the type also picks a category of the new type
+  | { kind: "type"; type: Exclude<ExpenseType, "transfer">; category: string }
+  | { kind: "shiftDates"; days: number }
+  | { kind: "appendNotes"; text: string }
+  | { kind: "duplicate" }
+  | { kind: "delete" }
+
+const plural = (count: number) => `${count} transaction${count === 1 ? "" : "s"}`
+
+// The transaction after an edit action; transfers keep their type since they need two accounts
+export const applyBulkEdit = (expense: Expense, action: BulkAction): Expense => {
+  switch (action.kind) {
+    case "category":
+      // A split transaction put in one category stops being split
+      return expense.type === "transfer" ? expense : { ...expense, category: action.category, splits: undefined }
+    case "type":
+      return expense.type === "transfer"
+        ? expense
+        : { ...expense, type: action.type, category: action.category, splits: undefined }
+    case "shiftDates":
+      // Kept as a full timestamp, like every other saved date
+      return { ...expense, date: addDays(parseISO(expense.date), action.days).toISOString() }
+    case "appendNotes": {
+      const text = action.text.trim()
+      if (!text) return expense
+      return { ...expense, notes: expense.notes.trim() ? `${expense.notes.trim()} ${text}` : text }
+    }
+    default:
+      return expense
+  }
+}
+
+// Copies get new ids and no bank id, so a later statement import still matches the original
+export const duplicateExpenses = (expenses: Expense[]): Expense[] =>
+  expenses.map(({ externalId, updatedAt, ...expense }) => ({ ...expense, id: crypto.randomUUID() }))
+
+export const describeBulkAction = (action: BulkAction, count: number): string => {
+  switch (action.kind) {
+    case "category":
+      return `Moved ${plural(count)} to ${action.category}`
+    case "type":
+      return `Changed ${plural(count)} to ${action.type} in ${action.category}`
+    case "shiftDates":
+      return `Moved ${plural(count)} ${Math.abs(action.days)} day${Math.abs(action.days) === 1 ? "" : "s"} ${
+        action.days < 0 ? "earlier" : "later"
+      }`
+    case "appendNotes":
+      return `Added to the notes of ${plural(count)}`
+    case "duplicate":
+      return `Duplicated ${plural(count)}`
+    case "delete":
+      return `Deleted ${plural(count)}`
+  }
+}
+
+// Apply an action to the selected transactions as one batch, recorded as a single history entry.
+// Returns what was done, e.g. "Moved 12 transactions to Groceries", or null when nothing needed changing.
+export const runBulkAction = async (expenses: Expense[], action: BulkAction): Promise<string | null> => {
+  let summary = describeBulkAction(action, expenses.length)
+  let undo: HistoryOperation[]
+  let redo: HistoryOperation[]
+
+  if (action.kind === "delete") {
+    const ids = expenses.map((expense) => expense.id)
+    const attachments = await getAttachmentsForUndo(ids)
+    await expenseService.deleteExpenses(ids, { skipHistory: true })
+    undo = [{ kind: "addExpenses", expenses, attachments }]
+    redo = [{ kind: "deleteExpenses", ids }]
+  } else if (action.kind === "duplicate") {
+    const copies = await expenseService.addExpenses(duplicateExpenses(expenses), { skipHistory: true })
+    undo = [{ kind: "deleteExpenses", ids: copies.map((copy) => copy.id) }]
+    redo = [{ kind: "addExpenses", expenses: copies }]
+  } else {
+    // Only rows the action actually changes are written, and only those are restored
+    const changed = expenses
+      .map((expense) => ({ before: expense, after: applyBulkEdit(expense, action) }))
+      .filter(({ before, after }) => before !== after)
+
+    // Nothing to write, so nothing to undo either
+    if (changed.length === 0) return null
+
+    const saved = await expenseService.updateExpenses(changed.map(({ after }) => after), { skipHistory: true })
+    summary = describeBulkAction(action, changed.length)
+    undo = [{ kind: "updateExpenses", expenses: changed.map(({ before }) => before) }]
+    redo = [{ kind: "updateExpenses", expenses: saved }]
+  }
+
+  recordHistory(summary, undo, redo)
+  return summary
+}
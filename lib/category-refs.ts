@@ -0,0 +1,95 @@
+import type { Category, Expense, ExpenseSplit } from "@/types/expense"
+
+// Transactions point at their category by id. The category name stored next to the id is only
+// what it was called when the row was written, so current names are looked up here on read, and
+// renames, merges and deletes never have to rewrite transaction rows.
+type CategoryRef = Pick<Category, "id" | "name" | "type" | "mergedInto">
+
+let refsById = new Map<string, CategoryRef>()
+let idsByNameAndType = new Map<string, string>()
+// Bumped whenever the categories change, so cached transactions know to look their names up again
+let refsVersion = 0
+
+const nameKey = (name: string, type: string) => `${type}:${name}`
+
+// Every category row, including ones merged into another, as last read from the database
+export const setCategoryRefs = (categories: CategoryRef[]): void => {
+  refsById = new Map(categories.map((category) => [category.id, category]))
+  idsByNameAndType = new Map(
+    categories
+      .filter((category) => !category.mergedInto)
+      .map((category) => [nameKey(category.name, category.type), category.id]),
+  )
+  refsVersion++
+}
+
+export const getCategoryRefsVersion = (): number => refsVersion
+
+// The category an id stands for now, following merges; undefined for unknown or deleted ids
+export const getCategoryRef = (id: string | undefined): CategoryRef | undefined => {
+  let ref = id ? refsById.get(id) : undefined
+  // Merged categories point at the category that took them over; the guard stops on a cycle
+  for (let hops = 0; ref?.mergedInto && hops < refsById.size; hops++) {
+    ref = refsById.get(ref.mergedInto)
+  }
+  return ref?.mergedInto ? undefined : ref
+}
+
+export const findCategoryId = (name: string, type: string): string | undefined =>
+  idsByNameAndType.get(nameKey(name, type))
+
+// Ids of the current categories with any of the names, of any type, e.g. for a category filter
+export const getCategoryIdsByName = (names: string[]): string[] => {
+  const wanted = new Set(names)
+  return Array.from(refsById.values())
+    .filter((category) => !category.mergedInto && wanted.has(category.name))
+    .map((category) => category.id)
+}
+
+// Ids of the current categories whose name passes the test, e.g. for a text search
+export const findCategoryIds = (test: (name: string) => boolean): string[] =>
+  Array.from(refsById.values())
+    .filter((category) => !category.mergedInto && test(category.name))
+    .map((category) => category.id)
+
+// Current names for a selection saved as names plus the ids they stood for, e.g. a filter preset.
+// The names are kept as saved while none of the ids is known, e.g. before the categories have loaded.
+export const resolveCategoryNames = (names: string[], ids: string[] = []): string[] => {
+  const current = ids.flatMap((id) => getCategoryRef(id)?.name ?? [])
+  return current.length > 0 ? Array.from(new Set(current)) : names
+}
+
+// Anything that names a category of a known type: a transaction or split line, a template, a rule
+export type CategoryLine = Pick<ExpenseSplit, "category" | "categoryId">
+
+// For reading: the id decides, and the name is brought up to date. Rows written before ids existed
+// are matched by name and type.
+export const resolveCategoryRef = (line: CategoryLine, type: string): CategoryLine => {
+  const ref = getCategoryRef(line.categoryId)
+  if (ref) return { category: ref.name, categoryId: ref.id }
+  return { category: line.category, categoryId: findCategoryId(line.category, type) || line.categoryId }
+}
+
+// For writing: the name decides, since it is what the user picked. The id is kept when the name no
+// longer matches any category, e.g. a template saved before its category was renamed.
+export const attachCategoryRef = (line: CategoryLine, type: string): CategoryLine => {
+  const id = findCategoryId(line.category, type)
+  if (id) return { category: line.category, categoryId: id }
+  const ref = getCategoryRef(line.categoryId)
+  return ref ? { category: ref.name, categoryId: ref.id } : { category: line.category, categoryId: undefined }
+}
+
+const withRefs = (expense: Expense, resolve: (line: CategoryLine, type: string) => CategoryLine): Expense => {
+  if (expense.type === "transfer") return expense
+  return {
+    ...expense,
+    ...resolve(expense, expense.type),
+    splits: expense.splits?.map((split) => ({ ...split, ...resolve(split, expense.type) })),
+  }
+}
+
+// The transaction with its category and split lines under their current names
+export const resolveCategoryRefs = (expense: Expense): Expense => withRefs(expense, resolveCategoryRef)
+
+// The transaction with ids for the categories it names, ready to be saved
+export const attachCategoryRefs = (expense: Expense): Expense => withRefs(expense, attachCategoryRef)
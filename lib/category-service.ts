@@ -1,13 +1,32 @@
 import { getSupabaseBrowserClient } from "@/lib/supabase"
-import { expenseService } from "@/lib/expense-service"
-import type { ExpenseType } from "@/types/expense"
+import { expenseService, EXPENSES_UPDATED_EVENT } from "@/lib/expense-service"
+import { format } from "date-fns"
+import { getBudgetHistory, getCurrentBudgetStatus } from "@/lib/budget"
+import { getCategoryAmount, getCategoryIdAmount, usesCategoryId } from "@/lib/splits"
+import { recordHistory } from "@/lib/history"
+import { getAdoptiveParentId, getCategoryFamilyIds, validateParent } from "@/lib/category-tree"
+import { getCategoryRef, resolveCategoryRefs, setCategoryRefs } from "@/lib/category-refs"
+import { currencyService } from "@/lib/currency-service"
+import type { Expense, ExpenseSplit, ExpenseType } from "@/types/expense"
+import type { BudgetPeriod, BudgetPeriodSummary, BudgetSettings } from "@/types/budget"
+import type { HistoryOperation, HistoryOptions } from "@/types/history"
 
 export interface Category {
   id: string
   name: string
   description?: string
   type: ExpenseType
+  // Top-level category this one is a subcategory of, e.g. Food for Groceries
+  parentId?: string
+  // Category that took this one over in a merge or delete. The row is kept so transactions still
+  // pointing at it resolve to the category that replaced it; it is hidden everywhere else.
+  mergedInto?: string
   budget?: number
+  budgetPeriod?: BudgetPeriod
+  budgetPeriodDays?: number
+  budgetStartDate?: string
+  budgetRollover?: boolean
+  budgetStatus?: BudgetPeriodSummary
   color?: string
   icon?: string
   isDefault?: boolean
@@ -41,11 +60,15 @@ let recentCategoriesCache: (Category & { spending: number })[] | null = null
 let lastRecentFetchTime = 0
 const RECENT_CACHE_TTL = 60000 // 60 seconds
 
+// Filling in category ids on transactions saved before they existed, once per session
+let categoryIdBackfill: Promise<void> | null = null
+
 // Create custom event names for category updates
 export const CATEGORY_UPDATED_EVENT = "category-updated"
 export const CATEGORY_SYNC_EVENT = "category-sync"
 
-// Function to dispatch category update event
+// Function to dispatch category update event. oldName is a name that now stands for this category:
+// its previous name after a rename, or the name of a category merged into it.
 export const dispatchCategoryUpdate = (category: Category, oldName?: string) => {
   if (typeof window !== "undefined") {
     const event = new CustomEvent(CATEGORY_UPDATED_EVENT, {
@@ -68,6 +91,24 @@ export const dispatchCategorySync = () => {
   }
 }
 
+// Map budget period columns to our interface (snake_case to camelCase)
+const mapDbBudgetFields = (row: any) => ({
+  budgetPeriod: (row.budget_period || "monthly") as BudgetPeriod,
+  budgetPeriodDays: row.budget_period_days || undefined,
+  budgetStartDate: row.budget_start_date || undefined,
+  budgetRollover: row.budget_rollover ?? false,
+})
+
+// Map budget period fields to database columns (camelCase to snake_case)
+const mapBudgetFieldsToDb = (fields: Partial<Category>) => {
+  const dbFields: any = {}
+  if ("budgetPeriod" in fields) dbFields.budget_period = fields.budgetPeriod
+  if ("budgetPeriodDays" in fields) dbFields.budget_period_days = fields.budgetPeriodDays || null
+  if ("budgetStartDate" in fields) dbFields.budget_start_date = fields.budgetStartDate || null
+  if ("budgetRollover" in fields) dbFields.budget_rollover = fields.budgetRollover
+  return dbFields
+}
+
 // Helper function to check if a table has a specific column
 async function checkColumnExists(supabase: any, tableName: string, columnName: string): Promise<boolean> {
   try {
@@ -146,6 +187,36 @@ async function createCategoriesTable(supabase: any) {
       }
     }
 
+    // Add parent_id column for subcategories if it doesn't exist
+    const hasParentId = await checkColumnExists(supabase, "categories", "parent_id")
+    if (!hasParentId) {
+      console.log("Adding parent_id column to categories table")
+      try {
+        const { error: columnError } = await supabase.rpc("add_parent_id_column")
+        if (columnError) {
+          console.error("Error adding parent_id column:", columnError)
+          // Non-critical error, subcategories are unavailable until it exists
+        }
+      } catch (columnError) {
+        console.error("Exception adding parent_id column:", columnError)
+      }
+    }
+
+    // Add merged_into column for categories kept after a merge or delete if it doesn't exist
+    const hasMergedInto = await checkColumnExists(supabase, "categories", "merged_into")
+    if (!hasMergedInto) {
+      console.log("Adding merged_into column to categories table")
+      try {
+        const { error: columnError } = await supabase.rpc("add_merged_into_column")
+        if (columnError) {
+          console.error("Error adding merged_into column:", columnError)
+          // Non-critical error, merges fail until it exists
+        }
+      } catch (columnError) {
+        console.error("Exception adding merged_into column:", columnError)
+      }
+    }
+
     return true
   } catch (error) {
     console.error("Error in createCategoriesTable:", error)
@@ -193,6 +264,219 @@ async function retrySupabaseQuery<T>(
   return { data: null, error: lastError }
 }
 
+type BackfillRow = {
+  id: string
+  type: string
+  category: string
+  category_id: string | null
+  splits: ExpenseSplit[] | null
+}
+
+// Give transactions saved before categories were referenced by id the id of the category they name.
+// Until this has run, rows without an id are still matched by the name they were saved with.
+async function backfillCategoryIds(supabase: any, categories: Category[]): Promise<void> {
+  const hasCategoryId = await checkColumnExists(supabase, "expenses", "category_id")
+  if (!hasCategoryId) {
+    console.log("Adding category_id column to expenses table")
+    const { error: columnError } = await supabase.rpc("add_category_id_column")
+    if (columnError) {
+      console.error("Error adding category_id column:", columnError)
+      return
+    }
+  }
+
+  const { data, error } = await retrySupabaseQuery<BackfillRow[]>(() =>
+    supabase
+      .from("expenses")
+      .select("id, type, category, category_id, splits")
+      .or("category_id.is.null,splits.not.is.null"),
+  )
+
+  if (error) {
+    // Table doesn't exist yet, so there is nothing to fill in
+    if (error.code === "42P01") return
+    console.error("Error fetching expenses without category ids:", error)
+    throw error
+  }
+
+  const rows = data || []
+  const findId = (name: string, type: string) =>
+    categories.find((category) => category.type === type && category.name === name)?.id
+
+  // Unsplit rows are updated a category at a time
+  const groups = new Map<string, { type: string; category: string }>()
+  rows
+    .filter((row) => row.type !== "transfer" && !row.category_id)
+    .forEach((row) => groups.set(`${row.type}:${row.category}`, { type: row.type, category: row.category }))
+
+  let updatedCount = 0
+  for (const { type, category } of Array.from(groups.values())) {
+    const categoryId = findId(category, type)
+    if (!categoryId) continue
+
+    const { error: updateError } = await retrySupabaseQuery(() =>
+      supabase
+        .from("expenses")
+        .update({ category_id: categoryId })
+        .eq("type", type)
+        .eq("category", category)
+        .is("category_id", null),
+    )
+
+    if (updateError) {
+      console.error("Error filling in category ids:", updateError)
+      throw updateError
+    }
+    updatedCount++
+  }
+
+  // Split lines live in a JSON column, so those rows are updated one by one
+  for (const row of rows) {
+    if (!row.splits?.some((split) => !split.categoryId && findId(split.category, row.type))) continue
+    const splits = row.splits.map((split) =>
+      split.categoryId ? split : { ...split, categoryId: findId(split.category, row.type) },
+    )
+
+    const { error: updateError } = await retrySupabaseQuery(() =>
+      supabase.from("expenses").update({ splits }).eq("id", row.id),
+    )
+
+    if (updateError) {
+      console.error("Error filling in split category ids:", updateError)
+      throw updateError
+    }
+    updatedCount++
+  }
+
+  if (updatedCount > 0) {
+    console.log(`Filled in category ids for ${updatedCount} categories and split expenses`)
+  }
+}
+
+// The backfill, started once; a failed run is retried the next time it is needed
+const ensureCategoryIds = (supabase: any, categories: Category[]): Promise<void> => {
+  if (!categoryIdBackfill) {
+    categoryIdBackfill = backfillCategoryIds(supabase, categories).catch((error) => {
+      console.error("Error in backfillCategoryIds:", error)
+      categoryIdBackfill = null
+    })
+  }
+  return categoryIdBackfill
+}
+
+// Map a categories row to our interface (snake_case to camelCase)
+const mapDbCategory = (row: any): Category => ({
+  id: row.id,
+  name: row.name,
+  description: row.description,
+  type: row.type as ExpenseType,
+  parentId: row.parent_id || undefined,
+  mergedInto: row.merged_into || undefined,
+  budget: row.budget,
+  ...mapDbBudgetFields(row),
+  color: row.color,
+  icon: row.icon,
+  isDefault: row.is_default,
+  usageCount: row.usage_count || 0,
+  lastUsed: row.last_used,
+})
+
+// Subcategories nest one level deep under a top-level category of the same type
+const assertValidParent = async (category: Pick<Category, "id" | "type">, parentId?: string): Promise<void> => {
+  if (!parentId) return
+  const problem = validateParent(category, parentId, await categoryService.getCategories())
+  if (problem) {
+    throw new Error(problem)
+  }
+}
+
+// Move the subcategories of a category being deleted or merged away, under the category taking over its
+// transactions where possible. Returns them as they were, for undo; the replacement comes last so undoing
+// puts its former siblings back before it becomes a subcategory again.
+async function moveSubcategories(
+  supabase: any,
+  removedId: string,
+  replacement?: Pick<Category, "id" | "parentId">,
+): Promise<Category[]> {
+  const hasParentId = await checkColumnExists(supabase, "categories", "parent_id")
+  if (!hasParentId) return []
+
+  const { data, error } = await retrySupabaseQuery<any[]>(() =>
+    supabase.from("categories").select("*").eq("parent_id", removedId),
+  )
+
+  if (error) {
+    console.error("Error fetching subcategories:", error)
+    throw error
+  }
+
+  const adoptiveParentId = getAdoptiveParentId(removedId, replacement) || null
+  const subcategories = (data || [])
+    .map(mapDbCategory)
+    .sort((a, b) => Number(a.id === replacement?.id) - Number(b.id === replacement?.id))
+
+  for (const subcategory of subcategories) {
+    const parentId = subcategory.id === replacement?.id ? null : adoptiveParentId
+    const { error: updateError } = await retrySupabaseQuery(() =>
+      supabase.from("categories").update({ parent_id: parentId }).eq("id", subcategory.id),
+    )
+
+    if (updateError) {
+      console.error("Error moving subcategory:", updateError)
+      throw updateError
+    }
+  }
+
+  return subcategories
+}
+
+// Undo steps putting moved subcategories back under their old parent
+const restoreSubcategories = (subcategories: Category[]): HistoryOperation[] =>
+  subcategories.map((subcategory) => ({
+    kind: "updateCategory",
+    id: subcategory.id,
+    updates: { parentId: subcategory.parentId },
+  }))
+
+// Keep a category being merged or deleted as a hidden row pointing at the category taking over its
+// transactions, so they follow without being rewritten. The row is renamed so the name is free again.
+async function retireCategory(supabase: any, category: Category, replacement: Category): Promise<void> {
+  const hasMergedInto = await checkColumnExists(supabase, "categories", "merged_into")
+  if (!hasMergedInto) {
+    throw new Error("Categories can't be merged until the database has been updated")
+  }
+
+  const { error } = await retrySupabaseQuery(() =>
+    supabase
+      .from("categories")
+      .update({ merged_into: replacement.id, parent_id: null, name: `${category.name} (merged ${category.id})` })
+      .eq("id", category.id),
+  )
+
+  if (error) {
+    console.error("Error retiring category:", error)
+    throw error
+  }
+}
+
+// Undo step bringing a retired category back under its own name
+const reviveCategory = (category: Category): HistoryOperation => ({
+  kind: "updateCategory",
+  id: category.id,
+  updates: { name: category.name, mergedInto: undefined },
+})
+
+// Read the categories again so transactions show the names they now resolve to
+async function refreshCategoryRefs(): Promise<void> {
+  categoriesCache = null
+  recentExpensesCache = null
+  recentCategoriesCache = null
+  await categoryService.getCategories().catch(() => [])
+  if (typeof window !== "undefined") {
+    window.dispatchEvent(new CustomEvent(EXPENSES_UPDATED_EVENT))
+  }
+}
+
 export const categoryService = {
   async getCategories(): Promise<Category[]> {
     try {
@@ -233,12 +517,15 @@ export const categoryService = {
 
       if (categoriesData && categoriesData.length > 0) {
         // Map database columns to our interface (snake_case to camelCase)
-        const mappedCategories = categoriesData.map((cat) => ({
+        const mappedCategories: Category[] = categoriesData.map((cat) => ({
           id: cat.id,
           name: cat.name,
           description: cat.description,
           type: cat.type as ExpenseType,
+          parentId: cat.parent_id || undefined,
+          mergedInto: cat.merged_into || undefined,
           budget: cat.budget,
+          ...mapDbBudgetFields(cat),
           color: cat.color,
           icon: cat.icon,
           isDefault: cat.is_default,
@@ -246,10 +533,15 @@ export const categoryService = {
           lastUsed: cat.last_used,
         }))
 
+        // Merged categories only serve to resolve the transactions that still point at them
+        setCategoryRefs(mappedCategories)
+        const activeCategories = mappedCategories.filter((category) => !category.mergedInto)
+        ensureCategoryIds(supabase, activeCategories)
+
         // Update cache
-        categoriesCache = mappedCategories
+        categoriesCache = activeCategories
         lastFetchTime = now
-        return mappedCategories
+        return activeCategories
       }
 
       // If no categories found, initialize from expense service
@@ -260,6 +552,17 @@ export const categoryService = {
     }
   },
 
+  // Drop the cached categories so the next read goes to the database
+  clearCache(): void {
+    categoriesCache = null
+    lastFetchTime = 0
+    // e.g. after a restore brought back transactions without category ids
+    categoryIdBackfill = null
+    recentExpensesCache = null
+    recentCategoriesCache = null
+    lastRecentFetchTime = 0
+  },
+
   async migrateCategoriesToTable(): Promise<Category[]> {
     try {
       // Get categories from expense service
@@ -345,7 +648,7 @@ export const categoryService = {
     }
   },
 
-  async addCategory(category: Omit<Category, "id">): Promise<Category> {
+  async addCategory(category: Omit<Category, "id">, options: HistoryOptions = {}): Promise<Category> {
     try {
       const supabase = getSupabaseBrowserClient()
 
@@ -359,6 +662,8 @@ export const categoryService = {
 
       const userId = session.user.id
 
+      await assertValidParent({ id: "", type: category.type }, category.parentId)
+
       // Generate a proper UUID for the id
       const id = crypto.randomUUID()
 
@@ -373,6 +678,7 @@ export const categoryService = {
         description: category.description,
         type: category.type,
         budget: category.budget,
+        ...mapBudgetFieldsToDb(category),
         color: category.color,
         icon: category.icon,
         is_default: category.isDefault === undefined ? false : category.isDefault, // Use snake_case for database column
@@ -384,6 +690,11 @@ export const categoryService = {
         dbCategory.last_used = category.lastUsed
       }
 
+      // Top-level categories leave parent_id out, so databases without the column keep working
+      if (category.parentId) {
+        dbCategory.parent_id = category.parentId
+      }
+
       const { data, error } = await retrySupabaseQuery(() =>
         supabase.from("categories").insert(dbCategory).select().single(),
       )
@@ -399,7 +710,9 @@ export const categoryService = {
         name: data.name,
         description: data.description,
         type: data.type as ExpenseType,
+        parentId: data.parent_id || undefined,
         budget: data.budget,
+        ...mapDbBudgetFields(data),
         color: data.color,
         icon: data.icon,
         isDefault: data.is_default,
@@ -415,6 +728,13 @@ export const categoryService = {
       dispatchCategoryUpdate(newCategory)
       dispatchCategorySync()
 
+      recordHistory(
+        `Added category ${newCategory.name}`,
+        [{ kind: "deleteCategory", id: newCategory.id }],
+        [{ kind: "restoreCategory", category: newCategory }],
+        options,
+      )
+
       return newCategory
     } catch (error) {
       console.error("Error in addCategory:", error)
@@ -422,7 +742,78 @@ export const categoryService = {
     }
   },
 
-  async updateCategory(id: string, updates: Partial<Omit<Category, "id">>): Promise<Category> {
+  // Put back a deleted category with its original id, e.g. when undoing a delete or merge
+  async restoreCategory(category: Category): Promise<Category> {
+    try {
+      const supabase = getSupabaseBrowserClient()
+
+      const {
+        data: { session },
+      } = await supabase.auth.getSession()
+      if (!session) {
+        throw new Error("User not authenticated")
+      }
+
+      const hasLastUsed = await checkColumnExists(supabase, "categories", "last_used")
+
+      const dbCategory: any = {
+        id: category.id,
+        user_id: session.user.id,
+        name: category.name,
+        description: category.description,
+        type: category.type,
+        budget: category.budget,
+        ...mapBudgetFieldsToDb(category),
+        color: category.color,
+        icon: category.icon,
+        is_default: category.isDefault ?? false,
+        usage_count: category.usageCount || 0,
+      }
+
+      // Only include last_used if the column exists
+      if (hasLastUsed && category.lastUsed) {
+        dbCategory.last_used = category.lastUsed
+      }
+
+      // Only include parent_id for subcategories
+      if (category.parentId) {
+        dbCategory.parent_id = category.parentId
+      }
+
+      // Only include merged_into for categories kept after a merge
+      if (category.mergedInto) {
+        dbCategory.merged_into = category.mergedInto
+      }
+
+      const { data, error } = await retrySupabaseQuery(() =>
+        supabase.from("categories").upsert(dbCategory, { onConflict: "id" }).select().single(),
+      )
+
+      if (error) {
+        console.error("Error restoring category:", error)
+        throw error
+      }
+
+      const restoredCategory = mapDbCategory(data)
+
+      // Transactions still pointing at the category show it again
+      await refreshCategoryRefs()
+
+      dispatchCategoryUpdate(restoredCategory)
+      dispatchCategorySync()
+
+      return restoredCategory
+    } catch (error) {
+      console.error("Error in restoreCategory:", error)
+      throw error
+    }
+  },
+
+  async updateCategory(
+    id: string,
+    updates: Partial<Omit<Category, "id">>,
+    options: HistoryOptions = {},
+  ): Promise<Category> {
     try {
       const supabase = getSupabaseBrowserClient()
 
@@ -436,11 +827,28 @@ export const categoryService = {
         throw fetchError
       }
 
+      // Values the update replaces, for undo
+      const previous = mapDbCategory(currentCategory)
+      if ("parentId" in updates) {
+        await assertValidParent(previous, updates.parentId)
+      }
+      const isRename = !!updates.name && updates.name !== currentCategory.name
+
+      // Transactions are only matched by name until they have the category's id, so they get it first
+      if (isRename) {
+        await ensureCategoryIds(supabase, await this.getCategories())
+      }
+
       // Check if last_used column exists
       const hasLastUsed = await checkColumnExists(supabase, "categories", "last_used")
 
       // Map our interface to database columns (camelCase to snake_case)
-      const dbUpdates: any = { ...updates }
+      const dbUpdates: any = { ...updates, ...mapBudgetFieldsToDb(updates) }
+      delete dbUpdates.budgetPeriod
+      delete dbUpdates.budgetPeriodDays
+      delete dbUpdates.budgetStartDate
+      delete dbUpdates.budgetRollover
+      delete dbUpdates.budgetStatus
       if ("isDefault" in updates) {
         dbUpdates.is_default = updates.isDefault
         delete dbUpdates.isDefault
@@ -449,6 +857,14 @@ export const categoryService = {
         dbUpdates.usage_count = updates.usageCount
         delete dbUpdates.usageCount
       }
+      if ("parentId" in updates) {
+        dbUpdates.parent_id = updates.parentId || null
+        delete dbUpdates.parentId
+      }
+      if ("mergedInto" in updates) {
+        dbUpdates.merged_into = updates.mergedInto || null
+        delete dbUpdates.mergedInto
+      }
       if ("lastUsed" in updates) {
         // Only include last_used if the column exists
         if (hasLastUsed) {
@@ -472,7 +888,10 @@ export const categoryService = {
         name: data.name,
         description: data.description,
         type: data.type as ExpenseType,
+        parentId: data.parent_id || undefined,
+        mergedInto: data.merged_into || undefined,
         budget: data.budget,
+        ...mapDbBudgetFields(data),
         color: data.color,
         icon: data.icon,
         isDefault: data.is_default,
@@ -480,57 +899,37 @@ export const categoryService = {
         lastUsed: data.last_used,
       }
 
-      // Invalidate cache
-      categoriesCache = null
-      recentCategoriesCache = null
-
-      // If the name was updated, we need to update all expenses with this category
+      // Transactions refer to the category by id, so a new name only has to be picked up on read
       const oldName = currentCategory.name
-      if (updates.name && oldName !== updates.name) {
-        await this.updateExpenseCategoryNames(oldName, updates.name, data.type)
+      if (isRename || "mergedInto" in updates) {
+        await refreshCategoryRefs()
+      } else {
+        categoriesCache = null
+        recentCategoriesCache = null
       }
 
       // Dispatch update event with both old and new category data
       dispatchCategoryUpdate(updatedCategory, updates.name && oldName !== updates.name ? oldName : undefined)
       dispatchCategorySync()
 
-      return updatedCategory
-    } catch (error) {
-      console.error("Error in updateCategory:", error)
-      throw error
-    }
-  },
-
-  async updateExpenseCategoryNames(oldName: string, newName: string, type: string): Promise<void> {
-    try {
-      const supabase = getSupabaseBrowserClient()
-
-      // Update all expenses with the old category name to use the new name
-      const { data, error } = await retrySupabaseQuery(() =>
-        supabase.from("expenses").update({ category: newName }).eq("category", oldName).eq("type", type),
+      const previousValues = Object.fromEntries(
+        Object.keys(updates).map((key) => [key, previous[key as keyof Category]]),
+      ) as Partial<Omit<Category, "id">>
+      recordHistory(
+        isRename ? `Renamed category ${oldName} to ${updatedCategory.name}` : `Edited category ${oldName}`,
+        [{ kind: "updateCategory", id, updates: previousValues }],
+        [{ kind: "updateCategory", id, updates }],
+        options,
       )
 
-      if (error) {
-        console.error("Error updating expense category names:", error)
-        throw error
-      }
-
-      const updatedCount = data?.length || 0
-      console.log(`Updated ${updatedCount} expenses from category "${oldName}" to "${newName}"`)
-
-      // Invalidate recent expenses cache
-      recentExpensesCache = null
-      recentCategoriesCache = null
-
-      // Trigger a global sync event to refresh all components
-      dispatchCategorySync()
+      return updatedCategory
     } catch (error) {
-      console.error("Error in updateExpenseCategoryNames:", error)
+      console.error("Error in updateCategory:", error)
       throw error
     }
   },
 
-  async deleteCategory(id: string, replacementCategoryId?: string): Promise<void> {
+  async deleteCategory(id: string, replacementCategoryId?: string, options: HistoryOptions = {}): Promise<void> {
     try {
       const supabase = getSupabaseBrowserClient()
 
@@ -544,21 +943,33 @@ export const categoryService = {
         throw fetchError
       }
 
-      // If a replacement category is provided, reassign expenses first
-      if (replacementCategoryId) {
-        await this.reassignExpenses(id, replacementCategoryId)
+      const categories = await this.getCategories()
+      const replacement = replacementCategoryId
+        ? categories.find((category) => category.id === replacementCategoryId)
+        : undefined
+      if (replacementCategoryId && !replacement) {
+        throw new Error("Replacement category not found")
+      }
+      if (replacement && replacement.type !== categoryToDelete.type) {
+        throw new Error("Cannot reassign expenses between different category types")
       }
 
-      const { error } = await retrySupabaseQuery(() => supabase.from("categories").delete().eq("id", id))
+      const movedSubcategories = await moveSubcategories(supabase, id, replacement)
 
-      if (error) {
-        console.error("Error deleting category:", error)
-        throw error
+      if (replacement) {
+        // Its transactions move to the replacement by keeping the category as a pointer to it
+        await ensureCategoryIds(supabase, categories)
+        await retireCategory(supabase, mapDbCategory(categoryToDelete), replacement)
+      } else {
+        const { error } = await retrySupabaseQuery(() => supabase.from("categories").delete().eq("id", id))
+
+        if (error) {
+          console.error("Error deleting category:", error)
+          throw error
+        }
       }
 
-      // Invalidate cache
-      categoriesCache = null
-      recentCategoriesCache = null
+      await refreshCategoryRefs()
 
       // Dispatch update event for deletion (with empty name to indicate deletion)
       dispatchCategoryUpdate({
@@ -567,14 +978,27 @@ export const categoryService = {
         type: categoryToDelete.type as ExpenseType,
         isDefault: categoryToDelete.is_default,
       })
+      if (replacement) dispatchCategoryUpdate(replacement, mapDbCategory(categoryToDelete).name)
       dispatchCategorySync()
+
+      recordHistory(
+        `Deleted category ${categoryToDelete.name}`,
+        [
+          replacement
+            ? reviveCategory(mapDbCategory(categoryToDelete))
+            : { kind: "restoreCategory", category: mapDbCategory(categoryToDelete) },
+          ...restoreSubcategories(movedSubcategories),
+        ],
+        [{ kind: "deleteCategory", id, replacementId: replacementCategoryId }],
+        options,
+      )
     } catch (error) {
       console.error("Error in deleteCategory:", error)
       throw error
     }
   },
 
-  async mergeCategories(sourceId: string, targetId: string): Promise<void> {
+  async mergeCategories(sourceId: string, targetId: string, options: HistoryOptions = {}): Promise<void> {
     try {
       const supabase = getSupabaseBrowserClient()
 
@@ -599,14 +1023,14 @@ export const categoryService = {
         throw new Error("Cannot merge categories of different types")
       }
 
-      // Begin transaction by reassigning expenses
-      const transactionCount = await this.reassignExpenses(sourceId, targetId)
+      // Transactions are only matched by name until they have the source's id, so they get it first
+      await ensureCategoryIds(supabase, await this.getCategories())
 
       // Check if last_used column exists
       const hasLastUsed = await checkColumnExists(supabase, "categories", "last_used")
 
       // Update the usage count of the target category
-      if (transactionCount > 0) {
+      if ((sourceCategory.usage_count || 0) > 0) {
         const updates: any = {
           usage_count: (targetCategory.usage_count || 0) + (sourceCategory.usage_count || 0),
         }
@@ -619,27 +1043,24 @@ export const categoryService = {
         await retrySupabaseQuery(() => supabase.from("categories").update(updates).eq("id", targetId))
       }
 
-      // Then delete the source category
-      const { error: deleteError } = await retrySupabaseQuery(() =>
-        supabase.from("categories").delete().eq("id", sourceId),
-      )
+      // Subcategories of the source follow its transactions
+      const movedSubcategories = await moveSubcategories(supabase, sourceId, mapDbCategory(targetCategory))
 
-      if (deleteError) {
-        console.error("Error deleting source category after merge:", deleteError)
-        throw deleteError
-      }
+      // Then keep the source only as a pointer to the target, which its transactions now resolve to
+      await retireCategory(supabase, mapDbCategory(sourceCategory), mapDbCategory(targetCategory))
 
-      // Invalidate cache
-      categoriesCache = null
-      recentCategoriesCache = null
+      await refreshCategoryRefs()
 
       // Dispatch update events
-      dispatchCategoryUpdate({
-        id: targetId,
-        name: targetCategory.name,
-        type: targetCategory.type as ExpenseType,
-        usageCount: (targetCategory.usage_count || 0) + (sourceCategory.usage_count || 0),
-      })
+      dispatchCategoryUpdate(
+        {
+          id: targetId,
+          name: targetCategory.name,
+          type: targetCategory.type as ExpenseType,
+          usageCount: (targetCategory.usage_count || 0) + (sourceCategory.usage_count || 0),
+        },
+        sourceCategory.name,
+      )
       dispatchCategoryUpdate({
         id: sourceId,
         name: "",
@@ -647,71 +1068,25 @@ export const categoryService = {
       })
       dispatchCategorySync()
 
-      console.log(`Successfully merged category "${sourceCategory.name}" into "${targetCategory.name}"`)
-    } catch (error) {
-      console.error("Error in mergeCategories:", error)
-      throw error
-    }
-  },
-
-  async reassignExpenses(fromCategoryId: string, toCategoryId: string): Promise<number> {
-    try {
-      const supabase = getSupabaseBrowserClient()
-
-      // Get both categories to ensure they're of the same type
-      const { data: categories, error: fetchError } = await retrySupabaseQuery(() =>
-        supabase.from("categories").select("*").in("id", [fromCategoryId, toCategoryId]),
-      )
-
-      if (fetchError || !categories || categories.length !== 2) {
-        console.error("Error fetching categories for reassignment:", fetchError)
-        throw new Error("Failed to fetch categories for reassignment")
-      }
-
-      const fromCategory = categories.find((c) => c.id === fromCategoryId)
-      const toCategory = categories.find((c) => c.id === toCategoryId)
-
-      if (!fromCategory || !toCategory) {
-        throw new Error("One or both categories not found")
-      }
-
-      if (fromCategory.type !== toCategory.type) {
-        throw new Error("Cannot reassign expenses between different category types")
-      }
-
-      // Get all expenses for the source category
-      const { data: expenses, error: expensesError } = await retrySupabaseQuery(() =>
-        supabase.from("expenses").select("*").eq("category", fromCategory.name),
-      )
-
-      if (expensesError) {
-        console.error("Error fetching expenses:", expensesError)
-        throw expensesError
-      }
-
-      if (!expenses || expenses.length === 0) {
-        // No expenses to reassign
-        return 0
-      }
-
-      // Update all expenses to the target category
-      const { error: updateError } = await retrySupabaseQuery(() =>
-        supabase.from("expenses").update({ category: toCategory.name }).eq("category", fromCategory.name),
+      const previousTarget = mapDbCategory(targetCategory)
+      recordHistory(
+        `Merged ${sourceCategory.name} into ${targetCategory.name}`,
+        [
+          reviveCategory(mapDbCategory(sourceCategory)),
+          {
+            kind: "updateCategory",
+            id: targetId,
+            updates: { usageCount: previousTarget.usageCount, lastUsed: previousTarget.lastUsed },
+          },
+          ...restoreSubcategories(movedSubcategories),
+        ],
+        [{ kind: "mergeCategories", sourceId, targetId }],
+        options,
       )
 
-      if (updateError) {
-        console.error("Error updating expenses:", updateError)
-        throw updateError
-      }
-
-      // Invalidate recent expenses cache
-      recentExpensesCache = null
-      recentCategoriesCache = null
-
-      console.log(`Reassigned ${expenses.length} expenses from "${fromCategory.name}" to "${toCategory.name}"`)
-      return expenses.length
+      console.log(`Successfully merged category "${sourceCategory.name}" into "${targetCategory.name}"`)
     } catch (error) {
-      console.error("Error in reassignExpenses:", error)
+      console.error("Error in mergeCategories:", error)
       throw error
     }
   },
@@ -720,9 +1095,9 @@ export const categoryService = {
     try {
       const supabase = getSupabaseBrowserClient()
 
-      // Get all expenses for this category and sum them
+      // Split lines can belong to any category, so every transaction of the type is summed line by line
       const { data, error } = await retrySupabaseQuery(() =>
-        supabase.from("expenses").select("amount").eq("category", categoryName).eq("type", type),
+        supabase.from("expenses").select("category, category_id, amount, currency, splits").eq("type", type),
       )
 
       if (error) {
@@ -734,8 +1109,19 @@ export const categoryService = {
         return 0
       }
 
-      // Sum all expense amounts
-      return data.reduce((total, expense) => total + expense.amount, 0)
+      // Sum the part of each transaction that belongs to the category, under the names its ids resolve to,
+      // in the base currency
+      const expenses = currencyService.convertExpensesToBase(
+        data.map((row) =>
+          resolveCategoryRefs({
+            ...row,
+            type,
+            categoryId: row.category_id || undefined,
+            splits: row.splits || undefined,
+          } as Expense),
+        ),
+      )
+      return expenses.reduce((total, expense) => total + getCategoryAmount(expense, categoryName), 0)
     } catch (error) {
       console.error("Error in getCategorySpending:", error)
       throw error
@@ -748,8 +1134,8 @@ export const categoryService = {
       const categories = await this.getCategories()
       console.log(`Retrieved ${categories.length} categories`)
 
-      // Get all expenses
-      const expenses = await expenseService.getExpenses()
+      // Get all expenses, in the base currency so spending and budgets add up
+      const expenses = currencyService.convertExpensesToBase(await expenseService.getExpenses())
       console.log(`Retrieved ${expenses.length} expenses for spending calculation`)
 
       // Check if last_used column exists
@@ -758,8 +1144,12 @@ export const categoryService = {
 
       // Calculate spending and usage for each category
       const result = categories.map((category) => {
-        const categoryExpenses = expenses.filter((e) => e.category === category.name && e.type === category.type)
-        const spending = categoryExpenses.reduce((total, expense) => total + expense.amount, 0)
+        // Matched by id, split lines included, so renamed and merged categories keep their transactions
+        const categoryExpenses = expenses.filter((e) => e.type === category.type && usesCategoryId(e, category.id))
+        const spending = categoryExpenses.reduce(
+          (total, expense) => total + getCategoryIdAmount(expense, category.id),
+          0,
+        )
         const usageCount = categoryExpenses.length
 
         console.log(`Category "${category.name}" (${category.type}): ${usageCount} transactions, ₹${spending} spending`)
@@ -783,6 +1173,14 @@ export const categoryService = {
           spending,
           usageCount,
           lastUsed,
+          // Budgets are compared against the current period, not lifetime spending
+          // A parent's budget also covers its subcategories' transactions
+          budgetStatus: getCurrentBudgetStatus(
+            category,
+            expenses,
+            new Date(),
+            getCategoryFamilyIds(category, categories),
+          ),
         }
       })
 
@@ -869,7 +1267,7 @@ export const categoryService = {
             // Extract unique categories from recent expenses
             const recentCategoryNames = new Set<string>()
             recentExpenses?.forEach((expense) => {
-              recentCategoryNames.add(expense.category)
+              recentCategoryNames.add(getCategoryRef(expense.category_id || undefined)?.name || expense.category)
             })
 
             console.log(`Unique category names from recent expenses: ${recentCategoryNames.size}`)
@@ -925,8 +1323,25 @@ export const categoryService = {
     }
   },
 
+  // Budget vs. actual for the most recent periods of a category, oldest first
+  async getBudgetHistory(categoryId: string, periods = 6): Promise<BudgetPeriodSummary[]> {
+    try {
+      const categories = await this.getCategories()
+      const category = categories.find((c) => c.id === categoryId)
+      if (!category) {
+        throw new Error("Category not found")
+      }
+
+      const expenses = currencyService.convertExpensesToBase(await expenseService.getExpenses())
+      return getBudgetHistory(category, expenses, periods, new Date(), getCategoryFamilyIds(category, categories))
+    } catch (error) {
+      console.error("Error in getBudgetHistory:", error)
+      throw error
+    }
+  },
+
   // Add a new function to specifically update a category's budget limit
-  async updateCategoryLimit(categoryId: string, budget?: number): Promise<Category> {
+  async updateCategoryLimit(categoryId: string, budget?: number, settings?: BudgetSettings): Promise<Category> {
     try {
       const supabase = getSupabaseBrowserClient()
 
@@ -940,9 +1355,24 @@ export const categoryService = {
         throw fetchError
       }
 
-      // Update only the budget field
+      // Update only the budget fields
+      const budgetUpdates: any = { budget: budget ?? null }
+      if (settings) {
+        Object.assign(
+          budgetUpdates,
+          mapBudgetFieldsToDb({
+            budgetPeriod: settings.period,
+            budgetPeriodDays: settings.period === "custom" ? settings.periodDays : undefined,
+            // Rollover and custom periods need a fixed starting point
+            budgetStartDate:
+              settings.startDate || currentCategory.budget_start_date || format(new Date(), "yyyy-MM-dd"),
+            budgetRollover: settings.rollover,
+          }),
+        )
+      }
+
       const { data, error } = await retrySupabaseQuery(() =>
-        supabase.from("categories").update({ budget }).eq("id", categoryId).select().single(),
+        supabase.from("categories").update(budgetUpdates).eq("id", categoryId).select().single(),
       )
 
       if (error) {
@@ -956,7 +1386,9 @@ export const categoryService = {
         name: data.name,
         description: data.description,
         type: data.type as ExpenseType,
+        parentId: data.parent_id || undefined,
         budget: data.budget,
+        ...mapDbBudgetFields(data),
         color: data.color,
         icon: data.icon,
         isDefault: data.is_default,
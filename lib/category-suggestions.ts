@@ -0,0 +1,169 @@
+import { getDay, parseISO } from "date-fns"
+import type { Expense, ExpenseType } from "@/types/expense"
+
+// Types whose transactions have a category to suggest
+export type SuggestionType = Exclude<ExpenseType, "transfer">
+
+// What the model looks at in a transaction
+export interface SuggestionFeatures {
+  type: SuggestionType
+  // Lowercase words from the notes
+  tokens: string[]
+  // Order of magnitude of the amount, so 450 and 480 look alike but 45 does not
+  amountBucket: number
+  // 0 = Sunday
+  weekday: number
+}
+
+// A labelled example the model learns from, weighted by how much it should count
+export interface SuggestionExample extends SuggestionFeatures {
+  category: string
+  weight: number
+}
+
+export interface CategorySuggestion {
+  category: string
+  // Share of the model's belief, between 0 and 1
+  confidence: number
+}
+
+interface CategoryStats {
+  weight: number
+  tokens: Map<string, number>
+  tokenWeight: number
+  amountBuckets: Map<number, number>
+  weekdays: Map<number, number>
+}
+
+interface TypeStats {
+  weight: number
+  vocabulary: Set<string>
+  categories: Map<string, CategoryStats>
+}
+
+// Counts per type and category; a naive Bayes classifier over notes words, amount size and weekday
+export type SuggestionModel = Map<SuggestionType, TypeStats>
+
+// Words that say nothing about the category
+const STOP_WORDS = new Set(["the", "and", "for", "with", "from", "to", "of", "on", "at", "in", "a", "an", "my", "paid"])
+
+// Number of amount buckets the smoothing spreads over
+const AMOUNT_BUCKETS = 24
+
+// Suggestions below this are too unsure to show
+export const MIN_CONFIDENCE = 0.35
+
+// A type needs this much history before its suggestions mean anything
+const MIN_TYPE_WEIGHT = 3
+
+export const tokenizeNotes = (notes: string): string[] =>
+  Array.from(
+    new Set(
+      notes
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter((word) => word.length > 1 && !/^\d+$/.test(word) && !STOP_WORDS.has(word)),
+    ),
+  )
+
+export const getAmountBucket = (amount: number): number =>
+  Math.min(AMOUNT_BUCKETS - 1, Math.max(0, Math.floor(Math.log2(Math.abs(amount) + 1))))
+
+export const getSuggestionFeatures = (
+  expense: Pick<Expense, "type" | "notes" | "amount" | "date">,
+): SuggestionFeatures | null => {
+  if (expense.type === "transfer") return null
+
+  return {
+    type: expense.type,
+    tokens: tokenizeNotes(expense.notes || ""),
+    amountBucket: getAmountBucket(expense.amount || 0),
+    weekday: getDay(parseISO(expense.date)),
+  }
+}
+
+// Every categorised transaction is an example; transfers and splits have no single category to learn
+export const toSuggestionExamples = (expenses: Expense[]): SuggestionExample[] =>
+  expenses.flatMap((expense) => {
+    const features = getSuggestionFeatures(expense)
+    if (!features || !expense.category || (expense.splits?.length || 0) > 1) return []
+    return [{ ...features, category: expense.category, weight: 1 }]
+  })
+
+const increment = <K>(map: Map<K, number>, key: K, weight: number) => map.set(key, (map.get(key) || 0) + weight)
+
+export const trainSuggestionModel = (examples: SuggestionExample[]): SuggestionModel => {
+  const model: SuggestionModel = new Map()
+
+  examples.forEach((example) => {
+    if (example.weight <= 0) return
+
+    const typeStats: TypeStats = model.get(example.type) || { weight: 0, vocabulary: new Set(), categories: new Map() }
+    model.set(example.type, typeStats)
+
+    const stats: CategoryStats = typeStats.categories.get(example.category) || {
+      weight: 0,
+      tokens: new Map(),
+      tokenWeight: 0,
+      amountBuckets: new Map(),
+      weekdays: new Map(),
+    }
+    typeStats.categories.set(example.category, stats)
+
+    typeStats.weight += example.weight
+    stats.weight += example.weight
+    example.tokens.forEach((token) => {
+      typeStats.vocabulary.add(token)
+      increment(stats.tokens, token, example.weight)
+      stats.tokenWeight += example.weight
+    })
+    increment(stats.amountBuckets, example.amountBucket, example.weight)
+    increment(stats.weekdays, example.weekday, example.weight)
+  })
+
+  return model
+}
+
+// Most likely categories for a transaction being entered, best first. Only categories in
+// `allowed` are considered when it is given, so deleted categories are never proposed.
+export const suggestCategories = (
+  model: SuggestionModel,
+  expense: Pick<Expense, "type" | "notes" | "amount" | "date">,
+  options: { allowed?: string[]; limit?: number } = {},
+): CategorySuggestion[] => {
+  const features = getSuggestionFeatures(expense)
+  const typeStats = features && model.get(features.type)
+  if (!features || !typeStats || typeStats.weight < MIN_TYPE_WEIGHT) return []
+
+  const vocabularySize = typeStats.vocabulary.size + 1
+  // Words never seen with this type say nothing either way
+  const knownTokens = features.tokens.filter((token) => typeStats.vocabulary.has(token))
+
+  const scores: { category: string; logScore: number }[] = []
+  typeStats.categories.forEach((stats, category) => {
+    if (options.allowed && !options.allowed.includes(category)) return
+
+    let logScore = Math.log(stats.weight / typeStats.weight)
+    knownTokens.forEach((token) => {
+      logScore += Math.log(((stats.tokens.get(token) || 0) + 1) / (stats.tokenWeight + vocabularySize))
+    })
+    if (expense.amount) {
+      const bucketWeight = stats.amountBuckets.get(features.amountBucket) || 0
+      logScore += Math.log((bucketWeight + 1) / (stats.weight + AMOUNT_BUCKETS))
+    }
+    logScore += Math.log(((stats.weekdays.get(features.weekday) || 0) + 1) / (stats.weight + 7))
+    scores.push({ category, logScore })
+  })
+
+  if (scores.length === 0) return []
+
+  // Softmax turns the log scores into confidences that sum to one
+  const best = Math.max(...scores.map((score) => score.logScore))
+  const total = scores.reduce((sum, score) => sum + Math.exp(score.logScore - best), 0)
+
+  return scores
+    .map((score) => ({ category: score.category, confidence: Math.exp(score.logScore - best) / total }))
+    .filter((suggestion) => suggestion.confidence >= MIN_CONFIDENCE)
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, options.limit || 2)
+}
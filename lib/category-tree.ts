@@ -0,0 +1,112 @@
+import type { Category } from "@/types/expense"
+
+// Categories nest one level deep: a top-level category such as "Food" can hold subcategories
+// such as "Groceries" and "Restaurants", which cannot have subcategories of their own.
+type TreeCategory = Pick<Category, "id" | "name" | "type" | "parentId">
+
+export interface CategoryTotalNode {
+  name: string
+  amount: number
+  count: number
+  // Totals of the subcategories, largest first; empty for categories without any
+  children: { name: string; amount: number; count: number }[]
+}
+
+export const getSubcategories = <T extends TreeCategory>(categories: T[], parentId: string): T[] =>
+  categories.filter((category) => category.parentId === parentId)
+
+export const getParentCategory = <T extends TreeCategory>(category: TreeCategory, categories: T[]): T | undefined =>
+  category.parentId ? categories.find((candidate) => candidate.id === category.parentId) : undefined
+
+// The category's own id followed by its subcategories', i.e. every category a budget on it covers
+export const getCategoryFamilyIds = (category: TreeCategory, categories: TreeCategory[]): string[] => [
+  category.id,
+  ...getSubcategories(categories, category.id).map((child) => child.id),
+]
+
+// "Food > Groceries" for subcategories, the plain name otherwise
+export const getCategoryPath = (category: TreeCategory, categories: TreeCategory[]): string => {
+  const parent = getParentCategory(category, categories)
+  return parent ? `${parent.name} > ${category.name}` : category.name
+}
+
+// Top-level categories of the same type that the category could be moved under. A category that
+// already has subcategories stays at the top level.
+export const getParentOptions = <T extends TreeCategory>(
+  category: Pick<TreeCategory, "id" | "type"> | null,
+  type: Category["type"],
+  categories: T[],
+): T[] => {
+  if (category && getSubcategories(categories, category.id).length > 0) return []
+  return categories.filter(
+    (candidate) => candidate.type === type && !candidate.parentId && candidate.id !== category?.id,
+  )
+}
+
+// Why the category can't go under the parent, or null when it can
+export const validateParent = (
+  category: Pick<TreeCategory, "id" | "type"> | null,
+  parentId: string | undefined,
+  categories: TreeCategory[],
+): string | null => {
+  if (!parentId) return null
+  const parent = categories.find((candidate) => candidate.id === parentId)
+  if (!parent) return "Parent category not found"
+  if (parent.id === category?.id) return "A category cannot be its own parent"
+  if (category && parent.type !== category.type) return "Parent category must be of the same type"
+  if (parent.parentId) return "Subcategories cannot have subcategories of their own"
+  if (category && getSubcategories(categories, category.id).length > 0) {
+    return "Categories with subcategories must stay at the top level"
+  }
+  return null
+}
+
+// Where the subcategories of a removed category go: under the category taking over its transactions,
+// or under that category's parent when it is a subcategory elsewhere. Without one they move to the top level.
+export const getAdoptiveParentId = (
+  removedId: string,
+  replacement: Pick<TreeCategory, "id" | "parentId"> | undefined,
+): string | undefined => {
+  if (!replacement) return undefined
+  if (!replacement.parentId || replacement.parentId === removedId) return replacement.id
+  return replacement.parentId
+}
+
+// Per-category totals grouped under their top-level categories, largest first. A parent with
+// transactions of its own lists them as one of its children; names that are not known categories
+// stay at the top level.
+export const rollupCategoryTotals = (
+  totals: { category: string; amount: number; count: number }[],
+  categories: TreeCategory[],
+): CategoryTotalNode[] => {
+  const nodes = new Map<string, CategoryTotalNode>()
+  const own = new Map<string, { amount: number; count: number }>()
+  const getNode = (name: string) => {
+    const node = nodes.get(name) || { name, amount: 0, count: 0, children: [] }
+    nodes.set(name, node)
+    return node
+  }
+
+  totals.forEach((total) => {
+    const category = categories.find((candidate) => candidate.name === total.category)
+    const parent = category && getParentCategory(category, categories)
+    const node = getNode(parent ? parent.name : total.category)
+    node.amount += total.amount
+    node.count += total.count
+
+    if (parent) {
+      node.children.push({ name: total.category, amount: total.amount, count: total.count })
+    } else {
+      const current = own.get(total.category) || { amount: 0, count: 0 }
+      own.set(total.category, { amount: current.amount + total.amount, count: current.count + total.count })
+    }
+  })
+
+  const result = Array.from(nodes.values())
+  result.forEach((node) => {
+    const direct = own.get(node.name)
+    if (node.children.length > 0 && direct && direct.amount > 0) node.children.push({ name: node.name, ...direct })
+    node.children.sort((a, b) => b.amount - a.amount)
+  })
+  return result.sort((a, b) => b.amount - a.amount)
+}
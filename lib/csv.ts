@@ -0,0 +1,198 @@
+import { isValid, parse } from "date-fns"
+
+export type CsvDelimiter = "," | ";" | "\t" | "|"
+
+export type TextEncoding = "auto" | "utf-8" | "utf-16le" | "windows-1252"
+
+export const CSV_DELIMITERS: { value: CsvDelimiter; label: string }[] = [
+  { value: ",", label: "Comma (,)" },
+  { value: ";", label: "Semicolon (;)" },
+  { value: "\t", label: "Tab" },
+  { value: "|", label: "Pipe (|)" },
+]
+
+export const TEXT_ENCODINGS: { value: TextEncoding; label: string }[] = [
+  { value: "auto", label: "Detect automatically" },
+  { value: "utf-8", label: "UTF-8" },
+  { value: "utf-16le", label: "UTF-16" },
+  { value: "windows-1252", label: "Windows-1252 / Latin-1" },
+]
+
+// Date formats commonly found in bank statement exports
+export const DATE_FORMATS = [
+  "yyyy-MM-dd",
+  "dd/MM/yyyy",
+  "MM/dd/yyyy",
+  "dd-MM-yyyy",
+  "dd.MM.yyyy",
+  "dd/MM/yy",
+  "MM/dd/yy",
+  "dd-MMM-yyyy",
+  "dd-MMM-yy",
+  "dd MMM yyyy",
+  "MMM d, yyyy",
+  "yyyy/MM/dd",
+  "yyyyMMdd",
+]
+
+// Decode raw file bytes, honouring a byte order mark and falling back to
+// Windows-1252 when the content is not valid UTF-8
+export const decodeText = (buffer: ArrayBuffer, encoding: TextEncoding = "auto"): string => {
+  const bytes = new Uint8Array(buffer)
+
+  if (encoding !== "auto") {
+    return new TextDecoder(encoding).decode(bytes).replace(/^\uFEFF/, "")
+  }
+
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return new TextDecoder("utf-16le").decode(bytes.subarray(2))
+  }
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return new TextDecoder("utf-8").decode(bytes.subarray(3))
+  }
+
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(bytes)
+  } catch {
+    return new TextDecoder("windows-1252").decode(bytes)
+  }
+}
+
+// Split CSV text into rows of fields. Handles quoted fields containing
+// delimiters, escaped quotes and line breaks, and both LF and CRLF endings.
+export const parseCsv = (text: string, delimiter: CsvDelimiter = ","): string[][] => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let insideQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (insideQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"'
+          i++
+        } else {
+          insideQuotes = false
+        }
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field.trim() === "") {
+      field = ""
+      insideQuotes = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ""
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  // Drop blank lines
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""))
+}
+
+// Pick the delimiter that splits the first lines into the most consistent number of columns
+export const detectDelimiter = (text: string): CsvDelimiter => {
+  const sample = text.split(/\r?\n/).slice(0, 20).join("\n")
+  let best: CsvDelimiter = ","
+  let bestScore = 0
+
+  CSV_DELIMITERS.forEach(({ value }) => {
+    const rows = parseCsv(sample, value)
+    if (rows.length === 0) return
+
+    const counts = rows.map((cells) => cells.length)
+    const columns = Math.max(...counts)
+    if (columns < 2) return
+
+    // Favour many columns that most rows agree on
+    const consistent = counts.filter((count) => count === columns).length / counts.length
+    const score = columns * consistent
+    if (score > bestScore) {
+      best = value
+      bestScore = score
+    }
+  })
+
+  return best
+}
+
+// Parse a date cell with an explicit format, falling back to ISO timestamps
+export const parseDateValue = (value: string, dateFormat: string): Date | null => {
+  const trimmed = value.trim()
+  if (!trimmed) return null
+
+  const parsed = parse(trimmed, dateFormat, new Date())
+  if (isValid(parsed)) return parsed
+
+  if (/^\d{4}-\d{2}-\d{2}T/.test(trimmed)) {
+    const iso = new Date(trimmed)
+    if (isValid(iso)) return iso
+  }
+
+  return null
+}
+
+// The first format that parses every sample date
+export const guessDateFormat = (values: string[]): string => {
+  const samples = values.map((value) => value.trim()).filter(Boolean).slice(0, 50)
+  if (samples.length === 0) return DATE_FORMATS[0]
+
+  const matching = DATE_FORMATS.find((format) => samples.every((value) => parseDateValue(value, format) !== null))
+  return matching || DATE_FORMATS[0]
+}
+
+// Parse an amount cell such as "₹1,234.50", "(45.00)", "1.234,50" or "120.00 Dr".
+// Returns a signed number, negative for parentheses, a leading minus or a debit marker.
+export const parseAmountValue = (value: string, decimalSeparator: "." | "," = "."): number | null => {
+  let text = value.trim()
+  if (!text) return null
+
+  let negative = false
+  if (/^\(.*\)$/.test(text)) {
+    negative = true
+    text = text.slice(1, -1)
+  }
+  if (/(dr|debit)\.?$/i.test(text)) {
+    negative = true
+    text = text.replace(/(dr|debit)\.?$/i, "")
+  }
+  text = text.replace(/(cr|credit)\.?$/i, "")
+
+  if (text.includes("-")) negative = !negative
+
+  const thousands = decimalSeparator === "." ? /,/g : /\./g
+  const normalized = text
+    .replace(thousands, "")
+    .replace(decimalSeparator, ".")
+    .replace(/[^\d.]/g, "")
+
+  if (!normalized || normalized === ".") return null
+  const amount = Number.parseFloat(normalized)
+  if (isNaN(amount)) return null
+
+  return negative ? -amount : amount
+}
+
+// Quote a field for CSV output when it contains delimiters, quotes or line breaks
+export const escapeCsvField = (value: string, delimiter: CsvDelimiter = ","): string => {
+  if (value.includes('"') || value.includes(delimiter) || /[\r\n]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`
+  }
+  return value
+}
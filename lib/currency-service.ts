@@ -0,0 +1,284 @@
+import type { CurrencyCode, CurrencySettings, ExchangeRate } from "@/types/currency"
+import type { Expense } from "@/types/expense"
+
+// Currency of transactions recorded before multi-currency support
+export const DEFAULT_CURRENCY: CurrencyCode = "INR"
+
+// Event fired when the base currency or exchange rates change
+export const CURRENCY_UPDATED_EVENT = "currency-updated"
+
+export const COMMON_CURRENCIES: CurrencyCode[] = [
+  "INR",
+  "USD",
+  "EUR",
+  "GBP",
+  "AED",
+  "SGD",
+  "AUD",
+  "CAD",
+  "JPY",
+  "CHF",
+  "CNY",
+  "THB",
+]
+
+const SETTINGS_KEY = "fnzo_currency_settings"
+
+// Currencies we already warned about missing rates for
+const warnedMissingRates = new Set<CurrencyCode>()
+
+const defaultSettings = (): CurrencySettings => ({ baseCurrency: DEFAULT_CURRENCY, rates: {} })
+
+const normalizeCode = (code: string) => code.trim().toUpperCase()
+
+const isValidCode = (code: string) => /^[A-Z]{3}$/.test(code)
+
+const loadSettings = (): CurrencySettings => {
+  if (typeof window === "undefined") return defaultSettings()
+
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY)
+    return stored ? { ...defaultSettings(), ...JSON.parse(stored) } : defaultSettings()
+  } catch (error) {
+    console.error("Error reading currency settings:", error)
+    return defaultSettings()
+  }
+}
+
+const saveSettings = (settings: CurrencySettings) => {
+  if (typeof window === "undefined") return
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings))
+  window.dispatchEvent(new CustomEvent(CURRENCY_UPDATED_EVENT, { detail: settings }))
+}
+
+// Parse "currency,rate" lines, where rate is the value of one unit in the base currency
+const parseCsvRates = (text: string): Record<CurrencyCode, number> => {
+  const rates: Record<CurrencyCode, number> = {}
+
+  text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .forEach((line, index) => {
+      const [code, value] = line.split(/[,;\t]/).map((cell) => cell.trim().replace(/^"|"$/g, ""))
+      const rate = Number.parseFloat(value)
+
+      // Skip a header row
+      if (index === 0 && isNaN(rate)) return
+
+      if (!code || !isValidCode(normalizeCode(code)) || isNaN(rate) || rate <= 0) {
+        throw new Error(`Invalid exchange rate on line ${index + 1}: "${line}"`)
+      }
+      rates[normalizeCode(code)] = rate
+    })
+
+  return rates
+}
+
+// Parse either { "USD": 83.1 } (value in base currency) or the common
+// { "base": "USD", "rates": { "INR": 83.1 } } format (units per one base unit)
+const parseJsonRates = (text: string, baseCurrency: CurrencyCode): Record<CurrencyCode, number> => {
+  const data = JSON.parse(text)
+  const rates: Record<CurrencyCode, number> = {}
+
+  if (data && typeof data.base === "string" && data.rates && typeof data.rates === "object") {
+    const fileRates: Record<string, number> = { ...data.rates, [normalizeCode(data.base)]: 1 }
+    const ourBase = Number(fileRates[baseCurrency])
+    if (!ourBase || ourBase <= 0) {
+      throw new Error(`The file has no rate for your base currency ${baseCurrency}`)
+    }
+
+    Object.entries(fileRates).forEach(([code, value]) => {
+      const unitsPerFileBase = Number(value)
+      if (isValidCode(normalizeCode(code)) && unitsPerFileBase > 0) {
+        rates[normalizeCode(code)] = ourBase / unitsPerFileBase
+      }
+    })
+    return rates
+  }
+
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    throw new Error("Unrecognised exchange rate file")
+  }
+
+  Object.entries(data).forEach(([code, value]) => {
+    const rate = Number(value)
+    if (!isValidCode(normalizeCode(code)) || !(rate > 0)) {
+      throw new Error(`Invalid exchange rate for "${code}"`)
+    }
+    rates[normalizeCode(code)] = rate
+  })
+  return rates
+}
+
+export const currencyService = {
+  getSettings(): CurrencySettings {
+    return loadSettings()
+  },
+
+  // Overwrite every currency setting at once, e.g. when restoring a backup
+  replaceSettings(settings: CurrencySettings): CurrencySettings {
+    const baseCurrency = normalizeCode(settings.baseCurrency || DEFAULT_CURRENCY)
+    if (!isValidCode(baseCurrency)) {
+      throw new Error(`"${settings.baseCurrency}" is not a valid currency code`)
+    }
+
+    const restored = { baseCurrency, rates: settings.rates || {} }
+    saveSettings(restored)
+    return restored
+  },
+
+  getBaseCurrency(): CurrencyCode {
+    return this.getSettings().baseCurrency
+  },
+
+  // Switch the base currency, re-expressing every stored rate in the new base
+  setBaseCurrency(code: CurrencyCode): CurrencySettings {
+    const baseCurrency = normalizeCode(code)
+    const settings = loadSettings()
+    if (baseCurrency === settings.baseCurrency) return settings
+
+    const rates: Record<CurrencyCode, ExchangeRate> = {}
+    const entries = Object.values(settings.rates)
+
+    if (entries.length > 0) {
+      const newBaseRate = settings.rates[baseCurrency]?.rate
+      if (!newBaseRate) {
+        throw new Error(`Add an exchange rate for ${baseCurrency} before making it the base currency`)
+      }
+
+      const updatedAt = new Date().toISOString()
+      entries.forEach((entry) => {
+        if (entry.currency === baseCurrency) return
+        rates[entry.currency] = { ...entry, rate: entry.rate / newBaseRate }
+      })
+      rates[settings.baseCurrency] = { currency: settings.baseCurrency, rate: 1 / newBaseRate, updatedAt }
+    }
+
+    const updated = { baseCurrency, rates }
+    saveSettings(updated)
+    return updated
+  },
+
+  getRates(): ExchangeRate[] {
+    return Object.values(this.getSettings().rates).sort((a, b) => a.currency.localeCompare(b.currency))
+  },
+
+  setRate(code: CurrencyCode, rate: number): CurrencySettings {
+    const currency = normalizeCode(code)
+    if (!isValidCode(currency)) {
+      throw new Error("Currency must be a three-letter code such as USD")
+    }
+    if (!(rate > 0)) {
+      throw new Error("Exchange rate must be greater than zero")
+    }
+
+    const settings = loadSettings()
+    if (currency === settings.baseCurrency) {
+      throw new Error(`${currency} is the base currency`)
+    }
+
+    const updated = {
+      ...settings,
+      rates: { ...settings.rates, [currency]: { currency, rate, updatedAt: new Date().toISOString() } },
+    }
+    saveSettings(updated)
+    return updated
+  },
+
+  removeRate(code: CurrencyCode): CurrencySettings {
+    const settings = loadSettings()
+    const rates = { ...settings.rates }
+    delete rates[normalizeCode(code)]
+
+    const updated = { ...settings, rates }
+    saveSettings(updated)
+    return updated
+  },
+
+  // Import rates from a CSV or JSON file, merging them into the table
+  importRates(text: string, fileName = ""): number {
+    const settings = loadSettings()
+    const isJson = fileName.toLowerCase().endsWith(".json") || text.trim().startsWith("{")
+    const parsed = isJson ? parseJsonRates(text, settings.baseCurrency) : parseCsvRates(text)
+
+    const updatedAt = new Date().toISOString()
+    const rates = { ...settings.rates }
+    let imported = 0
+    Object.entries(parsed).forEach(([currency, rate]) => {
+      if (currency === settings.baseCurrency) return
+      rates[currency] = { currency, rate, updatedAt }
+      imported++
+    })
+
+    saveSettings({ ...settings, rates })
+    return imported
+  },
+
+  // Value of one unit of `code` in the base currency, if known
+  getRate(code: CurrencyCode, settings = loadSettings()): number | undefined {
+    if (code === settings.baseCurrency) return 1
+    return settings.rates[code]?.rate
+  },
+
+  // Convert between currencies via the base currency. Amounts in currencies without
+  // a rate are returned unchanged so totals stay usable while the table is incomplete.
+  convert(amount: number, from: CurrencyCode, to?: CurrencyCode, settings = loadSettings()): number {
+    const target = to || settings.baseCurrency
+    if (from === target) return amount
+
+    const fromRate = this.getRate(from, settings)
+    const toRate = this.getRate(target, settings)
+    if (fromRate === undefined || toRate === undefined) {
+      const missing = fromRate === undefined ? from : target
+      if (!warnedMissingRates.has(missing)) {
+        warnedMissingRates.add(missing)
+        console.warn(`No exchange rate for ${missing}; amounts are not converted`)
+      }
+      return amount
+    }
+
+    return (amount * fromRate) / toRate
+  },
+
+  // Amount of a transaction in the base currency
+  toBaseAmount(expense: Pick<Expense, "amount" | "currency">, settings = loadSettings()): number {
+    return this.convert(expense.amount, expense.currency || DEFAULT_CURRENCY, settings.baseCurrency, settings)
+  },
+
+  // Copies of the transactions with amounts converted to the base currency
+  convertExpensesToBase<T extends Expense>(expenses: T[], settings = loadSettings()): T[] {
+    return expenses.map((expense) => {
+      const currency = expense.currency || DEFAULT_CURRENCY
+      if (currency === settings.baseCurrency) return expense
+      return {
+        ...expense,
+        amount: this.toBaseAmount(expense, settings),
+        currency: settings.baseCurrency,
+        splits: expense.splits?.map((split) => ({
+          ...split,
+          amount: this.convert(split.amount, currency, settings.baseCurrency, settings),
+        })),
+      }
+    })
+  },
+
+  // Currencies used by the transactions that have no exchange rate
+  getMissingRates(expenses: Pick<Expense, "currency">[], settings = loadSettings()): CurrencyCode[] {
+    const missing = new Set<CurrencyCode>()
+    expenses.forEach((expense) => {
+      const currency = expense.currency || DEFAULT_CURRENCY
+      if (this.getRate(currency, settings) === undefined) missing.add(currency)
+    })
+    return Array.from(missing).sort()
+  },
+
+  formatCurrency(amount: number, currency?: CurrencyCode): string {
+    const value = typeof amount === "number" ? amount : 0
+    return new Intl.NumberFormat("en-IN", {
+      style: "currency",
+      currency: currency || this.getBaseCurrency(),
+      maximumFractionDigits: 0,
+    }).format(value)
+  },
+}
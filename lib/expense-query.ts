@@ -0,0 +1,245 @@
+import { format } from "date-fns"
+import type { Expense, ExpenseType } from "@/types/expense"
+import type { FilterState } from "@/types/filter"
+import type {
+  AggregateRow,
+  CategoryTotal,
+  ExpenseAggregates,
+  ExpensePage,
+  ExpensePageRequest,
+  ExpenseSort,
+  MonthTotal,
+} from "@/types/query"
+import { filterExpenses, getTimePeriodInterval } from "@/lib/filters"
+import { parseSearchQuery, type AmountOperator, type SearchQuery } from "@/lib/search"
+import { getCategoryAmounts } from "@/lib/splits"
+import { findCategoryIds, getCategoryIdsByName } from "@/lib/category-refs"
+import { normalizeTag } from "@/lib/tags"
+import { DEFAULT_CURRENCY } from "@/lib/currency-service"
+
+// PostgREST filter operator for each amount comparison
+const AMOUNT_FILTERS: Record<AmountOperator, string> = { ">": "gt", ">=": "gte", "<": "lt", "<=": "lte", "=": "eq" }
+
+// ilike pattern for a search term. Characters with a meaning to LIKE or to PostgREST filters
+// become single-character wildcards, so the database narrows loosely and matchesSearch decides.
+const toIlikePattern = (term: string) => `%${term.replace(/[%_,()"\\:*]/g, "_")}%`
+
+// Quote a value inside a PostgREST filter so commas, dots and brackets in it are taken literally
+const quote = (value: string | number) => `"${String(value).replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`
+
+const emptyTotals = (): Record<ExpenseType, number> => ({ expense: 0, income: 0, savings: 0, transfer: 0 })
+
+interface PageCursor {
+  value: string | number
+  id: string
+}
+
+// A cursor holds the sort value and id of the last row on a page; ids break ties between equal values
+export const encodeCursor = (expense: Expense, sort: ExpenseSort): string =>
+  JSON.stringify({ value: expense[sort.column], id: expense.id })
+
+const decodeCursor = (cursor: string): PageCursor | null => {
+  try {
+    const parsed = JSON.parse(cursor)
+    return parsed && typeof parsed.id === "string" ? parsed : null
+  } catch {
+    return null
+  }
+}
+
+const compareValues = (a: string | number, b: string | number): number => {
+  if (typeof a === "number" && typeof b === "number") return a - b
+  return String(a) < String(b) ? -1 : String(a) > String(b) ? 1 : 0
+}
+
+// Position of a row relative to the cursor in the requested order: negative before it, positive after it
+const compareToCursor = (expense: Expense, cursor: PageCursor, sort: ExpenseSort): number => {
+  const comparison = compareValues(expense[sort.column], cursor.value) || compareValues(expense.id, cursor.id)
+  return sort.direction === "asc" ? comparison : -comparison
+}
+
+export const compareExpenses = (a: Expense, b: Expense, sort: ExpenseSort): number =>
+  compareToCursor(a, { value: b[sort.column], id: b.id }, sort)
+
+// Page through transactions held in memory, in the same order and with the same cursors as the database query
+export const pageExpenses = (expenses: Expense[], request: ExpensePageRequest): ExpensePage => {
+  const sorted = filterExpenses(expenses, request.filters).sort((a, b) => compareExpenses(a, b, request.sort))
+
+  let start = request.offset || 0
+  const cursor = request.cursor ? decodeCursor(request.cursor) : null
+  if (cursor) {
+    const index = sorted.findIndex((expense) => compareToCursor(expense, cursor, request.sort) > 0)
+    start = index === -1 ? sorted.length : index
+  }
+
+  const items = sorted.slice(start, start + request.limit)
+  const hasMore = start + request.limit < sorted.length
+
+  return {
+    items,
+    total: sorted.length,
+    nextCursor: hasMore && items.length > 0 ? encodeCursor(items[items.length - 1], request.sort) : null,
+  }
+}
+
+// Rows after the cursor, in the requested order
+export const buildCursorCondition = (cursor: string, sort: ExpenseSort): string | null => {
+  const decoded = decodeCursor(cursor)
+  if (!decoded) return null
+
+  const operator = sort.direction === "asc" ? "gt" : "lt"
+  const value = quote(decoded.value)
+  return `or(${sort.column}.${operator}.${value},and(${sort.column}.eq.${value},id.${operator}.${quote(decoded.id)}))`
+}
+
+// The search as PostgREST conditions, all of which have to match. Stored category names can be
+// out of date, so categories whose current name matches are looked for by id too.
+export const buildSearchConditions = (query: SearchQuery): string[] => [
+  ...query.terms.map((term) => {
+    const pattern = toIlikePattern(term)
+    const tag = normalizeTag(term)
+    const ids = findCategoryIds((name) => name.toLowerCase().includes(term.toLowerCase()))
+    const byId = ids.length > 0 ? `,category_id.in.(${ids.map(quote).join(",")})` : ""
+    return `or(notes.ilike.${pattern},category.ilike.${pattern}${byId}${tag ? `,tags.cs.{${tag}}` : ""})`
+  }),
+  ...query.amounts.map((condition) => `amount.${AMOUNT_FILTERS[condition.operator]}.${condition.value}`),
+]
+
+// Every active filter except the search as one PostgREST condition each, mirroring filterExpenses.
+// Split lines count towards their own categories, as they do client-side.
+export const buildFilterConditions = (filters: FilterState, today = new Date()): string[] => {
+  const conditions: string[] = []
+
+  // Dates are stored as timestamps, so the range runs from the first to the last moment of its local days
+  const interval = getTimePeriodInterval(filters, today)
+  if (interval) {
+    const from = quote(interval.start.toISOString())
+    const to = quote(interval.end.toISOString())
+    conditions.push(`and(date.gte.${from},date.lte.${to})`)
+  }
+
+  if (filters.types.length > 0) {
+    const list = `(${filters.types.join(",")})`
+    conditions.push(filters.typeMode === "exclude" ? `type.not.in.${list}` : `type.in.${list}`)
+  }
+
+  if (filters.categories.length > 0) {
+    // Rows are matched by category id; rows saved before ids existed by the name they were saved with.
+    // The null checks keep rows without an id or splits from turning the negation into NULL.
+    const ids = getCategoryIdsByName(filters.categories)
+    const byId = ids.flatMap((id) => [
+      `and(category_id.not.is.null,category_id.eq.${quote(id)})`,
+      `and(splits.not.is.null,splits.cs.${quote(JSON.stringify([{ categoryId: id }]))})`,
+    ])
+    const byName = [
+      `and(category_id.is.null,category.in.(${filters.categories.map(quote).join(",")}))`,
+      ...filters.categories.map(
+        (category) => `and(splits.not.is.null,splits.cs.${quote(JSON.stringify([{ category }]))})`,
+      ),
+    ]
+    const usesAny = `or(${[...byId, ...byName].join(",")})`
+    conditions.push(filters.categoryMode === "exclude" ? `not.${usesAny}` : usesAny)
+  }
+
+  if (filters.account !== "all") {
+    const account = quote(filters.account)
+    conditions.push(`or(account_id.eq.${account},and(type.eq.transfer,transfer_account_id.eq.${account}))`)
+  }
+
+  if (filters.tags.length > 0) {
+    conditions.push(`tags.ov.{${filters.tags.join(",")}}`)
+  }
+
+  switch (filters.amountRange) {
+    case "under500":
+      conditions.push("amount.lt.500")
+      break
+    case "500to1000":
+      conditions.push("and(amount.gte.500,amount.lte.1000)")
+      break
+    case "1000to5000":
+      conditions.push("and(amount.gt.1000,amount.lte.5000)")
+      break
+    case "over5000":
+      conditions.push("amount.gt.5000")
+      break
+    case "custom": {
+      const bounds = [
+        ...(filters.customAmountMin !== null ? [`amount.gte.${filters.customAmountMin}`] : []),
+        ...(filters.customAmountMax !== null ? [`amount.lte.${filters.customAmountMax}`] : []),
+      ]
+      if (bounds.length === 1) conditions.push(bounds[0])
+      if (bounds.length === 2) conditions.push(`and(${bounds.join(",")})`)
+      break
+    }
+  }
+
+  return conditions
+}
+
+// All conditions of a page query as values for PostgREST "or" parameters, which are combined with AND
+export const buildQueryConditions = (filters: FilterState, today = new Date()): string[] => {
+  const filterConditions = buildFilterConditions(filters, today)
+  const conditions = buildSearchConditions(parseSearchQuery(filters.search))
+
+  if (filterConditions.length > 0) {
+    conditions.push(
+      filters.matchMode === "any" ? `or(${filterConditions.join(",")})` : `and(${filterConditions.join(",")})`,
+    )
+  }
+
+  return conditions
+}
+
+// Totals per type, category, month and currency, computed locally the same way the database does.
+// Months are local calendar months, as in the transaction list.
+export const aggregateExpenses = (expenses: Expense[]): AggregateRow[] => {
+  const rows = new Map<string, AggregateRow>()
+
+  expenses.forEach((expense) => {
+    const month = format(new Date(expense.date), "yyyy-MM")
+    const currency = expense.currency || DEFAULT_CURRENCY
+
+    // Split transactions count each line towards its own category
+    getCategoryAmounts(expense).forEach(({ category, amount }) => {
+      const key = [expense.type, category, month, currency].join("|")
+      const row = rows.get(key) || { type: expense.type, category, month, currency, amount: 0, count: 0 }
+      row.amount += amount
+      row.count++
+      rows.set(key, row)
+    })
+  })
+
+  return Array.from(rows.values())
+}
+
+// Combine aggregate rows into per-type, per-category and per-month totals in the base currency
+export const summarizeAggregates = (
+  rows: AggregateRow[],
+  toBase: (amount: number, currency: string) => number,
+): ExpenseAggregates => {
+  const totals = emptyTotals()
+  const categories = new Map<string, CategoryTotal>()
+  const months = new Map<string, MonthTotal>()
+
+  rows.forEach((row) => {
+    const amount = toBase(row.amount, row.currency)
+    totals[row.type] += amount
+
+    const categoryKey = `${row.type}|${row.category}`
+    const category = categories.get(categoryKey) || { type: row.type, category: row.category, amount: 0, count: 0 }
+    category.amount += amount
+    category.count += row.count
+    categories.set(categoryKey, category)
+
+    const month = months.get(row.month) || { month: row.month, totals: emptyTotals() }
+    month.totals[row.type] += amount
+    months.set(row.month, month)
+  })
+
+  return {
+    totals,
+    byCategory: Array.from(categories.values()).sort((a, b) => b.amount - a.amount),
+    byMonth: Array.from(months.values()).sort((a, b) => a.month.localeCompare(b.month)),
+  }
+}
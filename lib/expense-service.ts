@@ -1,5 +1,21 @@
 import { getSupabaseBrowserClient } from "@/lib/supabase"
+import { localStore, type PendingMutation } from "@/lib/local-store"
+import { currencyService, DEFAULT_CURRENCY } from "@/lib/currency-service"
+import { clearHistory, getAttachmentsForUndo, recordHistory } from "@/lib/history"
+import { clearSuggestionFeedback } from "@/lib/suggestion-feedback"
+import { attachCategoryRefs, getCategoryRef, getCategoryRefsVersion, resolveCategoryRefs } from "@/lib/category-refs"
+import { isEmptySearch, matchesSearch, type SearchQuery } from "@/lib/search"
+import {
+  aggregateExpenses,
+  buildCursorCondition,
+  buildQueryConditions,
+  buildSearchConditions,
+  encodeCursor,
+  pageExpenses,
+} from "@/lib/expense-query"
 import type { Expense } from "@/types/expense"
+import type { HistoryOptions } from "@/types/history"
+import type { AggregateRow, ExpensePage, ExpensePageRequest } from "@/types/query"
 import type { Database } from "@/types/supabase"
 
 type DbExpense = Database["public"]["Tables"]["expenses"]["Row"]
@@ -27,16 +43,24 @@ const DEFAULT_CATEGORIES = {
 let categoriesCache: Record<string, string[]> = { ...DEFAULT_CATEGORIES }
 let categoriesCacheInitialized = false
 
-// Convert database expense to app expense
+// Convert database expense to app expense, with its categories under their current names
 const mapDbExpenseToExpense = (dbExpense: DbExpense): Expense => {
-  return {
+  return resolveCategoryRefs({
     id: dbExpense.id,
     date: dbExpense.date,
     type: dbExpense.type,
     category: dbExpense.category,
+    categoryId: dbExpense.category_id || undefined,
     amount: dbExpense.amount,
+    currency: dbExpense.currency || DEFAULT_CURRENCY,
+    accountId: dbExpense.account_id || undefined,
+    transferAccountId: dbExpense.transfer_account_id || undefined,
+    externalId: dbExpense.external_id || undefined,
+    tags: dbExpense.tags || [],
+    splits: dbExpense.splits?.length ? dbExpense.splits : undefined,
     notes: dbExpense.notes,
-  }
+    updatedAt: dbExpense.updated_at,
+  })
 }
 
 // Convert app expense to database expense
@@ -47,27 +71,43 @@ const mapExpenseToDbExpense = (expense: Expense, userId: string): InsertExpense
     date: expense.date,
     type: expense.type,
     category: expense.category,
+    category_id: expense.categoryId || null,
     amount: expense.amount,
+    currency: expense.currency || DEFAULT_CURRENCY,
+    account_id: expense.accountId || null,
+    transfer_account_id: expense.transferAccountId || null,
+    external_id: expense.externalId || null,
+    tags: expense.tags || [],
+    splits: expense.splits?.length ? expense.splits : null,
     notes: expense.notes,
+    updated_at: expense.updatedAt,
   }
 }
 
+// Event fired when the expense list changed outside of a direct call (e.g. background refresh)
+export const EXPENSES_UPDATED_EVENT = "expenses-updated"
+
 // Cache for expenses to reduce database queries
 let expensesCache: Expense[] | null = null
 let lastFetchTime = 0
 const CACHE_TTL = 60000 // 1 minute
+// Version of the category names the cached expenses were resolved against
+let cacheRefsVersion = -1
 
-// Format currency for display
-const formatCurrency = (amount: number) => {
-  // Ensure amount is a number
-  const value = typeof amount === "number" ? amount : 0
-  return new Intl.NumberFormat("en-IN", {
-    style: "currency",
-    currency: "INR",
-    maximumFractionDigits: 0,
-  }).format(value)
+// Look the category names up again from the ids, so renamed and merged categories show their current names
+const withCurrentCategories = (expenses: Expense[]): Expense[] => {
+  cacheRefsVersion = getCategoryRefsVersion()
+  return expenses.map(resolveCategoryRefs)
 }
 
+// Format currency for display
+const formatCurrency = (amount: number, currency?: string) => currencyService.formatCurrency(amount, currency)
+
+// How a transaction is named in the undo history, e.g. "Groceries ₹450"
+const describeExpense = (expense: Expense) => `${expense.category} ${formatCurrency(expense.amount, expense.currency)}`
+
+const plural = (count: number) => `${count} transaction${count === 1 ? "" : "s"}`
+
 // Add a session cache to reduce auth checks
 let sessionCache: {
   session: any
@@ -78,6 +118,62 @@ const SESSION_CACHE_TTL = 30000 // 30 seconds
 // Helper function to implement exponential backoff for retries
 const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
 
+// Check whether the browser believes it has connectivity
+const isOnline = () => typeof navigator === "undefined" || navigator.onLine
+
+// Check whether an error means the database could not be reached at all
+const isNetworkError = (error: any) =>
+  !isOnline() ||
+  (error instanceof TypeError && /fetch|network/i.test(error.message)) ||
+  /Failed to fetch|NetworkError|Load failed/i.test(error?.message || "")
+
+// Key remembering which user the local copy belongs to
+const LOCAL_OWNER_KEY = "fnzo_local_owner"
+
+// Apply queued mutations on top of a list of expenses
+const applyPendingMutations = (expenses: Expense[], mutations: PendingMutation[]): Expense[] => {
+  let result = [...expenses]
+
+  mutations.forEach((mutation) => {
+    if (mutation.kind === "delete") {
+      result = result.filter((expense) => expense.id !== mutation.expenseId)
+    } else {
+      result = [mutation.expense, ...result.filter((expense) => expense.id !== mutation.expense.id)]
+    }
+  })
+
+  return result.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+}
+
+// Most rows a database search returns
+const SEARCH_RESULT_LIMIT = 200
+
+// Local store calls must never break the online code path
+const safeLocal = async <T>(operation: () => Promise<T>, fallback: T): Promise<T> => {
+  try {
+    return await operation()
+  } catch (error) {
+    console.warn("Local store unavailable:", error)
+    return fallback
+  }
+}
+
+// Make sure the local copy belongs to the signed-in user
+const ensureLocalOwner = async (userId: string) => {
+  if (typeof window === "undefined") return
+
+  const owner = localStorage.getItem(LOCAL_OWNER_KEY)
+  if (owner !== userId) {
+    await safeLocal(() => localStore.clearAll(), undefined)
+    clearHistory()
+    clearSuggestionFeedback()
+    localStorage.setItem(LOCAL_OWNER_KEY, userId)
+  }
+}
+
+// Guards against two replays running at the same time
+let replayPromise: Promise<{ replayed: number; failed: number; remaining: number }> | null = null
+
 export const expenseService = {
   // Add a function to verify authentication with caching
   async verifyAuthentication(): Promise<boolean> {
@@ -159,15 +255,67 @@ export const expenseService = {
     }
   },
 
+  // Read expenses from the local store first, falling back to the database
   async getExpenses(): Promise<Expense[]> {
-    try {
-      // Check if we have a valid cache
-      const now = Date.now()
-      if (expensesCache && now - lastFetchTime < CACHE_TTL) {
-        console.log("Using cached expenses data")
-        return expensesCache
+    // Check if we have a valid cache
+    const now = Date.now()
+    if (expensesCache && now - lastFetchTime < CACHE_TTL) {
+      console.log("Using cached expenses data")
+      if (cacheRefsVersion !== getCategoryRefsVersion()) {
+        expensesCache = withCurrentCategories(expensesCache)
+      }
+      return expensesCache
+    }
+
+    const isAuthenticated = await this.verifyAuthentication()
+    if (!isAuthenticated && isOnline()) {
+      throw new Error("User not authenticated")
+    }
+
+    if (sessionCache?.session?.user?.id) {
+      await ensureLocalOwner(sessionCache.session.user.id)
+    }
+
+    const localExpenses = withCurrentCategories(await safeLocal(() => localStore.getExpenses(), [] as Expense[]))
+
+    if (localExpenses.length > 0 || !isOnline()) {
+      expensesCache = localExpenses
+      lastFetchTime = now
+
+      // Revalidate against the database in the background
+      if (isOnline()) {
+        this.refreshFromRemote()
+          .then(() => {
+            if (typeof window !== "undefined") {
+              window.dispatchEvent(new CustomEvent(EXPENSES_UPDATED_EVENT))
+            }
+          })
+          .catch((error) => console.warn("Background refresh failed:", error))
       }
 
+      return localExpenses
+    }
+
+    return this.refreshFromRemote()
+  },
+
+  // Push pending changes, fetch the latest rows and rebuild the local copy
+  async refreshFromRemote(): Promise<Expense[]> {
+    await this.replayPendingMutations()
+
+    const remoteExpenses = await this.fetchRemoteExpenses()
+    const pending = await safeLocal(() => localStore.getPendingMutations(), [] as PendingMutation[])
+    const merged = withCurrentCategories(applyPendingMutations(remoteExpenses, pending))
+
+    await safeLocal(() => localStore.replaceExpenses(merged), undefined)
+
+    expensesCache = merged
+    lastFetchTime = Date.now()
+    return merged
+  },
+
+  async fetchRemoteExpenses(): Promise<Expense[]> {
+    try {
       const supabase = getSupabaseBrowserClient()
 
       // First, verify authentication
@@ -204,11 +352,8 @@ export const expenseService = {
             }
           }
 
-          // Success - update cache and return data
           console.log(`Retrieved ${data?.length || 0} total expenses from database`)
-          expensesCache = data?.map(mapDbExpenseToExpense) || []
-          lastFetchTime = now
-          return expensesCache
+          return data?.map(mapDbExpenseToExpense) || []
         } catch (error: any) {
           lastError = error
 
@@ -234,7 +379,7 @@ export const expenseService = {
       // Fallback to empty array if something went wrong but no error was thrown
       return []
     } catch (error) {
-      console.error("Error in getExpenses:", error)
+      console.error("Error in fetchRemoteExpenses:", error)
 
       // Check if the error is a rate limit error
       if (error instanceof Error && error.message.includes("Too Many Requests")) {
@@ -245,7 +390,7 @@ export const expenseService = {
     }
   },
 
-  async addExpense(expense: Expense): Promise<Expense> {
+  async addRemoteExpense(expense: Expense): Promise<Expense> {
     try {
       const supabase = getSupabaseBrowserClient()
 
@@ -317,9 +462,11 @@ export const expenseService = {
             amount: formatCurrency(data.amount),
           })
 
-          // Add category to cache if it's new
-          if (!categoriesCache[data.type].includes(data.category)) {
-            categoriesCache[data.type].push(data.category)
+          const saved = mapDbExpenseToExpense(data)
+
+          // Add category to cache if it's new; transfers have no category list
+          if (categoriesCache[saved.type] && !categoriesCache[saved.type].includes(saved.category)) {
+            categoriesCache[saved.type].push(saved.category)
           }
 
           // Invalidate cache
@@ -327,7 +474,7 @@ export const expenseService = {
           lastFetchTime = 0
 
           // Return the complete expense with the ID from the database
-          return mapDbExpenseToExpense(data)
+          return saved
         } catch (error: any) {
           if (error.status !== 429 || retries >= maxRetries - 1) {
             throw error
@@ -338,12 +485,12 @@ export const expenseService = {
 
       throw new Error("Failed to add expense after multiple attempts")
     } catch (error) {
-      console.error("Error in addExpense:", error)
+      console.error("Error in addRemoteExpense:", error)
       throw error
     }
   },
 
-  async updateExpense(expense: Expense): Promise<Expense> {
+  async updateRemoteExpense(expense: Expense): Promise<Expense> {
     try {
       const supabase = getSupabaseBrowserClient()
 
@@ -361,6 +508,9 @@ export const expenseService = {
         throw new Error("User not authenticated")
       }
 
+      // Same columns as an insert, so the two write paths can't drift apart
+      const { id: _id, user_id: _userId, ...changes } = mapExpenseToDbExpense(expense, session.user.id)
+
       // Implement retry logic for updating expense
       let retries = 0
       const maxRetries = 3
@@ -369,13 +519,7 @@ export const expenseService = {
         try {
           const { data, error, status } = await supabase
             .from("expenses")
-            .update({
-              date: expense.date,
-              type: expense.type,
-              category: expense.category,
-              amount: expense.amount,
-              notes: expense.notes,
-            })
+            .update({ ...changes, updated_at: expense.updatedAt || new Date().toISOString() })
             .eq("id", expense.id)
             .select()
             .single()
@@ -392,16 +536,18 @@ export const expenseService = {
             throw error
           }
 
-          // Add category to cache if it's new
-          if (!categoriesCache[data.type].includes(data.category)) {
-            categoriesCache[data.type].push(data.category)
+          const saved = mapDbExpenseToExpense(data)
+
+          // Add category to cache if it's new; transfers have no category list
+          if (categoriesCache[saved.type] && !categoriesCache[saved.type].includes(saved.category)) {
+            categoriesCache[saved.type].push(saved.category)
           }
 
           // Invalidate cache
           expensesCache = null
           lastFetchTime = 0
 
-          return mapDbExpenseToExpense(data)
+          return saved
         } catch (error: any) {
           if (error.status !== 429 || retries >= maxRetries - 1) {
             throw error
@@ -412,12 +558,12 @@ export const expenseService = {
 
       throw new Error("Failed to update expense after multiple attempts")
     } catch (error) {
-      console.error("Error in updateExpense:", error)
+      console.error("Error in updateRemoteExpense:", error)
       throw error
     }
   },
 
-  async deleteExpense(id: string): Promise<void> {
+  async deleteRemoteExpense(id: string): Promise<void> {
     try {
       const supabase = getSupabaseBrowserClient()
 
@@ -470,11 +616,537 @@ export const expenseService = {
 
       throw new Error("Failed to delete expense after multiple attempts")
     } catch (error) {
-      console.error("Error in deleteExpense:", error)
+      console.error("Error in deleteRemoteExpense:", error)
+      throw error
+    }
+  },
+
+  // Insert or overwrite many transactions in one request
+  async saveRemoteExpenses(expenses: Expense[]): Promise<Expense[]> {
+    try {
+      const supabase = getSupabaseBrowserClient()
+
+      const {
+        data: { session },
+        error: sessionError,
+      } = await supabase.auth.getSession()
+
+      if (sessionError) {
+        console.error("Session error:", sessionError)
+        throw new Error("Failed to get session: " + sessionError.message)
+      }
+
+      if (!session) {
+        throw new Error("User not authenticated")
+      }
+
+      const userId = session.user.id
+      const { data, error } = await supabase
+        .from("expenses")
+        .upsert(
+          expenses.map((expense) => mapExpenseToDbExpense(expense, userId)),
+          { onConflict: "id" },
+        )
+        .select()
+
+      if (error) throw error
+
+      const saved = ((data || []) as DbExpense[]).map(mapDbExpenseToExpense)
+      saved.forEach((expense) => {
+        // Add category to cache if it's new
+        if (categoriesCache[expense.type] && !categoriesCache[expense.type].includes(expense.category)) {
+          categoriesCache[expense.type].push(expense.category)
+        }
+      })
+
+      // Invalidate cache
+      expensesCache = null
+      lastFetchTime = 0
+
+      return saved
+    } catch (error) {
+      console.error("Error in saveRemoteExpenses:", error)
+      throw error
+    }
+  },
+
+  // Delete many transactions in one request
+  async deleteRemoteExpenses(ids: string[]): Promise<void> {
+    try {
+      const supabase = getSupabaseBrowserClient()
+
+      const {
+        data: { session },
+        error: sessionError,
+      } = await supabase.auth.getSession()
+
+      if (sessionError) {
+        console.error("Session error:", sessionError)
+        throw new Error("Failed to get session: " + sessionError.message)
+      }
+
+      if (!session) {
+        throw new Error("User not authenticated")
+      }
+
+      const { error } = await supabase.from("expenses").delete().in("id", ids)
+      if (error) throw error
+
+      // Invalidate cache
+      expensesCache = null
+      lastFetchTime = 0
+    } catch (error) {
+      console.error("Error in deleteRemoteExpenses:", error)
+      throw error
+    }
+  },
+
+  async addExpense(expense: Expense, options: HistoryOptions = {}): Promise<Expense> {
+    const newExpense: Expense = {
+      ...attachCategoryRefs(expense),
+      id: expense.id || crypto.randomUUID(),
+      updatedAt: new Date().toISOString(),
+    }
+
+    const saved = await this.writeThrough<Expense>(
+      { kind: "add", expense: newExpense, queuedAt: newExpense.updatedAt! },
+      () => this.addRemoteExpense(newExpense),
+    )
+
+    recordHistory(
+      `Added ${describeExpense(saved)}`,
+      [{ kind: "deleteExpenses", ids: [saved.id] }],
+      [{ kind: "addExpenses", expenses: [saved] }],
+      options,
+    )
+    return saved
+  },
+
+  async updateExpense(expense: Expense, options: HistoryOptions = {}): Promise<Expense> {
+    const [previous] = await this.getExpensesById([expense.id])
+    const updatedExpense: Expense = { ...attachCategoryRefs(expense), updatedAt: new Date().toISOString() }
+
+    const saved = await this.writeThrough<Expense>(
+      { kind: "update", expense: updatedExpense, queuedAt: updatedExpense.updatedAt! },
+      () => this.updateRemoteExpense(updatedExpense),
+    )
+
+    if (previous) {
+      recordHistory(
+        `Edited ${describeExpense(previous)}`,
+        [{ kind: "updateExpenses", expenses: [previous] }],
+        [{ kind: "updateExpenses", expenses: [saved] }],
+        options,
+      )
+    }
+    return saved
+  },
+
+  async deleteExpense(id: string, options: HistoryOptions = {}): Promise<void> {
+    const [previous] = await this.getExpensesById([id])
+    const attachments = options.skipHistory ? [] : await getAttachmentsForUndo([id])
+
+    await this.writeThrough({ kind: "delete", expenseId: id, queuedAt: new Date().toISOString() }, async () => {
+      await this.deleteRemoteExpense(id)
+    })
+
+    if (previous) {
+      recordHistory(
+        `Deleted ${describeExpense(previous)}`,
+        [{ kind: "addExpenses", expenses: [previous], attachments }],
+        [{ kind: "deleteExpenses", ids: [id] }],
+        options,
+      )
+    }
+  },
+
+  // Current copies of the given transactions, as kept for undoing changes to them
+  async getExpensesById(ids: string[]): Promise<Expense[]> {
+    const wanted = new Set(ids)
+    const expenses = await this.getExpenses().catch(() => [] as Expense[])
+    return expenses.filter((expense) => wanted.has(expense.id))
+  },
+
+  // Bulk counterparts of addExpense, updateExpense and deleteExpense. Each is a single
+  // database request, so a bulk action either applies to every row or to none.
+  async addExpenses(expenses: Expense[], options: HistoryOptions = {}): Promise<Expense[]> {
+    if (expenses.length === 0) return []
+
+    const queuedAt = new Date().toISOString()
+    const newExpenses = expenses.map((expense) => ({
+      ...attachCategoryRefs(expense),
+      id: expense.id || crypto.randomUUID(),
+      updatedAt: queuedAt,
+    }))
+
+    const saved = await this.writeThroughBatch(
+      newExpenses.map((expense) => ({ kind: "add", expense, queuedAt })),
+      () => this.saveRemoteExpenses(newExpenses),
+    )
+
+    recordHistory(
+      `Added ${plural(saved.length)}`,
+      [{ kind: "deleteExpenses", ids: saved.map((expense) => expense.id) }],
+      [{ kind: "addExpenses", expenses: saved }],
+      options,
+    )
+    return saved
+  },
+
+  async updateExpenses(expenses: Expense[], options: HistoryOptions = {}): Promise<Expense[]> {
+    if (expenses.length === 0) return []
+
+    const previous = await this.getExpensesById(expenses.map((expense) => expense.id))
+    const queuedAt = new Date().toISOString()
+    const updatedExpenses = expenses.map((expense) => ({ ...attachCategoryRefs(expense), updatedAt: queuedAt }))
+
+    const saved = await this.writeThroughBatch(
+      updatedExpenses.map((expense) => ({ kind: "update", expense, queuedAt })),
+      () => this.saveRemoteExpenses(updatedExpenses),
+    )
+
+    recordHistory(
+      `Edited ${plural(saved.length)}`,
+      [{ kind: "updateExpenses", expenses: previous }],
+      [{ kind: "updateExpenses", expenses: saved }],
+      options,
+    )
+    return saved
+  },
+
+  async deleteExpenses(ids: string[], options: HistoryOptions = {}): Promise<void> {
+    if (ids.length === 0) return
+
+    const previous = await this.getExpensesById(ids)
+    const attachments = options.skipHistory ? [] : await getAttachmentsForUndo(ids)
+    const queuedAt = new Date().toISOString()
+
+    await this.writeThroughBatch(
+      ids.map((expenseId) => ({ kind: "delete", expenseId, queuedAt })),
+      async () => {
+        await this.deleteRemoteExpenses(ids)
+        return []
+      },
+    )
+
+    recordHistory(
+      `Deleted ${plural(ids.length)}`,
+      [{ kind: "addExpenses", expenses: previous, attachments }],
+      [{ kind: "deleteExpenses", ids }],
+      options,
+    )
+  },
+
+  // writeThrough for several changes made together. Queued, they replay one by one.
+  async writeThroughBatch(mutations: PendingMutation[], remoteWrite: () => Promise<Expense[]>): Promise<Expense[]> {
+    if (mutations.length === 0) return []
+
+    const pendingCount = await safeLocal(() => localStore.getPendingCount(), 0)
+
+    if (isOnline() && pendingCount === 0) {
+      try {
+        const saved = await remoteWrite()
+        const savedById = new Map(saved.map((expense) => [expense.id, expense]))
+        for (const mutation of mutations) {
+          await this.applyLocally(
+            mutation.kind === "delete"
+              ? mutation
+              : { ...mutation, expense: savedById.get(mutation.expense.id) || mutation.expense },
+          )
+        }
+        return saved
+      } catch (error) {
+        if (!isNetworkError(error)) throw error
+        console.warn("Database unreachable, queueing changes for later:", error)
+      }
+    }
+
+    for (const mutation of mutations) {
+      await this.applyLocally(mutation)
+      await localStore.enqueueMutation(mutation)
+    }
+
+    return mutations.flatMap((mutation) => (mutation.kind === "delete" ? [] : [mutation.expense]))
+  },
+
+  // Write straight to the database when possible, otherwise record the change
+  // locally and queue it. Once anything is queued, later changes queue behind it
+  // so they replay in the order they were made.
+  async writeThrough<T extends Expense | void>(mutation: PendingMutation, remoteWrite: () => Promise<T>): Promise<T> {
+    const pendingCount = await safeLocal(() => localStore.getPendingCount(), 0)
+
+    if (isOnline() && pendingCount === 0) {
+      try {
+        const result = await remoteWrite()
+        await this.applyLocally(mutation.kind === "delete" ? mutation : { ...mutation, expense: result as Expense })
+        return result
+      } catch (error) {
+        if (!isNetworkError(error)) throw error
+        console.warn("Database unreachable, queueing change for later:", error)
+      }
+    }
+
+    await this.applyLocally(mutation)
+    await localStore.enqueueMutation(mutation)
+
+    return (mutation.kind === "delete" ? undefined : mutation.expense) as T
+  },
+
+  // Reflect a change in the local store and in-memory caches
+  async applyLocally(mutation: PendingMutation): Promise<void> {
+    if (mutation.kind === "delete") {
+      await safeLocal(() => localStore.deleteExpenses([mutation.expenseId]), undefined)
+      if (expensesCache) {
+        expensesCache = expensesCache.filter((expense) => expense.id !== mutation.expenseId)
+      }
+      return
+    }
+
+    const { expense } = mutation
+    await safeLocal(() => localStore.putExpenses([expense]), undefined)
+
+    if (expensesCache) {
+      expensesCache = applyPendingMutations(expensesCache, [mutation])
+    }
+
+    // Add category to cache if it's new
+    if (categoriesCache[expense.type] && !categoriesCache[expense.type].includes(expense.category)) {
+      categoriesCache[expense.type].push(expense.category)
+    }
+  },
+
+  // Replay queued changes against the database in the order they were made
+  async replayPendingMutations(): Promise<{ replayed: number; failed: number; remaining: number }> {
+    if (replayPromise) return replayPromise
+
+    replayPromise = (async () => {
+      const mutations = await safeLocal(() => localStore.getPendingMutations(), [] as PendingMutation[])
+      let replayed = 0
+      let failed = 0
+
+      if (mutations.length === 0 || !isOnline()) {
+        return { replayed, failed, remaining: mutations.length }
+      }
+
+      for (const mutation of mutations) {
+        try {
+          if (mutation.kind === "add") {
+            try {
+              await this.addRemoteExpense(mutation.expense)
+            } catch (error: any) {
+              // Already inserted by an earlier, interrupted replay
+              if (error?.message !== "This transaction already exists") throw error
+            }
+          } else if (mutation.kind === "update") {
+            await this.updateRemoteExpense(mutation.expense)
+          } else {
+            await this.deleteRemoteExpense(mutation.expenseId)
+          }
+
+          replayed++
+        } catch (error) {
+          // Stop at the first connectivity problem to keep the order intact
+          if (isNetworkError(error)) break
+
+          console.error("Database rejected a queued change, dropping it:", mutation, error)
+          failed++
+        }
+
+        await localStore.removeMutation(mutation.seq!)
+      }
+
+      if (replayed > 0 || failed > 0) {
+        expensesCache = null
+        lastFetchTime = 0
+      }
+
+      return { replayed, failed, remaining: mutations.length - replayed - failed }
+    })()
+
+    try {
+      return await replayPromise
+    } finally {
+      replayPromise = null
+    }
+  },
+
+  // Search the database directly, so matches are found beyond the rows held locally.
+  // Offline, the local copy is searched instead.
+  async searchExpenses(query: SearchQuery, limit = SEARCH_RESULT_LIMIT): Promise<Expense[]> {
+    try {
+      if (isEmptySearch(query)) return []
+
+      const pending = await safeLocal(() => localStore.getPendingMutations(), [] as PendingMutation[])
+
+      if (!isOnline()) {
+        const localExpenses = await safeLocal(() => localStore.getExpenses(), [] as Expense[])
+        return localExpenses.filter((expense) => matchesSearch(expense, query)).slice(0, limit)
+      }
+
+      const isAuthenticated = await this.verifyAuthentication()
+      if (!isAuthenticated) {
+        throw new Error("User not authenticated")
+      }
+
+      const supabase = getSupabaseBrowserClient()
+      let request = supabase.from("expenses").select("*")
+
+      buildSearchConditions(query).forEach((condition) => {
+        request = request.or(condition)
+      })
+
+      const { data, error } = await request.order("date", { ascending: false }).limit(limit)
+
+      if (error) {
+        console.error("Error searching expenses:", error)
+        throw error
+      }
+
+      // Queued offline edits win over what the database still holds
+      const results = applyPendingMutations(
+        (data || []).map((row) => mapDbExpenseToExpense(row as DbExpense)),
+        pending,
+      )
+      return results.filter((expense) => matchesSearch(expense, query))
+    } catch (error) {
+      console.error("Error in searchExpenses:", error)
       throw error
     }
   },
 
+  // One page of filtered, sorted transactions straight from the database, so long histories
+  // don't have to be loaded and sorted in the browser. Offline, or while local changes are
+  // still queued, the local copy is paged the same way instead.
+  async getExpensePage(request: ExpensePageRequest): Promise<ExpensePage> {
+    try {
+      const pending = await safeLocal(() => localStore.getPendingMutations(), [] as PendingMutation[])
+
+      if (!isOnline() || pending.length > 0) {
+        return pageExpenses(await this.getExpenses(), request)
+      }
+
+      const isAuthenticated = await this.verifyAuthentication()
+      if (!isAuthenticated) {
+        throw new Error("User not authenticated")
+      }
+
+      const supabase = getSupabaseBrowserClient()
+      const conditions = buildQueryConditions(request.filters)
+      const { column, direction } = request.sort
+      const ascending = direction === "asc"
+
+      // Fetch one row more than asked for to learn whether another page follows
+      let pageRequest = supabase.from("expenses").select("*")
+      conditions.forEach((condition) => {
+        pageRequest = pageRequest.or(condition)
+      })
+      const cursorCondition = request.cursor ? buildCursorCondition(request.cursor, request.sort) : null
+      if (cursorCondition) {
+        pageRequest = pageRequest.or(cursorCondition)
+      }
+      pageRequest = pageRequest.order(column, { ascending }).order("id", { ascending })
+
+      const offset = cursorCondition ? 0 : request.offset || 0
+      let countRequest = supabase.from("expenses").select("id", { count: "exact", head: true })
+      conditions.forEach((condition) => {
+        countRequest = countRequest.or(condition)
+      })
+
+      const [pageResult, countResult] = await Promise.all([
+        pageRequest.range(offset, offset + request.limit),
+        countRequest,
+      ])
+
+      if (pageResult.error || countResult.error) {
+        console.error("Error fetching expense page:", pageResult.error || countResult.error)
+        throw pageResult.error || countResult.error
+      }
+
+      const rows = (pageResult.data || []).map((row) => mapDbExpenseToExpense(row as DbExpense))
+      const items = rows.slice(0, request.limit)
+      const hasMore = rows.length > request.limit
+
+      return {
+        items,
+        total: countResult.count || 0,
+        nextCursor: hasMore && items.length > 0 ? encodeCursor(items[items.length - 1], request.sort) : null,
+      }
+    } catch (error) {
+      console.error("Error in getExpensePage:", error)
+      throw error
+    }
+  },
+
+  // Totals per type, category, month and currency between two ISO timestamps (both optional),
+  // summed by the database's expense_aggregates function (supabase/migrations). Split lines count
+  // towards their own categories, and months follow the browser's time zone. Until that function
+  // exists, and whenever the local copy is ahead of the database, the totals are computed from the
+  // local copy.
+  async getAggregates(range: { from?: string; to?: string } = {}): Promise<AggregateRow[]> {
+    try {
+      const computeLocally = async () => {
+        const expenses = await this.getExpenses()
+        const from = range.from ? new Date(range.from).getTime() : -Infinity
+        const to = range.to ? new Date(range.to).getTime() : Infinity
+        return aggregateExpenses(
+          expenses.filter((expense) => {
+            const time = new Date(expense.date).getTime()
+            return time >= from && time <= to
+          }),
+        )
+      }
+
+      const pending = await safeLocal(() => localStore.getPendingMutations(), [] as PendingMutation[])
+      if (!isOnline() || pending.length > 0) {
+        return computeLocally()
+      }
+
+      const supabase = getSupabaseBrowserClient()
+      const { data, error } = await supabase.rpc("expense_aggregates", {
+        from_date: range.from || null,
+        to_date: range.to || null,
+        time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      })
+
+      if (error) {
+        // Function not created yet
+        if (error.code === "PGRST202" || error.code === "42883") {
+          console.warn("expense_aggregates function does not exist yet, computing totals locally")
+          return computeLocally()
+        }
+        throw error
+      }
+
+      // Rows are grouped by category id as well as the name stored with the transactions, which can be
+      // out of date; rows ending up under the same current name are added together
+      const rows = new Map<string, AggregateRow>()
+      ;((data as (AggregateRow & { category_id: string | null })[] | null) || []).forEach((row) => {
+        const category = getCategoryRef(row.category_id || undefined)?.name || row.category
+        const month = String(row.month).slice(0, 7)
+        const currency = row.currency || DEFAULT_CURRENCY
+        const key = [row.type, category, month, currency].join("|")
+        const current = rows.get(key) || { type: row.type, category, month, currency, amount: 0, count: 0 }
+        current.amount += Number(row.amount) || 0
+        current.count += Number(row.count) || 0
+        rows.set(key, current)
+      })
+      return Array.from(rows.values())
+    } catch (error) {
+      console.error("Error in getAggregates:", error)
+      throw error
+    }
+  },
+
+  // Drop the in-memory expense cache so the next read goes to the local store
+  clearCache(): void {
+    expensesCache = null
+    lastFetchTime = 0
+  },
+
+  async getPendingMutationCount(): Promise<number> {
+    return safeLocal(() => localStore.getPendingCount(), 0)
+  },
+
   // Initialize categories from expenses
   async initializeCategories(expenses: Expense[]): Promise<void> {
     try {
@@ -487,7 +1159,8 @@ export const expenseService = {
 
       // Add categories from expenses
       expenses.forEach((expense) => {
-        if (expense.type && expense.category) {
+        // Transfers have no category list of their own
+        if (categories[expense.type] && expense.category) {
           categories[expense.type].add(expense.category)
         }
       })
@@ -0,0 +1,93 @@
+import { format, isValid, parseISO } from "date-fns"
+import { DEFAULT_FILTERS, TIME_PERIOD_LABELS, AMOUNT_RANGE_LABELS } from "@/lib/filters"
+import type { ExpenseType } from "@/types/expense"
+import type { AmountRange, FilterState, TimePeriod } from "@/types/filter"
+
+// Query string keys owned by the filters; anything else in the URL is left alone
+const FILTER_PARAMS = [
+  "q",
+  "period",
+  "from",
+  "to",
+  "type",
+  "typeMode",
+  "category",
+  "categoryMode",
+  "account",
+  "tag",
+  "amount",
+  "min",
+  "max",
+  "match",
+] as const
+
+const EXPENSE_TYPES: ExpenseType[] = ["expense", "income", "savings", "transfer"]
+
+const parseDate = (value: string | null): Date | null => {
+  if (!value) return null
+  const date = parseISO(value)
+  return isValid(date) ? date : null
+}
+
+const parseNumber = (value: string | null): number | null => {
+  if (value === null || value === "") return null
+  const number = Number(value)
+  return isNaN(number) ? null : number
+}
+
+// Write the filters into the query string, leaving out defaults so shared links stay short.
+// Lists repeat their key (category=Food&category=Transport) so names may contain commas.
+export const writeFilterParams = (filters: FilterState, params: URLSearchParams): URLSearchParams => {
+  const next = new URLSearchParams(params)
+  FILTER_PARAMS.forEach((key) => next.delete(key))
+
+  if (filters.search.trim()) next.set("q", filters.search)
+  if (filters.timePeriod !== DEFAULT_FILTERS.timePeriod) next.set("period", filters.timePeriod)
+  if (filters.timePeriod === "custom") {
+    if (filters.customDateFrom) next.set("from", format(filters.customDateFrom, "yyyy-MM-dd"))
+    if (filters.customDateTo) next.set("to", format(filters.customDateTo, "yyyy-MM-dd"))
+  }
+  filters.types.forEach((type) => next.append("type", type))
+  if (filters.types.length > 0 && filters.typeMode !== "include") next.set("typeMode", filters.typeMode)
+  filters.categories.forEach((category) => next.append("category", category))
+  if (filters.categories.length > 0 && filters.categoryMode !== "include") {
+    next.set("categoryMode", filters.categoryMode)
+  }
+  if (filters.account !== "all") next.set("account", filters.account)
+  filters.tags.forEach((tag) => next.append("tag", tag))
+  if (filters.amountRange !== DEFAULT_FILTERS.amountRange) next.set("amount", filters.amountRange)
+  if (filters.amountRange === "custom") {
+    if (filters.customAmountMin !== null) next.set("min", filters.customAmountMin.toString())
+    if (filters.customAmountMax !== null) next.set("max", filters.customAmountMax.toString())
+  }
+  if (filters.matchMode !== DEFAULT_FILTERS.matchMode) next.set("match", filters.matchMode)
+
+  return next
+}
+
+// Read filters back from the query string. Unknown or malformed values fall back to the defaults
+// instead of failing, since links can be hand-edited or come from an older version.
+export const readFilterParams = (params: URLSearchParams): FilterState => {
+  const period = params.get("period") as TimePeriod | null
+  const amount = params.get("amount") as AmountRange | null
+  const timePeriod = period && period in TIME_PERIOD_LABELS ? period : DEFAULT_FILTERS.timePeriod
+  const amountRange = amount && amount in AMOUNT_RANGE_LABELS ? amount : DEFAULT_FILTERS.amountRange
+
+  return {
+    ...DEFAULT_FILTERS,
+    search: params.get("q") || "",
+    timePeriod,
+    customDateFrom: timePeriod === "custom" ? parseDate(params.get("from")) : null,
+    customDateTo: timePeriod === "custom" ? parseDate(params.get("to")) : null,
+    types: params.getAll("type").filter((type): type is ExpenseType => EXPENSE_TYPES.includes(type as ExpenseType)),
+    typeMode: params.get("typeMode") === "exclude" ? "exclude" : "include",
+    categories: params.getAll("category").filter(Boolean),
+    categoryMode: params.get("categoryMode") === "exclude" ? "exclude" : "include",
+    account: params.get("account") || "all",
+    tags: params.getAll("tag").filter(Boolean),
+    amountRange,
+    customAmountMin: amountRange === "custom" ? parseNumber(params.get("min")) : null,
+    customAmountMax: amountRange === "custom" ? parseNumber(params.get("max")) : null,
+    matchMode: params.get("match") === "any" ? "any" : "all",
+  }
+}
@@ -0,0 +1,185 @@
+import { getSupabaseBrowserClient } from "@/lib/supabase"
+import { expenseService } from "@/lib/expense-service"
+import type { CreateFilterPresetInput, FilterPreset, UpdateFilterPresetInput } from "@/types/filter"
+
+// Event fired when filter presets change
+export const FILTER_PRESETS_UPDATED_EVENT = "filter-presets-updated"
+
+// Cache for presets
+let presetsCache: FilterPreset[] | null = null
+let lastFetchTime = 0
+const CACHE_TTL = 300000 // 5 minutes
+
+const dispatchPresetsUpdate = () => {
+  if (typeof window !== "undefined") {
+    window.dispatchEvent(new CustomEvent(FILTER_PRESETS_UPDATED_EVENT))
+  }
+}
+
+// Convert database preset to app preset
+const mapDbPresetToPreset = (row: any): FilterPreset => ({
+  id: row.id,
+  name: row.name,
+  filters: row.filters || {},
+  pinned: row.pinned || false,
+  position: Number(row.position) || 0,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+})
+
+// Convert app preset fields to database columns
+const mapPresetToDbPreset = (preset: UpdateFilterPresetInput) => {
+  const dbPreset: any = {}
+  if ("name" in preset) dbPreset.name = preset.name
+  if ("filters" in preset) dbPreset.filters = preset.filters || {}
+  if ("pinned" in preset) dbPreset.pinned = preset.pinned || false
+  return dbPreset
+}
+
+export const filterPresetService = {
+  async getPresets(): Promise<FilterPreset[]> {
+    try {
+      const now = Date.now()
+      if (presetsCache && now - lastFetchTime < CACHE_TTL) {
+        return presetsCache
+      }
+
+      const supabase = getSupabaseBrowserClient()
+
+      const isAuthenticated = await expenseService.verifyAuthentication()
+      if (!isAuthenticated) {
+        throw new Error("User not authenticated")
+      }
+
+      const { data, error } = await supabase
+        .from("filter_presets")
+        .select("*")
+        .order("position", { ascending: true })
+        .order("created_at", { ascending: true })
+
+      if (error) {
+        // Table not created yet - treat as no presets
+        if (error.code === "42P01") {
+          console.warn("filter_presets table does not exist yet")
+          return []
+        }
+        throw error
+      }
+
+      presetsCache = (data || []).map(mapDbPresetToPreset)
+      lastFetchTime = now
+      return presetsCache
+    } catch (error) {
+      console.error("Error in getPresets:", error)
+      throw error
+    }
+  },
+
+  // Drop the cached presets so the next read goes to the database
+  clearCache(): void {
+    presetsCache = null
+    lastFetchTime = 0
+  },
+
+  // New presets go to the end of the list
+  async createPreset(input: CreateFilterPresetInput): Promise<FilterPreset> {
+    try {
+      const supabase = getSupabaseBrowserClient()
+
+      const {
+        data: { session },
+      } = await supabase.auth.getSession()
+      if (!session) {
+        throw new Error("User not authenticated")
+      }
+
+      const existing = await this.getPresets()
+      const position = existing.reduce((max, preset) => Math.max(max, preset.position + 1), 0)
+
+      const { data, error } = await supabase
+        .from("filter_presets")
+        .insert({ ...mapPresetToDbPreset(input), position, user_id: session.user.id })
+        .select()
+        .single()
+
+      if (error) {
+        console.error("Error creating filter preset:", error)
+        throw error
+      }
+
+      presetsCache = null
+      dispatchPresetsUpdate()
+      return mapDbPresetToPreset(data)
+    } catch (error) {
+      console.error("Error in createPreset:", error)
+      throw error
+    }
+  },
+
+  async updatePreset(id: string, updates: UpdateFilterPresetInput): Promise<FilterPreset> {
+    try {
+      const supabase = getSupabaseBrowserClient()
+
+      const { data, error } = await supabase
+        .from("filter_presets")
+        .update({ ...mapPresetToDbPreset(updates), updated_at: new Date().toISOString() })
+        .eq("id", id)
+        .select()
+        .single()
+
+      if (error) {
+        console.error("Error updating filter preset:", error)
+        throw error
+      }
+
+      presetsCache = null
+      dispatchPresetsUpdate()
+      return mapDbPresetToPreset(data)
+    } catch (error) {
+      console.error("Error in updatePreset:", error)
+      throw error
+    }
+  },
+
+  // Store the given order; ids missing from the list keep their current position
+  async reorderPresets(orderedIds: string[]): Promise<void> {
+    try {
+      const supabase = getSupabaseBrowserClient()
+
+      const results = await Promise.all(
+        orderedIds.map((id, position) => supabase.from("filter_presets").update({ position }).eq("id", id)),
+      )
+
+      const failed = results.find((result) => result.error)
+      if (failed?.error) {
+        console.error("Error reordering filter presets:", failed.error)
+        throw failed.error
+      }
+
+      presetsCache = null
+      dispatchPresetsUpdate()
+    } catch (error) {
+      console.error("Error in reorderPresets:", error)
+      throw error
+    }
+  },
+
+  async deletePreset(id: string): Promise<void> {
+    try {
+      const supabase = getSupabaseBrowserClient()
+
+      const { error } = await supabase.from("filter_presets").delete().eq("id", id)
+
+      if (error) {
+        console.error("Error deleting filter preset:", error)
+        throw error
+      }
+
+      presetsCache = null
+      dispatchPresetsUpdate()
+    } catch (error) {
+      console.error("Error in deletePreset:", error)
+      throw error
+    }
+  },
+}
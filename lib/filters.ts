@@ -0,0 +1,260 @@
+import {
+  startOfDay,
+  endOfDay,
+  subDays,
+  startOfWeek,
+  endOfWeek,
+  subWeeks,
+  startOfMonth,
+  endOfMonth,
+  subMonths,
+  startOfYear,
+  isWithinInterval,
+  format,
+  parseISO,
+} from "date-fns"
+import type { Expense } from "@/types/expense"
+import type { AmountRange, FilterMode, FilterState, SavedFilters, TimePeriod } from "@/types/filter"
+import { touchesAccount } from "@/lib/accounts"
+import { hasAnyTag } from "@/lib/tags"
+import { usesCategory } from "@/lib/splits"
+import { getCategoryIdsByName, resolveCategoryNames } from "@/lib/category-refs"
+import { matchesSearch, parseSearchQuery, type SearchQuery } from "@/lib/search"
+
+// Default filter state
+export const DEFAULT_FILTERS: FilterState = {
+  search: "",
+  timePeriod: "all",
+  customDateFrom: null,
+  customDateTo: null,
+  types: [],
+  typeMode: "include",
+  categories: [],
+  categoryMode: "include",
+  account: "all",
+  tags: [],
+  amountRange: "all",
+  customAmountMin: null,
+  customAmountMax: null,
+  matchMode: "all",
+}
+
+export const TIME_PERIOD_LABELS: Record<TimePeriod, string> = {
+  all: "All Time",
+  today: "Today",
+  yesterday: "Yesterday",
+  last7days: "Last 7 Days",
+  last30days: "Last 30 Days",
+  thisWeek: "This Week",
+  lastWeek: "Last Week",
+  thisMonth: "This Month",
+  lastMonth: "Last Month",
+  thisYear: "This Year",
+  custom: "Custom Range",
+}
+
+export const AMOUNT_RANGE_LABELS: Record<AmountRange, string> = {
+  all: "Any Amount",
+  under500: "Under ₹500",
+  "500to1000": "₹500 - ₹1,000",
+  "1000to5000": "₹1,000 - ₹5,000",
+  over5000: "Over ₹5,000",
+  custom: "Custom Range",
+}
+
+type ExpenseCondition = (expense: Expense) => boolean
+
+// Date interval of the selected time period, or null when it doesn't restrict dates
+export const getTimePeriodInterval = (
+  filters: Pick<FilterState, "timePeriod" | "customDateFrom" | "customDateTo">,
+  today = new Date(),
+): { start: Date; end: Date } | null => {
+  switch (filters.timePeriod) {
+    case "today":
+      return { start: startOfDay(today), end: endOfDay(today) }
+    case "yesterday": {
+      const yesterday = subDays(today, 1)
+      return { start: startOfDay(yesterday), end: endOfDay(yesterday) }
+    }
+    case "last7days":
+      return { start: startOfDay(subDays(today, 6)), end: endOfDay(today) }
+    case "last30days":
+      return { start: startOfDay(subDays(today, 29)), end: endOfDay(today) }
+    case "thisWeek":
+      // Week starts on Monday
+      return { start: startOfWeek(today, { weekStartsOn: 1 }), end: endOfWeek(today, { weekStartsOn: 1 }) }
+    case "lastWeek": {
+      const lastWeek = subWeeks(today, 1)
+      return { start: startOfWeek(lastWeek, { weekStartsOn: 1 }), end: endOfWeek(lastWeek, { weekStartsOn: 1 }) }
+    }
+    case "thisMonth":
+      return { start: startOfMonth(today), end: endOfMonth(today) }
+    case "lastMonth": {
+      const lastMonth = subMonths(today, 1)
+      return { start: startOfMonth(lastMonth), end: endOfMonth(lastMonth) }
+    }
+    case "thisYear":
+      return { start: startOfYear(today), end: endOfDay(today) }
+    case "custom":
+      if (filters.customDateFrom && filters.customDateTo) {
+        return { start: startOfDay(filters.customDateFrom), end: endOfDay(filters.customDateTo) }
+      }
+      return null
+    default:
+      return null
+  }
+}
+
+const matchesAmountRange = (
+  amount: number,
+  filters: Pick<FilterState, "customAmountMin" | "customAmountMax"> & { amountRange: AmountRange },
+): boolean => {
+  switch (filters.amountRange) {
+    case "under500":
+      return amount < 500
+    case "500to1000":
+      return amount >= 500 && amount <= 1000
+    case "1000to5000":
+      return amount > 1000 && amount <= 5000
+    case "over5000":
+      return amount > 5000
+    case "custom": {
+      const min = filters.customAmountMin ?? Number.MIN_SAFE_INTEGER
+      const max = filters.customAmountMax ?? Number.MAX_SAFE_INTEGER
+      return amount >= min && amount <= max
+    }
+    default:
+      return true
+  }
+}
+
+// One predicate per active filter condition
+const getActiveConditions = (filters: FilterState, today = new Date()): ExpenseCondition[] => {
+  const conditions: ExpenseCondition[] = []
+
+  const interval = getTimePeriodInterval(filters, today)
+  if (interval) {
+    conditions.push((expense) => isWithinInterval(new Date(expense.date), interval))
+  }
+
+  if (filters.types.length > 0) {
+    const included = filters.typeMode === "include"
+    conditions.push((expense) => filters.types.includes(expense.type) === included)
+  }
+
+  // A split transaction matches any of its lines' categories
+  if (filters.categories.length > 0) {
+    const included = filters.categoryMode === "include"
+    conditions.push((expense) => filters.categories.some((category) => usesCategory(expense, category)) === included)
+  }
+
+  if (filters.account !== "all") {
+    conditions.push((expense) => touchesAccount(expense, filters.account))
+  }
+
+  if (filters.tags.length > 0) {
+    conditions.push((expense) => hasAnyTag(expense, filters.tags))
+  }
+
+  if (filters.amountRange !== "all") {
+    conditions.push((expense) => matchesAmountRange(expense.amount, filters))
+  }
+
+  return conditions
+}
+
+// Number of filters currently set, the search included
+export const countActiveFilters = (filters: FilterState): number => {
+  let count = 0
+  if (filters.search.trim()) count++
+  if (filters.timePeriod !== "all") count++
+  if (filters.types.length > 0) count++
+  if (filters.categories.length > 0) count++
+  if (filters.account !== "all") count++
+  if (filters.tags.length > 0) count++
+  if (filters.amountRange !== "all") count++
+  return count
+}
+
+// Apply every filter to a list of transactions. The search always has to match; the other
+// conditions must all pass or, in "any" mode, at least one of them.
+export const filterExpenses = (
+  expenses: Expense[],
+  filters: FilterState,
+  searchQuery: SearchQuery = parseSearchQuery(filters.search),
+): Expense[] => {
+  if (!expenses) return []
+
+  const conditions = getActiveConditions(filters)
+
+  return expenses.filter((expense) => {
+    if (!matchesSearch(expense, searchQuery)) return false
+    if (conditions.length === 0) return true
+
+    return filters.matchMode === "any"
+      ? conditions.some((condition) => condition(expense))
+      : conditions.every((condition) => condition(expense))
+  })
+}
+
+// Short label for a multi-select filter, e.g. "All Categories", "Food, Transport" or "Not Housing"
+export const describeSelection = (values: string[], mode: FilterMode, allLabel: string, noun: string): string => {
+  if (values.length === 0) return allLabel
+  const list = values.length <= 2 ? values.join(", ") : `${values.length} ${noun}`
+  return mode === "exclude" ? `Not ${list}` : list
+}
+
+// Keep only what differs from the defaults, so a preset stays small and picks up new defaults later
+export const toSavedFilters = (filters: FilterState): SavedFilters => {
+  const saved: SavedFilters = {}
+  ;(Object.keys(DEFAULT_FILTERS) as (keyof FilterState)[]).forEach((key) => {
+    const value = filters[key]
+    if (JSON.stringify(value) === JSON.stringify(DEFAULT_FILTERS[key])) return
+    if (value instanceof Date) {
+      ;(saved as Record<string, unknown>)[key] = format(value, "yyyy-MM-dd")
+    } else {
+      ;(saved as Record<string, unknown>)[key] = value
+    }
+  })
+  if (saved.categories) saved.categoryIds = getCategoryIdsByName(saved.categories)
+  return saved
+}
+
+// Full filter state from a saved preset; anything the preset doesn't mention is left at its default
+export const fromSavedFilters = ({ categoryIds, ...saved }: SavedFilters): FilterState => ({
+  ...DEFAULT_FILTERS,
+  ...saved,
+  categories: resolveCategoryNames(saved.categories || DEFAULT_FILTERS.categories, categoryIds),
+  customDateFrom: saved.customDateFrom ? parseISO(saved.customDateFrom) : null,
+  customDateTo: saved.customDateTo ? parseISO(saved.customDateTo) : null,
+})
+
+// One-line summary of a filter state, e.g. "Last 30 Days · Food · Over ₹500"
+export const describeFilters = (filters: FilterState, accountName?: (id: string) => string): string => {
+  const parts: string[] = []
+  if (filters.search.trim()) parts.push(`"${filters.search.trim()}"`)
+  if (filters.timePeriod === "custom" && filters.customDateFrom && filters.customDateTo) {
+    parts.push(`${format(filters.customDateFrom, "MMM d")} - ${format(filters.customDateTo, "MMM d")}`)
+  } else if (filters.timePeriod !== "all") {
+    parts.push(TIME_PERIOD_LABELS[filters.timePeriod])
+  }
+  if (filters.types.length > 0) {
+    parts.push(describeSelection(filters.types, filters.typeMode, "All Types", "types"))
+  }
+  if (filters.categories.length > 0) {
+    parts.push(describeSelection(filters.categories, filters.categoryMode, "All Categories", "categories"))
+  }
+  if (filters.account !== "all") parts.push(accountName ? accountName(filters.account) : "One account")
+  if (filters.tags.length > 0) parts.push(filters.tags.map((tag) => `#${tag}`).join(" "))
+  if (filters.amountRange === "custom") {
+    const { customAmountMin: min, customAmountMax: max } = filters
+    if (min !== null && max !== null) parts.push(`₹${min} - ₹${max}`)
+    else if (min !== null) parts.push(`Over ₹${min}`)
+    else if (max !== null) parts.push(`Under ₹${max}`)
+  } else if (filters.amountRange !== "all") {
+    parts.push(AMOUNT_RANGE_LABELS[filters.amountRange])
+  }
+
+  if (parts.length === 0) return "All transactions"
+  return parts.join(filters.matchMode === "any" ? " or " : " · ")
+}
@@ -0,0 +1,180 @@
+import { getSupabaseBrowserClient } from "@/lib/supabase"
+import { expenseService } from "@/lib/expense-service"
+import { categoryService } from "@/lib/category-service"
+import { currencyService } from "@/lib/currency-service"
+import { computeGoalProgress } from "@/lib/goals"
+import type { CreateGoalInput, Goal, GoalProgress, UpdateGoalInput } from "@/types/goal"
+
+// Event fired when goals change
+export const GOALS_UPDATED_EVENT = "goals-updated"
+
+// Cache for goals
+let goalsCache: Goal[] | null = null
+let lastFetchTime = 0
+const CACHE_TTL = 60000 // 1 minute
+
+const dispatchGoalsUpdate = () => {
+  if (typeof window !== "undefined") {
+    window.dispatchEvent(new CustomEvent(GOALS_UPDATED_EVENT))
+  }
+}
+
+// Convert database goal to app goal
+const mapDbGoalToGoal = (row: any): Goal => ({
+  id: row.id,
+  name: row.name,
+  targetAmount: Number(row.target_amount),
+  targetDate: row.target_date || undefined,
+  categoryIds: row.category_ids || [],
+  color: row.color || undefined,
+  notes: row.notes || undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+})
+
+// Convert app goal fields to database columns
+const mapGoalToDbGoal = (goal: UpdateGoalInput) => {
+  const dbGoal: any = {}
+  if ("name" in goal) dbGoal.name = goal.name
+  if ("targetAmount" in goal) dbGoal.target_amount = goal.targetAmount
+  if ("targetDate" in goal) dbGoal.target_date = goal.targetDate || null
+  if ("categoryIds" in goal) dbGoal.category_ids = goal.categoryIds
+  if ("color" in goal) dbGoal.color = goal.color || null
+  if ("notes" in goal) dbGoal.notes = goal.notes || null
+  return dbGoal
+}
+
+export const goalService = {
+  async getGoals(): Promise<Goal[]> {
+    try {
+      const now = Date.now()
+      if (goalsCache && now - lastFetchTime < CACHE_TTL) {
+        return goalsCache
+      }
+
+      const supabase = getSupabaseBrowserClient()
+
+      const isAuthenticated = await expenseService.verifyAuthentication()
+      if (!isAuthenticated) {
+        throw new Error("User not authenticated")
+      }
+
+      const { data, error } = await supabase.from("goals").select("*").order("created_at", { ascending: true })
+
+      if (error) {
+        // Table not created yet - treat as no goals
+        if (error.code === "42P01") {
+          console.warn("goals table does not exist yet")
+          return []
+        }
+        throw error
+      }
+
+      goalsCache = (data || []).map(mapDbGoalToGoal)
+      lastFetchTime = now
+      return goalsCache
+    } catch (error) {
+      console.error("Error in getGoals:", error)
+      throw error
+    }
+  },
+
+  // Drop the cached goals so the next read goes to the database
+  clearCache(): void {
+    goalsCache = null
+    lastFetchTime = 0
+  },
+
+  async createGoal(input: CreateGoalInput): Promise<Goal> {
+    try {
+      const supabase = getSupabaseBrowserClient()
+
+      const {
+        data: { session },
+      } = await supabase.auth.getSession()
+      if (!session) {
+        throw new Error("User not authenticated")
+      }
+
+      const { data, error } = await supabase
+        .from("goals")
+        .insert({ ...mapGoalToDbGoal(input), user_id: session.user.id })
+        .select()
+        .single()
+
+      if (error) {
+        console.error("Error creating goal:", error)
+        throw error
+      }
+
+      goalsCache = null
+      dispatchGoalsUpdate()
+      return mapDbGoalToGoal(data)
+    } catch (error) {
+      console.error("Error in createGoal:", error)
+      throw error
+    }
+  },
+
+  async updateGoal(id: string, updates: UpdateGoalInput): Promise<Goal> {
+    try {
+      const supabase = getSupabaseBrowserClient()
+
+      const { data, error } = await supabase
+        .from("goals")
+        .update({ ...mapGoalToDbGoal(updates), updated_at: new Date().toISOString() })
+        .eq("id", id)
+        .select()
+        .single()
+
+      if (error) {
+        console.error("Error updating goal:", error)
+        throw error
+      }
+
+      goalsCache = null
+      dispatchGoalsUpdate()
+      return mapDbGoalToGoal(data)
+    } catch (error) {
+      console.error("Error in updateGoal:", error)
+      throw error
+    }
+  },
+
+  async deleteGoal(id: string): Promise<void> {
+    try {
+      const supabase = getSupabaseBrowserClient()
+
+      const { error } = await supabase.from("goals").delete().eq("id", id)
+
+      if (error) {
+        console.error("Error deleting goal:", error)
+        throw error
+      }
+
+      goalsCache = null
+      dispatchGoalsUpdate()
+    } catch (error) {
+      console.error("Error in deleteGoal:", error)
+      throw error
+    }
+  },
+
+  // Goals with progress computed from their linked savings transactions
+  async getGoalsWithProgress(now = new Date()): Promise<GoalProgress[]> {
+    try {
+      const [goals, expenses, categories] = await Promise.all([
+        this.getGoals(),
+        expenseService.getExpenses(),
+        categoryService.getCategories(),
+      ])
+
+      // Contributions are added up in the base currency
+      const converted = currencyService.convertExpensesToBase(expenses)
+      return goals.map((goal) => computeGoalProgress(goal, converted, categories, now))
+    } catch (error) {
+      console.error("Error in getGoalsWithProgress:", error)
+      throw error
+    }
+  },
+}
@@ -0,0 +1,84 @@
+import { addDays, differenceInCalendarDays, isAfter, parseISO, startOfDay, subMonths } from "date-fns"
+import type { Category, Expense } from "@/types/expense"
+import type { Goal, GoalProgress, GoalStatus } from "@/types/goal"
+import { getCategoryAmounts } from "@/lib/splits"
+
+const DAYS_PER_MONTH = 30.44
+
+// How far back contributions count towards the current saving pace
+const PACE_WINDOW_MONTHS = 6
+
+// Savings transactions that count towards a goal, with amounts reduced to the linked split lines
+export const getGoalContributions = (
+  goal: Goal,
+  expenses: Expense[],
+  categories: Pick<Category, "id" | "name" | "type">[],
+): Expense[] => {
+  const linkedIds = new Set(
+    categories.filter((c) => c.type === "savings" && goal.categoryIds.includes(c.id)).map((c) => c.id),
+  )
+
+  return expenses
+    .filter((e) => e.type === "savings")
+    .map((e) => {
+      const linkedAmount = getCategoryAmounts(e)
+        .filter((line) => !!line.categoryId && linkedIds.has(line.categoryId))
+        .reduce((total, line) => total + line.amount, 0)
+      return { ...e, amount: linkedAmount }
+    })
+    .filter((e) => e.amount > 0)
+}
+
+// Progress, pace and projections for a goal as of `now`, from transactions in the base currency
+export const computeGoalProgress = (
+  goal: Goal,
+  expenses: Expense[],
+  categories: Pick<Category, "id" | "name" | "type">[],
+  now = new Date(),
+): GoalProgress => {
+  const today = startOfDay(now)
+  const contributions = getGoalContributions(goal, expenses, categories)
+  const saved = contributions.reduce((total, e) => total + e.amount, 0)
+  const remaining = Math.max(goal.targetAmount - saved, 0)
+  const percent = goal.targetAmount > 0 ? Math.min((saved / goal.targetAmount) * 100, 100) : 0
+
+  // Pace: average monthly contribution over the recent window, or since the first contribution if newer
+  const windowStart = subMonths(today, PACE_WINDOW_MONTHS)
+  const firstContribution = contributions.reduce<Date | null>((earliest, e) => {
+    const date = new Date(e.date)
+    return !earliest || date < earliest ? date : earliest
+  }, null)
+  const paceStart = firstContribution && isAfter(firstContribution, windowStart) ? firstContribution : windowStart
+  const recentTotal = contributions
+    .filter((e) => !isAfter(paceStart, new Date(e.date)) && !isAfter(new Date(e.date), now))
+    .reduce((total, e) => total + e.amount, 0)
+  const paceMonths = Math.max(differenceInCalendarDays(today, paceStart) / DAYS_PER_MONTH, 1)
+  const monthlyPace = recentTotal / paceMonths
+
+  let projectedDate: string | undefined
+  if (remaining === 0) {
+    projectedDate = today.toISOString()
+  } else if (monthlyPace > 0) {
+    projectedDate = addDays(today, Math.ceil((remaining / monthlyPace) * DAYS_PER_MONTH)).toISOString()
+  }
+
+  let requiredMonthly: number | undefined
+  let status: GoalStatus = "no-deadline"
+  if (remaining === 0) {
+    status = "completed"
+  } else if (goal.targetDate) {
+    const deadline = startOfDay(parseISO(goal.targetDate))
+    const daysLeft = differenceInCalendarDays(deadline, today)
+
+    if (daysLeft < 0) {
+      status = "overdue"
+      requiredMonthly = remaining
+    } else {
+      // Anything due within a month has to be saved in full this month
+      requiredMonthly = remaining / Math.max(daysLeft / DAYS_PER_MONTH, 1)
+      status = monthlyPace >= requiredMonthly ? "on-track" : "behind"
+    }
+  }
+
+  return { goal, saved, remaining, percent, monthlyPace, projectedDate, requiredMonthly, status }
+}
@@ -0,0 +1,116 @@
+import { expenseService, EXPENSES_UPDATED_EVENT } from "@/lib/expense-service"
+import { categoryService } from "@/lib/category-service"
+import { attachmentService } from "@/lib/attachment-service"
+import { getAttachmentsForUndo, getHistory, setHistoryUndone } from "@/lib/history"
+import type { Attachment } from "@/types/attachment"
+import type { HistoryEntry, HistoryOperation, HistoryOptions } from "@/types/history"
+
+// Undo and redo run the same service methods a user would, without recording them again
+const fromHistory: HistoryOptions = { skipHistory: true }
+
+// Returns the attachments of transactions the operation deleted, so the opposite step can put them back
+const runOperation = async (operation: HistoryOperation): Promise<Attachment[]> => {
+  switch (operation.kind) {
+    case "addExpenses":
+      await expenseService.addExpenses(operation.expenses, fromHistory)
+      if (operation.attachments?.length) {
+        await attachmentService.restoreAttachments(operation.attachments).catch((error) => {
+          console.warn("Could not restore attachments:", error)
+        })
+      }
+      break
+    case "updateExpenses":
+      await expenseService.updateExpenses(operation.expenses, fromHistory)
+      break
+    case "deleteExpenses": {
+      const attachments = await getAttachmentsForUndo(operation.ids)
+      await expenseService.deleteExpenses(operation.ids, fromHistory)
+      return attachments
+    }
+    case "restoreCategory":
+      await categoryService.restoreCategory(operation.category)
+      break
+    case "updateCategory":
+      await categoryService.updateCategory(operation.id, operation.updates, fromHistory)
+      break
+    case "deleteCategory":
+      await categoryService.deleteCategory(operation.id, operation.replacementId, fromHistory)
+      break
+    case "mergeCategories":
+      await categoryService.mergeCategories(operation.sourceId, operation.targetId, fromHistory)
+      break
+  }
+  return []
+}
+
+const runOperations = async (operations: HistoryOperation[]): Promise<Attachment[]> => {
+  const removed: Attachment[] = []
+  for (const operation of operations) {
+    removed.push(...(await runOperation(operation)))
+  }
+  return removed
+}
+
+// Hands attachments removed by one direction to the other direction's re-adds of the same transactions
+const withAttachments = (operations: HistoryOperation[], attachments: Attachment[]): HistoryOperation[] =>
+  operations.map((operation) => {
+    if (operation.kind !== "addExpenses") return operation
+    const ids = new Set(operation.expenses.map((expense) => expense.id))
+    return { ...operation, attachments: attachments.filter((attachment) => ids.has(attachment.expenseId)) }
+  })
+
+const findEntry = (id: string): HistoryEntry => {
+  const entry = getHistory().find((existing) => existing.id === id)
+  if (!entry) {
+    throw new Error("This change is no longer in the history")
+  }
+  return entry
+}
+
+export const historyService = {
+  // Recent changes, newest first
+  getEntries(): HistoryEntry[] {
+    return getHistory()
+  },
+
+  // The most recent change that can still be undone, e.g. to offer undo right after a delete
+  getLatestEntry(): HistoryEntry | null {
+    return getHistory().find((entry) => !entry.undone) || null
+  },
+
+  async undo(id: string): Promise<void> {
+    try {
+      const entry = findEntry(id)
+      if (entry.undone) return
+
+      const removed = await runOperations(entry.undo)
+      setHistoryUndone(id, true, removed.length > 0 ? { redo: withAttachments(entry.redo, removed) } : {})
+      this.notifyChanged()
+    } catch (error) {
+      console.error("Error in undo:", error)
+      throw error
+    }
+  },
+
+  async redo(id: string): Promise<void> {
+    try {
+      const entry = findEntry(id)
+      if (!entry.undone) return
+
+      const removed = await runOperations(entry.redo)
+      setHistoryUndone(id, false, removed.length > 0 ? { undo: withAttachments(entry.undo, removed) } : {})
+      this.notifyChanged()
+    } catch (error) {
+      console.error("Error in redo:", error)
+      throw error
+    }
+  },
+
+  // Undo and redo write through the services directly, so lists have to be told to reload
+  notifyChanged(): void {
+    expenseService.clearCache()
+    if (typeof window !== "undefined") {
+      window.dispatchEvent(new CustomEvent(EXPENSES_UPDATED_EVENT))
+    }
+  },
+}
@@ -0,0 +1,101 @@
+import { attachmentService } from "@/lib/attachment-service"
+import type { Attachment } from "@/types/attachment"
+import type { HistoryEntry, HistoryOperation, HistoryOptions } from "@/types/history"
+
+// Event fired when a change is recorded, undone or redone
+export const HISTORY_UPDATED_EVENT = "history-updated"
+
+const HISTORY_KEY = "fnzo_history"
+
+// Oldest entries are dropped beyond this, since each one keeps copies of the rows it changed
+const MAX_ENTRIES = 50
+
+const dispatchHistoryUpdate = () => {
+  if (typeof window !== "undefined") {
+    window.dispatchEvent(new CustomEvent(HISTORY_UPDATED_EVENT))
+  }
+}
+
+const loadEntries = (): HistoryEntry[] => {
+  if (typeof window === "undefined") return []
+
+  try {
+    const stored = localStorage.getItem(HISTORY_KEY)
+    return stored ? JSON.parse(stored) : []
+  } catch {
+    return []
+  }
+}
+
+const saveEntries = (entries: HistoryEntry[]) => {
+  if (typeof window === "undefined") return
+
+  try {
+    localStorage.setItem(HISTORY_KEY, JSON.stringify(entries))
+  } catch (error) {
+    // Storage full: keep the newest half rather than losing the log
+    console.warn("Could not save history, trimming it:", error)
+    localStorage.setItem(HISTORY_KEY, JSON.stringify(entries.slice(0, Math.ceil(entries.length / 2))))
+  }
+  dispatchHistoryUpdate()
+}
+
+// Files of deleted transactions stay in storage while the delete can be undone. Once its entry leaves
+// the history, the files whose attachment rows are gone are removed.
+const removeDroppedFiles = (dropped: HistoryEntry[]) => {
+  const attachments = dropped.flatMap((entry) =>
+    (entry.undone ? entry.redo : entry.undo).flatMap((operation) =>
+      operation.kind === "addExpenses" ? operation.attachments || [] : [],
+    ),
+  )
+  if (attachments.length === 0) return
+
+  attachmentService.removeOrphanedFiles(attachments).catch((error) => {
+    console.warn("Could not remove attachment files:", error)
+  })
+}
+
+// Attachments of transactions about to be deleted, kept for undoing the delete. Reading them
+// failing, e.g. offline, doesn't stop the delete.
+export const getAttachmentsForUndo = (expenseIds: string[]): Promise<Attachment[]> =>
+  attachmentService.getExpenseAttachments(expenseIds).catch((error) => {
+    console.warn("Could not read attachments of deleted transactions:", error)
+    return []
+  })
+
+// Newest first
+export const getHistory = (): HistoryEntry[] => loadEntries()
+
+export const recordHistory = (
+  label: string,
+  undo: HistoryOperation[],
+  redo: HistoryOperation[],
+  options: HistoryOptions = {},
+): HistoryEntry | null => {
+  if (options.skipHistory) return null
+
+  const entry: HistoryEntry = {
+    id: crypto.randomUUID(),
+    label,
+    createdAt: new Date().toISOString(),
+    undo,
+    redo,
+    undone: false,
+  }
+
+  // A new change makes the undone entries impossible to redo cleanly, as in an editor
+  const entries = loadEntries()
+  const kept = [entry, ...entries.filter((existing) => !existing.undone)].slice(0, MAX_ENTRIES)
+  saveEntries(kept)
+  removeDroppedFiles(entries.filter((existing) => !kept.includes(existing)))
+  return entry
+}
+
+export const setHistoryUndone = (id: string, undone: boolean, changes: Partial<HistoryEntry> = {}) => {
+  saveEntries(loadEntries().map((entry) => (entry.id === id ? { ...entry, ...changes, undone } : entry)))
+}
+
+export const clearHistory = () => {
+  removeDroppedFiles(loadEntries())
+  saveEntries([])
+}
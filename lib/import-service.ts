@@ -0,0 +1,64 @@
+import { expenseService, EXPENSES_UPDATED_EVENT } from "@/lib/expense-service"
+import { categoryService } from "@/lib/category-service"
+import { recordHistory } from "@/lib/history"
+import type { Expense } from "@/types/expense"
+import type { ImportResult } from "@/types/import"
+
+export const importService = {
+  // Save confirmed transactions, creating any categories they introduce first
+  async importTransactions(
+    expenses: Expense[],
+    onProgress?: (progress: number, result: ImportResult) => void,
+  ): Promise<ImportResult> {
+    try {
+      const isAuthenticated = await expenseService.verifyAuthentication()
+      if (!isAuthenticated) {
+        throw new Error("Authentication failed. Please sign in again.")
+      }
+
+      const result: ImportResult = { total: expenses.length, imported: 0, skipped: 0, failed: 0, newCategories: [] }
+
+      // Create categories that don't exist yet for their transaction type
+      const existing = await categoryService.getCategories()
+      const known = new Set(existing.map((category) => `${category.type}:${category.name.toLowerCase()}`))
+      for (const expense of expenses) {
+        const key = `${expense.type}:${expense.category.toLowerCase()}`
+        if (expense.type === "transfer" || known.has(key)) continue
+
+        known.add(key)
+        await categoryService.addCategory({ name: expense.category, type: expense.type })
+        result.newCategories.push(expense.category)
+      }
+
+      // The whole import is undone as one change rather than row by row
+      const imported: Expense[] = []
+      for (let i = 0; i < expenses.length; i++) {
+        try {
+          imported.push(await expenseService.addExpense(expenses[i], { skipHistory: true }))
+          result.imported++
+        } catch (error) {
+          console.error(`Error importing transaction ${i + 1}:`, error)
+          result.failed++
+        }
+        onProgress?.(Math.round(((i + 1) / expenses.length) * 100), { ...result })
+      }
+
+      if (imported.length > 0) {
+        recordHistory(
+          `Imported ${imported.length} transaction${imported.length === 1 ? "" : "s"}`,
+          [{ kind: "deleteExpenses", ids: imported.map((expense) => expense.id) }],
+          [{ kind: "addExpenses", expenses: imported }],
+        )
+      }
+
+      if (typeof window !== "undefined") {
+        window.dispatchEvent(new CustomEvent(EXPENSES_UPDATED_EVENT))
+      }
+
+      return result
+    } catch (error) {
+      console.error("Error in importTransactions:", error)
+      throw error
+    }
+  },
+}
@@ -0,0 +1,138 @@
+import type { Expense } from "@/types/expense"
+
+// IndexedDB database holding the offline copy of the user's data
+const DB_NAME = "fnzo-local"
+const DB_VERSION = 1
+const EXPENSES_STORE = "expenses"
+const MUTATIONS_STORE = "mutations"
+
+// Event fired whenever the pending mutation queue changes
+export const MUTATION_QUEUE_EVENT = "mutation-queue-changed"
+
+// A change made locally that still has to reach the database
+export type PendingMutation = {
+  seq?: number
+  queuedAt: string
+} & (
+  | { kind: "add"; expense: Expense }
+  | { kind: "update"; expense: Expense }
+  | { kind: "delete"; expenseId: string }
+)
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+// Check whether IndexedDB can be used in the current environment
+export const isLocalStoreAvailable = () => typeof window !== "undefined" && "indexedDB" in window
+
+// Open (and upgrade if needed) the local database
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (!isLocalStoreAvailable()) {
+      reject(new Error("IndexedDB is not available"))
+      return
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(EXPENSES_STORE)) {
+        db.createObjectStore(EXPENSES_STORE, { keyPath: "id" })
+      }
+      if (!db.objectStoreNames.contains(MUTATIONS_STORE)) {
+        db.createObjectStore(MUTATIONS_STORE, { keyPath: "seq", autoIncrement: true })
+      }
+    }
+
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      dbPromise = null
+      reject(request.error)
+    }
+  })
+
+  return dbPromise
+}
+
+// Run a callback inside a transaction and resolve once the transaction completes
+const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  callback: (store: IDBObjectStore) => IDBRequest<T> | void,
+): Promise<T | undefined> => {
+  const db = await openDatabase()
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode)
+    const request = callback(transaction.objectStore(storeName))
+
+    transaction.oncomplete = () => resolve(request ? request.result : undefined)
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+// Notify listeners (e.g. the header badge) that the queue changed
+const dispatchQueueChange = async () => {
+  if (typeof window === "undefined") return
+
+  const count = await localStore.getPendingCount().catch(() => 0)
+  window.dispatchEvent(new CustomEvent(MUTATION_QUEUE_EVENT, { detail: { count } }))
+}
+
+export const localStore = {
+  async getExpenses(): Promise<Expense[]> {
+    const expenses = await withStore<Expense[]>(EXPENSES_STORE, "readonly", (store) => store.getAll())
+    return (expenses || []).sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+  },
+
+  async putExpenses(expenses: Expense[]): Promise<void> {
+    await withStore(EXPENSES_STORE, "readwrite", (store) => {
+      expenses.forEach((expense) => store.put(expense))
+    })
+  },
+
+  // Replace the whole local copy, e.g. after a fresh fetch from the database
+  async replaceExpenses(expenses: Expense[]): Promise<void> {
+    await withStore(EXPENSES_STORE, "readwrite", (store) => {
+      store.clear()
+      expenses.forEach((expense) => store.put(expense))
+    })
+  },
+
+  async deleteExpenses(ids: string[]): Promise<void> {
+    await withStore(EXPENSES_STORE, "readwrite", (store) => {
+      ids.forEach((id) => store.delete(id))
+    })
+  },
+
+  async enqueueMutation(mutation: PendingMutation): Promise<void> {
+    await withStore(MUTATIONS_STORE, "readwrite", (store) => store.add(mutation))
+    await dispatchQueueChange()
+  },
+
+  // Pending mutations in the order they were made
+  async getPendingMutations(): Promise<PendingMutation[]> {
+    const mutations = await withStore<PendingMutation[]>(MUTATIONS_STORE, "readonly", (store) => store.getAll())
+    return (mutations || []).sort((a, b) => (a.seq || 0) - (b.seq || 0))
+  },
+
+  async removeMutation(seq: number): Promise<void> {
+    await withStore(MUTATIONS_STORE, "readwrite", (store) => store.delete(seq))
+    await dispatchQueueChange()
+  },
+
+  // Wipe the local copy and queue, e.g. when a different user signs in
+  async clearAll(): Promise<void> {
+    await withStore(EXPENSES_STORE, "readwrite", (store) => store.clear())
+    await withStore(MUTATIONS_STORE, "readwrite", (store) => store.clear())
+    await dispatchQueueChange()
+  },
+
+  async getPendingCount(): Promise<number> {
+    const count = await withStore<number>(MUTATIONS_STORE, "readonly", (store) => store.count())
+    return count || 0
+  },
+}
@@ -0,0 +1,211 @@
+import { previousDay, setDate, startOfDay, subDays, subMonths, subWeeks, subYears, type Day } from "date-fns"
+import { extractHashtags } from "@/lib/tags"
+import type { Expense, ExpenseType } from "@/types/expense"
+
+type QuickAddType = Exclude<ExpenseType, "transfer">
+
+export interface QuickAddCategory {
+  name: string
+  type: ExpenseType
+}
+
+// A transaction read from one line of free text, waiting to be confirmed
+export interface QuickAddDraft {
+  // Category is empty when the text names none of the user's categories
+  expense: Expense
+  // Whether the text itself named the category, rather than leaving it to rules or suggestions
+  categoryMatched: boolean
+  // Whether the type came from the text (a sign, a category or a word like "salary")
+  typeMatched: boolean
+}
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"]
+const MONTHS = [
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december",
+]
+
+// Words that mark money coming in or being put aside, when no category or sign says so
+const INCOME_WORDS = ["salary", "income", "received", "refund", "bonus", "interest", "dividend", "cashback", "credited"]
+const SAVINGS_WORDS = ["saved", "savings", "sip", "invested", "investment"]
+
+// Indian shorthands as well as thousands: 85k, 1.5L, 2 lakh, 1cr
+const AMOUNT_MULTIPLIERS: Record<string, number> = {
+  k: 1000,
+  l: 100000,
+  lac: 100000,
+  lakh: 100000,
+  lakhs: 100000,
+  cr: 10000000,
+  crore: 10000000,
+}
+
+// An optional sign and currency, the number, and an optional multiplier
+const AMOUNT_PATTERN = new RegExp(
+  "(^|\\s)([+-])?\\s?(?:₹|rs\\.?\\s?|inr\\s?)?(\\d[\\d,]*(?:\\.\\d+)?)\\s?(k|l|lac|lakhs?|cr|crore)?(?=\\s|$)",
+  "i",
+)
+
+// Names written in full or cut to three letters: "mon" or "monday", "aug" or "august"
+const shortOrFull = (names: string[]) => names.map((name) => `${name.slice(0, 3)}(?:${name.slice(3)})?`).join("|")
+const WEEKDAY_NAMES = shortOrFull(WEEKDAYS)
+const MONTH_NAMES = shortOrFull(MONTHS)
+
+const monthIndex = (name: string) => MONTHS.findIndex((month) => month.startsWith(name.toLowerCase().slice(0, 3)))
+
+// Optional "on" / "on the" in front of a date
+const ON = "(?:\\bon\\s+(?:the\\s+)?)?"
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+
+// Whether the phrase appears as whole words, so "Rent" is found in "rent" but not in "parent"
+const containsPhrase = (text: string, phrase: string) =>
+  new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(phrase)}($|[^\\p{L}\\p{N}])`, "iu").test(text)
+
+// A past date from day and month; dates later this year are taken as last year's
+const pastDate = (today: Date, month: number, day: number, year?: number): Date | null => {
+  const fullYear = year === undefined ? today.getFullYear() : year < 100 ? 2000 + year : year
+  const date = new Date(fullYear, month, day)
+  if (date.getMonth() !== month || date.getDate() !== day) return null
+  return year === undefined && date > today ? subYears(date, 1) : date
+}
+
+// Date phrases in the order they are tried; each returns the date or null when it does not apply
+const DATE_PHRASES: { pattern: RegExp; resolve: (match: RegExpMatchArray, today: Date) => Date | null }[] = [
+  { pattern: /\bday before yesterday\b/i, resolve: (_, today) => subDays(today, 2) },
+  { pattern: /\byesterday\b/i, resolve: (_, today) => subDays(today, 1) },
+  { pattern: /\b(?:today|tonight)\b/i, resolve: (_, today) => today },
+  {
+    pattern: /\b(\d+|a|an)\s+(days?|weeks?|months?)\s+ago\b/i,
+    resolve: (match, today) => {
+      const count = /^an?$/i.test(match[1]) ? 1 : Number(match[1])
+      const unit = match[2].toLowerCase()
+      if (unit.startsWith("day")) return subDays(today, count)
+      if (unit.startsWith("week")) return subWeeks(today, count)
+      return subMonths(today, count)
+    },
+  },
+  {
+    pattern: new RegExp(`${ON}\\b(last\\s+)?(${WEEKDAY_NAMES})\\b`, "i"),
+    resolve: (match, today) => {
+      const weekday = WEEKDAYS.findIndex((day) => day.startsWith(match[2].toLowerCase().slice(0, 3)))
+      // "monday" on a Monday means today; "last monday" means a week ago
+      if (!match[1] && today.getDay() === weekday) return today
+      return previousDay(today, weekday as Day)
+    },
+  },
+  {
+    pattern: /\b(\d{4})-(\d{1,2})-(\d{1,2})\b/,
+    resolve: (match) => {
+      const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+      return date.getMonth() === Number(match[2]) - 1 ? date : null
+    },
+  },
+  {
+    // Day first, as written in India: 15/08 or 15/08/2024
+    pattern: new RegExp(`${ON}\\b(\\d{1,2})/(\\d{1,2})(?:/(\\d{2}|\\d{4}))?\\b`, "i"),
+    resolve: (match, today) =>
+      pastDate(today, Number(match[2]) - 1, Number(match[1]), match[3] ? Number(match[3]) : undefined),
+  },
+  {
+    pattern: new RegExp(`${ON}\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(${MONTH_NAMES})\\b`, "i"),
+    resolve: (match, today) => pastDate(today, monthIndex(match[2]), Number(match[1])),
+  },
+  {
+    pattern: new RegExp(`${ON}\\b(${MONTH_NAMES})\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b`, "i"),
+    resolve: (match, today) => pastDate(today, monthIndex(match[1]), Number(match[2])),
+  },
+  {
+    // "on 1st": that day of this month, or of last month if it is still to come
+    pattern: new RegExp(`${ON}\\b(\\d{1,2})(?:st|nd|rd|th)\\b`, "i"),
+    resolve: (match, today) => {
+      const day = Number(match[1])
+      if (day < 1 || day > 31) return null
+      const thisMonth = setDate(today, day)
+      if (thisMonth.getDate() === day && thisMonth <= today) return thisMonth
+      const lastMonth = setDate(subMonths(today, 1), day)
+      return lastMonth.getDate() === day ? lastMonth : null
+    },
+  },
+]
+
+const cleanNotes = (text: string) =>
+  text
+    .replace(/\s{2,}/g, " ")
+    .replace(/^(?:on|for|at|of)\s+|\s+(?:on|for|at|of)$/gi, "")
+    .trim()
+
+// Read a line like "450 lunch with team yesterday", "salary 85k on 1st" or "-1200 uber 3 days ago".
+// Returns null when the text has no amount. The category is looked up among the given categories by name.
+export const parseQuickAdd = (
+  input: string,
+  categories: QuickAddCategory[],
+  today: Date = new Date(),
+): QuickAddDraft | null => {
+  const { text: withoutTags, tags } = extractHashtags(input)
+  let text = ` ${withoutTags} `
+  const now = startOfDay(today)
+
+  let date = now
+  for (const phrase of DATE_PHRASES) {
+    const match = text.match(phrase.pattern)
+    const resolved = match && phrase.resolve(match, now)
+    if (match && resolved) {
+      date = resolved
+      text = text.replace(match[0], " ")
+      break
+    }
+  }
+
+  const amountMatch = text.match(AMOUNT_PATTERN)
+  if (!amountMatch) return null
+
+  const multiplier = amountMatch[4] ? AMOUNT_MULTIPLIERS[amountMatch[4].toLowerCase()] : 1
+  const amount = Math.round(Number.parseFloat(amountMatch[3].replace(/,/g, "")) * multiplier * 100) / 100
+  if (!amount) return null
+
+  text = text.replace(amountMatch[0], " ")
+  const notes = cleanNotes(text)
+  const sign = amountMatch[2]
+  const signType: QuickAddType | null = sign === "-" ? "expense" : sign === "+" ? "income" : null
+
+  // Longest category name found as whole words; a sign limits the search to its type
+  const category = categories
+    .filter((candidate) => candidate.type !== "transfer" && (!signType || candidate.type === signType))
+    .filter((candidate) => containsPhrase(notes, candidate.name))
+    .sort((a, b) => b.name.length - a.name.length)[0]
+
+  const words = notes.toLowerCase().split(/[^\p{L}\p{N}]+/u)
+  const wordType: QuickAddType | null = words.some((word) => INCOME_WORDS.includes(word))
+    ? "income"
+    : words.some((word) => SAVINGS_WORDS.includes(word))
+      ? "savings"
+      : null
+
+  const type = signType || (category?.type as QuickAddType | undefined) || wordType || "expense"
+
+  return {
+    expense: {
+      id: "",
+      // Saved as a timestamp of local midnight, like dates picked in the expense form
+      date: date.toISOString(),
+      type,
+      category: category?.name || "",
+      amount,
+      notes,
+      tags,
+    },
+    categoryMatched: !!category,
+    typeMatched: !!(signType || category || wordType),
+  }
+}
@@ -0,0 +1,141 @@
+import { v5 as uuidv5 } from "uuid"
+import { resolveCategoryRefs } from "@/lib/category-refs"
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  addYears,
+  endOfMonth,
+  format,
+  getDay,
+  isAfter,
+  isBefore,
+  parseISO,
+  setDate,
+  startOfDay,
+  startOfMonth,
+} from "date-fns"
+import type { Expense } from "@/types/expense"
+import type { NthWeekday, RecurringRule } from "@/types/recurring"
+import type { TransactionTemplate } from "@/types/template"
+
+// Namespace for deterministic occurrence ids, so posting an occurrence twice hits the same row
+const OCCURRENCE_NAMESPACE = "6f1c1d2e-3a4b-4c5d-8e9f-0a1b2c3d4e5f"
+
+// Safety net against rules that would never terminate
+const MAX_ITERATIONS = 5000
+
+const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"]
+const ORDINALS: Record<string, string> = { "1": "first", "2": "second", "3": "third", "4": "fourth", "-1": "last" }
+
+export const toDateKey = (date: Date) => format(date, "yyyy-MM-dd")
+
+// Find the nth (or last) given weekday in the month containing `month`
+const nthWeekdayOfMonth = (month: Date, { n, weekday }: NthWeekday): Date => {
+  if (n === -1) {
+    const last = startOfDay(endOfMonth(month))
+    const offset = (getDay(last) - weekday + 7) % 7
+    return addDays(last, -offset)
+  }
+
+  const first = startOfMonth(month)
+  const offset = (weekday - getDay(first) + 7) % 7
+  return addDays(first, offset + (n - 1) * 7)
+}
+
+// Scheduled date of the k-th step of a rule
+const stepDate = (rule: RecurringRule, start: Date, k: number): Date => {
+  const steps = k * Math.max(rule.interval, 1)
+
+  switch (rule.frequency) {
+    case "daily":
+      return addDays(start, steps)
+    case "weekly":
+      return addWeeks(start, steps)
+    case "monthly":
+      if (rule.nthWeekday) {
+        return nthWeekdayOfMonth(addMonths(setDate(start, 1), steps), rule.nthWeekday)
+      }
+      return addMonths(start, steps)
+    case "yearly":
+      return addYears(start, steps)
+  }
+}
+
+// List the scheduled dates (yyyy-MM-dd) of a rule that fall within [from, to]
+export const getOccurrenceDates = (rule: RecurringRule, from: Date, to: Date): string[] => {
+  const start = startOfDay(parseISO(rule.startDate))
+  const end = rule.endDate ? startOfDay(parseISO(rule.endDate)) : null
+  const rangeStart = startOfDay(from)
+  const dates: string[] = []
+  let produced = 0
+
+  for (let k = 0; k < MAX_ITERATIONS; k++) {
+    const date = stepDate(rule, start, k)
+
+    // An nth-weekday date in the first month can fall before the start date
+    if (isBefore(date, start)) continue
+    if (isAfter(date, to) || (end && isAfter(date, end))) break
+    if (rule.count && produced >= rule.count) break
+
+    produced++
+    if (!isBefore(date, rangeStart)) {
+      dates.push(toDateKey(date))
+    }
+  }
+
+  return dates
+}
+
+// Deterministic expense id for an occurrence of a rule
+export const getOccurrenceId = (ruleId: string, scheduledDate: string) =>
+  uuidv5(`${ruleId}:${scheduledDate}`, OCCURRENCE_NAMESPACE)
+
+// Build the expense an occurrence posts, applying any per-instance edits
+export const buildOccurrenceExpense = (
+  rule: RecurringRule,
+  template: TransactionTemplate,
+  scheduledDate: string,
+): Expense => {
+  const exception = rule.exceptions.find((e) => e.date === scheduledDate && e.action === "edit")
+  const overrides = exception?.overrides || {}
+
+  return resolveCategoryRefs({
+    id: getOccurrenceId(rule.id, scheduledDate),
+    date: overrides.date || parseISO(scheduledDate).toISOString(),
+    type: template.type,
+    category: overrides.category || template.category,
+    categoryId: overrides.category ? overrides.categoryId : template.categoryId,
+    amount: overrides.amount ?? template.amount,
+    notes: overrides.notes ?? (template.notes || template.name),
+  })
+}
+
+// Human readable summary, e.g. "Every 2 weeks" or "Monthly on the last Friday"
+export const describeRule = (rule: RecurringRule): string => {
+  const units: Record<RecurringRule["frequency"], string> = {
+    daily: "day",
+    weekly: "week",
+    monthly: "month",
+    yearly: "year",
+  }
+  const base =
+    rule.interval > 1
+      ? `Every ${rule.interval} ${units[rule.frequency]}s`
+      : rule.frequency.charAt(0).toUpperCase() + rule.frequency.slice(1)
+
+  let description = base
+  if (rule.frequency === "monthly" && rule.nthWeekday) {
+    description += ` on the ${ORDINALS[String(rule.nthWeekday.n)]} ${WEEKDAY_NAMES[rule.nthWeekday.weekday]}`
+  }
+
+  if (rule.count) {
+    description += `, ${rule.count} times`
+  } else if (rule.endDate) {
+    description += `, until ${format(parseISO(rule.endDate), "MMM d, yyyy")}`
+  }
+
+  return description
+}
+
+export { WEEKDAY_NAMES }
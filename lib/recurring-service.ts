@@ -0,0 +1,325 @@
+import { getSupabaseBrowserClient } from "@/lib/supabase"
+import { expenseService } from "@/lib/expense-service"
+import { templateService } from "@/lib/template-service"
+import { buildOccurrenceExpense, getOccurrenceDates, toDateKey } from "@/lib/recurrence"
+import { attachCategoryRef } from "@/lib/category-refs"
+import { addDays, parseISO } from "date-fns"
+import type {
+  CreateRecurringRuleInput,
+  RecurrenceException,
+  RecurringOccurrence,
+  RecurringRule,
+  UpdateRecurringRuleInput,
+} from "@/types/recurring"
+
+// Event fired when recurring rules change
+export const RECURRING_UPDATED_EVENT = "recurring-updated"
+
+// Cache for rules
+let rulesCache: RecurringRule[] | null = null
+let lastFetchTime = 0
+const CACHE_TTL = 60000 // 1 minute
+
+// Prevent overlapping materialisation runs
+let materializePromise: Promise<number> | null = null
+
+const dispatchRecurringUpdate = () => {
+  if (typeof window !== "undefined") {
+    window.dispatchEvent(new CustomEvent(RECURRING_UPDATED_EVENT))
+  }
+}
+
+// Convert database rule to app rule
+const mapDbRuleToRule = (row: any): RecurringRule => ({
+  id: row.id,
+  templateId: row.template_id,
+  frequency: row.frequency,
+  interval: row.interval || 1,
+  startDate: row.start_date,
+  nthWeekday: row.nth_week ? { n: row.nth_week, weekday: row.nth_weekday } : undefined,
+  endDate: row.end_date || undefined,
+  count: row.occurrence_count || undefined,
+  isActive: row.is_active ?? true,
+  exceptions: row.exceptions || [],
+  lastGenerated: row.last_generated || undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+})
+
+// Convert app rule fields to database columns
+const mapRuleToDbRule = (rule: UpdateRecurringRuleInput) => {
+  const dbRule: any = {}
+  if ("templateId" in rule) dbRule.template_id = rule.templateId
+  if ("frequency" in rule) dbRule.frequency = rule.frequency
+  if ("interval" in rule) dbRule.interval = rule.interval
+  if ("startDate" in rule) dbRule.start_date = rule.startDate
+  if ("nthWeekday" in rule) {
+    dbRule.nth_week = rule.nthWeekday?.n ?? null
+    dbRule.nth_weekday = rule.nthWeekday?.weekday ?? null
+  }
+  if ("endDate" in rule) dbRule.end_date = rule.endDate || null
+  if ("count" in rule) dbRule.occurrence_count = rule.count || null
+  if ("isActive" in rule) dbRule.is_active = rule.isActive
+  if ("exceptions" in rule) dbRule.exceptions = rule.exceptions
+  if ("lastGenerated" in rule) dbRule.last_generated = rule.lastGenerated || null
+  return dbRule
+}
+
+export const recurringService = {
+  async getRules(): Promise<RecurringRule[]> {
+    try {
+      const now = Date.now()
+      if (rulesCache && now - lastFetchTime < CACHE_TTL) {
+        return rulesCache
+      }
+
+      const supabase = getSupabaseBrowserClient()
+
+      const isAuthenticated = await expenseService.verifyAuthentication()
+      if (!isAuthenticated) {
+        throw new Error("User not authenticated")
+      }
+
+      const { data, error } = await supabase
+        .from("recurring_rules")
+        .select("*")
+        .order("created_at", { ascending: true })
+
+      if (error) {
+        // Table not created yet - treat as no rules
+        if (error.code === "42P01") {
+          console.warn("recurring_rules table does not exist yet")
+          return []
+        }
+        throw error
+      }
+
+      rulesCache = (data || []).map(mapDbRuleToRule)
+      lastFetchTime = now
+      return rulesCache
+    } catch (error) {
+      console.error("Error in getRules:", error)
+      throw error
+    }
+  },
+
+  // Drop the cached recurring rules so the next read goes to the database
+  clearCache(): void {
+    rulesCache = null
+    lastFetchTime = 0
+  },
+
+  async createRule(input: CreateRecurringRuleInput): Promise<RecurringRule> {
+    try {
+      const supabase = getSupabaseBrowserClient()
+
+      const {
+        data: { session },
+      } = await supabase.auth.getSession()
+      if (!session) {
+        throw new Error("User not authenticated")
+      }
+
+      const { data, error } = await supabase
+        .from("recurring_rules")
+        .insert({ ...mapRuleToDbRule(input), user_id: session.user.id, exceptions: [] })
+        .select()
+        .single()
+
+      if (error) {
+        console.error("Error creating recurring rule:", error)
+        throw error
+      }
+
+      rulesCache = null
+      dispatchRecurringUpdate()
+      return mapDbRuleToRule(data)
+    } catch (error) {
+      console.error("Error in createRule:", error)
+      throw error
+    }
+  },
+
+  async updateRule(id: string, updates: UpdateRecurringRuleInput): Promise<RecurringRule> {
+    try {
+      const supabase = getSupabaseBrowserClient()
+
+      const { data, error } = await supabase
+        .from("recurring_rules")
+        .update({ ...mapRuleToDbRule(updates), updated_at: new Date().toISOString() })
+        .eq("id", id)
+        .select()
+        .single()
+
+      if (error) {
+        console.error("Error updating recurring rule:", error)
+        throw error
+      }
+
+      rulesCache = null
+      dispatchRecurringUpdate()
+      return mapDbRuleToRule(data)
+    } catch (error) {
+      console.error("Error in updateRule:", error)
+      throw error
+    }
+  },
+
+  async deleteRule(id: string): Promise<void> {
+    try {
+      const supabase = getSupabaseBrowserClient()
+
+      const { error } = await supabase.from("recurring_rules").delete().eq("id", id)
+
+      if (error) {
+        console.error("Error deleting recurring rule:", error)
+        throw error
+      }
+
+      rulesCache = null
+      dispatchRecurringUpdate()
+    } catch (error) {
+      console.error("Error in deleteRule:", error)
+      throw error
+    }
+  },
+
+  // Post every occurrence that has fallen due since the last run. Occurrence ids
+  // are derived from the rule and date, so running this twice never duplicates.
+  async materializeDueOccurrences(today = new Date()): Promise<number> {
+    if (materializePromise) return materializePromise
+
+    materializePromise = (async () => {
+      const [rules, templates] = await Promise.all([this.getRules(), templateService.getTemplates()])
+      let created = 0
+
+      for (const rule of rules) {
+        if (!rule.isActive) continue
+
+        const template = templates.find((t) => t.id === rule.templateId)
+        if (!template) {
+          console.warn(`Skipping recurring rule ${rule.id}: template ${rule.templateId} not found`)
+          continue
+        }
+
+        const from = rule.lastGenerated ? addDays(parseISO(rule.lastGenerated), 1) : parseISO(rule.startDate)
+        const dueDates = getOccurrenceDates(rule, from, today)
+        if (dueDates.length === 0) continue
+
+        let failed = false
+        for (const scheduledDate of dueDates) {
+          if (rule.exceptions.some((e) => e.date === scheduledDate && e.action === "skip")) continue
+
+          try {
+            // Posting due occurrences isn't something the user did, so it stays out of the undo history
+            await expenseService.addExpense(buildOccurrenceExpense(rule, template, scheduledDate), {
+              skipHistory: true,
+            })
+            created++
+          } catch (error: any) {
+            if (error?.message === "This transaction already exists") continue
+
+            console.error(`Error posting occurrence ${scheduledDate} of rule ${rule.id}:`, error)
+            failed = true
+            break
+          }
+        }
+
+        // Only move the watermark forward when every due occurrence was handled
+        if (!failed) {
+          await this.updateRule(rule.id, { lastGenerated: toDateKey(today) })
+        }
+      }
+
+      if (created > 0) {
+        console.log(`Posted ${created} recurring transactions`)
+      }
+
+      return created
+    })()
+
+    try {
+      return await materializePromise
+    } finally {
+      materializePromise = null
+    }
+  },
+
+  // Posted and upcoming occurrences of all rules within a window
+  async getOccurrences(from: Date, to: Date): Promise<RecurringOccurrence[]> {
+    const [rules, templates] = await Promise.all([this.getRules(), templateService.getTemplates()])
+    const occurrences: RecurringOccurrence[] = []
+
+    rules.forEach((rule) => {
+      const template = templates.find((t) => t.id === rule.templateId)
+      if (!template) return
+
+      getOccurrenceDates(rule, from, to).forEach((scheduledDate) => {
+        const exception = rule.exceptions.find((e) => e.date === scheduledDate)
+        const isPosted = !!rule.lastGenerated && scheduledDate <= rule.lastGenerated
+
+        occurrences.push({
+          rule,
+          template,
+          scheduledDate,
+          expense: buildOccurrenceExpense(rule, template, scheduledDate),
+          status: exception?.action === "skip" ? "skipped" : isPosted ? "posted" : "upcoming",
+          isEdited: exception?.action === "edit",
+        })
+      })
+    })
+
+    return occurrences.sort((a, b) => a.scheduledDate.localeCompare(b.scheduledDate))
+  },
+
+  // Replace the exception for one occurrence of a rule
+  async setException(rule: RecurringRule, exception: RecurrenceException | { date: string; action: null }) {
+    const exceptions = rule.exceptions.filter((e) => e.date !== exception.date)
+    if (exception.action) {
+      exceptions.push(exception as RecurrenceException)
+    }
+    return this.updateRule(rule.id, { exceptions })
+  },
+
+  // Skip a single occurrence, removing the transaction if it was already posted
+  async skipOccurrence(occurrence: RecurringOccurrence): Promise<RecurringRule> {
+    if (occurrence.status === "posted") {
+      await expenseService.deleteExpense(occurrence.expense.id)
+    }
+    return this.setException(occurrence.rule, { date: occurrence.scheduledDate, action: "skip" })
+  },
+
+  // Bring a skipped occurrence back; if it is already due it gets posted on the next run
+  async restoreOccurrence(occurrence: RecurringOccurrence): Promise<RecurringRule> {
+    const rule = await this.setException(occurrence.rule, { date: occurrence.scheduledDate, action: null })
+
+    if (rule.lastGenerated && occurrence.scheduledDate <= rule.lastGenerated) {
+      await expenseService.addExpense(buildOccurrenceExpense(rule, occurrence.template, occurrence.scheduledDate))
+    }
+
+    return rule
+  },
+
+  // Edit a single occurrence without touching the rest of the series
+  async editOccurrence(
+    occurrence: RecurringOccurrence,
+    overrides: NonNullable<RecurrenceException["overrides"]>,
+  ): Promise<RecurringRule> {
+    const { type } = occurrence.template
+    const categoryRef =
+      overrides.category && type !== "transfer"
+        ? attachCategoryRef({ category: overrides.category, categoryId: overrides.categoryId }, type)
+        : {}
+    const rule = await this.setException(occurrence.rule, {
+      date: occurrence.scheduledDate,
+      action: "edit",
+      overrides: { ...overrides, ...categoryRef },
+    })
+
+    if (occurrence.status === "posted") {
+      await expenseService.updateExpense(buildOccurrenceExpense(rule, occurrence.template, occurrence.scheduledDate))
+    }
+
+    return rule
+  },
+}
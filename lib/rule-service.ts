@@ -0,0 +1,243 @@
+import { getSupabaseBrowserClient } from "@/lib/supabase"
+import { expenseService, EXPENSES_UPDATED_EVENT } from "@/lib/expense-service"
+import { recordHistory } from "@/lib/history"
+import {
+  attachCategoryRef,
+  getCategoryRefsVersion,
+  resolveCategoryRef,
+  type CategoryLine,
+} from "@/lib/category-refs"
+import type { RuleChange } from "@/lib/rules"
+import type { CategorizationRule, CreateRuleInput, RuleActions, UpdateRuleInput } from "@/types/rule"
+
+// Event fired when categorisation rules change
+export const RULES_UPDATED_EVENT = "rules-updated"
+
+// Cache for rules
+let rulesCache: CategorizationRule[] | null = null
+let lastFetchTime = 0
+const CACHE_TTL = 300000 // 5 minutes
+// Version of the category names the cached rules were resolved against
+let cacheRefsVersion = -1
+
+const dispatchRulesUpdate = () => {
+  if (typeof window !== "undefined") {
+    window.dispatchEvent(new CustomEvent(RULES_UPDATED_EVENT))
+  }
+}
+
+// A rule's category is saved with its id, so the rule keeps working after a rename or merge
+const withCategoryRef = (
+  actions: RuleActions,
+  toRef: (line: CategoryLine, type: string) => CategoryLine,
+): RuleActions =>
+  actions.category && actions.type
+    ? { ...actions, ...toRef({ category: actions.category, categoryId: actions.categoryId }, actions.type) }
+    : actions
+
+const withCurrentCategories = (rules: CategorizationRule[]): CategorizationRule[] => {
+  cacheRefsVersion = getCategoryRefsVersion()
+  return rules.map((rule) => ({ ...rule, actions: withCategoryRef(rule.actions, resolveCategoryRef) }))
+}
+
+// Convert database rule to app rule
+const mapDbRuleToRule = (row: any): CategorizationRule => ({
+  id: row.id,
+  name: row.name,
+  conditions: row.conditions || {},
+  actions: row.actions || {},
+  isActive: row.is_active ?? true,
+  position: Number(row.position) || 0,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+})
+
+// Convert app rule fields to database columns
+const mapRuleToDbRule = (rule: UpdateRuleInput) => {
+  const dbRule: any = {}
+  if ("name" in rule) dbRule.name = rule.name
+  if ("conditions" in rule) dbRule.conditions = rule.conditions || {}
+  if ("actions" in rule) dbRule.actions = withCategoryRef(rule.actions || {}, attachCategoryRef)
+  if ("isActive" in rule) dbRule.is_active = rule.isActive ?? true
+  return dbRule
+}
+
+export const ruleService = {
+  // Every rule in the order they run
+  async getRules(): Promise<CategorizationRule[]> {
+    try {
+      const now = Date.now()
+      if (rulesCache && now - lastFetchTime < CACHE_TTL) {
+        if (cacheRefsVersion !== getCategoryRefsVersion()) {
+          rulesCache = withCurrentCategories(rulesCache)
+        }
+        return rulesCache
+      }
+
+      const supabase = getSupabaseBrowserClient()
+
+      const isAuthenticated = await expenseService.verifyAuthentication()
+      if (!isAuthenticated) {
+        throw new Error("User not authenticated")
+      }
+
+      const { data, error } = await supabase
+        .from("categorization_rules")
+        .select("*")
+        .order("position", { ascending: true })
+        .order("created_at", { ascending: true })
+
+      if (error) {
+        // Table not created yet - treat as no rules
+        if (error.code === "42P01") {
+          console.warn("categorization_rules table does not exist yet")
+          return []
+        }
+        throw error
+      }
+
+      rulesCache = withCurrentCategories((data || []).map(mapDbRuleToRule))
+      lastFetchTime = now
+      return rulesCache
+    } catch (error) {
+      console.error("Error in getRules:", error)
+      throw error
+    }
+  },
+
+  // Drop the cached rules so the next read goes to the database
+  clearCache(): void {
+    rulesCache = null
+    lastFetchTime = 0
+  },
+
+  // New rules run after the existing ones
+  async createRule(input: CreateRuleInput): Promise<CategorizationRule> {
+    try {
+      const supabase = getSupabaseBrowserClient()
+
+      const {
+        data: { session },
+      } = await supabase.auth.getSession()
+      if (!session) {
+        throw new Error("User not authenticated")
+      }
+
+      const existing = await this.getRules()
+      const position = existing.reduce((max, rule) => Math.max(max, rule.position + 1), 0)
+
+      const { data, error } = await supabase
+        .from("categorization_rules")
+        .insert({ ...mapRuleToDbRule({ isActive: true, ...input }), position, user_id: session.user.id })
+        .select()
+        .single()
+
+      if (error) {
+        console.error("Error creating rule:", error)
+        throw error
+      }
+
+      rulesCache = null
+      dispatchRulesUpdate()
+      return mapDbRuleToRule(data)
+    } catch (error) {
+      console.error("Error in createRule:", error)
+      throw error
+    }
+  },
+
+  async updateRule(id: string, updates: UpdateRuleInput): Promise<CategorizationRule> {
+    try {
+      const supabase = getSupabaseBrowserClient()
+
+      const { data, error } = await supabase
+        .from("categorization_rules")
+        .update({ ...mapRuleToDbRule(updates), updated_at: new Date().toISOString() })
+        .eq("id", id)
+        .select()
+        .single()
+
+      if (error) {
+        console.error("Error updating rule:", error)
+        throw error
+      }
+
+      rulesCache = null
+      dispatchRulesUpdate()
+      return mapDbRuleToRule(data)
+    } catch (error) {
+      console.error("Error in updateRule:", error)
+      throw error
+    }
+  },
+
+  // Store the given order; ids missing from the list keep their current position
+  async reorderRules(orderedIds: string[]): Promise<void> {
+    try {
+      const supabase = getSupabaseBrowserClient()
+
+      const results = await Promise.all(
+        orderedIds.map((id, position) => supabase.from("categorization_rules").update({ position }).eq("id", id)),
+      )
+
+      const failed = results.find((result) => result.error)
+      if (failed?.error) {
+        console.error("Error reordering rules:", failed.error)
+        throw failed.error
+      }
+
+      rulesCache = null
+      dispatchRulesUpdate()
+    } catch (error) {
+      console.error("Error in reorderRules:", error)
+      throw error
+    }
+  },
+
+  async deleteRule(id: string): Promise<void> {
+    try {
+      const supabase = getSupabaseBrowserClient()
+
+      const { error } = await supabase.from("categorization_rules").delete().eq("id", id)
+
+      if (error) {
+        console.error("Error deleting rule:", error)
+        throw error
+      }
+
+      rulesCache = null
+      dispatchRulesUpdate()
+    } catch (error) {
+      console.error("Error in deleteRule:", error)
+      throw error
+    }
+  },
+
+  // Save the changes found by re-running rules over existing transactions, as one undoable change.
+  // Returns how many transactions were updated.
+  async applyChanges(changes: RuleChange[]): Promise<number> {
+    try {
+      if (changes.length === 0) return 0
+
+      const saved = await expenseService.updateExpenses(
+        changes.map((change) => change.expense),
+        { skipHistory: true },
+      )
+
+      recordHistory(
+        `Applied rules to ${saved.length} transaction${saved.length === 1 ? "" : "s"}`,
+        [{ kind: "updateExpenses", expenses: changes.map((change) => change.before) }],
+        [{ kind: "updateExpenses", expenses: saved }],
+      )
+
+      if (typeof window !== "undefined") {
+        window.dispatchEvent(new CustomEvent(EXPENSES_UPDATED_EVENT))
+      }
+
+      return saved.length
+    } catch (error) {
+      console.error("Error in applyChanges:", error)
+      throw error
+    }
+  },
+}
@@ -0,0 +1,167 @@
+import { getDay, parseISO } from "date-fns"
+import { WEEKDAY_NAMES } from "@/lib/recurrence"
+import { isSplit } from "@/lib/splits"
+import { normalizeTags } from "@/lib/tags"
+import type { Expense } from "@/types/expense"
+import type { CategorizationRule, CreateRuleInput, RuleActions, RuleConditions } from "@/types/rule"
+
+// Rules applied to a transaction and the transaction they produced
+export interface RuleOutcome {
+  expense: Expense
+  matched: CategorizationRule[]
+}
+
+// An existing transaction the rules would change
+export interface RuleChange extends RuleOutcome {
+  before: Expense
+}
+
+// Invalid patterns never match rather than throwing while typing
+const compilePattern = (pattern: string): RegExp | null => {
+  try {
+    return new RegExp(pattern, "i")
+  } catch {
+    return null
+  }
+}
+
+// A rule without conditions would match every transaction
+export const hasConditions = (conditions: RuleConditions): boolean =>
+  !!conditions.notesContains?.trim() ||
+  !!conditions.notesPattern?.trim() ||
+  conditions.minAmount !== undefined ||
+  conditions.maxAmount !== undefined ||
+  !!conditions.accountId ||
+  (conditions.weekdays?.length || 0) > 0
+
+// Short summary of a rule's conditions, e.g. "notes contain \"swiggy\" · up to 500 · Sat, Sun"
+export const describeConditions = (conditions: RuleConditions, accountName: (id: string) => string): string => {
+  const parts: string[] = []
+  if (conditions.notesContains?.trim()) parts.push(`notes contain "${conditions.notesContains.trim()}"`)
+  if (conditions.notesPattern?.trim()) parts.push(`notes match /${conditions.notesPattern.trim()}/`)
+  if (conditions.minAmount !== undefined && conditions.maxAmount !== undefined) {
+    parts.push(`${conditions.minAmount} to ${conditions.maxAmount}`)
+  } else if (conditions.minAmount !== undefined) {
+    parts.push(`at least ${conditions.minAmount}`)
+  } else if (conditions.maxAmount !== undefined) {
+    parts.push(`up to ${conditions.maxAmount}`)
+  }
+  if (conditions.accountId) parts.push(accountName(conditions.accountId))
+  if (conditions.weekdays?.length) {
+    parts.push(
+      [...conditions.weekdays]
+        .sort()
+        .map((day) => WEEKDAY_NAMES[day].slice(0, 3))
+        .join(", "),
+    )
+  }
+  return parts.join(" · ")
+}
+
+// What a rule does, e.g. "Food (expense) · #work"
+export const describeActions = (actions: RuleActions): string =>
+  [actions.category && `${actions.category} (${actions.type})`, ...(actions.tags || []).map((tag) => `#${tag}`)]
+    .filter(Boolean)
+    .join(" · ")
+
+// Problems that stop a rule from being saved, in the order they appear in the editor
+export const validateRule = (input: CreateRuleInput): string[] => {
+  const errors: string[] = []
+  const { conditions, actions } = input
+
+  if (!input.name.trim()) errors.push("Give the rule a name")
+  if (!hasConditions(conditions)) errors.push("Add at least one condition")
+  if (conditions.notesPattern?.trim() && !compilePattern(conditions.notesPattern)) {
+    errors.push("The notes pattern is not a valid regular expression")
+  }
+  if (
+    conditions.minAmount !== undefined &&
+    conditions.maxAmount !== undefined &&
+    conditions.minAmount > conditions.maxAmount
+  ) {
+    errors.push("The minimum amount is larger than the maximum")
+  }
+  if (actions.category && !actions.type) errors.push("Choose the type the category belongs to")
+  if (!actions.category && !actions.tags?.length) errors.push("Set a category or add tags")
+
+  return errors
+}
+
+// Whether a transaction meets every condition of the rule, whether or not the rule is active.
+// Transfers are never categorised.
+export const matchesRule = (expense: Expense, rule: Pick<CategorizationRule, "conditions">): boolean => {
+  const { conditions } = rule
+  if (expense.type === "transfer" || !hasConditions(conditions)) return false
+
+  const notes = (expense.notes || "").toLowerCase()
+  const contains = conditions.notesContains?.trim().toLowerCase()
+  if (contains && !notes.includes(contains)) return false
+
+  if (conditions.notesPattern?.trim()) {
+    const pattern = compilePattern(conditions.notesPattern)
+    if (!pattern || !pattern.test(expense.notes || "")) return false
+  }
+
+  if (conditions.minAmount !== undefined && expense.amount < conditions.minAmount) return false
+  if (conditions.maxAmount !== undefined && expense.amount > conditions.maxAmount) return false
+  if (conditions.accountId && expense.accountId !== conditions.accountId) return false
+
+  if (conditions.weekdays?.length && !conditions.weekdays.includes(getDay(parseISO(expense.date)))) return false
+
+  return true
+}
+
+// The transaction with a rule's actions applied; the same object when nothing changes.
+// Split transactions keep their lines, so only tags are added to them.
+export const applyRuleActions = (expense: Expense, actions: RuleActions): Expense => {
+  let next = expense
+
+  if (
+    actions.type &&
+    actions.category &&
+    !isSplit(expense) &&
+    (expense.type !== actions.type || expense.category !== actions.category)
+  ) {
+    next = { ...next, type: actions.type, category: actions.category, categoryId: actions.categoryId }
+  }
+
+  if (actions.tags?.length) {
+    const tags = normalizeTags([...(expense.tags || []), ...actions.tags])
+    if (tags.length !== (expense.tags || []).length) next = { ...next, tags }
+  }
+
+  return next
+}
+
+// Run the active rules in order. The first matching rule with a category decides it;
+// tags from every matching rule are added.
+export const applyRules = (expense: Expense, rules: CategorizationRule[]): RuleOutcome => {
+  const matched: CategorizationRule[] = []
+  let result = expense
+  let categorized = false
+
+  for (const rule of rules) {
+    if (!rule.isActive || !matchesRule(expense, rule)) continue
+
+    const actions = categorized ? { tags: rule.actions.tags } : rule.actions
+    if (rule.actions.category) categorized = true
+    result = applyRuleActions(result, actions)
+    matched.push(rule)
+  }
+
+  return { expense: result, matched }
+}
+
+// Existing transactions the rules would change if run again, e.g. for a retroactive re-run
+export const findRuleChanges = (expenses: Expense[], rules: CategorizationRule[]): RuleChange[] =>
+  expenses
+    .map((before) => ({ before, ...applyRules(before, rules) }))
+    .filter((change) => change.expense !== change.before)
+
+// Existing transactions a single rule would change on its own, for the rule tester.
+// Works on unsaved and paused rules alike.
+export const previewRule = (
+  expenses: Expense[],
+  rule: Pick<CategorizationRule, "name" | "conditions" | "actions">,
+): RuleChange[] =>
+  findRuleChanges(expenses, [{ id: "", position: 0, createdAt: "", updatedAt: "", ...rule, isActive: true }])
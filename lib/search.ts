@@ -0,0 +1,93 @@
+import type { Expense } from "@/types/expense"
+import { getCategoryAmounts } from "@/lib/splits"
+
+export type AmountOperator = ">" | ">=" | "<" | "<=" | "="
+
+export interface AmountCondition {
+  operator: AmountOperator
+  value: number
+}
+
+// A parsed search box entry: every text term and every amount condition must match
+export interface SearchQuery {
+  terms: string[]
+  amounts: AmountCondition[]
+}
+
+const AMOUNT_EXPRESSION = /^(>=|<=|>|<|=)(\d[\d,]*(?:\.\d+)?)$/
+
+export const isEmptySearch = (query: SearchQuery) => query.terms.length === 0 && query.amounts.length === 0
+
+// Split a search like `uber ">500" "late night"` into text terms and amount conditions.
+// Quoted phrases stay together; `>500`, `>=500`, `<500`, `<=500` and `=1299` compare amounts.
+export const parseSearchQuery = (text: string): SearchQuery => {
+  const query: SearchQuery = { terms: [], amounts: [] }
+
+  for (const match of text.matchAll(/"([^"]*)"|(\S+)/g)) {
+    const token = (match[1] ?? match[2]).trim()
+    if (!token) continue
+
+    const amount = token.match(AMOUNT_EXPRESSION)
+    if (amount) {
+      query.amounts.push({ operator: amount[1] as AmountOperator, value: Number(amount[2].replace(/,/g, "")) })
+    } else {
+      query.terms.push(token.toLowerCase())
+    }
+  }
+
+  return query
+}
+
+export const matchesAmount = (amount: number, condition: AmountCondition): boolean => {
+  switch (condition.operator) {
+    case ">":
+      return amount > condition.value
+    case ">=":
+      return amount >= condition.value
+    case "<":
+      return amount < condition.value
+    case "<=":
+      return amount <= condition.value
+    case "=":
+      return Math.abs(amount - condition.value) < 0.005
+  }
+}
+
+// Text a term can match: notes, the category and split line categories, and tags
+const searchableText = (expense: Expense): string =>
+  [
+    expense.notes,
+    ...getCategoryAmounts(expense).map((line) => line.category),
+    ...(expense.splits || []).map((split) => split.notes || ""),
+    ...(expense.tags || []).map((tag) => `#${tag}`),
+  ]
+    .join("\n")
+    .toLowerCase()
+
+export const matchesSearch = (expense: Expense, query: SearchQuery): boolean => {
+  if (isEmptySearch(query)) return true
+
+  const text = searchableText(expense)
+  return (
+    query.terms.every((term) => text.includes(term)) &&
+    query.amounts.every((condition) => matchesAmount(expense.amount, condition))
+  )
+}
+
+export interface HighlightPart {
+  text: string
+  match: boolean
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+
+// Break text into matching and non-matching parts for highlighting search terms
+export const splitHighlights = (text: string, terms: string[]): HighlightPart[] => {
+  if (!text || terms.length === 0) return [{ text, match: false }]
+
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join("|")})`, "gi")
+  return text
+    .split(pattern)
+    .filter(Boolean)
+    .map((part) => ({ text: part, match: terms.includes(part.toLowerCase()) }))
+}
@@ -0,0 +1,72 @@
+import type { Expense, ExpenseSplit } from "@/types/expense"
+
+export interface CategoryAmount {
+  category: string
+  categoryId?: string
+  amount: number
+}
+
+// Amounts are compared to the cent so 0.1 + 0.2 style rounding never blocks a save
+const roundToCents = (value: number) => Math.round(value * 100) / 100
+
+export const isSplit = (expense: Pick<Expense, "splits">): boolean => (expense.splits?.length || 0) > 1
+
+// The category lines a transaction counts towards: its splits, or the whole amount in its category
+export const getCategoryAmounts = (
+  expense: Pick<Expense, "category" | "categoryId" | "amount" | "splits">,
+): CategoryAmount[] =>
+  isSplit(expense)
+    ? expense.splits!.map((split) => ({ category: split.category, categoryId: split.categoryId, amount: split.amount }))
+    : [{ category: expense.category, categoryId: expense.categoryId, amount: expense.amount }]
+
+export const usesCategory = (expense: Pick<Expense, "category" | "amount" | "splits">, category: string): boolean =>
+  getCategoryAmounts(expense).some((line) => line.category === category)
+
+// Part of the transaction that belongs to one category
+export const getCategoryAmount = (expense: Pick<Expense, "category" | "amount" | "splits">, category: string): number =>
+  getCategoryAmounts(expense)
+    .filter((line) => line.category === category)
+    .reduce((total, line) => total + line.amount, 0)
+
+// usesCategory and getCategoryAmount by category id, so spending follows renames and merges
+export const usesCategoryId = (expense: Pick<Expense, "category" | "categoryId" | "amount" | "splits">, id: string) =>
+  getCategoryAmounts(expense).some((line) => line.categoryId === id)
+
+export const getCategoryIdAmount = (
+  expense: Pick<Expense, "category" | "categoryId" | "amount" | "splits">,
+  id: string,
+): number =>
+  getCategoryAmounts(expense)
+    .filter((line) => line.categoryId === id)
+    .reduce((total, line) => total + line.amount, 0)
+
+export const getSplitTotal = (splits: ExpenseSplit[]): number =>
+  roundToCents(splits.reduce((total, split) => total + (split.amount || 0), 0))
+
+// Amount still to be assigned to a line; negative when the lines add up to more than the total
+export const getUnallocatedAmount = (splits: ExpenseSplit[], total: number): number =>
+  roundToCents(total - getSplitTotal(splits))
+
+// The transaction's own category is the one holding the largest share
+export const getPrimarySplitCategory = (splits: ExpenseSplit[]): string =>
+  splits.reduce((largest, split) => (split.amount > largest.amount ? split : largest), splits[0]).category
+
+// Returns the problems that stop the splits from being saved, empty when they are valid
+export const validateSplits = (splits: ExpenseSplit[], total: number): string[] => {
+  const errors: string[] = []
+
+  if (splits.length < 2) errors.push("A split needs at least two lines")
+  if (splits.some((split) => !split.category)) errors.push("Every line needs a category")
+  if (splits.some((split) => !(split.amount > 0))) errors.push("Every line needs an amount greater than zero")
+
+  const unallocated = getUnallocatedAmount(splits, total)
+  if (unallocated !== 0) {
+    errors.push(
+      unallocated > 0
+        ? `Lines are ${unallocated.toFixed(2)} short of the total`
+        : `Lines exceed the total by ${Math.abs(unallocated).toFixed(2)}`,
+    )
+  }
+
+  return errors
+}
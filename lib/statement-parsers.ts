@@ -0,0 +1,136 @@
+import { parseAmountValue } from "@/lib/csv"
+import type { StatementFormat, StatementTransaction } from "@/types/import"
+
+// Date format of OFX DTPOSTED values once the time part is dropped
+export const OFX_DATE_FORMAT = "yyyyMMdd"
+
+// Work out whether a file is an OFX/QFX or QIF statement from its name, then its contents
+export const detectStatementFormat = (fileName: string, text: string): StatementFormat | null => {
+  const extension = fileName.split(".").pop()?.toLowerCase()
+  if (extension === "ofx" || extension === "qfx") return "ofx"
+  if (extension === "qif") return "qif"
+
+  const head = text.slice(0, 1000)
+  if (/OFXHEADER|<OFX>/i.test(head)) return "ofx"
+  if (/^\s*!Type:/i.test(head)) return "qif"
+  return null
+}
+
+const decodeEntities = (value: string) =>
+  value
+    .replace(/&lt;/gi, "<")
+    .replace(/&gt;/gi, ">")
+    .replace(/&quot;/gi, '"')
+    .replace(/&apos;/gi, "'")
+    .replace(/&amp;/gi, "&")
+
+// Value of an OFX element. Works for SGML (OFX 1.x, no closing tags) and XML (OFX 2.x).
+const readTag = (block: string, tag: string): string => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"))
+  return match ? decodeEntities(match[1].trim()) : ""
+}
+
+// Identifier for statement lines that carry no id of their own. Identical lines in
+// one file get an occurrence suffix so they stay distinct but stable across re-imports.
+const contentId = (prefix: string, parts: string[], seen: Map<string, number>) => {
+  const key = `${prefix}:${parts.map((part) => part.trim().toLowerCase()).join("|")}`
+  const occurrence = (seen.get(key) || 0) + 1
+  seen.set(key, occurrence)
+  return occurrence > 1 ? `${key}#${occurrence}` : key
+}
+
+// Read the STMTTRN entries of every bank and credit card statement in an OFX/QFX file
+export const parseOfx = (text: string): StatementTransaction[] => {
+  const transactions: StatementTransaction[] = []
+  const seen = new Map<string, number>()
+
+  // Each STMTRS/CCSTMTRS holds one account's statement
+  const statements = text.split(/<(?:CC)?STMTRS>/i)
+  const blocks = statements.length > 1 ? statements.slice(1) : statements
+
+  blocks.forEach((statement) => {
+    const accountId = readTag(statement, "ACCTID")
+    const currency = readTag(statement, "CURDEF").toUpperCase() || undefined
+
+    statement
+      .split(/<STMTTRN>/i)
+      .slice(1)
+      .forEach((entry) => {
+        const block = entry.split(/<\/STMTTRN>|<\/BANKTRANLIST>/i)[0]
+        const amount = parseAmountValue(readTag(block, "TRNAMT"))
+        const date = readTag(block, "DTPOSTED").slice(0, 8)
+        if (amount === null || !date) return
+
+        const payee = readTag(block, "NAME") || readTag(block, "PAYEE")
+        const memo = readTag(block, "MEMO")
+        const fitId = readTag(block, "FITID")
+
+        transactions.push({
+          externalId: fitId
+            ? `ofx:${accountId}:${fitId}`
+            : contentId(`ofx:${accountId}`, [date, String(amount), payee, memo], seen),
+          date,
+          amount,
+          payee,
+          memo,
+          // CURRENCY/ORIGCURRENCY aggregates override the statement default
+          currency: readTag(block, "CURSYM").toUpperCase() || currency,
+        })
+      })
+  })
+
+  return transactions
+}
+
+// QIF dates use apostrophes and space padding for the year, e.g. "1/31'24" or " 1/ 5' 4"
+const normalizeQifDate = (value: string) => value.replace(/'/g, "/").replace(/\s+/g, "")
+
+// QIF categories look like "Food:Groceries/Class"; bracketed names are transfers to another account
+const normalizeQifCategory = (value: string): string | undefined => {
+  if (!value || value.startsWith("[")) return undefined
+  return value.split("/")[0].split(":")[0].trim() || undefined
+}
+
+// Read the cash, bank and credit card transactions of a QIF file. Investment,
+// category and class lists are skipped.
+export const parseQif = (text: string): StatementTransaction[] => {
+  const transactions: StatementTransaction[] = []
+  const seen = new Map<string, number>()
+  let skipping = false
+  let record: Record<string, string> = {}
+
+  text.split(/\r?\n/).forEach((line) => {
+    if (!line.trim()) return
+    const code = line[0]
+    const value = line.slice(1).trim()
+
+    if (code === "!") {
+      skipping = !/^Type:(Bank|Cash|CCard|Oth A|Oth L)/i.test(value)
+      record = {}
+      return
+    }
+
+    if (code !== "^") {
+      // Split lines (S, E, $) repeat; the first value is the one for the whole transaction
+      if (record[code] === undefined) record[code] = value
+      return
+    }
+
+    const amount = parseAmountValue(record.T || record.U || "")
+    if (!skipping && record.D && amount !== null) {
+      const date = normalizeQifDate(record.D)
+      const payee = record.P || ""
+      transactions.push({
+        externalId: contentId("qif", [date, String(amount), record.N || "", payee], seen),
+        date,
+        amount,
+        payee,
+        memo: record.M || "",
+        category: normalizeQifCategory(record.L || ""),
+      })
+    }
+    record = {}
+  })
+
+  return transactions
+}
@@ -0,0 +1,64 @@
+import { getSuggestionFeatures, type SuggestionExample } from "@/lib/category-suggestions"
+import { findCategoryId, resolveCategoryRef } from "@/lib/category-refs"
+import type { Expense } from "@/types/expense"
+
+// Event fired when a suggestion is accepted or corrected
+export const SUGGESTION_FEEDBACK_EVENT = "suggestion-feedback"
+
+const FEEDBACK_KEY = "fnzo_suggestion_feedback"
+
+// Oldest feedback is dropped beyond this; the transactions themselves still teach the model
+const MAX_FEEDBACK = 500
+
+// Weight on top of the saved transaction itself. A correction counts for more, since the model got it wrong.
+const ACCEPTED_WEIGHT = 1
+const CORRECTED_WEIGHT = 3
+
+// Feedback keeps the id of the chosen category, so what was learnt follows renames and merges
+type FeedbackExample = SuggestionExample & { categoryId?: string }
+
+const loadFeedback = (): FeedbackExample[] => {
+  if (typeof window === "undefined") return []
+
+  try {
+    const stored = localStorage.getItem(FEEDBACK_KEY)
+    return stored ? JSON.parse(stored) : []
+  } catch {
+    return []
+  }
+}
+
+const saveFeedback = (examples: FeedbackExample[]) => {
+  if (typeof window === "undefined") return
+
+  try {
+    localStorage.setItem(FEEDBACK_KEY, JSON.stringify(examples))
+  } catch (error) {
+    console.warn("Could not save suggestion feedback:", error)
+  }
+  window.dispatchEvent(new CustomEvent(SUGGESTION_FEEDBACK_EVENT))
+}
+
+// Newest first, under the categories' current names
+export const getSuggestionFeedback = (): SuggestionExample[] =>
+  loadFeedback().map((example) => ({ ...example, ...resolveCategoryRef(example, example.type) }))
+
+// Learn from what the user did with a suggestion: kept it, or picked another category instead
+export const recordSuggestionFeedback = (
+  expense: Pick<Expense, "type" | "notes" | "amount" | "date">,
+  suggested: string,
+  chosen: string,
+) => {
+  const features = getSuggestionFeatures(expense)
+  if (!features || !chosen) return
+
+  const example: FeedbackExample = {
+    ...features,
+    category: chosen,
+    categoryId: findCategoryId(chosen, features.type),
+    weight: suggested === chosen ? ACCEPTED_WEIGHT : CORRECTED_WEIGHT,
+  }
+  saveFeedback([example, ...loadFeedback()].slice(0, MAX_FEEDBACK))
+}
+
+export const clearSuggestionFeedback = () => saveFeedback([])
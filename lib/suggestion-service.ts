@@ -0,0 +1,34 @@
+import { expenseService } from "@/lib/expense-service"
+import { toSuggestionExamples, trainSuggestionModel, type SuggestionModel } from "@/lib/category-suggestions"
+import { getSuggestionFeedback } from "@/lib/suggestion-feedback"
+
+// Cache for the trained model
+let modelCache: SuggestionModel | null = null
+let lastTrainTime = 0
+const CACHE_TTL = 300000 // 5 minutes
+
+export const suggestionService = {
+  // Train on every transaction plus the accepted and corrected suggestions; runs locally and offline
+  async getModel(): Promise<SuggestionModel> {
+    try {
+      const now = Date.now()
+      if (modelCache && now - lastTrainTime < CACHE_TTL) {
+        return modelCache
+      }
+
+      const expenses = await expenseService.getExpenses()
+      modelCache = trainSuggestionModel([...toSuggestionExamples(expenses), ...getSuggestionFeedback()])
+      lastTrainTime = now
+      return modelCache
+    } catch (error) {
+      console.error("Error in getModel:", error)
+      throw error
+    }
+  },
+
+  // Retrain on the next read, e.g. after transactions were added or a suggestion was corrected
+  clearCache(): void {
+    modelCache = null
+    lastTrainTime = 0
+  },
+}
@@ -0,0 +1,149 @@
+import { getSupabaseBrowserClient } from "@/lib/supabase"
+import { localStore } from "@/lib/local-store"
+import { DEFAULT_CURRENCY } from "@/lib/currency-service"
+import type { Expense } from "@/types/expense"
+import type { Database } from "@/types/supabase"
+
+type DbExpense = Database["public"]["Tables"]["expenses"]["Row"]
+type InsertExpense = Database["public"]["Tables"]["expenses"]["Insert"]
+
+// A record as seen by the sync engine - every record must carry a timestamp
+export type SyncRecord = Expense & { updatedAt: string }
+
+// Minimal storage contract the sync engine works against. Both sides of a sync
+// (the local copy and the remote database) implement it, which also lets the
+// engine run against an in-memory stand-in.
+export interface SyncBackend {
+  name: string
+  list(): Promise<SyncRecord[]>
+  upsert(records: SyncRecord[]): Promise<void>
+  remove(ids: string[]): Promise<void>
+}
+
+// Make sure a record has a usable updatedAt value
+export const toSyncRecord = (expense: Expense): SyncRecord => ({
+  ...expense,
+  updatedAt: expense.updatedAt || new Date(0).toISOString(),
+})
+
+// Convert database expense to sync record
+const mapDbExpenseToSyncRecord = (dbExpense: DbExpense): SyncRecord => ({
+  id: dbExpense.id,
+  date: dbExpense.date,
+  type: dbExpense.type,
+  category: dbExpense.category,
+  categoryId: dbExpense.category_id || undefined,
+  amount: dbExpense.amount,
+  currency: dbExpense.currency || DEFAULT_CURRENCY,
+  accountId: dbExpense.account_id || undefined,
+  transferAccountId: dbExpense.transfer_account_id || undefined,
+  externalId: dbExpense.external_id || undefined,
+  tags: dbExpense.tags || [],
+  splits: dbExpense.splits?.length ? dbExpense.splits : undefined,
+  notes: dbExpense.notes,
+  updatedAt: dbExpense.updated_at,
+})
+
+// Convert sync record to database expense, keeping the record's own timestamp
+const mapSyncRecordToDbExpense = (record: SyncRecord, userId: string): InsertExpense => ({
+  id: record.id,
+  user_id: userId,
+  date: record.date,
+  type: record.type,
+  category: record.category,
+  category_id: record.categoryId || null,
+  amount: record.amount,
+  currency: record.currency || DEFAULT_CURRENCY,
+  account_id: record.accountId || null,
+  transfer_account_id: record.transferAccountId || null,
+  external_id: record.externalId || null,
+  tags: record.tags || [],
+  splits: record.splits?.length ? record.splits : null,
+  notes: record.notes,
+  updated_at: record.updatedAt,
+})
+
+// Remote backend backed by the Supabase expenses table
+export const createSupabaseSyncBackend = (userId: string): SyncBackend => {
+  const supabase = getSupabaseBrowserClient()
+
+  return {
+    name: "supabase",
+
+    async list() {
+      const { data, error } = await supabase.from("expenses").select("*").eq("user_id", userId)
+
+      if (error) {
+        console.error("Error listing remote expenses:", error)
+        throw error
+      }
+
+      return (data || []).map((row) => mapDbExpenseToSyncRecord(row as DbExpense))
+    },
+
+    async upsert(records) {
+      if (records.length === 0) return
+
+      const rows: InsertExpense[] = records.map((record) => mapSyncRecordToDbExpense(record, userId))
+      const { error } = await supabase.from("expenses").upsert(rows, { onConflict: "id" })
+
+      if (error) {
+        console.error("Error upserting remote expenses:", error)
+        throw error
+      }
+    },
+
+    async remove(ids) {
+      if (ids.length === 0) return
+
+      const { error } = await supabase.from("expenses").delete().in("id", ids)
+
+      if (error) {
+        console.error("Error deleting remote expenses:", error)
+        throw error
+      }
+    },
+  }
+}
+
+// Local backend backed by the offline IndexedDB store
+export const createLocalSyncBackend = (): SyncBackend => ({
+  name: "local",
+
+  async list() {
+    const expenses = await localStore.getExpenses()
+    return expenses.map(toSyncRecord)
+  },
+
+  async upsert(records) {
+    await localStore.putExpenses(records)
+  },
+
+  async remove(ids) {
+    await localStore.deleteExpenses(ids)
+  },
+})
+
+// In-memory stand-in backend, used to exercise the sync engine without a database
+export const createMemorySyncBackend = (initial: SyncRecord[] = [], name = "memory"): SyncBackend & {
+  records: Map<string, SyncRecord>
+} => {
+  const records = new Map(initial.map((record) => [record.id, { ...record }]))
+
+  return {
+    name,
+    records,
+
+    async list() {
+      return Array.from(records.values()).map((record) => ({ ...record }))
+    },
+
+    async upsert(items) {
+      items.forEach((record) => records.set(record.id, { ...record }))
+    },
+
+    async remove(ids) {
+      ids.forEach((id) => records.delete(id))
+    },
+  }
+}
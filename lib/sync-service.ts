@@ -1,5 +1,12 @@
 import { getSupabaseBrowserClient } from "@/lib/supabase"
 import { expenseService } from "@/lib/expense-service"
+import { DEFAULT_CURRENCY } from "@/lib/currency-service"
+import {
+  createLocalSyncBackend,
+  createSupabaseSyncBackend,
+  type SyncBackend,
+  type SyncRecord,
+} from "@/lib/sync-backends"
 
 // Define sync status type
 export type SyncStatus = {
@@ -23,6 +30,17 @@ export type SyncOptions = {
   onProgress?: (progress: number, message: string) => void
 }
 
+// State carried between syncs, used to tell deletions apart from new records
+export type SyncState = {
+  lastSynced: string | null
+  knownIds: string[]
+}
+
+// A single change the engine decided to make
+type SyncOperation =
+  | { kind: "added" | "updated"; target: "local" | "remote"; record: SyncRecord }
+  | { kind: "deleted"; target: "local" | "remote"; id: string }
+
 // Default sync options
 const defaultSyncOptions: SyncOptions = {
   direction: "both",
@@ -41,6 +59,66 @@ const setLastSyncTimestamp = (timestamp: string): void => {
   localStorage.setItem("fnzo_last_sync_timestamp", timestamp)
 }
 
+// Get the ids that were present on both sides after the last sync
+const getKnownIds = (): string[] => {
+  if (typeof window === "undefined") return []
+
+  try {
+    const stored = localStorage.getItem("fnzo_sync_known_ids")
+    return stored ? JSON.parse(stored) : []
+  } catch (error) {
+    console.error("Error parsing known sync ids:", error)
+    return []
+  }
+}
+
+// Persist the ids that are present on both sides
+const setKnownIds = (ids: string[]): void => {
+  if (typeof window === "undefined") return
+  localStorage.setItem("fnzo_sync_known_ids", JSON.stringify(ids))
+}
+
+// Number of records written to a backend per request
+const SYNC_BATCH_SIZE = 50
+
+const toTime = (timestamp: string | null | undefined) => (timestamp ? new Date(timestamp).getTime() : 0)
+
+// Check whether two records carry the same data
+const recordsMatch = (a: SyncRecord, b: SyncRecord) =>
+  a.date === b.date &&
+  a.type === b.type &&
+  a.category === b.category &&
+  (a.categoryId || "") === (b.categoryId || "") &&
+  a.amount === b.amount &&
+  (a.currency || DEFAULT_CURRENCY) === (b.currency || DEFAULT_CURRENCY) &&
+  (a.accountId || "") === (b.accountId || "") &&
+  (a.transferAccountId || "") === (b.transferAccountId || "") &&
+  (a.tags || []).join(",") === (b.tags || []).join(",") &&
+  JSON.stringify(a.splits || []) === JSON.stringify(b.splits || []) &&
+  (a.notes || "") === (b.notes || "")
+
+// Decide which side wins when a record differs between local and remote.
+// Only a record changed on both sides since the last sync is a real conflict;
+// otherwise the side that changed wins regardless of the strategy.
+const pickWinner = (
+  local: SyncRecord,
+  remote: SyncRecord,
+  lastSynced: string | null,
+  conflictResolution: SyncOptions["conflictResolution"],
+): "local" | "remote" => {
+  const since = toTime(lastSynced)
+  const localChanged = toTime(local.updatedAt) > since
+  const remoteChanged = toTime(remote.updatedAt) > since
+
+  if (localChanged && !remoteChanged) return "local"
+  if (remoteChanged && !localChanged) return "remote"
+
+  if (conflictResolution === "local") return "local"
+  if (conflictResolution === "remote") return "remote"
+
+  return toTime(local.updatedAt) >= toTime(remote.updatedAt) ? "local" : "remote"
+}
+
 // Get the sync status from local storage
 export const getSyncStatus = (): SyncStatus => {
   if (typeof window === "undefined") {
@@ -103,8 +181,148 @@ const updateSyncProgress = (
   }
 }
 
+// Compare both sides and work out which operations a sync has to perform
+export const planSync = (
+  localRecords: SyncRecord[],
+  remoteRecords: SyncRecord[],
+  options: Pick<SyncOptions, "direction" | "conflictResolution">,
+  state: SyncState,
+): { operations: SyncOperation[]; pending: string[]; total: number } => {
+  const canPush = options.direction !== "pull"
+  const canPull = options.direction !== "push"
+  const local = new Map(localRecords.map((record) => [record.id, record]))
+  const remote = new Map(remoteRecords.map((record) => [record.id, record]))
+  const known = new Set(state.knownIds)
+  // Nothing is known yet on a first sync. Queued offline changes are replayed
+  // before reconciling, so a record only present locally was deleted remotely.
+  const isFirstSync = !state.lastSynced && known.size === 0
+  const allIds = new Set([...local.keys(), ...remote.keys()])
+
+  const operations: SyncOperation[] = []
+  // Ids whose change could not be applied because of the sync direction
+  const pending: string[] = []
+
+  allIds.forEach((id) => {
+    const localRecord = local.get(id)
+    const remoteRecord = remote.get(id)
+
+    if (localRecord && remoteRecord) {
+      if (recordsMatch(localRecord, remoteRecord)) return
+
+      const winner = pickWinner(localRecord, remoteRecord, state.lastSynced, options.conflictResolution)
+      if (winner === "local" && canPush) {
+        operations.push({ kind: "updated", target: "remote", record: localRecord })
+      } else if (winner === "remote" && canPull) {
+        operations.push({ kind: "updated", target: "local", record: remoteRecord })
+      }
+      return
+    }
+
+    if (localRecord) {
+      if (known.has(id) || isFirstSync) {
+        // Was synced before (or this is the first sync) and is gone remotely - it was deleted there
+        if (canPull) operations.push({ kind: "deleted", target: "local", id })
+        else pending.push(id)
+      } else if (canPush) {
+        operations.push({ kind: "added", target: "remote", record: localRecord })
+      }
+      return
+    }
+
+    if (remoteRecord) {
+      if (known.has(id)) {
+        // Was synced before and is gone locally - it was deleted here
+        if (canPush) operations.push({ kind: "deleted", target: "remote", id })
+        else pending.push(id)
+      } else if (canPull) {
+        operations.push({ kind: "added", target: "local", record: remoteRecord })
+      }
+    }
+  })
+
+  return { operations, pending, total: allIds.size }
+}
+
+// Run a full sync between two backends. Kept free of browser storage so it can
+// run against in-memory stand-ins.
+export const reconcile = async (
+  localBackend: SyncBackend,
+  remoteBackend: SyncBackend,
+  options: Pick<SyncOptions, "direction" | "conflictResolution" | "onProgress">,
+  state: SyncState,
+): Promise<{ details: NonNullable<SyncStatus["details"]>; state: SyncState }> => {
+  const syncStartedAt = new Date().toISOString()
+  options.onProgress?.(10, "Fetching local and remote data...")
+
+  const [localRecords, remoteRecords] = await Promise.all([localBackend.list(), remoteBackend.list()])
+  const { operations, pending, total } = planSync(localRecords, remoteRecords, options, state)
+
+  const details = { added: 0, updated: 0, deleted: 0, errors: 0, total }
+
+  // Track which ids exist on each side as operations succeed
+  const localIds = new Set(localRecords.map((record) => record.id))
+  const remoteIds = new Set(remoteRecords.map((record) => record.id))
+
+  // Group operations so each backend receives batched writes
+  const groups: { target: "local" | "remote"; removal: boolean; operations: SyncOperation[] }[] = [
+    { target: "remote", removal: false, operations: [] },
+    { target: "remote", removal: true, operations: [] },
+    { target: "local", removal: false, operations: [] },
+    { target: "local", removal: true, operations: [] },
+  ]
+  operations.forEach((operation) => {
+    const group = groups.find((g) => g.target === operation.target && g.removal === (operation.kind === "deleted"))
+    group!.operations.push(operation)
+  })
+
+  let processed = 0
+  for (const group of groups) {
+    const backend = group.target === "local" ? localBackend : remoteBackend
+    const ids = group.target === "local" ? localIds : remoteIds
+
+    for (let i = 0; i < group.operations.length; i += SYNC_BATCH_SIZE) {
+      const batch = group.operations.slice(i, i + SYNC_BATCH_SIZE)
+
+      try {
+        if (group.removal) {
+          const batchIds = batch.flatMap((operation) => (operation.kind === "deleted" ? [operation.id] : []))
+          await backend.remove(batchIds)
+          batchIds.forEach((id) => ids.delete(id))
+        } else {
+          const records = batch.flatMap((operation) => (operation.kind === "deleted" ? [] : [operation.record]))
+          await backend.upsert(records)
+          records.forEach((record) => ids.add(record.id))
+        }
+
+        batch.forEach((operation) => details[operation.kind]++)
+      } catch (error) {
+        console.error(`Error applying ${batch.length} changes to ${backend.name}:`, error)
+        details.errors += batch.length
+      }
+
+      processed += batch.length
+      const progress = Math.round(10 + (processed / Math.max(operations.length, 1)) * 85)
+      options.onProgress?.(progress, `Applied ${processed} of ${operations.length} changes...`)
+    }
+  }
+
+  // Remember what is present on both sides, plus anything held back by the direction
+  const knownIds = Array.from(localIds).filter((id) => remoteIds.has(id))
+  pending.forEach((id) => {
+    if (!knownIds.includes(id)) knownIds.push(id)
+  })
+
+  return {
+    details,
+    state: {
+      lastSynced: details.errors === 0 ? syncStartedAt : state.lastSynced,
+      knownIds,
+    },
+  }
+}
+
 export const syncService = {
-  // Synchronize data with external database
+  // Synchronize the local copy of the data with the Supabase expenses table
   async synchronizeData(options: Partial<SyncOptions> = {}): Promise<SyncStatus> {
     // Merge with default options
     const syncOptions = { ...defaultSyncOptions, ...options }
@@ -131,61 +349,45 @@ export const syncService = {
       }
       const userId = session.user.id
 
-      // Fetch local expenses
-      updateSyncProgress(10, "Fetching local data...", "syncing")
-      const localExpenses = await expenseService.getExpenses()
-
-      // Prepare for sync
-      const syncDetails = {
-        added: 0,
-        updated: 0,
-        deleted: 0,
-        errors: 0,
-        total: localExpenses.length,
-      }
+      // Queued offline changes go out first so they are not mistaken for conflicts
+      updateSyncProgress(5, "Sending pending changes...", "syncing")
+      await expenseService.replayPendingMutations()
 
-      // Simulate sync process with progress updates
-      // In a real implementation, this would actually sync with an external database
-
-      // Process each expense
-      for (let i = 0; i < localExpenses.length; i++) {
-        const expense = localExpenses[i]
-
-        try {
-          // Simulate API call to external database
-          await new Promise((resolve) => setTimeout(resolve, 50))
-
-          // Update progress
-          const progress = Math.round(10 + (i / localExpenses.length) * 80)
-          updateSyncProgress(progress, `Syncing transaction ${i + 1} of ${localExpenses.length}...`, "syncing")
-
-          // Simulate different outcomes based on the expense ID
-          const lastDigit = Number.parseInt(expense.id.slice(-1), 16) % 4
-
-          if (lastDigit === 0) {
-            // Simulate adding a new record
-            syncDetails.added++
-          } else if (lastDigit === 1) {
-            // Simulate updating an existing record
-            syncDetails.updated++
-          } else if (lastDigit === 2) {
-            // Simulate no change needed
-            // Do nothing
-          } else {
-            // Simulate an error for demonstration purposes
-            // In a real implementation, we would handle this properly
-            if (Math.random() < 0.1) {
-              throw new Error(`Simulated sync error for expense ${expense.id}`)
-            }
-          }
-        } catch (error) {
-          console.error(`Error syncing expense ${expense.id}:`, error)
-          syncDetails.errors++
-        }
+      const { details, state } = await reconcile(
+        createLocalSyncBackend(),
+        createSupabaseSyncBackend(userId),
+        {
+          ...syncOptions,
+          onProgress: (progress, message) => {
+            updateSyncProgress(progress, message, "syncing")
+            syncOptions.onProgress?.(progress, message)
+          },
+        },
+        { lastSynced: getLastSyncTimestamp(), knownIds: getKnownIds() },
+      )
+
+      setKnownIds(state.knownIds)
+
+      // The local copy may have changed underneath the expense cache
+      expenseService.clearCache()
+
+      if (details.errors > 0) {
+        updateSyncProgress(
+          100,
+          `Synchronization finished with ${details.errors} error${details.errors === 1 ? "" : "s"}`,
+          "error",
+          details,
+        )
+        return getSyncStatus()
       }
 
       // Finalize sync
-      updateSyncProgress(100, "Synchronization completed successfully", "success", syncDetails)
+      updateSyncProgress(100, "Synchronization completed successfully", "success", details)
+
+      // Changes made while the sync was running must still count as unsynced next time
+      if (state.lastSynced) {
+        setLastSyncTimestamp(state.lastSynced)
+      }
 
       return getSyncStatus()
     } catch (error: any) {
@@ -0,0 +1,64 @@
+import type { Expense, ExpenseType } from "@/types/expense"
+
+export interface TagUsage {
+  tag: string
+  count: number
+}
+
+export interface TagBreakdownItem {
+  tag: string
+  amount: number
+  count: number
+}
+
+// Tags are stored lowercase with dashes instead of spaces, without a leading "#"
+export const normalizeTag = (value: string): string =>
+  value
+    .trim()
+    .replace(/^#+/, "")
+    .toLowerCase()
+    .replace(/\s+/g, "-")
+    .replace(/[^\p{L}\p{N}_-]/gu, "")
+
+// Normalize and de-duplicate a list of tags, keeping the order they were given in
+export const normalizeTags = (tags: string[]): string[] =>
+  Array.from(new Set(tags.map(normalizeTag).filter(Boolean)))
+
+// Pull "#tag" words out of free text, returning the remaining text and the tags found
+export const extractHashtags = (text: string): { text: string; tags: string[] } => {
+  const tags = normalizeTags(text.match(/#[^\s,#]+/g) || [])
+  return { text: text.replace(/#[^\s,#]+/g, "").replace(/\s{2,}/g, " ").trim(), tags }
+}
+
+export const hasAnyTag = (expense: Expense, tags: string[]) => (expense.tags || []).some((tag) => tags.includes(tag))
+
+// Every tag in use, most used first
+export const getTagUsage = (expenses: Expense[]): TagUsage[] => {
+  const counts = new Map<string, number>()
+  expenses.forEach((expense) => {
+    ;(expense.tags || []).forEach((tag) => counts.set(tag, (counts.get(tag) || 0) + 1))
+  })
+
+  return Array.from(counts.entries())
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag))
+}
+
+// Total per tag for one transaction type. A transaction with several tags counts
+// towards each of them, so the totals can add up to more than the overall amount.
+export const getTagBreakdown = (expenses: Expense[], type: ExpenseType): TagBreakdownItem[] => {
+  const totals = new Map<string, TagBreakdownItem>()
+
+  expenses
+    .filter((expense) => expense.type === type)
+    .forEach((expense) => {
+      ;(expense.tags || []).forEach((tag) => {
+        const item = totals.get(tag) || { tag, amount: 0, count: 0 }
+        item.amount += expense.amount
+        item.count++
+        totals.set(tag, item)
+      })
+    })
+
+  return Array.from(totals.values()).sort((a, b) => b.amount - a.amount)
+}
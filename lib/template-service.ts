@@ -1,4 +1,5 @@
 import { getSupabaseBrowserClient } from "@/lib/supabase"
+import { attachCategoryRef, getCategoryRefsVersion, resolveCategoryRef } from "@/lib/category-refs"
 import type { TransactionTemplate, CreateTemplateInput, UpdateTemplateInput } from "@/types/template"
 
 // Define event names for template operations
@@ -10,6 +11,37 @@ export const TEMPLATE_DELETED_EVENT = "template-deleted"
 let templatesCache: TransactionTemplate[] | null = null
 let lastFetchTime = 0
 const CACHE_TTL = 300000 // 5 minutes (increased from 1 minute)
+// Version of the category names the cached templates were resolved against
+let cacheRefsVersion = -1
+
+// Convert database template to app template
+const mapDbTemplateToTemplate = (row: any): TransactionTemplate => ({
+  id: row.id,
+  name: row.name,
+  type: row.type,
+  category: row.category,
+  categoryId: row.category_id || undefined,
+  amount: row.amount || 0,
+  notes: row.notes || "",
+  isDefault: row.is_default || false,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+})
+
+// Templates keep the id of their category, so they show its current name after a rename or merge
+const withCurrentCategories = (templates: TransactionTemplate[]): TransactionTemplate[] => {
+  cacheRefsVersion = getCategoryRefsVersion()
+  return templates.map((template) =>
+    template.type === "transfer" ? template : { ...template, ...resolveCategoryRef(template, template.type) },
+  )
+}
+
+// Category columns for a saved template, with the id of the category it names
+const mapCategoryToDbColumns = ({ type, category, categoryId }: UpdateTemplateInput) => {
+  if (category === undefined) return {}
+  const ref = type && type !== "transfer" ? attachCategoryRef({ category, categoryId }, type) : { category, categoryId }
+  return { category: ref.category, category_id: ref.categoryId || null }
+}
 
 // Helper to dispatch template events
 const dispatchTemplateEvent = (eventName: string, template: TransactionTemplate) => {
@@ -57,6 +89,9 @@ export const templateService = {
       const now = Date.now()
       if (templatesCache && now - lastFetchTime < CACHE_TTL) {
         console.log("Using cached templates data")
+        if (cacheRefsVersion !== getCategoryRefsVersion()) {
+          templatesCache = withCurrentCategories(templatesCache)
+        }
         return templatesCache
       }
 
@@ -117,20 +152,10 @@ export const templateService = {
           }
 
           // Map database templates to app templates
-          const templates: TransactionTemplate[] = data.map((template: any) => ({
-            id: template.id,
-            name: template.name,
-            type: template.type,
-            category: template.category,
-            amount: template.amount || 0,
-            notes: template.notes || "",
-            isDefault: template.is_default || false,
-            createdAt: template.created_at,
-            updatedAt: template.updated_at,
-          }))
+          const templates: TransactionTemplate[] = data.map(mapDbTemplateToTemplate)
 
           // Update cache
-          templatesCache = templates
+          templatesCache = withCurrentCategories(templates)
           lastFetchTime = now
 
           return templates
@@ -172,6 +197,12 @@ export const templateService = {
     }
   },
 
+  // Drop the cached templates so the next read goes to the database
+  clearCache(): void {
+    templatesCache = null
+    lastFetchTime = 0
+  },
+
   async createTemplate(input: CreateTemplateInput): Promise<TransactionTemplate> {
     try {
       const supabase = getSupabaseBrowserClient()
@@ -210,7 +241,7 @@ export const templateService = {
               user_id: userId,
               name: input.name,
               type: input.type,
-              category: input.category,
+              ...mapCategoryToDbColumns(input),
               amount: input.amount,
               notes: input.notes,
               is_default: input.isDefault,
@@ -230,17 +261,7 @@ export const templateService = {
           }
 
           // Map database template to app template
-          const template: TransactionTemplate = {
-            id: data.id,
-            name: data.name,
-            type: data.type,
-            category: data.category,
-            amount: data.amount || 0,
-            notes: data.notes || "",
-            isDefault: data.is_default || false,
-            createdAt: data.created_at,
-            updatedAt: data.updated_at,
-          }
+          const template: TransactionTemplate = mapDbTemplateToTemplate(data)
 
           // Invalidate cache
           templatesCache = null
@@ -297,7 +318,7 @@ export const templateService = {
             .update({
               name: input.name,
               type: input.type,
-              category: input.category,
+              ...mapCategoryToDbColumns(input),
               amount: input.amount,
               notes: input.notes,
               is_default: input.isDefault,
@@ -319,17 +340,7 @@ export const templateService = {
           }
 
           // Map database template to app template
-          const template: TransactionTemplate = {
-            id: data.id,
-            name: data.name,
-            type: data.type,
-            category: data.category,
-            amount: data.amount || 0,
-            notes: data.notes || "",
-            isDefault: data.is_default || false,
-            createdAt: data.created_at,
-            updatedAt: data.updated_at,
-          }
+          const template: TransactionTemplate = mapDbTemplateToTemplate(data)
 
           // Invalidate cache
           templatesCache = null
@@ -423,17 +434,7 @@ export const templateService = {
 
           // Dispatch event if we had template data
           if (templateData) {
-            const template: TransactionTemplate = {
-              id: templateData.id,
-              name: templateData.name,
-              type: templateData.type,
-              category: templateData.category,
-              amount: templateData.amount || 0,
-              notes: templateData.notes || "",
-              isDefault: templateData.is_default || false,
-              createdAt: templateData.created_at,
-              updatedAt: templateData.updated_at,
-            }
+            const template: TransactionTemplate = mapDbTemplateToTemplate(templateData)
             dispatchTemplateEvent(TEMPLATE_DELETED_EVENT, template)
           }
 
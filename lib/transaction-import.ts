@@ -0,0 +1,247 @@
+import { differenceInCalendarDays, format } from "date-fns"
+import { parseAmountValue, parseDateValue } from "@/lib/csv"
+import { DEFAULT_CURRENCY } from "@/lib/currency-service"
+import { applyRules } from "@/lib/rules"
+import type { Expense, ExpenseType } from "@/types/expense"
+import type { ColumnMapping, CsvImportOptions, ImportField, ImportRow, StatementTransaction } from "@/types/import"
+import type { CategorizationRule } from "@/types/rule"
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  date: "Date",
+  amount: "Amount (signed)",
+  debit: "Debit / withdrawal",
+  credit: "Credit / deposit",
+  type: "Type",
+  category: "Category",
+  notes: "Description / notes",
+  currency: "Currency",
+}
+
+// Header names recognised when guessing the column mapping
+const HEADER_HINTS: Record<ImportField, RegExp> = {
+  date: /^(transaction |txn |value |posting |booking )?date$/i,
+  amount: /^(transaction |txn )?amount( \(.*\))?$/i,
+  debit: /(debit|withdrawal|paid out|money out|dr\.?$)/i,
+  credit: /(credit|deposit|paid in|money in|cr\.?$)/i,
+  type: /^(type|transaction type|txn type)$/i,
+  category: /^category$/i,
+  notes: /(notes?|description|narration|details|particulars|memo|payee|remarks)/i,
+  currency: /^(currency|ccy)$/i,
+}
+
+// Days either side of a transaction's date still treated as the same transaction
+const DUPLICATE_DATE_TOLERANCE = 1
+
+// Guess which column holds each field from the header row
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {}
+  const used = new Set<number>()
+
+  ;(Object.keys(HEADER_HINTS) as ImportField[]).forEach((field) => {
+    const index = headers.findIndex((header, i) => !used.has(i) && HEADER_HINTS[field].test(header.trim()))
+    if (index >= 0) {
+      mapping[field] = index
+      used.add(index)
+    }
+  })
+
+  // A separate debit/credit pair takes precedence over a generic amount column
+  if (mapping.debit !== undefined && mapping.credit !== undefined) delete mapping.amount
+
+  return mapping
+}
+
+// Problems with a mapping that prevent building any transaction
+export const validateMapping = (mapping: ColumnMapping): string[] => {
+  const problems: string[] = []
+  if (mapping.date === undefined) problems.push("Choose the column that holds the date")
+  if (mapping.amount === undefined && mapping.debit === undefined && mapping.credit === undefined) {
+    problems.push("Choose an amount column, or debit and credit columns")
+  }
+  return problems
+}
+
+const parseTypeValue = (value: string): ExpenseType | null => {
+  const normalized = value.trim().toLowerCase()
+  if (["expense", "debit", "dr", "withdrawal"].includes(normalized)) return "expense"
+  if (["income", "credit", "cr", "deposit"].includes(normalized)) return "income"
+  if (normalized === "savings" || normalized === "saving") return "savings"
+  if (normalized === "transfer") return "transfer"
+  return null
+}
+
+// Build a transaction from one CSV row, collecting every validation problem
+const buildRow = (
+  raw: string[],
+  mapping: ColumnMapping,
+  options: CsvImportOptions,
+  rules: CategorizationRule[],
+): Pick<ImportRow, "expense" | "errors" | "matchedRules"> => {
+  const errors: string[] = []
+  const cell = (field: ImportField) => (mapping[field] !== undefined ? (raw[mapping[field]!] ?? "").trim() : "")
+
+  const date = parseDateValue(cell("date"), options.dateFormat)
+  if (!date) errors.push(`Date "${cell("date")}" does not match ${options.dateFormat}`)
+
+  // Amount and direction, from a signed amount or separate debit/credit columns
+  let amount: number | null = null
+  let direction: "expense" | "income" | null = null
+
+  if (mapping.debit !== undefined || mapping.credit !== undefined) {
+    const debit = parseAmountValue(cell("debit"), options.decimalSeparator)
+    const credit = parseAmountValue(cell("credit"), options.decimalSeparator)
+    if (debit) {
+      amount = Math.abs(debit)
+      direction = "expense"
+    } else if (credit) {
+      amount = Math.abs(credit)
+      direction = "income"
+    }
+  }
+
+  if (amount === null && mapping.amount !== undefined) {
+    const signed = parseAmountValue(cell("amount"), options.decimalSeparator)
+    if (signed !== null && signed !== 0) {
+      amount = Math.abs(signed)
+      const isNegative = signed < 0
+      direction = isNegative === (options.negativeAmountsAre === "expense") ? "expense" : "income"
+    }
+  }
+
+  if (amount === null) errors.push("No amount found")
+
+  let type: ExpenseType | null = direction
+  if (mapping.type !== undefined) {
+    type = parseTypeValue(cell("type")) || direction
+    if (!type) errors.push(`Unknown type "${cell("type")}"`)
+  }
+  if (type === "transfer") {
+    errors.push("Transfers cannot be imported from CSV; record them between accounts instead")
+  }
+
+  if (errors.length > 0 || !date || amount === null || !type || type === "transfer") {
+    return { expense: null, errors }
+  }
+
+  const currency = cell("currency").toUpperCase()
+  const fileCategory = cell("category")
+  const draft: Expense = {
+    id: "",
+    date: date.toISOString(),
+    type,
+    category: fileCategory || options.defaultCategory[type],
+    amount,
+    currency: currency || options.currency,
+    accountId: options.accountId,
+    notes: cell("notes"),
+  }
+
+  // Rules categorise the rows the file leaves without a category
+  const { expense, matched } = fileCategory ? { expense: draft, matched: [] } : applyRules(draft, rules)
+  if (!expense.category) errors.push("No category; choose a default category for this type")
+  if (currency && !/^[A-Z]{3}$/.test(currency)) errors.push(`Unknown currency "${cell("currency")}"`)
+
+  if (errors.length > 0) return { expense: null, errors }
+
+  return { expense, errors, matchedRules: matched.map((rule) => rule.name) }
+}
+
+// Existing transaction already imported from the same statement line, or failing that
+// one with the same type and amount on (nearly) the same day
+export const findDuplicate = (expense: Expense, existing: Expense[]): Expense | undefined => {
+  if (expense.externalId) {
+    const sameLine = existing.find((candidate) => candidate.externalId === expense.externalId)
+    if (sameLine) return sameLine
+  }
+
+  const date = new Date(expense.date)
+  return existing.find(
+    (candidate) =>
+      // Lines with different bank ids are different transactions, however alike
+      !(candidate.externalId && expense.externalId) &&
+      candidate.type === expense.type &&
+      Math.abs(candidate.amount - expense.amount) < 0.005 &&
+      (candidate.currency || DEFAULT_CURRENCY) === (expense.currency || DEFAULT_CURRENCY) &&
+      Math.abs(differenceInCalendarDays(new Date(candidate.date), date)) <= DUPLICATE_DATE_TOLERANCE,
+  )
+}
+
+// Parse every data row, flag likely duplicates and preselect the rows worth importing
+export const buildImportRows = (
+  rows: string[][],
+  mapping: ColumnMapping,
+  options: CsvImportOptions,
+  existing: Expense[],
+  rules: CategorizationRule[] = [],
+): ImportRow[] => {
+  const dataRows = options.hasHeader ? rows.slice(1) : rows
+  const firstRowNumber = options.hasHeader ? 2 : 1
+
+  return dataRows.map((raw, index) =>
+    markDuplicate({ rowNumber: firstRowNumber + index, raw, ...buildRow(raw, mapping, options, rules) }, existing),
+  )
+}
+
+// Turn OFX/QIF statement lines into import rows. The sign decides the type, payee and
+// memo become the notes, and the bank id is kept to recognise the line on re-import.
+// Rules categorise lines the statement leaves without a category.
+export const buildStatementRows = (
+  transactions: StatementTransaction[],
+  options: CsvImportOptions,
+  existing: Expense[],
+  rules: CategorizationRule[] = [],
+): ImportRow[] => {
+  const imported: Expense[] = []
+
+  return transactions.map((transaction, index) => {
+    const errors: string[] = []
+    const date = parseDateValue(transaction.date, options.dateFormat)
+    if (!date) errors.push(`Date "${transaction.date}" does not match ${options.dateFormat}`)
+    if (transaction.amount === 0) errors.push("Amount is zero")
+
+    const type: "expense" | "income" = transaction.amount < 0 ? "expense" : "income"
+    const notes = [transaction.payee, transaction.memo]
+      .filter((part, i, parts) => part && (i === 0 || part !== parts[0]))
+      .join(" — ")
+
+    const draft: Expense | null = date
+      ? {
+          id: "",
+          date: date.toISOString(),
+          type,
+          category: transaction.category || options.defaultCategory[type],
+          amount: Math.abs(transaction.amount),
+          currency: transaction.currency || options.currency,
+          accountId: options.accountId,
+          externalId: transaction.externalId,
+          notes,
+        }
+      : null
+    const { expense, matched } =
+      draft && !transaction.category ? applyRules(draft, rules) : { expense: draft, matched: [] }
+    if (expense && !expense.category) errors.push("No category; choose a default category for this type")
+
+    const row = {
+      rowNumber: index + 1,
+      raw: [transaction.date, String(transaction.amount), transaction.payee, transaction.memo],
+      errors,
+      expense: errors.length > 0 ? null : expense,
+      matchedRules: matched.map((rule) => rule.name),
+    }
+
+    // Also compare against earlier lines so a repeated bank id is only imported once
+    const marked = markDuplicate(row, [...existing, ...imported])
+    if (marked.expense) imported.push(marked.expense)
+    return marked
+  })
+}
+
+// Flag a parsed row that repeats an existing transaction and leave it unselected
+export const markDuplicate = (row: Omit<ImportRow, "duplicateOf" | "selected">, existing: Expense[]): ImportRow => {
+  const duplicateOf = row.expense ? findDuplicate(row.expense, existing) : undefined
+  return { ...row, duplicateOf, selected: !!row.expense && !duplicateOf }
+}
+
+// Short description of a transaction for duplicate warnings
+export const describeExpense = (expense: Expense) =>
+  `${format(new Date(expense.date), "dd MMM yyyy")} · ${expense.category} · ${expense.amount}`
@@ -0,0 +1,188 @@
+// Runs the sync engine against in-memory backends and checks each direction and
+// conflict strategy. Run with `pnpm test`.
+import assert from "node:assert/strict"
+import { reconcile, type SyncOptions, type SyncState } from "@/lib/sync-service"
+import { createMemorySyncBackend, type SyncRecord } from "@/lib/sync-backends"
+
+const LAST_SYNCED = "2026-01-01T00:00:00.000Z"
+const BEFORE = "2025-12-01T00:00:00.000Z"
+const EARLIER = "2026-01-02T00:00:00.000Z"
+const LATER = "2026-01-03T00:00:00.000Z"
+
+const record = (id: string, amount: number, updatedAt = BEFORE): SyncRecord => ({
+  id,
+  date: "2025-11-30T00:00:00.000Z",
+  type: "expense",
+  category: "Food",
+  categoryId: "food",
+  amount,
+  currency: "USD",
+  tags: [],
+  notes: "",
+  updatedAt,
+})
+
+const synced: SyncState = { lastSynced: LAST_SYNCED, knownIds: ["shared"] }
+
+const run = async (
+  local: SyncRecord[],
+  remote: SyncRecord[],
+  options: Pick<SyncOptions, "direction" | "conflictResolution">,
+  state: SyncState,
+) => {
+  const localBackend = createMemorySyncBackend(local, "local")
+  const remoteBackend = createMemorySyncBackend(remote, "remote")
+  const result = await reconcile(localBackend, remoteBackend, options, state)
+  return { local: localBackend.records, remote: remoteBackend.records, ...result }
+}
+
+const checks: [string, () => Promise<void>][] = [
+  [
+    "push sends local additions and deletions only",
+    async () => {
+      const result = await run(
+        [record("new-local", 1, LATER)],
+        [record("shared", 2), record("new-remote", 3, LATER)],
+        { direction: "push", conflictResolution: "newest" },
+        synced,
+      )
+      assert.ok(result.remote.has("new-local"))
+      assert.ok(!result.remote.has("shared"))
+      assert.ok(!result.local.has("new-remote"))
+    },
+  ],
+  [
+    "pull takes remote additions and deletions only",
+    async () => {
+      const result = await run(
+        [record("shared", 2), record("new-local", 1, LATER)],
+        [record("new-remote", 3, LATER)],
+        { direction: "pull", conflictResolution: "newest" },
+        synced,
+      )
+      assert.ok(result.local.has("new-remote"))
+      assert.ok(!result.local.has("shared"))
+      assert.ok(!result.remote.has("new-local"))
+    },
+  ],
+  [
+    "both merges additions from each side",
+    async () => {
+      const result = await run(
+        [record("shared", 2), record("new-local", 1, LATER)],
+        [record("shared", 2), record("new-remote", 3, LATER)],
+        { direction: "both", conflictResolution: "newest" },
+        synced,
+      )
+      assert.deepEqual([...result.local.keys()].sort(), ["new-local", "new-remote", "shared"])
+      assert.deepEqual([...result.remote.keys()].sort(), ["new-local", "new-remote", "shared"])
+      assert.deepEqual(result.details, { added: 2, updated: 0, deleted: 0, errors: 0, total: 3 })
+      assert.deepEqual(result.state.knownIds.sort(), ["new-local", "new-remote", "shared"])
+    },
+  ],
+  [
+    "a direction that cannot apply a deletion keeps the id known",
+    async () => {
+      const result = await run([record("shared", 2)], [], { direction: "push", conflictResolution: "newest" }, synced)
+      assert.ok(result.local.has("shared"))
+      assert.ok(!result.remote.has("shared"))
+      assert.deepEqual(result.state.knownIds, ["shared"])
+    },
+  ],
+  [
+    "local strategy keeps the local side of a real conflict",
+    async () => {
+      const result = await run(
+        [record("shared", 10, EARLIER)],
+        [record("shared", 20, LATER)],
+        { direction: "both", conflictResolution: "local" },
+        synced,
+      )
+      assert.equal(result.local.get("shared")?.amount, 10)
+      assert.equal(result.remote.get("shared")?.amount, 10)
+    },
+  ],
+  [
+    "remote strategy keeps the remote side of a real conflict",
+    async () => {
+      const result = await run(
+        [record("shared", 10, LATER)],
+        [record("shared", 20, EARLIER)],
+        { direction: "both", conflictResolution: "remote" },
+        synced,
+      )
+      assert.equal(result.local.get("shared")?.amount, 20)
+      assert.equal(result.remote.get("shared")?.amount, 20)
+    },
+  ],
+  [
+    "newest strategy keeps the most recent edit",
+    async () => {
+      const result = await run(
+        [record("shared", 10, LATER)],
+        [record("shared", 20, EARLIER)],
+        { direction: "both", conflictResolution: "newest" },
+        synced,
+      )
+      assert.equal(result.remote.get("shared")?.amount, 10)
+
+      const reversed = await run(
+        [record("shared", 10, EARLIER)],
+        [record("shared", 20, LATER)],
+        { direction: "both", conflictResolution: "newest" },
+        synced,
+      )
+      assert.equal(reversed.local.get("shared")?.amount, 20)
+    },
+  ],
+  [
+    "a change on one side wins over the strategy",
+    async () => {
+      const result = await run(
+        [record("shared", 10, LATER)],
+        [record("shared", 20)],
+        { direction: "both", conflictResolution: "remote" },
+        synced,
+      )
+      assert.equal(result.remote.get("shared")?.amount, 10)
+    },
+  ],
+  [
+    "a first sync does not resurrect records deleted remotely",
+    async () => {
+      const firstSync: SyncState = { lastSynced: null, knownIds: [] }
+      const result = await run(
+        [record("stale", 1), record("shared", 2)],
+        [record("shared", 2), record("new-remote", 3)],
+        { direction: "both", conflictResolution: "newest" },
+        firstSync,
+      )
+      assert.ok(!result.remote.has("stale"))
+      assert.ok(!result.local.has("stale"))
+      assert.ok(result.local.has("new-remote"))
+      assert.deepEqual(result.state.knownIds.sort(), ["new-remote", "shared"])
+    },
+  ],
+]
+
+const main = async () => {
+  let failed = 0
+
+  for (const [name, check] of checks) {
+    try {
+      await check()
+      console.log(`ok - ${name}`)
+    } catch (error) {
+      failed++
+      console.error(`not ok - ${name}`)
+      console.error(error)
+    }
+  }
+
+  if (failed > 0) {
+    console.error(`${failed} of ${checks.length} sync checks failed`)
+    process.exit(1)
+  }
+}
+
+main()
@@ -0,0 +1,44 @@
+-- Totals per type, category, month and currency between two timestamps (both optional), read by
+-- expenseService.getAggregates. Split lines count towards their own categories, as in
+-- aggregateExpenses (lib/expense-query.ts). Months are taken in the caller's time zone.
+--
+-- security invoker runs the query as the calling user, so the row level security on expenses
+-- still applies and each user only sums their own transactions.
+create or replace function public.expense_aggregates(
+  from_date timestamptz default null,
+  to_date timestamptz default null,
+  time_zone text default 'UTC'
+)
+returns table (
+  type text,
+  category text,
+  category_id text,
+  month text,
+  currency text,
+  amount numeric,
+  count bigint
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select
+    e.type::text,
+    coalesce(line ->> 'category', e.category) as category,
+    case when line is null then e.category_id::text else line ->> 'categoryId' end as category_id,
+    to_char(e.date::timestamptz at time zone expense_aggregates.time_zone, 'YYYY-MM') as month,
+    coalesce(e.currency, 'INR') as currency,
+    sum(coalesce((line ->> 'amount')::numeric, e.amount)) as amount,
+    count(*) as count
+  from public.expenses e
+  left join lateral jsonb_array_elements(
+    case when jsonb_typeof(e.splits::jsonb) = 'array' then e.splits::jsonb else '[]'::jsonb end
+  ) as split(line) on true
+  where (expense_aggregates.from_date is null or e.date::timestamptz >= expense_aggregates.from_date)
+    and (expense_aggregates.to_date is null or e.date::timestamptz <= expense_aggregates.to_date)
+  group by 1, 2, 3, 4, 5
+$$;
+
+revoke all on function public.expense_aggregates(timestamptz, timestamptz, text) from public;
+grant execute on function public.expense_aggregates(timestamptz, timestamptz, text) to authenticated;
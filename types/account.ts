@@ -0,0 +1,30 @@
+export type AccountType = "bank" | "cash" | "credit_card" | "wallet"
+
+export interface Account {
+  id: string
+  name: string
+  type: AccountType
+  // Balance before the first tracked transaction; negative for money owed on a card
+  openingBalance: number
+  color?: string
+  archived?: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+export type CreateAccountInput = Omit<Account, "id" | "createdAt" | "updatedAt">
+
+export type UpdateAccountInput = Partial<CreateAccountInput>
+
+export interface AccountBalance {
+  account: Account
+  balance: number
+  inflow: number
+  outflow: number
+  transactionCount: number
+}
+
+export interface BalancePoint {
+  month: string
+  balance: number
+}
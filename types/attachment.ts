@@ -0,0 +1,12 @@
+// A receipt, bill or other document stored alongside a transaction
+export interface Attachment {
+  id: string
+  expenseId: string
+  fileName: string
+  contentType: string
+  size: number
+  // Location of the file in attachment storage
+  storagePath: string
+  createdAt: string
+  updatedAt: string
+}
@@ -0,0 +1,61 @@
+import type { CurrencySettings } from "./currency"
+
+// Database tables captured in a backup, in restore order (referenced tables first)
+export type BackupTable =
+  | "accounts"
+  | "categories"
+  | "transaction_templates"
+  | "expenses"
+  | "attachments"
+  | "recurring_rules"
+  | "goals"
+  | "filter_presets"
+  | "categorization_rules"
+
+// A database row as stored in a backup: every column except user_id
+export type BackupRow = { id: string } & Record<string, unknown>
+
+// An attachment file stored inside a backup, keyed by its storage path
+export interface BackupAttachmentFile {
+  path: string
+  contentType: string
+  // File contents as base64
+  data: string
+}
+
+export interface BackupFile {
+  format: "fnzo-backup"
+  version: number
+  createdAt: string
+  tables: Partial<Record<BackupTable, BackupRow[]>>
+  files: BackupAttachmentFile[]
+  // Preferences kept in the browser rather than the database
+  settings: {
+    currency?: CurrencySettings
+  }
+}
+
+// merge keeps existing data and only adds or updates rows; replace makes the account match the backup
+export type RestoreMode = "merge" | "replace"
+
+export interface RestoreTableSummary {
+  table: BackupTable
+  label: string
+  inBackup: number
+  create: number
+  update: number
+  unchanged: number
+  remove: number
+  // The table does not exist in this database, so its rows are skipped
+  unavailable?: boolean
+}
+
+// Dry-run result describing what a restore would change
+export interface RestorePlan {
+  mode: RestoreMode
+  backupCreatedAt: string
+  // Version the file was written with, before migration to the current format
+  backupVersion: number
+  tables: RestoreTableSummary[]
+  restoresSettings: boolean
+}
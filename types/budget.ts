@@ -0,0 +1,22 @@
+export type BudgetPeriod = "weekly" | "monthly" | "yearly" | "custom"
+
+export interface BudgetSettings {
+  period: BudgetPeriod
+  // Length of a custom period in days
+  periodDays?: number
+  // First day (yyyy-MM-dd) budgets are tracked from; anchors custom periods and rollover
+  startDate?: string
+  // Carry unspent budget into the next period
+  rollover: boolean
+}
+
+export interface BudgetPeriodSummary {
+  start: string
+  end: string
+  budget: number
+  carriedOver: number
+  available: number
+  actual: number
+  remaining: number
+  isOverBudget: boolean
+}
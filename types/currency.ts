@@ -0,0 +1,14 @@
+// ISO 4217 code, e.g. "INR" or "USD"
+export type CurrencyCode = string
+
+// Value of one unit of `currency` expressed in the base currency
+export interface ExchangeRate {
+  currency: CurrencyCode
+  rate: number
+  updatedAt: string
+}
+
+export interface CurrencySettings {
+  baseCurrency: CurrencyCode
+  rates: Record<CurrencyCode, ExchangeRate>
+}
@@ -1,4 +1,7 @@
-export type ExpenseType = "expense" | "income" | "savings"
+import type { BudgetPeriod, BudgetPeriodSummary } from "./budget"
+
+// Transfers move money between accounts and never count as income or spending
+export type ExpenseType = "expense" | "income" | "savings" | "transfer"
 
 // Make ExpenseCategory a string type to support dynamic categories
 export type ExpenseCategory = string
@@ -8,8 +11,30 @@ export interface Expense {
   date: string
   type: ExpenseType
   category: ExpenseCategory
+  // Category the transaction belongs to; category holds its name, looked up from this id when read
+  categoryId?: string
   amount: number
+  // ISO 4217 code; transactions recorded before multi-currency support are INR
+  currency?: string
+  // Account the money came from (or went into, for income)
+  accountId?: string
+  // Destination account of a transfer
+  transferAccountId?: string
+  // Bank-assigned id (e.g. an OFX FITID) used to skip re-imports of the same statement line
+  externalId?: string
+  // Lowercase labels that cut across categories, e.g. "trip-goa" or "reimbursable"
+  tags?: string[]
+  // Lines of a split transaction; when present they sum to amount and category holds the largest line's category
+  splits?: ExpenseSplit[]
   notes: string
+  updatedAt?: string
+}
+
+export interface ExpenseSplit {
+  category: ExpenseCategory
+  categoryId?: string
+  amount: number
+  notes?: string
 }
 
 export interface Category {
@@ -17,7 +42,17 @@ export interface Category {
   name: string
   description?: string
   type: ExpenseType
+  // Top-level category this one is a subcategory of, e.g. Food for Groceries
+  parentId?: string
+  // Category that took this one over in a merge or delete. The row is kept so transactions still
+  // pointing at it resolve to the category that replaced it; it is hidden everywhere else.
+  mergedInto?: string
   budget?: number
+  budgetPeriod?: BudgetPeriod
+  budgetPeriodDays?: number
+  budgetStartDate?: string
+  budgetRollover?: boolean
+  budgetStatus?: BudgetPeriodSummary
   color?: string
   icon?: string
   isDefault?: boolean
@@ -0,0 +1,78 @@
+import type { ExpenseType } from "./expense"
+
+// Define time period filter options
+export type TimePeriod =
+  | "all"
+  | "today"
+  | "yesterday"
+  | "last7days"
+  | "last30days"
+  | "thisWeek"
+  | "lastWeek"
+  | "thisMonth"
+  | "lastMonth"
+  | "thisYear"
+  | "custom"
+
+// Define amount range filter options
+export type AmountRange = "all" | "under500" | "500to1000" | "1000to5000" | "over5000" | "custom"
+
+// include keeps only the selected values; exclude keeps everything except them
+export type FilterMode = "include" | "exclude"
+
+// all: a transaction must pass every active condition; any: passing one is enough
+export type MatchMode = "all" | "any"
+
+// Filter state interface
+export interface FilterState {
+  // Free text matched against notes, categories and tags; may contain amount expressions like ">500"
+  search: string
+  timePeriod: TimePeriod
+  customDateFrom: Date | null
+  customDateTo: Date | null
+  // Selected transaction types; empty matches every type
+  types: ExpenseType[]
+  typeMode: FilterMode
+  // Selected categories; empty matches every category
+  categories: string[]
+  categoryMode: FilterMode
+  // Transfers match both the source and the destination account
+  account: string | "all"
+  // Transactions carrying any of these tags; empty matches everything
+  tags: string[]
+  amountRange: AmountRange
+  customAmountMin: number | null
+  customAmountMax: number | null
+  // How the active conditions combine; the search always narrows the result
+  matchMode: MatchMode
+}
+
+// Filters as stored in a preset. Only the fields that differ from the defaults are kept, and
+// custom dates are "yyyy-MM-dd" strings; relative periods like "last30days" move with the calendar.
+export type SavedFilters = Partial<Omit<FilterState, "customDateFrom" | "customDateTo">> & {
+  customDateFrom?: string | null
+  customDateTo?: string | null
+  // Ids of the selected categories, so the preset follows renames and merges
+  categoryIds?: string[]
+}
+
+// A filter combination the user saved under a name
+export interface FilterPreset {
+  id: string
+  name: string
+  filters: SavedFilters
+  // Pinned presets are shown as one-click buttons in the filter bar
+  pinned: boolean
+  // Display order, lowest first
+  position: number
+  createdAt: string
+  updatedAt: string
+}
+
+export interface CreateFilterPresetInput {
+  name: string
+  filters: SavedFilters
+  pinned?: boolean
+}
+
+export type UpdateFilterPresetInput = Partial<CreateFilterPresetInput>
@@ -0,0 +1,29 @@
+export interface Goal {
+  id: string
+  name: string
+  targetAmount: number
+  targetDate?: string
+  // Savings categories whose transactions count towards this goal
+  categoryIds: string[]
+  color?: string
+  notes?: string
+  createdAt: string
+  updatedAt: string
+}
+
+export type CreateGoalInput = Omit<Goal, "id" | "createdAt" | "updatedAt">
+export type UpdateGoalInput = Partial<CreateGoalInput>
+
+export type GoalStatus = "completed" | "on-track" | "behind" | "overdue" | "no-deadline"
+
+export interface GoalProgress {
+  goal: Goal
+  saved: number
+  remaining: number
+  percent: number
+  // Average saved per month over the recent contribution window
+  monthlyPace: number
+  projectedDate?: string
+  requiredMonthly?: number
+  status: GoalStatus
+}
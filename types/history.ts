@@ -0,0 +1,34 @@
+import type { Attachment } from "./attachment"
+import type { Category, Expense } from "./expense"
+
+// A single step of undoing or redoing a change. Steps hold plain data rather than
+// callbacks so the history survives a reload.
+export type HistoryOperation =
+  // Attachment rows are put back with the transactions; their files stay in storage while this can run
+  | { kind: "addExpenses"; expenses: Expense[]; attachments?: Attachment[] }
+  | { kind: "updateExpenses"; expenses: Expense[] }
+  | { kind: "deleteExpenses"; ids: string[] }
+  // Puts a deleted category back with its original id
+  | { kind: "restoreCategory"; category: Category }
+  | { kind: "updateCategory"; id: string; updates: Partial<Omit<Category, "id">> }
+  // Moves the category's transactions to the replacement first, when one is given
+  | { kind: "deleteCategory"; id: string; replacementId?: string }
+  | { kind: "mergeCategories"; sourceId: string; targetId: string }
+
+// Passed to service methods whose changes are recorded. Undo, redo and callers that record one
+// entry for several service calls skip the per-call entries.
+export interface HistoryOptions {
+  skipHistory?: boolean
+}
+
+export interface HistoryEntry {
+  id: string
+  // e.g. "Deleted 3 transactions" or "Merged Takeout into Food"
+  label: string
+  createdAt: string
+  // Run in order to take the change back
+  undo: HistoryOperation[]
+  // Run in order to make the change again after an undo
+  redo: HistoryOperation[]
+  undone: boolean
+}
@@ -0,0 +1,57 @@
+import type { Expense } from "./expense"
+
+// Transaction fields a CSV column can be mapped to
+export type ImportField = "date" | "amount" | "debit" | "credit" | "type" | "category" | "notes" | "currency"
+
+// Column index for each mapped field
+export type ColumnMapping = Partial<Record<ImportField, number>>
+
+export interface CsvImportOptions {
+  hasHeader: boolean
+  dateFormat: string
+  decimalSeparator: "." | ","
+  // How a signed amount column maps to a transaction type
+  negativeAmountsAre: "expense" | "income"
+  defaultCategory: Record<"expense" | "income" | "savings", string>
+  accountId?: string
+  currency?: string
+}
+
+// Bank statement formats read without a column mapping
+export type StatementFormat = "ofx" | "qif"
+
+// One transaction read from an OFX/QFX or QIF statement
+export interface StatementTransaction {
+  // FITID for OFX; derived from the line's contents for QIF
+  externalId: string
+  // Raw date text, parsed once the date format is known
+  date: string
+  // Signed: negative amounts leave the account
+  amount: number
+  payee: string
+  memo: string
+  // QIF category, when the file carries one
+  category?: string
+  currency?: string
+}
+
+// A parsed row awaiting confirmation
+export interface ImportRow {
+  rowNumber: number
+  raw: string[]
+  expense: Expense | null
+  errors: string[]
+  // Names of the categorisation rules that set the row's category or tags
+  matchedRules?: string[]
+  // Existing transaction this row most likely repeats
+  duplicateOf?: Expense
+  selected: boolean
+}
+
+export interface ImportResult {
+  total: number
+  imported: number
+  skipped: number
+  failed: number
+  newCategories: string[]
+}
@@ -0,0 +1,60 @@
+import type { Expense, ExpenseType } from "./expense"
+import type { FilterState } from "./filter"
+
+export type ExpenseSortColumn = "date" | "type" | "category" | "notes" | "amount"
+export type SortDirection = "asc" | "desc"
+
+export interface ExpenseSort {
+  column: ExpenseSortColumn
+  direction: SortDirection
+}
+
+// One page of transactions. Pages after the first are found from the previous page's cursor;
+// offset is the fallback for jumping straight to a page whose cursor isn't known yet.
+export interface ExpensePageRequest {
+  filters: FilterState
+  sort: ExpenseSort
+  limit: number
+  cursor?: string | null
+  offset?: number
+}
+
+export interface ExpensePage {
+  items: Expense[]
+  // Transactions matching the filters across all pages
+  total: number
+  // Pass back to get the following page; null on the last page
+  nextCursor: string | null
+}
+
+// Sum of one type, category and month in one currency, as returned by the database
+export interface AggregateRow {
+  type: ExpenseType
+  category: string
+  // "yyyy-MM"
+  month: string
+  currency: string
+  amount: number
+  count: number
+}
+
+export interface CategoryTotal {
+  type: ExpenseType
+  category: string
+  amount: number
+  count: number
+}
+
+export interface MonthTotal {
+  month: string
+  totals: Record<ExpenseType, number>
+}
+
+// Aggregates converted to the base currency
+export interface ExpenseAggregates {
+  totals: Record<ExpenseType, number>
+  // Largest first
+  byCategory: CategoryTotal[]
+  // Oldest first
+  byMonth: MonthTotal[]
+}
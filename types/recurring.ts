@@ -0,0 +1,49 @@
+import type { Expense } from "./expense"
+import type { TransactionTemplate } from "./template"
+
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly" | "yearly"
+
+// Run on e.g. the 2nd Tuesday (n = 2, weekday = 2) or the last Friday (n = -1, weekday = 5) of the month
+export interface NthWeekday {
+  n: 1 | 2 | 3 | 4 | -1
+  weekday: number // 0 = Sunday ... 6 = Saturday
+}
+
+// Override or skip a single occurrence, keyed by its scheduled date (yyyy-MM-dd)
+export interface RecurrenceException {
+  date: string
+  action: "skip" | "edit"
+  // An edited category is kept with its id, like a template's
+  overrides?: Partial<Pick<Expense, "date" | "amount" | "category" | "categoryId" | "notes">>
+}
+
+export interface RecurringRule {
+  id: string
+  templateId: string
+  frequency: RecurrenceFrequency
+  interval: number
+  startDate: string
+  nthWeekday?: NthWeekday
+  endDate?: string
+  count?: number
+  isActive: boolean
+  exceptions: RecurrenceException[]
+  lastGenerated?: string
+  createdAt: string
+  updatedAt: string
+}
+
+export type CreateRecurringRuleInput = Omit<
+  RecurringRule,
+  "id" | "exceptions" | "lastGenerated" | "createdAt" | "updatedAt"
+>
+export type UpdateRecurringRuleInput = Partial<Omit<RecurringRule, "id" | "createdAt" | "updatedAt">>
+
+export interface RecurringOccurrence {
+  rule: RecurringRule
+  template: TransactionTemplate
+  scheduledDate: string
+  expense: Expense
+  status: "upcoming" | "posted" | "skipped"
+  isEdited: boolean
+}
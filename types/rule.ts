@@ -0,0 +1,46 @@
+import type { ExpenseType } from "./expense"
+
+// What a transaction has to look like for a rule to apply; every condition that is set must hold
+export interface RuleConditions {
+  // Case-insensitive text the notes must contain, e.g. "swiggy"
+  notesContains?: string
+  // Regular expression tested against the notes, case-insensitive
+  notesPattern?: string
+  minAmount?: number
+  maxAmount?: number
+  accountId?: string
+  // Days of the week the transaction falls on, 0 = Sunday
+  weekdays?: number[]
+}
+
+// What a matching rule does. A category always comes with its type, since categories belong to one.
+export interface RuleActions {
+  type?: Exclude<ExpenseType, "transfer">
+  category?: string
+  // The category's id; the name is what it was called when the rule was saved
+  categoryId?: string
+  tags?: string[]
+}
+
+// A user-defined rule that categorises transactions as they are entered or imported
+export interface CategorizationRule {
+  id: string
+  name: string
+  conditions: RuleConditions
+  actions: RuleActions
+  // Paused rules are kept but never applied
+  isActive: boolean
+  // Rules run in this order, lowest first
+  position: number
+  createdAt: string
+  updatedAt: string
+}
+
+export interface CreateRuleInput {
+  name: string
+  conditions: RuleConditions
+  actions: RuleActions
+  isActive?: boolean
+}
+
+export type UpdateRuleInput = Partial<CreateRuleInput>
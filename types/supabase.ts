@@ -8,9 +8,16 @@ export interface Database {
           id: string
           user_id: string
           date: string
-          type: "expense" | "income" | "savings"
+          type: "expense" | "income" | "savings" | "transfer"
           category: string
+          category_id: string | null
           amount: number
+          currency: string
+          account_id: string | null
+          transfer_account_id: string | null
+          external_id: string | null
+          tags: string[] | null
+          splits: { category: string; categoryId?: string; amount: number; notes?: string }[] | null
           notes: string
           created_at: string
           updated_at: string
@@ -19,9 +26,16 @@ export interface Database {
           id?: string
           user_id: string
           date: string
-          type: "expense" | "income" | "savings"
+          type: "expense" | "income" | "savings" | "transfer"
           category: string
+          category_id?: string | null
           amount: number
+          currency?: string
+          account_id?: string | null
+          transfer_account_id?: string | null
+          external_id?: string | null
+          tags?: string[] | null
+          splits?: { category: string; categoryId?: string; amount: number; notes?: string }[] | null
           notes?: string
           created_at?: string
           updated_at?: string
@@ -30,9 +44,16 @@ export interface Database {
           id?: string
           user_id?: string
           date?: string
-          type?: "expense" | "income" | "savings"
+          type?: "expense" | "income" | "savings" | "transfer"
           category?: string
+          category_id?: string | null
           amount?: number
+          currency?: string
+          account_id?: string | null
+          transfer_account_id?: string | null
+          external_id?: string | null
+          tags?: string[] | null
+          splits?: { category: string; categoryId?: string; amount: number; notes?: string }[] | null
           notes?: string
           created_at?: string
           updated_at?: string
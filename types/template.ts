@@ -5,6 +5,8 @@ export interface TransactionTemplate {
   name: string
   type: ExpenseType
   category: string
+  // The category's id; the name is what it was called when the template was saved
+  categoryId?: string
   amount: number
   notes: string
   isDefault: boolean